@@ -0,0 +1,21 @@
+-- Scheduled jobs: listing expiry, expiry reminders and archived listing cleanup
+-- Expiry moves out of the read paths into a cron-triggered scheduled() handler
+
+-- Step 1: Track which expiry a reminder was sent for (bumps change expires_at,
+-- so a new reminder becomes due after every bump)
+ALTER TABLE `listings` ADD `expiry_reminder_sent_for` integer;
+
+-- Step 2: Run log for scheduled jobs
+CREATE TABLE `cron_runs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`job` text NOT NULL,
+	`status` text NOT NULL,
+	`items_processed` integer DEFAULT 0 NOT NULL,
+	`details` text,
+	`error` text,
+	`started_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`finished_at` text
+);
+
+CREATE INDEX `idx_cron_runs_job` ON `cron_runs` (`job`);
+CREATE INDEX `idx_cron_runs_started_at` ON `cron_runs` (`started_at`);
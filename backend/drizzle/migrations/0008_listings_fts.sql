@@ -0,0 +1,35 @@
+-- Full-text search over listings
+-- External-content FTS5 index on title, content and category, kept in sync
+-- with the listings table by triggers
+
+-- Step 1: Create the FTS5 index (rowid = listings.id)
+CREATE VIRTUAL TABLE `listings_fts` USING fts5(
+	title,
+	content,
+	category,
+	content='listings',
+	content_rowid='id',
+	tokenize='unicode61 remove_diacritics 2'
+);
+
+-- Step 2: Keep the index in sync with listings
+CREATE TRIGGER `listings_fts_ai` AFTER INSERT ON `listings` BEGIN
+	INSERT INTO `listings_fts` (rowid, title, content, category)
+	VALUES (new.id, new.title, new.content, new.category);
+END;
+
+CREATE TRIGGER `listings_fts_ad` AFTER DELETE ON `listings` BEGIN
+	INSERT INTO `listings_fts` (`listings_fts`, rowid, title, content, category)
+	VALUES ('delete', old.id, old.title, old.content, old.category);
+END;
+
+-- Only searchable columns: bumps, status changes and payments don't touch the index
+CREATE TRIGGER `listings_fts_au` AFTER UPDATE OF title, content, category ON `listings` BEGIN
+	INSERT INTO `listings_fts` (`listings_fts`, rowid, title, content, category)
+	VALUES ('delete', old.id, old.title, old.content, old.category);
+	INSERT INTO `listings_fts` (rowid, title, content, category)
+	VALUES (new.id, new.title, new.content, new.category);
+END;
+
+-- Step 3: Index existing listings
+INSERT INTO `listings_fts` (`listings_fts`) VALUES ('rebuild');
@@ -0,0 +1,32 @@
+-- Saved searches with Telegram digest alerts
+-- New and bumped listings are matched against saved searches and queued;
+-- the scheduled digest job DMs each owner their pending matches
+
+-- Step 1: Saved searches (filters is a JSON-encoded ListingFilters subset)
+CREATE TABLE `saved_searches` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`name` text NOT NULL,
+	`filters` text NOT NULL,
+	`is_muted` integer DEFAULT 0 NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX `idx_saved_searches_user_id` ON `saved_searches` (`user_id`);
+
+-- Step 2: Matches waiting for (or already sent in) a digest
+CREATE TABLE `saved_search_matches` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`saved_search_id` integer NOT NULL,
+	`listing_id` integer NOT NULL,
+	`user_id` integer NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`notified_at` integer,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`saved_search_id`) REFERENCES `saved_searches`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`listing_id`) REFERENCES `listings`(`id`) ON UPDATE no action ON DELETE cascade
+);
+
+CREATE UNIQUE INDEX `idx_saved_search_matches_search_listing` ON `saved_search_matches` (`saved_search_id`,`listing_id`);
+CREATE INDEX `idx_saved_search_matches_user_status` ON `saved_search_matches` (`user_id`,`status`);
@@ -0,0 +1,13 @@
+-- Favorites (watchlist) for listings
+-- Watchers are notified on price drops, expiry and archiving
+
+CREATE TABLE `favorites` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`listing_id` integer NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`listing_id`) REFERENCES `listings`(`id`) ON UPDATE no action ON DELETE cascade
+);
+
+CREATE UNIQUE INDEX `idx_favorites_user_listing` ON `favorites` (`user_id`,`listing_id`);
+CREATE INDEX `idx_favorites_listing_id` ON `favorites` (`listing_id`);
@@ -0,0 +1,32 @@
+-- Buyer-seller messaging tied to a listing
+-- Messages are stored here and relayed as bot DMs; replies to those DMs are
+-- routed back into the thread by the webhook
+
+-- Step 1: One conversation per buyer per listing
+CREATE TABLE `conversations` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`listing_id` integer NOT NULL,
+	`buyer_id` integer NOT NULL,
+	`seller_id` integer NOT NULL,
+	`last_message_at` integer,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`listing_id`) REFERENCES `listings`(`id`) ON UPDATE no action ON DELETE cascade
+);
+
+CREATE UNIQUE INDEX `idx_conversations_listing_buyer` ON `conversations` (`listing_id`,`buyer_id`);
+CREATE INDEX `idx_conversations_buyer_id` ON `conversations` (`buyer_id`);
+CREATE INDEX `idx_conversations_seller_id` ON `conversations` (`seller_id`);
+
+-- Step 2: Messages
+CREATE TABLE `messages` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`conversation_id` integer NOT NULL,
+	`sender_id` integer NOT NULL,
+	`body` text NOT NULL,
+	`read_at` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`conversation_id`) REFERENCES `conversations`(`id`) ON UPDATE no action ON DELETE cascade
+);
+
+CREATE INDEX `idx_messages_conversation_id` ON `messages` (`conversation_id`,`id`);
@@ -0,0 +1,33 @@
+-- Seller reviews after a completed deal
+-- A buyer marks a listing as bought, then leaves one 1-5 star review for it.
+-- Both keep a copy of the listing title so they outlive the listing itself.
+
+CREATE TABLE `purchases` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`listing_id` integer,
+	`listing_title` text NOT NULL,
+	`buyer_id` integer NOT NULL,
+	`seller_id` integer NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`listing_id`) REFERENCES `listings`(`id`) ON UPDATE no action ON DELETE set null
+);
+
+CREATE UNIQUE INDEX `idx_purchases_listing_buyer` ON `purchases` (`listing_id`,`buyer_id`);
+
+CREATE TABLE `reviews` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`purchase_id` integer NOT NULL,
+	`seller_id` integer NOT NULL,
+	`reviewer_id` integer NOT NULL,
+	`rating` integer NOT NULL CHECK (`rating` BETWEEN 1 AND 5),
+	`body` text,
+	`seller_reply` text,
+	`seller_replied_at` text,
+	`is_hidden` integer DEFAULT 0 NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`purchase_id`) REFERENCES `purchases`(`id`) ON UPDATE no action ON DELETE cascade
+);
+
+CREATE UNIQUE INDEX `idx_reviews_purchase_id` ON `reviews` (`purchase_id`);
+CREATE INDEX `idx_reviews_seller_id` ON `reviews` (`seller_id`,`is_hidden`);
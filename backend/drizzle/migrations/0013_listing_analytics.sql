@@ -0,0 +1,31 @@
+-- Listing analytics: views, contact clicks and shares
+-- Raw events are deduplicated per viewer per window and rolled up into
+-- daily stats by the lifecycle cron; only recent raw events are kept
+
+CREATE TABLE `listing_events` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`listing_id` integer NOT NULL,
+	`type` text NOT NULL,
+	`viewer_key` text NOT NULL,
+	`day` text NOT NULL,
+	`bucket` integer NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`listing_id`) REFERENCES `listings`(`id`) ON UPDATE no action ON DELETE cascade
+);
+
+CREATE UNIQUE INDEX `idx_listing_events_dedup` ON `listing_events` (`listing_id`,`type`,`viewer_key`,`bucket`);
+CREATE INDEX `idx_listing_events_day` ON `listing_events` (`day`);
+
+CREATE TABLE `listing_daily_stats` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`listing_id` integer NOT NULL,
+	`day` text NOT NULL,
+	`views` integer DEFAULT 0 NOT NULL,
+	`unique_viewers` integer DEFAULT 0 NOT NULL,
+	`contact_clicks` integer DEFAULT 0 NOT NULL,
+	`shares` integer DEFAULT 0 NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`listing_id`) REFERENCES `listings`(`id`) ON UPDATE no action ON DELETE cascade
+);
+
+CREATE UNIQUE INDEX `idx_listing_daily_stats_listing_day` ON `listing_daily_stats` (`listing_id`,`day`);
@@ -0,0 +1,10 @@
+-- Staff roles (owner, admin, moderator) granted by other staff
+-- TELEGRAM_ADMIN_ID stays the bootstrap owner and has no row here.
+
+CREATE TABLE `user_roles` (
+	`telegram_id` integer PRIMARY KEY NOT NULL,
+	`role` text NOT NULL CHECK (`role` IN ('owner', 'admin', 'moderator')),
+	`granted_by` integer NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	`updated_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
@@ -0,0 +1,27 @@
+-- Audit log of staff actions: bans, archives, admin deletes, refunds, role
+-- changes. Rows are never changed or removed, so the triggers reject both.
+
+CREATE TABLE `admin_actions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`actor_id` integer NOT NULL,
+	`actor_role` text NOT NULL,
+	`action` text NOT NULL,
+	`target_type` text NOT NULL,
+	`target_id` text,
+	`reason` text,
+	`before` text,
+	`after` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX `idx_admin_actions_created_at` ON `admin_actions` (`created_at`);
+CREATE INDEX `idx_admin_actions_actor` ON `admin_actions` (`actor_id`,`created_at`);
+CREATE INDEX `idx_admin_actions_target` ON `admin_actions` (`target_type`,`target_id`);
+
+CREATE TRIGGER `admin_actions_no_update` BEFORE UPDATE ON `admin_actions` BEGIN
+	SELECT RAISE(ABORT, 'admin_actions is append-only');
+END;
+
+CREATE TRIGGER `admin_actions_no_delete` BEFORE DELETE ON `admin_actions` BEGIN
+	SELECT RAISE(ABORT, 'admin_actions is append-only');
+END;
@@ -0,0 +1,22 @@
+-- User reports of listings and profiles, reviewed by staff in a queue grouped
+-- by target. Listings with enough distinct open reports are moved to
+-- under_review; status_before_review lets a dismissal put them back.
+
+ALTER TABLE `listings` ADD `status_before_review` text;
+
+CREATE TABLE `reports` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`reporter_id` integer NOT NULL,
+	`target_type` text NOT NULL,
+	`target_id` integer NOT NULL,
+	`reason` text NOT NULL,
+	`details` text,
+	`status` text DEFAULT 'open' NOT NULL,
+	`resolution` text,
+	`resolved_by` integer,
+	`resolved_at` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE UNIQUE INDEX `idx_reports_open_reporter` ON `reports` (`reporter_id`,`target_type`,`target_id`) WHERE status = 'open';
+CREATE INDEX `idx_reports_target` ON `reports` (`target_type`,`target_id`,`status`);
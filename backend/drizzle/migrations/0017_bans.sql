@@ -0,0 +1,38 @@
+-- Ban history with reasons and optional expiry, plus one appeal per ban.
+-- user_profiles.is_banned stays the flag every check reads; a ban row with
+-- lifted_at IS NULL is the ban currently in force.
+
+CREATE TABLE `bans` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`telegram_id` integer NOT NULL,
+	`reason` text NOT NULL,
+	`banned_by` integer,
+	`expires_at` integer,
+	`lifted_at` text,
+	`lifted_by` integer,
+	`lift_reason` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX `idx_bans_telegram_id` ON `bans` (`telegram_id`,`created_at`);
+CREATE INDEX `idx_bans_active_expiry` ON `bans` (`expires_at`) WHERE lifted_at IS NULL;
+
+CREATE TABLE `ban_appeals` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`ban_id` integer NOT NULL,
+	`telegram_id` integer NOT NULL,
+	`message` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`response` text,
+	`reviewed_by` integer,
+	`reviewed_at` text,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`ban_id`) REFERENCES `bans`(`id`) ON UPDATE no action ON DELETE cascade
+);
+
+CREATE UNIQUE INDEX `ban_appeals_ban_id_unique` ON `ban_appeals` (`ban_id`);
+CREATE INDEX `idx_ban_appeals_status` ON `ban_appeals` (`status`,`created_at`);
+
+-- Users banned before this migration get a permanent ban without a recorded reason
+INSERT INTO `bans` (`telegram_id`, `reason`, `created_at`)
+SELECT `telegram_id`, 'No reason recorded', `updated_at` FROM `user_profiles` WHERE `is_banned` = 1;
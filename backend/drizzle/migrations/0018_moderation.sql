@@ -0,0 +1,19 @@
+-- Content filter for listing and profile text. Staff manage word and regex
+-- rules here; listings the filter holds move to pending_review and reuse
+-- status_before_review, and findings that don't hold a listing are kept in
+-- moderation_flags for staff to look over.
+
+ALTER TABLE `listings` ADD `moderation_flags` text;
+
+CREATE TABLE `moderation_rules` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`kind` text NOT NULL,
+	`pattern` text NOT NULL,
+	`action` text NOT NULL,
+	`note` text,
+	`created_by` integer NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE UNIQUE INDEX `idx_moderation_rules_pattern` ON `moderation_rules` (`kind`,`pattern`);
+CREATE INDEX `idx_listings_moderation_flags` ON `listings` (`status`) WHERE moderation_flags IS NOT NULL;
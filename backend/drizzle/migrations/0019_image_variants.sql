@@ -0,0 +1,5 @@
+-- Uploaded images are rendered server-side at fixed sizes stored side by side
+-- under one R2 prefix. Images uploaded before keep only their image and
+-- thumbnail keys.
+
+ALTER TABLE `listing_images` ADD `variant_prefix` text;
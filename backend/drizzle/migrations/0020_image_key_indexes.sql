@@ -0,0 +1,8 @@
+-- Images are served through the worker, which looks up every requested key
+-- to check that it belongs to a listing image or an avatar before reading it
+-- from R2.
+
+CREATE INDEX `idx_listing_images_image_key` ON `listing_images` (`image_key`);
+CREATE INDEX `idx_listing_images_thumbnail_key` ON `listing_images` (`thumbnail_key`);
+CREATE INDEX `idx_listing_images_variant_prefix` ON `listing_images` (`variant_prefix`);
+CREATE INDEX `idx_user_profiles_profile_image_key` ON `user_profiles` (`profile_image_key`);
@@ -0,0 +1,40 @@
+-- Image upload sessions. A client reserves a slot per file, sends each file
+-- on its own (large ones as R2 multipart parts) into R2 under
+-- uploads/<session id>/, then commits; only then are the files processed
+-- into listing_images. Sessions left uncommitted are purged by the
+-- lifecycle cron along with their staged files.
+
+CREATE TABLE `upload_sessions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`listing_id` integer NOT NULL,
+	`user_id` integer NOT NULL,
+	`expires_at` integer NOT NULL,
+	`created_at` text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	FOREIGN KEY (`listing_id`) REFERENCES `listings`(`id`) ON UPDATE no action ON DELETE cascade
+);
+
+CREATE INDEX `idx_upload_sessions_listing_id` ON `upload_sessions` (`listing_id`);
+CREATE INDEX `idx_upload_sessions_expires_at` ON `upload_sessions` (`expires_at`);
+
+CREATE TABLE `upload_session_files` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`session_id` text NOT NULL,
+	`slot` integer NOT NULL,
+	`original_name` text NOT NULL,
+	`size` integer NOT NULL,
+	`multipart_upload_id` text,
+	`uploaded_at` integer,
+	FOREIGN KEY (`session_id`) REFERENCES `upload_sessions`(`id`) ON UPDATE no action ON DELETE cascade
+);
+
+CREATE UNIQUE INDEX `idx_upload_session_files_slot` ON `upload_session_files` (`session_id`,`slot`);
+
+CREATE TABLE `upload_session_parts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`file_id` integer NOT NULL,
+	`part_number` integer NOT NULL,
+	`etag` text NOT NULL,
+	FOREIGN KEY (`file_id`) REFERENCES `upload_session_files`(`id`) ON UPDATE no action ON DELETE cascade
+);
+
+CREATE UNIQUE INDEX `idx_upload_session_parts_file_part` ON `upload_session_parts` (`file_id`,`part_number`);
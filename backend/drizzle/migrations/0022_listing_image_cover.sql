@@ -0,0 +1,18 @@
+-- Sellers pick a listing's cover image explicitly instead of it always being
+-- the first upload. At most one cover per listing; existing listings get
+-- their first image as the cover.
+
+ALTER TABLE `listing_images` ADD `is_cover` integer DEFAULT 0 NOT NULL;
+
+UPDATE `listing_images` SET `is_cover` = 1
+WHERE `id` IN (
+  SELECT (
+    SELECT `first`.`id` FROM `listing_images` `first`
+    WHERE `first`.`listing_id` = `listing`.`listing_id`
+    ORDER BY `first`.`upload_order`, `first`.`id`
+    LIMIT 1
+  )
+  FROM (SELECT DISTINCT `listing_id` FROM `listing_images`) `listing`
+);
+
+CREATE UNIQUE INDEX `idx_listing_images_cover` ON `listing_images` (`listing_id`) WHERE `is_cover` = 1;
@@ -0,0 +1,8 @@
+-- Bytes each image and avatar takes up in R2, summed per user for the storage
+-- quota. Images uploaded before only recorded their full-size file, which
+-- stands in for the total.
+
+ALTER TABLE `listing_images` ADD `stored_bytes` integer DEFAULT 0 NOT NULL;
+ALTER TABLE `user_profiles` ADD `profile_image_size` integer DEFAULT 0 NOT NULL;
+
+UPDATE `listing_images` SET `stored_bytes` = `file_size`;
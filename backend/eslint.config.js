@@ -15,6 +15,9 @@ export default [
         ...globals.node,
         ...globals.worker,
         KVNamespace: "readonly",
+        ImagesBinding: "readonly",
+        ImageTransform: "readonly",
+        ImageOutputOptions: "readonly",
         ExportedHandler: "readonly",
         ScheduledController: "readonly",
         ExportedHandlerFetchHandler: "readonly",
@@ -1,77 +1,46 @@
-import { Context } from "hono";
+import type { Context } from "hono";
 import { createDatabase } from "../db";
-import { SessionManager } from "../services/session-manager";
 import { ProfileService } from "../services/profile-service";
-import { isAdmin } from "../services/admin-auth";
-import { sendBanNotification } from "../services/notification-service";
+import {
+  sendAppealOutcomeNotification,
+  sendBanNotification,
+} from "../services/notification-service";
+import { SchedulerService } from "../services/scheduler-service";
+import { ReviewService } from "../services/review-service";
+import { RoleService } from "../services/role-service";
+import { AuditService } from "../services/audit-service";
+import { BanService } from "../services/ban-service";
+import { RateLimitService } from "../services/rate-limit-service";
+import { StorageService } from "../services/storage-service";
+import { canAssignRole, isBootstrapOwner } from "../services/admin-auth";
+import type { ValidatedContext } from "../middleware/validator";
 import type { Env } from "../types/env";
-import { eq } from "drizzle-orm";
-import { userProfiles } from "../db/schema";
-
-// Helper: Extract and validate admin session
-async function authenticateAdmin(c: Context<{ Bindings: Env }>) {
-  const authHeader = c.req.header("Authorization");
-  if (!authHeader) {
-    return {
-      error: { message: "Authentication required", status: 401 as const },
-    };
-  }
-
-  let sessionId: string;
-  if (authHeader.startsWith("Bearer ")) {
-    sessionId = authHeader.substring(7).trim();
-  } else if (authHeader.startsWith("Session ")) {
-    sessionId = authHeader.substring(8).trim();
-  } else {
-    sessionId = authHeader.trim();
-  }
-
-  if (!sessionId) {
-    return {
-      error: { message: "Authentication required", status: 401 as const },
-    };
-  }
-
-  const sessionManager = SessionManager.create(c.env);
-  const session = await sessionManager.validateSession(sessionId);
-  if (!session) {
-    return {
-      error: { message: "Invalid or expired session", status: 401 as const },
-    };
-  }
-
-  // Check if user is admin
-  if (!isAdmin(session.telegramId, c.env)) {
-    return {
-      error: { message: "Admin privileges required", status: 401 as const },
-    };
-  }
-
-  return { session };
-}
+import { USER_STORAGE_QUOTA_BYTES } from "../../../shared/constants";
+import type {
+  AppealIdParam,
+  AppealsQuery,
+  AuditQuery,
+  BanUserInput,
+  CronRunsQuery,
+  GrantRoleInput,
+  RateLimitOverrides,
+  ResolveAppealInput,
+  ReviewIdParam,
+  StorageQuery,
+  TelegramIdParam,
+} from "../../../shared/schemas";
 
 /**
  * POST /api/admin/ban/:telegramId
- * Ban a user (admin only)
+ * Ban a user (ban_user)
+ * Body: { reason: string, durationDays?: number } - omit durationDays for a permanent ban
  */
-export async function banUser(c: Context<{ Bindings: Env }>) {
-  // Authenticate as admin
-  const auth = await authenticateAdmin(c);
-  if ("error" in auth && auth.error) {
-    return c.json({ error: auth.error.message }, auth.error.status);
-  }
-
-  if (!("session" in auth)) {
-    return c.json({ error: "Authentication failed" }, 401);
-  }
-
-  const { session } = auth;
-
-  // Get target telegram ID
-  const targetTelegramId = parseInt(c.req.param("telegramId"), 10);
-  if (isNaN(targetTelegramId)) {
-    return c.json({ error: "Invalid telegram ID" }, 400);
-  }
+export async function banUser(
+  c: ValidatedContext<{ param: TelegramIdParam; json: BanUserInput }>,
+) {
+  const session = c.get("session");
+  const { telegramId: targetTelegramId } = c.req.valid("param");
+  const { reason, durationDays } = c.req.valid("json");
 
   // Prevent self-ban
   if (targetTelegramId === session.telegramId) {
@@ -94,25 +63,34 @@ export async function banUser(c: Context<{ Bindings: Env }>) {
     }
 
     // Ban the user
-    await db
-      .update(userProfiles)
-      .set({
-        isBanned: 1,
-        updatedAt: new Date().toISOString(),
-      })
-      .where(eq(userProfiles.telegramId, targetTelegramId));
+    const banService = new BanService(db, c.env);
+    const result = await banService.ban(
+      targetTelegramId,
+      { reason, durationDays },
+      session,
+    );
+    if ("error" in result) {
+      return c.json({ error: result.error }, 403);
+    }
+    const { ban } = result;
+
+    const auditService = new AuditService(db, c.env);
+    await auditService.record(session, {
+      action: "ban_user",
+      targetType: "user",
+      targetId: targetTelegramId,
+      reason,
+      before: { isBanned: false },
+      after: { isBanned: true, banId: ban.id, expiresAt: ban.expiresAt },
+    });
 
     // Send notification to banned user
-    try {
-      await sendBanNotification(c.env, targetTelegramId, true);
-    } catch (error) {
-      console.error("Failed to send ban notification:", error);
-      // Don't fail the ban action if notification fails
-    }
+    await sendBanNotification(c.env, targetTelegramId, true, ban);
 
     return c.json({
       success: true,
       message: "User banned successfully",
+      ban,
     });
   } catch (error) {
     console.error("Error banning user:", error);
@@ -122,24 +100,13 @@ export async function banUser(c: Context<{ Bindings: Env }>) {
 
 /**
  * POST /api/admin/unban/:telegramId
- * Unban a user (admin only)
+ * Unban a user (ban_user)
  */
-export async function unbanUser(c: Context<{ Bindings: Env }>) {
-  // Authenticate as admin
-  const auth = await authenticateAdmin(c);
-  if ("error" in auth && auth.error) {
-    return c.json({ error: auth.error.message }, auth.error.status);
-  }
-
-  if (!("session" in auth)) {
-    return c.json({ error: "Authentication failed" }, 401);
-  }
-
-  // Get target telegram ID
-  const targetTelegramId = parseInt(c.req.param("telegramId"), 10);
-  if (isNaN(targetTelegramId)) {
-    return c.json({ error: "Invalid telegram ID" }, 400);
-  }
+export async function unbanUser(
+  c: ValidatedContext<{ param: TelegramIdParam }>,
+) {
+  const session = c.get("session");
+  const { telegramId: targetTelegramId } = c.req.valid("param");
 
   try {
     const db = createDatabase(c.env.DB);
@@ -157,21 +124,24 @@ export async function unbanUser(c: Context<{ Bindings: Env }>) {
     }
 
     // Unban the user
-    await db
-      .update(userProfiles)
-      .set({
-        isBanned: 0,
-        updatedAt: new Date().toISOString(),
-      })
-      .where(eq(userProfiles.telegramId, targetTelegramId));
+    const banService = new BanService(db, c.env);
+    const lifted = await banService.unban(
+      targetTelegramId,
+      session.telegramId,
+      "unbanned",
+    );
+
+    const auditService = new AuditService(db, c.env);
+    await auditService.record(session, {
+      action: "unban_user",
+      targetType: "user",
+      targetId: targetTelegramId,
+      before: { isBanned: true, banId: lifted?.id, reason: lifted?.reason },
+      after: { isBanned: false },
+    });
 
     // Send notification to unbanned user
-    try {
-      await sendBanNotification(c.env, targetTelegramId, false);
-    } catch (error) {
-      console.error("Failed to send unban notification:", error);
-      // Don't fail the unban action if notification fails
-    }
+    await sendBanNotification(c.env, targetTelegramId, false);
 
     return c.json({
       success: true,
@@ -182,3 +152,453 @@ export async function unbanUser(c: Context<{ Bindings: Env }>) {
     return c.json({ error: "Failed to unban user" }, 500);
   }
 }
+
+/**
+ * GET /api/admin/bans/:telegramId
+ * A user's bans, newest first, with the one in force (ban_user)
+ */
+export async function getBanHistory(
+  c: ValidatedContext<{ param: TelegramIdParam }>,
+) {
+  const { telegramId } = c.req.valid("param");
+
+  try {
+    const db = createDatabase(c.env.DB);
+    const banService = new BanService(db, c.env);
+    const bans = await banService.getBanHistory(telegramId);
+
+    return c.json({
+      activeBan: bans.find((ban) => ban.liftedAt === null) ?? null,
+      bans,
+    });
+  } catch (error) {
+    console.error("Error fetching ban history:", error);
+    return c.json({ error: "Failed to fetch ban history" }, 500);
+  }
+}
+
+/**
+ * GET /api/admin/appeals
+ * Ban appeals, oldest first (ban_user)
+ * Query: ?status=pending|accepted|rejected&limit=20&offset=0
+ */
+export async function getAppeals(c: ValidatedContext<{ query: AppealsQuery }>) {
+  const { status, limit, offset } = c.req.valid("query");
+
+  try {
+    const db = createDatabase(c.env.DB);
+    const banService = new BanService(db, c.env);
+    const { appeals, total } = await banService.listAppeals({
+      status,
+      limit,
+      offset,
+    });
+
+    return c.json({ appeals, total, limit, offset });
+  } catch (error) {
+    console.error("Error fetching appeals:", error);
+    return c.json({ error: "Failed to fetch appeals" }, 500);
+  }
+}
+
+/**
+ * POST /api/admin/appeals/:appealId/resolve
+ * Accept (lifting the ban) or reject a pending appeal (ban_user)
+ * Body: { decision: 'accepted' | 'rejected', response?: string } - response is sent to the user
+ */
+export async function resolveAppeal(
+  c: ValidatedContext<{ param: AppealIdParam; json: ResolveAppealInput }>,
+) {
+  const session = c.get("session");
+  const { appealId } = c.req.valid("param");
+  const { decision, response } = c.req.valid("json");
+
+  try {
+    const db = createDatabase(c.env.DB);
+    const banService = new BanService(db, c.env);
+
+    const appeal = await banService.getAppealById(appealId);
+    if (!appeal) {
+      return c.json({ error: "Appeal not found" }, 404);
+    }
+
+    const decided = await banService.resolveAppeal(
+      appeal,
+      decision,
+      session.telegramId,
+      response,
+    );
+    if (!decided) {
+      return c.json({ error: "Appeal has already been decided" }, 409);
+    }
+
+    const auditService = new AuditService(db, c.env);
+    await auditService.record(session, {
+      action: decision === "accepted" ? "accept_appeal" : "reject_appeal",
+      targetType: "user",
+      targetId: appeal.telegramId,
+      reason: response,
+      before: appeal,
+      after: decided,
+    });
+
+    await sendAppealOutcomeNotification(
+      c.env,
+      appeal.telegramId,
+      decision === "accepted",
+      response,
+    );
+
+    return c.json({ success: true, appeal: decided });
+  } catch (error) {
+    console.error("Error resolving appeal:", error);
+    return c.json({ error: "Failed to resolve appeal" }, 500);
+  }
+}
+
+// Helper: Hide or restore a review
+async function setReviewHidden(
+  c: ValidatedContext<{ param: ReviewIdParam }>,
+  hidden: boolean,
+) {
+  const session = c.get("session");
+  const { reviewId } = c.req.valid("param");
+
+  try {
+    const db = createDatabase(c.env.DB);
+    const reviewService = new ReviewService(db, c.env);
+    const existing = await reviewService.getReviewById(reviewId);
+    if (!existing) {
+      return c.json({ error: "Review not found" }, 404);
+    }
+
+    const review = await reviewService.setHidden(reviewId, hidden);
+
+    const auditService = new AuditService(db, c.env);
+    await auditService.record(session, {
+      action: hidden ? "hide_review" : "unhide_review",
+      targetType: "review",
+      targetId: reviewId,
+      before: reviewService.formatReview(existing),
+      after: reviewService.formatReview(review),
+    });
+
+    return c.json({
+      success: true,
+      review: reviewService.formatReview(review),
+    });
+  } catch (error) {
+    console.error("Error updating review visibility:", error);
+    return c.json({ error: "Failed to update review" }, 500);
+  }
+}
+
+/**
+ * POST /api/admin/reviews/:reviewId/hide
+ * Hide an abusive review from the seller's profile (hide_review)
+ */
+export async function hideReview(
+  c: ValidatedContext<{ param: ReviewIdParam }>,
+) {
+  return setReviewHidden(c, true);
+}
+
+/**
+ * POST /api/admin/reviews/:reviewId/unhide
+ * Restore a hidden review (hide_review)
+ */
+export async function unhideReview(
+  c: ValidatedContext<{ param: ReviewIdParam }>,
+) {
+  return setReviewHidden(c, false);
+}
+
+/**
+ * GET /api/admin/cron-runs
+ * Recent scheduled job runs, newest first (view_cron_runs)
+ * Query: ?job=<CronJob>&limit=50
+ */
+export async function getCronRuns(
+  c: ValidatedContext<{ query: CronRunsQuery }>,
+) {
+  const { job, limit } = c.req.valid("query");
+
+  try {
+    const db = createDatabase(c.env.DB);
+    const schedulerService = new SchedulerService(db, c.env);
+    const runs = await schedulerService.getRecentRuns(limit, job);
+
+    return c.json({
+      runs: runs.map((run) => ({
+        ...run,
+        details: run.details ? JSON.parse(run.details) : null,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching cron runs:", error);
+    return c.json({ error: "Failed to fetch cron runs" }, 500);
+  }
+}
+
+/**
+ * GET /api/admin/storage
+ * Users storing the most images, and the bucket total (view_storage)
+ * Query: ?limit=20
+ */
+export async function getStorageUsage(
+  c: ValidatedContext<{ query: StorageQuery }>,
+) {
+  const { limit } = c.req.valid("query");
+
+  try {
+    const db = createDatabase(c.env.DB);
+    const storageService = new StorageService(db, c.env);
+    const { users, totalBytes } = await storageService.getTopUsers(limit);
+
+    return c.json({ users, totalBytes, quotaBytes: USER_STORAGE_QUOTA_BYTES });
+  } catch (error) {
+    console.error("Error fetching storage usage:", error);
+    return c.json({ error: "Failed to fetch storage usage" }, 500);
+  }
+}
+
+/**
+ * GET /api/admin/storage/:telegramId
+ * One user's storage against their quota (view_storage)
+ */
+export async function getUserStorageUsage(
+  c: ValidatedContext<{ param: TelegramIdParam }>,
+) {
+  const { telegramId } = c.req.valid("param");
+
+  try {
+    const db = createDatabase(c.env.DB);
+    const storageService = new StorageService(db, c.env);
+    const usage = await storageService.getUserUsage(telegramId);
+
+    return c.json({ usage });
+  } catch (error) {
+    console.error("Error fetching storage usage:", error);
+    return c.json({ error: "Failed to fetch storage usage" }, 500);
+  }
+}
+
+/**
+ * GET /api/admin/roles
+ * Staff with a granted role, most recently changed first (manage_roles)
+ */
+export async function getRoles(c: Context<{ Bindings: Env }>) {
+  try {
+    const db = createDatabase(c.env.DB);
+    const roleService = new RoleService(db, c.env);
+    const roles = await roleService.listRoles();
+
+    return c.json({ roles });
+  } catch (error) {
+    console.error("Error fetching roles:", error);
+    return c.json({ error: "Failed to fetch roles" }, 500);
+  }
+}
+
+// Helper: Reasons a staff member can't change the target's role, if any
+async function checkRoleChange(
+  c: ValidatedContext<{ param: TelegramIdParam }>,
+  roleService: RoleService,
+) {
+  const session = c.get("session");
+  const { telegramId } = c.req.valid("param");
+
+  if (telegramId === session.telegramId) {
+    return { error: "Cannot change your own role", status: 400 as const };
+  }
+  if (isBootstrapOwner(telegramId, c.env)) {
+    return {
+      error: "The bootstrap owner's role can't be changed",
+      status: 400 as const,
+    };
+  }
+
+  const currentRole = await roleService.getRole(telegramId);
+  if (currentRole !== "user" && !canAssignRole(session.role, currentRole)) {
+    return {
+      error: `You can't change the role of a ${currentRole}`,
+      status: 403 as const,
+    };
+  }
+
+  return { currentRole };
+}
+
+/**
+ * PUT /api/admin/roles/:telegramId
+ * Grant a staff role, replacing any current one (manage_roles)
+ */
+export async function grantRole(
+  c: ValidatedContext<{ param: TelegramIdParam; json: GrantRoleInput }>,
+) {
+  const session = c.get("session");
+  const { telegramId } = c.req.valid("param");
+  const { role } = c.req.valid("json");
+
+  if (!canAssignRole(session.role, role)) {
+    return c.json({ error: `You can't grant the ${role} role` }, 403);
+  }
+
+  try {
+    const db = createDatabase(c.env.DB);
+    const roleService = new RoleService(db, c.env);
+
+    const check = await checkRoleChange(c, roleService);
+    if ("error" in check) {
+      return c.json({ error: check.error }, check.status);
+    }
+
+    const profileService = new ProfileService(c.env.DB);
+    const profile = await profileService.getProfile(telegramId);
+    if (!profile) {
+      return c.json({ error: "Profile not found" }, 404);
+    }
+
+    const grant = await roleService.grantRole(
+      telegramId,
+      role,
+      session.telegramId,
+    );
+
+    const auditService = new AuditService(db, c.env);
+    await auditService.record(session, {
+      action: "grant_role",
+      targetType: "user",
+      targetId: telegramId,
+      before: { role: check.currentRole },
+      after: { role },
+    });
+
+    return c.json({ success: true, role: grant });
+  } catch (error) {
+    console.error("Error granting role:", error);
+    return c.json({ error: "Failed to grant role" }, 500);
+  }
+}
+
+/**
+ * DELETE /api/admin/roles/:telegramId
+ * Revoke a staff role; the user goes back to a regular account (manage_roles)
+ */
+export async function revokeRole(
+  c: ValidatedContext<{ param: TelegramIdParam }>,
+) {
+  const session = c.get("session");
+  const { telegramId } = c.req.valid("param");
+
+  try {
+    const db = createDatabase(c.env.DB);
+    const roleService = new RoleService(db, c.env);
+
+    const check = await checkRoleChange(c, roleService);
+    if ("error" in check) {
+      return c.json({ error: check.error }, check.status);
+    }
+    if (check.currentRole === "user") {
+      return c.json({ error: "User has no role" }, 404);
+    }
+
+    await roleService.revokeRole(telegramId);
+
+    const auditService = new AuditService(db, c.env);
+    await auditService.record(session, {
+      action: "revoke_role",
+      targetType: "user",
+      targetId: telegramId,
+      before: { role: check.currentRole },
+      after: { role: "user" },
+    });
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error revoking role:", error);
+    return c.json({ error: "Failed to revoke role" }, 500);
+  }
+}
+
+/**
+ * GET /api/admin/audit
+ * Staff actions, newest first (view_audit_log)
+ * Query: ?action=&actorId=&targetType=&targetId=&from=&to=&limit=50&offset=0
+ */
+export async function getAuditLog(c: ValidatedContext<{ query: AuditQuery }>) {
+  const filters = c.req.valid("query");
+
+  try {
+    const db = createDatabase(c.env.DB);
+    const auditService = new AuditService(db, c.env);
+    const { actions, total } = await auditService.list(filters);
+
+    return c.json({
+      actions: actions.map((action) => auditService.formatAction(action)),
+      total,
+      limit: filters.limit,
+      offset: filters.offset,
+    });
+  } catch (error) {
+    console.error("Error fetching audit log:", error);
+    return c.json({ error: "Failed to fetch audit log" }, 500);
+  }
+}
+
+/**
+ * GET /api/admin/rate-limits
+ * Rate limit policies in force and the overrides behind them (manage_rate_limits)
+ */
+export async function getRateLimits(c: Context<{ Bindings: Env }>) {
+  try {
+    const rateLimitService = new RateLimitService(c.env);
+    const [policies, overrides] = await Promise.all([
+      rateLimitService.getPolicies(),
+      rateLimitService.getOverrides(),
+    ]);
+
+    return c.json({ policies, overrides });
+  } catch (error) {
+    console.error("Error fetching rate limits:", error);
+    return c.json({ error: "Failed to fetch rate limits" }, 500);
+  }
+}
+
+/**
+ * PUT /api/admin/rate-limits
+ * Replace the rate limit overrides; policies left out go back to their
+ * defaults (manage_rate_limits). Edge caches can serve the old limits for
+ * up to a minute.
+ * Body: { [policy]: { limit: number, windowSeconds: number } }
+ */
+export async function updateRateLimits(
+  c: ValidatedContext<{ json: RateLimitOverrides }>,
+) {
+  const session = c.get("session");
+  const overrides = c.req.valid("json");
+
+  try {
+    const rateLimitService = new RateLimitService(c.env);
+    const before = await rateLimitService.getOverrides();
+    await rateLimitService.setOverrides(overrides);
+
+    const db = createDatabase(c.env.DB);
+    const auditService = new AuditService(db, c.env);
+    await auditService.record(session, {
+      action: "update_rate_limits",
+      targetType: "rate_limit",
+      before,
+      after: overrides,
+    });
+
+    return c.json({
+      success: true,
+      policies: await rateLimitService.getPolicies(),
+      overrides,
+    });
+  } catch (error) {
+    console.error("Error updating rate limits:", error);
+    return c.json({ error: "Failed to update rate limits" }, 500);
+  }
+}
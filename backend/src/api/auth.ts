@@ -2,7 +2,12 @@ import { Context } from "hono";
 import { TelegramAuthService } from "../services/telegram-auth";
 import { SessionManager } from "../services/session-manager";
 import { ProfileService } from "../services/profile-service";
+import { BanService } from "../services/ban-service";
+import { createDatabase } from "../db";
+import type { ValidatedContext } from "../middleware/validator";
 import type { Env } from "../types/env";
+import { ROLE_PERMISSIONS, type UserRole } from "../../../shared/constants";
+import type { SessionIdParam } from "../../../shared/schemas";
 
 export async function authHandler(
   c: Context<{ Bindings: Env }>,
@@ -32,6 +37,19 @@ export async function authHandler(
 
 import { mockUser as devMockUser } from "../dev/mock-user";
 
+// Age of initData accepted when renewing a session, i.e. how long the app can
+// stay open and keep its user signed in
+const RENEWAL_INIT_DATA_MAX_AGE = 7 * 24 * 60 * 60;
+
+// isAdmin is kept for older clients: true for every staff role
+function roleFields(role: UserRole) {
+  return {
+    role,
+    isAdmin: role !== "user",
+    permissions: ROLE_PERMISSIONS[role],
+  };
+}
+
 async function handleAuthentication(
   c: Context<{ Bindings: Env }>,
 ): Promise<Response> {
@@ -39,7 +57,10 @@ async function handleAuthentication(
 
   // DEV-ONLY: Auth bypass for local development
   if (c.env.DEV_AUTH_BYPASS_ENABLED === "true") {
-    const session = await sessionManager.createSession(devMockUser);
+    const session = await sessionManager.createSession(
+      devMockUser,
+      c.req.header("User-Agent"),
+    );
 
     return c.json({
       authenticated: true,
@@ -54,8 +75,7 @@ async function handleAuthentication(
         photo_url: devMockUser.photo_url,
       },
       expiresAt: session!.expiresAt,
-      role: session!.role,
-      isAdmin: session!.role === "admin",
+      ...roleFields(session!.role),
       source: "dev_bypass",
     });
   }
@@ -68,19 +88,18 @@ async function handleAuthentication(
     // Continue with empty body
   }
 
-  const { sessionId, initData } = body;
+  const { sessionId, initData, renew } = body;
   const authHeader = c.req.header("Authorization");
   const sessionIdHeader = c.req.header("X-Session-ID");
 
   const finalSessionId = (sessionId || sessionIdHeader) as string | undefined;
   const initDataParam = initData as string | undefined;
 
-  const telegramAuth = new TelegramAuthService(c.env.TELEGRAM_BOT_TOKEN);
-
   // Try session validation first
   if (finalSessionId) {
-    const session = await sessionManager.validateSession(finalSessionId);
-    if (session) {
+    const validSession = await sessionManager.validateSession(finalSessionId);
+    if (validSession) {
+      const session = await sessionManager.slideSession(validSession);
       return c.json({
         authenticated: true,
         sessionId: session.sessionId,
@@ -95,14 +114,21 @@ async function handleAuthentication(
           is_premium: session.isPremium,
         },
         expiresAt: session.expiresAt,
-        role: session.role,
-        isAdmin: session.role === "admin",
+        ...roleFields(session.role),
         source: "session",
       });
     }
   }
 
-  // Fall back to initData validation
+  // Fall back to initData validation. A client renewing a session that
+  // expired while the app stayed open only has the initData the app opened
+  // with, so that is accepted for longer, but only in exchange for a session
+  // that wasn't revoked
+  const renewing = renew === true && !!finalSessionId;
+  const telegramAuth = new TelegramAuthService(
+    c.env.TELEGRAM_BOT_TOKEN,
+    renewing ? RENEWAL_INIT_DATA_MAX_AGE : undefined,
+  );
   const extractedInitData = telegramAuth.extractInitData(
     authHeader,
     initDataParam,
@@ -123,11 +149,32 @@ async function handleAuthentication(
   try {
     const user = await telegramAuth.validateInitData(extractedInitData);
 
-    // Check if user is banned
+    if (
+      renewing &&
+      !(await sessionManager.claimRenewal(finalSessionId, user.id))
+    ) {
+      return c.json(
+        {
+          authenticated: false,
+          message: "Session can't be renewed",
+          error: "RENEWAL_REFUSED",
+          reason: "session_revoked",
+        },
+        401,
+      );
+    }
+
+    // Check if user is banned (a temporary ban past its expiry is lifted
+    // here rather than waiting for the scheduled run)
     const profileService = new ProfileService(c.env.DB);
     const profile = await profileService.getProfile(user.id);
+    const banService = new BanService(createDatabase(c.env.DB), c.env);
 
-    if (profile && profile.isBanned === 1) {
+    if (
+      profile &&
+      profile.isBanned === 1 &&
+      !(await banService.liftIfExpired(user.id))
+    ) {
       return c.json(
         {
           authenticated: false,
@@ -140,7 +187,10 @@ async function handleAuthentication(
     }
 
     // Create new session
-    const session = await sessionManager.createSession(user);
+    const session = await sessionManager.createSession(
+      user,
+      c.req.header("User-Agent"),
+    );
 
     return c.json({
       authenticated: true,
@@ -155,8 +205,7 @@ async function handleAuthentication(
         photo_url: user.photo_url,
       },
       expiresAt: session!.expiresAt,
-      role: session!.role,
-      isAdmin: session!.role === "admin",
+      ...roleFields(session!.role),
       source: "initdata",
     });
   } catch (error) {
@@ -174,3 +223,75 @@ async function handleAuthentication(
     );
   }
 }
+
+/**
+ * POST /api/auth/logout
+ * End the session the request was made with. Banned users can log out too,
+ * so this checks for a session rather than going through requireAuth.
+ */
+export const logout = async (c: Context<{ Bindings: Env }>) => {
+  try {
+    const session = c.get("viewer");
+    if (!session) {
+      return c.json({ error: "Authentication required" }, 401);
+    }
+
+    const sessionManager = SessionManager.create(c.env);
+    await sessionManager.deleteSession(session);
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error logging out:", error);
+    return c.json({ error: "Failed to log out" }, 500);
+  }
+};
+
+/**
+ * GET /api/auth/sessions
+ * The signed-in user's active sessions, with the current one marked
+ */
+export const getSessions = async (c: Context<{ Bindings: Env }>) => {
+  try {
+    const session = c.get("session");
+    const sessionManager = SessionManager.create(c.env);
+
+    const sessions = await sessionManager.listSessions(session.userId);
+
+    return c.json({
+      sessions: sessions.map((summary) => ({
+        ...summary,
+        current: summary.id === session.publicId,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching sessions:", error);
+    return c.json({ error: "Failed to fetch sessions" }, 500);
+  }
+};
+
+/**
+ * DELETE /api/auth/sessions/:sessionId
+ * Sign one of the user's sessions out, e.g. a lost phone
+ */
+export const revokeSession = async (
+  c: ValidatedContext<{ param: SessionIdParam }>,
+) => {
+  try {
+    const session = c.get("session");
+    const { sessionId } = c.req.valid("param");
+    const sessionManager = SessionManager.create(c.env);
+
+    const revoked = await sessionManager.revokeSession(
+      session.userId,
+      sessionId,
+    );
+    if (!revoked) {
+      return c.json({ error: "Session not found" }, 404);
+    }
+
+    return c.json({ success: true, current: sessionId === session.publicId });
+  } catch (error) {
+    console.error("Error revoking session:", error);
+    return c.json({ error: "Failed to revoke session" }, 500);
+  }
+};
@@ -0,0 +1,191 @@
+import { Context } from "hono";
+import { createDatabase } from "../db";
+import { ConversationService } from "../services/conversation-service";
+import { ListingService } from "../services/listing-service";
+import { ProfileService } from "../services/profile-service";
+import type { ValidatedContext } from "../middleware/validator";
+import type { Env } from "../types/env";
+import {
+  HELD_LISTING_STATUSES,
+  LISTING_STATUS,
+  type ListingStatus,
+} from "../../../shared/constants";
+import type {
+  ConversationIdParam,
+  ConversationQuery,
+  SendMessageInput,
+  StartConversationInput,
+} from "../../../shared/schemas";
+
+// Messages returned per page of a thread
+const MESSAGES_PAGE_SIZE = 50;
+
+// Listings buyers can no longer open a thread about
+const CLOSED_TO_NEW_CONVERSATIONS: ListingStatus[] = [
+  ...HELD_LISTING_STATUSES,
+  LISTING_STATUS.ARCHIVED,
+  LISTING_STATUS.SOLD,
+];
+
+export const getConversations = async (c: Context<{ Bindings: Env }>) => {
+  try {
+    const session = c.get("session");
+
+    const db = createDatabase(c.env.DB);
+    const conversationService = new ConversationService(db, c.env);
+    const conversations = await conversationService.getUserConversations(
+      session.userId,
+    );
+
+    return c.json({ conversations });
+  } catch (error) {
+    console.error("Error fetching conversations:", error);
+    return c.json({ error: "Failed to fetch conversations" }, 500);
+  }
+};
+
+export const startConversation = async (
+  c: ValidatedContext<{ json: StartConversationInput }>,
+) => {
+  try {
+    const session = c.get("session");
+    const { listingId, message: firstMessage } = c.req.valid("json");
+
+    const db = createDatabase(c.env.DB);
+    const listingService = new ListingService(db, c.env);
+    const listing = await listingService.getListingById(listingId);
+    if (!listing) {
+      return c.json({ error: "Listing not found" }, 404);
+    }
+    if (listing.userId === session.userId) {
+      return c.json({ error: "Cannot message yourself" }, 400);
+    }
+    if (CLOSED_TO_NEW_CONVERSATIONS.includes(listing.status as ListingStatus)) {
+      return c.json({ error: "This listing is no longer available" }, 400);
+    }
+
+    const seller = await new ProfileService(c.env.DB).getProfile(
+      listing.userId,
+    );
+    if (seller?.isBanned === 1) {
+      return c.json({ error: "This seller can't be messaged" }, 400);
+    }
+
+    const conversationService = new ConversationService(db, c.env);
+    const conversation = await conversationService.getOrCreateConversation(
+      listing,
+      session.userId,
+    );
+
+    const message = firstMessage
+      ? await conversationService.sendMessage(
+          conversation,
+          session.userId,
+          firstMessage,
+        )
+      : null;
+
+    return c.json(
+      {
+        conversation: conversationService.formatConversation(
+          conversation,
+          session.userId,
+        ),
+        message,
+      },
+      201,
+    );
+  } catch (error) {
+    console.error("Error starting conversation:", error);
+    return c.json({ error: "Failed to start conversation" }, 500);
+  }
+};
+
+export const getConversation = async (
+  c: ValidatedContext<{
+    param: ConversationIdParam;
+    query: ConversationQuery;
+  }>,
+) => {
+  try {
+    const session = c.get("session");
+    const { conversationId } = c.req.valid("param");
+    const { before } = c.req.valid("query");
+
+    const db = createDatabase(c.env.DB);
+    const conversationService = new ConversationService(db, c.env);
+    const conversation =
+      await conversationService.getConversationById(conversationId);
+    if (!conversation) {
+      return c.json({ error: "Conversation not found" }, 404);
+    }
+
+    const userId = session.userId;
+    if (!conversationService.isParticipant(conversation, userId)) {
+      return c.json({ error: "Unauthorized" }, 403);
+    }
+
+    const messages = await conversationService.getMessages(
+      conversationId,
+      userId,
+      MESSAGES_PAGE_SIZE,
+      before,
+    );
+    await conversationService.markRead(conversationId, userId);
+
+    const listingService = new ListingService(db, c.env);
+    const listing = await listingService.getListingById(conversation.listingId);
+
+    return c.json({
+      conversation: conversationService.formatConversation(
+        conversation,
+        userId,
+      ),
+      listing: listing
+        ? {
+            id: listing.id,
+            title: listing.title,
+            price: listing.price,
+            status: listing.status,
+          }
+        : null,
+      messages,
+      hasMore: messages.length === MESSAGES_PAGE_SIZE,
+    });
+  } catch (error) {
+    console.error("Error fetching conversation:", error);
+    return c.json({ error: "Failed to fetch conversation" }, 500);
+  }
+};
+
+export const sendMessage = async (
+  c: ValidatedContext<{ param: ConversationIdParam; json: SendMessageInput }>,
+) => {
+  try {
+    const session = c.get("session");
+    const { conversationId } = c.req.valid("param");
+    const { body } = c.req.valid("json");
+
+    const db = createDatabase(c.env.DB);
+    const conversationService = new ConversationService(db, c.env);
+    const conversation =
+      await conversationService.getConversationById(conversationId);
+    if (!conversation) {
+      return c.json({ error: "Conversation not found" }, 404);
+    }
+    if (!conversationService.isParticipant(conversation, session.userId)) {
+      return c.json({ error: "Unauthorized" }, 403);
+    }
+
+    const message = await conversationService.sendMessage(
+      conversation,
+      session.userId,
+      body,
+    );
+
+    return c.json({ message }, 201);
+  } catch (error) {
+    console.error("Error sending message:", error);
+    return c.json({ error: "Failed to send message" }, 500);
+  }
+};
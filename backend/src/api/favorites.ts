@@ -0,0 +1,96 @@
+import { Context } from "hono";
+import { createDatabase } from "../db";
+import { FavoriteService } from "../services/favorite-service";
+import { ListingService } from "../services/listing-service";
+import { ProfileService } from "../services/profile-service";
+import { canSeeHeldListings, hasPermission } from "../services/admin-auth";
+import type { ValidatedContext } from "../middleware/validator";
+import type { Env } from "../types/env";
+import {
+  HELD_LISTING_STATUSES,
+  type ListingStatus,
+} from "../../../shared/constants";
+import type { AddFavoriteInput, ListingIdParam } from "../../../shared/schemas";
+
+export const getFavorites = async (c: Context<{ Bindings: Env }>) => {
+  try {
+    const session = c.get("session");
+
+    const db = createDatabase(c.env.DB);
+    const favoriteService = new FavoriteService(db, c.env);
+    const listings = await favoriteService.getUserFavoriteListings(
+      session.userId,
+      canSeeHeldListings(session),
+    );
+
+    return c.json({ listings });
+  } catch (error) {
+    console.error("Error fetching favorites:", error);
+    return c.json({ error: "Failed to fetch favorites" }, 500);
+  }
+};
+
+export const addFavorite = async (
+  c: ValidatedContext<{ json: AddFavoriteInput }>,
+) => {
+  try {
+    const session = c.get("session");
+    const { listingId } = c.req.valid("json");
+
+    const db = createDatabase(c.env.DB);
+    const listingService = new ListingService(db, c.env);
+    const listing = await listingService.getListingById(listingId);
+    if (!listing) {
+      return c.json({ error: "Listing not found" }, 404);
+    }
+
+    // Only listings the user could open can be saved, so held listings and
+    // banned sellers' listings are treated as missing
+    const seller = await new ProfileService(c.env.DB).getProfile(
+      listing.userId,
+    );
+    if (
+      (HELD_LISTING_STATUSES.includes(listing.status as ListingStatus) &&
+        !canSeeHeldListings(session, listing.userId)) ||
+      (seller?.isBanned === 1 && !hasPermission(session.role, "ban_user"))
+    ) {
+      return c.json({ error: "Listing not found" }, 404);
+    }
+    if (listing.userId === session.userId) {
+      return c.json({ error: "Cannot favorite your own listing" }, 400);
+    }
+
+    const favoriteService = new FavoriteService(db, c.env);
+    await favoriteService.addFavorite(session.userId, listingId);
+
+    return c.json({ success: true, listingId }, 201);
+  } catch (error) {
+    console.error("Error adding favorite:", error);
+    return c.json({ error: "Failed to add favorite" }, 500);
+  }
+};
+
+export const removeFavorite = async (
+  c: ValidatedContext<{ param: ListingIdParam }>,
+) => {
+  try {
+    const session = c.get("session");
+    const { listingId } = c.req.valid("param");
+
+    const db = createDatabase(c.env.DB);
+    const favoriteService = new FavoriteService(db, c.env);
+    const removed = await favoriteService.removeFavorite(
+      session.userId,
+      listingId,
+    );
+
+    if (!removed) {
+      return c.json({ error: "Favorite not found" }, 404);
+    }
+
+    return c.json({ success: true, listingId });
+  } catch (error) {
+    console.error("Error removing favorite:", error);
+    return c.json({ error: "Failed to remove favorite" }, 500);
+  }
+};
@@ -0,0 +1,153 @@
+import { createDatabase } from "../db";
+import { ImageService } from "../services/image-service";
+import {
+  isNotModified,
+  isPrivateListingImage,
+  parseByteRange,
+  verifyImageToken,
+} from "../services/image-delivery";
+import type { ValidatedContext } from "../middleware/validator";
+import type { ImageQuery } from "../../../shared/schemas";
+
+// Every upload is stored under a new key, so public images never change
+const PUBLIC_CACHE_CONTROL = "public, max-age=31536000, immutable";
+
+const TRANSFORM_QUALITY = 82;
+
+type OutputFormat = ImageOutputOptions["format"];
+
+// Resized images keep the stored format unless ?fmt= asks for another
+function outputFormat(
+  format: ImageQuery["fmt"],
+  contentType: string | undefined,
+): OutputFormat {
+  if (format) return `image/${format}`;
+  if (contentType === "image/jpeg" || contentType === "image/png") {
+    return contentType;
+  }
+  return "image/webp";
+}
+
+// Serve a listing image or avatar from R2. Keys must belong to an image in
+// the database; images of listings that aren't public need the token the API
+// signed their URLs with.
+export const serveImage = async (
+  c: ValidatedContext<{ query: ImageQuery }>,
+) => {
+  let key: string;
+  try {
+    key = decodeURIComponent(c.req.path.slice("/r2/".length));
+  } catch {
+    return c.json({ error: "Invalid path" }, 400);
+  }
+  if (!key) {
+    return c.json({ error: "Invalid path" }, 400);
+  }
+
+  const r2 = c.env.IMAGES;
+  if (!r2) {
+    return c.json({ error: "R2 bucket not available" }, 500);
+  }
+
+  try {
+    const { w: width, fmt: format, token } = c.req.valid("query");
+
+    const imageService = new ImageService(createDatabase(c.env.DB), r2);
+    const owner = await imageService.findImageOwner(key);
+    if (!owner) {
+      return c.json({ error: "Image not found" }, 404);
+    }
+
+    let cacheControl = PUBLIC_CACHE_CONTROL;
+    if (
+      owner.type === "listing" &&
+      isPrivateListingImage(owner.status, owner.sellerBanned)
+    ) {
+      const expiresAt = token
+        ? await verifyImageToken(c.env, owner.listingId, token)
+        : null;
+      if (!expiresAt) {
+        return c.json({ error: "Image not available" }, 403);
+      }
+      // Shared caches must not hand it to anyone else
+      cacheControl = `private, max-age=${Math.floor((expiresAt - Date.now()) / 1000)}`;
+    }
+
+    const object = await r2.head(key);
+    if (!object) {
+      return c.json({ error: "Image not found" }, 404);
+    }
+
+    // Each resized rendition has its own validator
+    const transformed = width !== undefined || format !== undefined;
+    const etag = transformed
+      ? `"${object.etag}-${width ?? "w"}-${format ?? "f"}"`
+      : object.httpEtag;
+
+    const headers = new Headers();
+    headers.set("ETag", etag);
+    headers.set("Last-Modified", object.uploaded.toUTCString());
+    headers.set("Cache-Control", cacheControl);
+
+    if (isNotModified(c.req.raw.headers, etag, object.uploaded)) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    if (transformed) {
+      const source = await r2.get(key);
+      if (!source) {
+        return c.json({ error: "Image not found" }, 404);
+      }
+
+      let image = c.env.IMAGE_TRANSFORMER.input(
+        source.body as unknown as ReadableStream<Uint8Array>,
+      );
+      if (width !== undefined) {
+        image = image.transform({ width, fit: "scale-down" });
+      }
+      const result = await image.output({
+        format: outputFormat(format, object.httpMetadata?.contentType),
+        quality: TRANSFORM_QUALITY,
+      });
+
+      headers.set("Content-Type", result.contentType());
+      return new Response(result.image(), { headers });
+    }
+
+    headers.set(
+      "Content-Type",
+      object.httpMetadata?.contentType || "application/octet-stream",
+    );
+    headers.set("Accept-Ranges", "bytes");
+
+    const range = parseByteRange(c.req.header("Range"), object.size);
+    if (range === null) {
+      headers.set("Content-Range", `bytes */${object.size}`);
+      return new Response(null, { status: 416, headers });
+    }
+
+    const body = await r2.get(key, range ? { range } : undefined);
+    if (!body) {
+      return c.json({ error: "Image not found" }, 404);
+    }
+
+    if (range) {
+      const end = range.offset + range.length - 1;
+      headers.set(
+        "Content-Range",
+        `bytes ${range.offset}-${end}/${object.size}`,
+      );
+      headers.set("Content-Length", range.length.toString());
+      return new Response(body.body as unknown as ReadableStream, {
+        status: 206,
+        headers,
+      });
+    }
+
+    headers.set("Content-Length", object.size.toString());
+    return new Response(body.body as unknown as ReadableStream, { headers });
+  } catch (error) {
+    console.error("Error serving R2 image:", error);
+    return c.json({ error: "Failed to serve image" }, 500);
+  }
+};
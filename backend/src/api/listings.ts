@@ -1,96 +1,90 @@
-import { Context } from "hono";
 import { createDatabase } from "../db";
 import { ListingService } from "../services/listing-service";
 import { BumpService } from "../services/bump-service";
 import { AdminService } from "../services/admin-service";
-import { ImageService } from "../services/image-service";
-import { SessionManager } from "../services/session-manager";
-import type { Env } from "../types/env";
-import type { ImageUploadData } from "../services/image-service";
+import { AuditService } from "../services/audit-service";
+import { ImageService, toImageUrlData } from "../services/image-service";
+import {
+  StorageService,
+  exceedsStorageQuota,
+  storageQuotaError,
+} from "../services/storage-service";
+import { withImageTokens } from "../services/image-delivery";
+import { PaymentService } from "../services/payment-service";
+import { queueMatchesInBackground } from "../services/saved-search-service";
+import { FavoriteService } from "../services/favorite-service";
+import { ListingStatusService } from "../services/listing-status-service";
+import { AnalyticsService, getViewerKey } from "../services/analytics-service";
+import {
+  decodeListingCursor,
+  getCursorSortKey,
+  type ListingCursor,
+} from "../services/listing-cursor";
+import {
+  ModerationService,
+  toListingModeration,
+} from "../services/moderation-service";
+import { canSeeHeldListings, hasPermission } from "../services/admin-auth";
+import type { ValidatedContext } from "../middleware/validator";
+import { checkRateLimit } from "../middleware/rate-limit";
 import {
   getBotInstance,
   sendPostDeletedNotification,
 } from "../services/notification-service";
-import { CATEGORIES, PRICE_MIN, PRICE_MAX } from "../../../shared/constants";
-import type { CategoryId, ListingStatus } from "../../../shared/constants";
-
-// Helper: Extract and validate session
-async function authenticateUser(c: Context<{ Bindings: Env }>) {
-  const authHeader = c.req.header("Authorization");
-  if (!authHeader) {
-    return {
-      error: { message: "Authentication required", status: 401 as const },
-    };
-  }
-
-  let sessionId: string;
-  if (authHeader.startsWith("Bearer ")) {
-    sessionId = authHeader.substring(7).trim();
-  } else if (authHeader.startsWith("Session ")) {
-    sessionId = authHeader.substring(8).trim();
-  } else {
-    sessionId = authHeader.trim();
-  }
-
-  if (!sessionId) {
+import {
+  BUMP_PAYMENT_AMOUNT_STARS,
+  HELD_LISTING_STATUSES,
+  IMAGE_UPLOAD_MAX_BYTES,
+  type ListingStatus,
+} from "../../../shared/constants";
+import type {
+  ArchiveListingInput,
+  BumpListingInput,
+  CreateListingInput,
+  ListingEventInput,
+  ListingIdParam,
+  ListingImageParam,
+  ListingsQuery,
+  ListingStatusInput,
+  ReorderListingImagesInput,
+  UpdateListingInput,
+  UserIdParam,
+} from "../../../shared/schemas";
+
+// Helper: Turn the validated query into service filters
+function toListingFilters(query: ListingsQuery, includeHeld: boolean) {
+  const { cursor: cursorParam, ...filters } = query;
+
+  if (
+    !includeHeld &&
+    filters.status?.some((status) => HELD_LISTING_STATUSES.includes(status))
+  ) {
     return {
-      error: { message: "Authentication required", status: 401 as const },
+      error: {
+        message: "You don't have permission to do this",
+        status: 403 as const,
+      },
     };
   }
 
-  const sessionManager = SessionManager.create(c.env);
-  const session = await sessionManager.validateSession(sessionId);
-  if (!session) {
-    return {
-      error: { message: "Invalid or expired session", status: 401 as const },
-    };
+  // Relevance is only applied with a search, so its cursors are keyed as date
+  let cursor: ListingCursor | undefined;
+  if (cursorParam) {
+    const cursorSortBy =
+      filters.sortBy === "relevance" && !filters.search
+        ? "date"
+        : filters.sortBy;
+    const decoded = decodeListingCursor(
+      cursorParam,
+      getCursorSortKey(cursorSortBy, filters.sortOrder),
+    );
+    if (!decoded) {
+      return { error: { message: "Invalid cursor", status: 400 as const } };
+    }
+    cursor = decoded;
   }
 
-  return { session };
-}
-
-// Helper: Parse pagination and filters
-function parseListingFilters(c: Context) {
-  const limitParam = c.req.query("limit") || "50";
-  const offsetParam = c.req.query("offset") || "0";
-  const limit = Math.min(Math.max(parseInt(limitParam, 10) || 50, 1), 100);
-  const offset = Math.max(parseInt(offsetParam, 10) || 0, 0);
-
-  const category = c.req.query("category") || undefined;
-  const priceMin = c.req.query("priceMin")
-    ? parseInt(c.req.query("priceMin")!, 10)
-    : undefined;
-  const priceMax = c.req.query("priceMax")
-    ? parseInt(c.req.query("priceMax")!, 10)
-    : undefined;
-  const search = c.req.query("search") || undefined;
-  const sortBy = (c.req.query("sortBy") as "price" | "date") || "date";
-  const sortOrder = (c.req.query("sortOrder") as "asc" | "desc") || "desc";
-  const statusParam = c.req.query("status");
-  const status = statusParam
-    ? (statusParam.split(",") as ListingStatus[])
-    : undefined;
-
-  return {
-    limit,
-    offset,
-    category,
-    priceMin,
-    priceMax,
-    search,
-    sortBy,
-    sortOrder,
-    status,
-  };
-}
-
-// Helper: Parse and validate listing ID
-function parseListingId(c: Context) {
-  const listingId = parseInt(c.req.param("listingId"), 10);
-  if (isNaN(listingId)) {
-    return { error: { message: "Invalid listing ID", status: 400 as const } };
-  }
-  return { listingId };
+  return { filters: { ...filters, cursor } };
 }
 
 // Helper: Create pagination response
@@ -98,33 +92,45 @@ function createPaginationResponse(
   listings: unknown[],
   limit: number,
   offset: number,
+  nextCursor: string | null = null,
 ) {
   return {
     listings,
     pagination: {
       limit,
       offset,
-      hasMore: listings.length === limit,
+      hasMore: nextCursor !== null,
+      nextCursor,
     },
   };
 }
 
-export const getAllListings = async (c: Context<{ Bindings: Env }>) => {
+export const getAllListings = async (
+  c: ValidatedContext<{ query: ListingsQuery }>,
+) => {
   try {
-    const filters = parseListingFilters(c);
+    const filtersResult = toListingFilters(
+      c.req.valid("query"),
+      canSeeHeldListings(c.get("viewer")),
+    );
+    if (filtersResult.error) {
+      return c.json(
+        { error: filtersResult.error.message },
+        filtersResult.error.status,
+      );
+    }
+    const { filters } = filtersResult;
 
     const db = createDatabase(c.env.DB);
     const listingService = new ListingService(db, c.env);
 
-    // Expire old listings first
-    await listingService.expireOldListings();
-
-    const listings = await listingService.getListingsWithImages(filters);
+    const page = await listingService.getListingsWithImages(filters);
 
     const responseData = createPaginationResponse(
-      listings,
+      page.listings,
       filters.limit,
       filters.offset,
+      page.nextCursor,
     );
 
     return c.json(responseData);
@@ -134,19 +140,22 @@ export const getAllListings = async (c: Context<{ Bindings: Env }>) => {
   }
 };
 
-export const getUserListings = async (c: Context<{ Bindings: Env }>) => {
+export const getUserListings = async (
+  c: ValidatedContext<{ param: UserIdParam; query: ListingsQuery }>,
+) => {
   try {
-    const userIdParam = c.req.param("userId");
-    if (!userIdParam || userIdParam === "undefined" || userIdParam === "null") {
-      return c.json({ error: "User ID is required" }, 400);
-    }
-
-    const userId = parseInt(userIdParam, 10);
-    if (isNaN(userId)) {
-      return c.json({ error: "Invalid user ID" }, 400);
+    const { userId } = c.req.valid("param");
+    const filtersResult = toListingFilters(
+      c.req.valid("query"),
+      canSeeHeldListings(c.get("viewer"), userId),
+    );
+    if (filtersResult.error) {
+      return c.json(
+        { error: filtersResult.error.message },
+        filtersResult.error.status,
+      );
     }
-
-    const filters = parseListingFilters(c);
+    const { filters } = filtersResult;
 
     const db = createDatabase(c.env.DB);
     const listingService = new ListingService(db, c.env);
@@ -157,29 +166,30 @@ export const getUserListings = async (c: Context<{ Bindings: Env }>) => {
     const targetProfile = await profileService.getProfile(userId);
 
     if (targetProfile && targetProfile.isBanned === 1) {
-      // Check if viewer is admin
-      const auth = await authenticateUser(c);
-      const isViewerAdmin =
-        "session" in auth && auth.session && auth.session.role === "admin";
+      // Staff who can ban still see a banned user's listings
+      const viewer = c.get("viewer");
+      const canSeeBanned = !!viewer && hasPermission(viewer.role, "ban_user");
 
-      // If user is banned and viewer is not admin, return empty array
-      if (!isViewerAdmin) {
+      // If user is banned and viewer is not staff, return empty array
+      if (!canSeeBanned) {
         return c.json(
           createPaginationResponse([], filters.limit, filters.offset),
         );
       }
     }
 
-    // Expire old listings first
-    await listingService.expireOldListings();
-
-    const listings = await listingService.getListingsWithImages({
+    const page = await listingService.getListingsWithImages({
       ...filters,
       userId,
     });
 
     return c.json(
-      createPaginationResponse(listings, filters.limit, filters.offset),
+      createPaginationResponse(
+        page.listings,
+        filters.limit,
+        filters.offset,
+        page.nextCursor,
+      ),
     );
   } catch (error) {
     console.error("Error fetching user listings:", error);
@@ -187,28 +197,61 @@ export const getUserListings = async (c: Context<{ Bindings: Env }>) => {
   }
 };
 
-export const getListingById = async (c: Context<{ Bindings: Env }>) => {
+export const getListingById = async (
+  c: ValidatedContext<{ param: ListingIdParam }>,
+) => {
   try {
-    const listingIdResult = parseListingId(c);
-    if (listingIdResult.error) {
-      return c.json(
-        { error: listingIdResult.error.message },
-        listingIdResult.error.status,
-      );
-    }
+    const { listingId } = c.req.valid("param");
 
     const db = createDatabase(c.env.DB);
     const listingService = new ListingService(db, c.env);
 
-    // Expire old listings first
-    await listingService.expireOldListings();
+    const listing = await listingService.getListingByIdWithImages(listingId);
 
-    const listing = await listingService.getListingByIdWithImages(
-      listingIdResult.listingId,
+    // Listings held for review are hidden like deleted ones from everyone
+    // else, so they can't be reached by link either
+    if (
+      !listing ||
+      (HELD_LISTING_STATUSES.includes(listing.status as ListingStatus) &&
+        !canSeeHeldListings(c.get("viewer"), listing.userId))
+    ) {
+      return c.json({ error: "Listing not found" }, 404);
+    }
+
+    // Signed-in viewers get their favorite state; the owner also sees how
+    // many people are watching
+    const viewerId = c.get("viewer")?.userId;
+
+    const favoriteService = new FavoriteService(db, c.env);
+    if (viewerId === listing.userId) {
+      return c.json({
+        listing: {
+          ...listing,
+          watcherCount: await favoriteService.countWatchers(listing.id),
+        },
+      });
+    }
+
+    // Owners looking at their own listing don't count as views. The view is
+    // recorded after the response goes out so it never slows the page down
+    const analyticsService = new AnalyticsService(db, c.env);
+    c.executionCtx.waitUntil(
+      getViewerKey(
+        viewerId,
+        c.req.header("CF-Connecting-IP"),
+        c.req.header("User-Agent"),
+      ).then((viewerKey) =>
+        analyticsService.recordEvent(listing.id, "view", viewerKey),
+      ),
     );
 
-    if (!listing) {
-      return c.json({ error: "Listing not found" }, 404);
+    if (viewerId !== undefined) {
+      return c.json({
+        listing: {
+          ...listing,
+          isFavorited: await favoriteService.isFavorited(viewerId, listing.id),
+        },
+      });
     }
 
     return c.json({ listing });
@@ -218,60 +261,38 @@ export const getListingById = async (c: Context<{ Bindings: Env }>) => {
   }
 };
 
-export const createListing = async (c: Context<{ Bindings: Env }>) => {
+export const createListing = async (
+  c: ValidatedContext<{ json: CreateListingInput }>,
+) => {
   try {
-    const authResult = await authenticateUser(c);
-    if (authResult.error) {
-      return c.json(
-        { error: authResult.error.message },
-        authResult.error.status,
-      );
-    }
-
-    const body = await c.req.json();
+    const session = c.get("session");
 
-    // Validate input
-    if (
-      !body.title ||
-      typeof body.title !== "string" ||
-      body.title.trim() === ""
-    ) {
-      return c.json({ error: "Title is required" }, 400);
-    }
-    if (!body.description || typeof body.description !== "string") {
-      return c.json({ error: "Description is required" }, 400);
-    }
-    if (
-      typeof body.price !== "number" ||
-      body.price < PRICE_MIN ||
-      body.price > PRICE_MAX
-    ) {
-      return c.json(
-        {
-          error: `Price must be between $${PRICE_MIN / 100} and $${PRICE_MAX / 100}`,
-        },
-        400,
-      );
-    }
-    if (!body.category || !CATEGORIES.find((cat) => cat.id === body.category)) {
-      return c.json({ error: "Valid category is required" }, 400);
-    }
+    const body = c.req.valid("json");
 
     const db = createDatabase(c.env.DB);
     const listingService = new ListingService(db, c.env);
 
+    const moderationService = new ModerationService(db, c.env);
+    const verdict = await moderationService.checkListing({
+      userId: session.userId,
+      title: body.title,
+      description: body.description,
+    });
+    if (verdict.action === "reject") {
+      return c.json({ error: verdict.message }, 400);
+    }
+
     const newListing = await listingService.createListing(
-      authResult.session.userId,
-      authResult.session.username || `user_${authResult.session.userId}`,
-      authResult.session.displayName,
-      {
-        title: body.title.trim(),
-        description: body.description,
-        price: body.price,
-        category: body.category as CategoryId,
-      },
+      session.userId,
+      session.username || `user_${session.userId}`,
+      session.displayName,
+      body,
+      toListingModeration(verdict),
     );
 
+    // Queue saved search alerts in the background
+    queueMatchesInBackground(c.executionCtx, db, c.env, newListing);
+
     return c.json({ listing: newListing }, 201);
   } catch (error) {
     console.error("Error creating listing:", error);
@@ -279,82 +300,59 @@ export const createListing = async (c: Context<{ Bindings: Env }>) => {
   }
 };
 
-export const updateListing = async (c: Context<{ Bindings: Env }>) => {
+export const updateListing = async (
+  c: ValidatedContext<{ param: ListingIdParam; json: UpdateListingInput }>,
+) => {
   try {
-    const authResult = await authenticateUser(c);
-    if (authResult.error) {
-      return c.json(
-        { error: authResult.error.message },
-        authResult.error.status,
-      );
-    }
-
-    const listingIdResult = parseListingId(c);
-    if (listingIdResult.error) {
-      return c.json(
-        { error: listingIdResult.error.message },
-        listingIdResult.error.status,
-      );
-    }
-
-    const body = await c.req.json();
-
-    // Validate optional fields
-    if (
-      body.title !== undefined &&
-      (typeof body.title !== "string" || body.title.trim() === "")
-    ) {
-      return c.json({ error: "Title must be a non-empty string" }, 400);
-    }
-    if (
-      body.price !== undefined &&
-      (typeof body.price !== "number" ||
-        body.price < PRICE_MIN ||
-        body.price > PRICE_MAX)
-    ) {
-      return c.json(
-        {
-          error: `Price must be between $${PRICE_MIN / 100} and $${PRICE_MAX / 100}`,
-        },
-        400,
-      );
-    }
-    if (
-      body.category !== undefined &&
-      !CATEGORIES.find((cat) => cat.id === body.category)
-    ) {
-      return c.json({ error: "Invalid category" }, 400);
-    }
+    const session = c.get("session");
+    const { listingId } = c.req.valid("param");
+    const body = c.req.valid("json");
 
     const db = createDatabase(c.env.DB);
     const listingService = new ListingService(db, c.env);
 
-    // Check ownership
-    const existingListing = await listingService.getListingById(
-      listingIdResult.listingId,
-    );
-    if (!existingListing) {
-      return c.json({ error: "Listing not found" }, 404);
-    }
-    if (existingListing.userId !== authResult.session.userId) {
-      return c.json({ error: "Not authorized to update this listing" }, 403);
+    const existingListing = c.get("listing");
+
+    // Only text edits go back through the filter, so a price change doesn't
+    // re-hold a listing staff already approved
+    let moderation;
+    if (body.title !== undefined || body.description !== undefined) {
+      const moderationService = new ModerationService(db, c.env);
+      const verdict = await moderationService.checkListing({
+        userId: session.userId,
+        listingId,
+        title: body.title ?? existingListing.title,
+        description: body.description ?? existingListing.content,
+      });
+      if (verdict.action === "reject") {
+        return c.json({ error: verdict.message }, 400);
+      }
+      moderation = toListingModeration(verdict);
     }
 
     const updatedListing = await listingService.updateListing(
-      listingIdResult.listingId,
-      authResult.session.userId,
-      {
-        title: body.title ? body.title.trim() : undefined,
-        description: body.description,
-        price: body.price,
-        category: body.category,
-      },
+      listingId,
+      session.userId,
+      body,
+      moderation,
     );
 
     if (!updatedListing) {
       return c.json({ error: "Failed to update listing" }, 500);
     }
 
+    if (updatedListing.price < existingListing.price) {
+      try {
+        const favoriteService = new FavoriteService(db, c.env);
+        await favoriteService.notifyWatchers(updatedListing, {
+          type: "price_drop",
+          previousPrice: existingListing.price,
+        });
+      } catch (error) {
+        console.error("Failed to notify watchers of price drop:", error);
+      }
+    }
+
     return c.json({ listing: updatedListing });
   } catch (error) {
     console.error("Error updating listing:", error);
@@ -362,45 +360,23 @@ export const updateListing = async (c: Context<{ Bindings: Env }>) => {
   }
 };
 
-export const deleteListing = async (c: Context<{ Bindings: Env }>) => {
+export const deleteListing = async (
+  c: ValidatedContext<{ param: ListingIdParam }>,
+) => {
   try {
-    const authResult = await authenticateUser(c);
-    if (authResult.error) {
-      return c.json(
-        { error: authResult.error.message },
-        authResult.error.status,
-      );
-    }
-
-    const listingIdResult = parseListingId(c);
-    if (listingIdResult.error) {
-      return c.json(
-        { error: listingIdResult.error.message },
-        listingIdResult.error.status,
-      );
-    }
+    const session = c.get("session");
+    const { listingId } = c.req.valid("param");
 
     const db = createDatabase(c.env.DB);
     const listingService = new ListingService(db, c.env);
     const imageService = new ImageService(db, c.env.IMAGES);
 
-    // Check ownership or admin status
-    const existingListing = await listingService.getListingById(
-      listingIdResult.listingId,
-    );
-    if (!existingListing) {
-      return c.json({ error: "Listing not found" }, 404);
-    }
-
-    const isOwner = existingListing.userId === authResult.session.userId;
-    const isAdmin = authResult.session.role === "admin";
-
-    if (!isOwner && !isAdmin) {
-      return c.json({ error: "Not authorized to delete this listing" }, 403);
-    }
+    // requireOwner lets admins through too
+    const existingListing = c.get("listing");
+    const isOwner = existingListing.userId === session.userId;
 
     // If admin is deleting someone else's listing, notify the owner
-    const shouldNotify = isAdmin && !isOwner;
+    const shouldNotify = !isOwner;
     let listingOwnerTelegramId: number | null = null;
 
     if (shouldNotify) {
@@ -411,29 +387,32 @@ export const deleteListing = async (c: Context<{ Bindings: Env }>) => {
     }
 
     // Clean up R2 images before deleting listing
-    await imageService.cleanupListingImages(listingIdResult.listingId);
+    await imageService.cleanupListingImages(listingId);
 
     // Delete listing
-    const deletedListing =
-      isAdmin && !isOwner
-        ? await listingService.deleteListingByIdOnly(listingIdResult.listingId)
-        : await listingService.deleteListing(
-            listingIdResult.listingId,
-            authResult.session.userId,
-          );
+    const deletedListing = !isOwner
+      ? await listingService.deleteListingByIdOnly(listingId)
+      : await listingService.deleteListing(listingId, session.userId);
 
     if (!deletedListing) {
       return c.json({ error: "Failed to delete listing" }, 500);
     }
 
+    if (!isOwner) {
+      const auditService = new AuditService(db, c.env);
+      await auditService.record(session, {
+        action: "delete_listing",
+        targetType: "listing",
+        targetId: listingId,
+        before: existingListing,
+        after: null,
+      });
+    }
+
     // Send notification if admin deleted another user's listing
     if (shouldNotify && listingOwnerTelegramId) {
       const bot = getBotInstance(c.env);
-      await sendPostDeletedNotification(
-        listingOwnerTelegramId,
-        listingIdResult.listingId,
-        bot,
-      );
+      await sendPostDeletedNotification(listingOwnerTelegramId, listingId, bot);
     }
 
     return c.json({ message: "Listing deleted successfully" });
@@ -443,95 +422,169 @@ export const deleteListing = async (c: Context<{ Bindings: Env }>) => {
   }
 };
 
-export const bumpListing = async (c: Context<{ Bindings: Env }>) => {
+export const bumpListing = async (
+  c: ValidatedContext<{ param: ListingIdParam; json: BumpListingInput }>,
+) => {
   try {
-    const authResult = await authenticateUser(c);
-    if (authResult.error) {
-      return c.json(
-        { error: authResult.error.message },
-        authResult.error.status,
-      );
+    const session = c.get("session");
+    const { listingId } = c.req.valid("param");
+    const { isPaid } = c.req.valid("json");
+
+    const db = createDatabase(c.env.DB);
+    const bumpService = new BumpService(db, c.env);
+
+    // Paid bumps are only checked here; the bump itself is applied by the
+    // successful_payment webhook
+    if (isPaid && c.get("listing").isPaymentPending === 1) {
+      return c.json({ error: "Payment already pending for this listing" }, 409);
     }
 
-    const listingIdResult = parseListingId(c);
-    if (listingIdResult.error) {
+    const eligibility = await bumpService.canBumpListing(
+      listingId,
+      session.userId,
+    );
+    if (!eligibility.canBump) {
       return c.json(
-        { error: listingIdResult.error.message },
-        listingIdResult.error.status,
+        { error: eligibility.reason || "Cannot bump listing" },
+        400,
       );
     }
 
-    const body = await c.req.json();
-    const isPaid = body.isPaid === true;
-
-    const db = createDatabase(c.env.DB);
-    const bumpService = new BumpService(db, c.env);
-
-    // For paid bumps, payment will be handled through webhook
-    // For now, we'll handle free bumps directly
+    // Free bumps are applied directly
     if (!isPaid) {
       const bumpedListing = await bumpService.bumpListing({
-        listingId: listingIdResult.listingId,
-        userId: authResult.session.userId,
+        listingId: listingId,
+        userId: session.userId,
         isPaid: false,
       });
 
+      queueMatchesInBackground(c.executionCtx, db, c.env, bumpedListing);
+
       return c.json({ listing: bumpedListing });
-    } else {
-      // Paid bump flow will be handled via Telegram payment webhook
-      // Return payment URL/invoice here
-      return c.json({
-        message:
-          "Paid bump requires payment - to be implemented with Telegram Stars",
-      });
     }
+
+    // Only paid bumps create an invoice, so only they count against the limit
+    const limited = await checkRateLimit(c, "create_invoice");
+    if (limited) return limited;
+
+    const paymentService = new PaymentService(db, c.env);
+    const result = await paymentService.createPayment({
+      userId: session.userId,
+      listingId: listingId,
+      starAmount: BUMP_PAYMENT_AMOUNT_STARS,
+      paymentType: "bump",
+    });
+
+    return c.json({
+      success: true,
+      invoice_url: result.invoiceUrl,
+      payment_id: result.payment.id,
+    });
   } catch (error) {
     console.error("Error bumping listing:", error);
-    return c.json(
-      {
-        error:
-          error instanceof Error ? error.message : "Failed to bump listing",
-      },
-      500,
-    );
+    return c.json({ error: "Failed to bump listing" }, 500);
   }
 };
 
-export const archiveListing = async (c: Context<{ Bindings: Env }>) => {
+export const updateListingStatus = async (
+  c: ValidatedContext<{ param: ListingIdParam; json: ListingStatusInput }>,
+) => {
   try {
-    const authResult = await authenticateUser(c);
-    if (authResult.error) {
-      return c.json(
-        { error: authResult.error.message },
-        authResult.error.status,
-      );
+    const session = c.get("session");
+    const existingListing = c.get("listing");
+    const { status } = c.req.valid("json");
+
+    const db = createDatabase(c.env.DB);
+
+    const listingStatusService = new ListingStatusService(db, c.env);
+    const check = listingStatusService.canChangeStatus(
+      existingListing,
+      session.userId,
+      status,
+    );
+    if (!check.allowed) {
+      return c.json({ error: check.reason || "Cannot change status" }, 400);
     }
 
-    // Admin only
-    if (authResult.session.role !== "admin") {
-      return c.json({ error: "Admin access required" }, 403);
+    const listing = await listingStatusService.changeStatus(
+      existingListing,
+      status,
+    );
+
+    return c.json({ listing });
+  } catch (error) {
+    console.error("Error updating listing status:", error);
+    return c.json({ error: "Failed to update listing status" }, 500);
+  }
+};
+
+export const trackListingEvent = async (
+  c: ValidatedContext<{ param: ListingIdParam; json: ListingEventInput }>,
+) => {
+  try {
+    const { listingId } = c.req.valid("param");
+
+    const { type } = c.req.valid("json");
+
+    // Tracking works signed out too; a bad session just counts as anonymous
+    const viewerId = c.get("viewer")?.userId;
+
+    const db = createDatabase(c.env.DB);
+    const listingService = new ListingService(db, c.env);
+    const listing = await listingService.getListingById(listingId);
+    if (!listing) {
+      return c.json({ error: "Listing not found" }, 404);
     }
 
-    const listingIdResult = parseListingId(c);
-    if (listingIdResult.error) {
-      return c.json(
-        { error: listingIdResult.error.message },
-        listingIdResult.error.status,
+    if (viewerId !== listing.userId) {
+      const analyticsService = new AnalyticsService(db, c.env);
+      await analyticsService.recordEvent(
+        listing.id,
+        type,
+        await getViewerKey(
+          viewerId,
+          c.req.header("CF-Connecting-IP"),
+          c.req.header("User-Agent"),
+        ),
       );
     }
 
-    const body = await c.req.json();
-    if (!body.reason || typeof body.reason !== "string") {
-      return c.json({ error: "Reason is required" }, 400);
-    }
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error tracking listing event:", error);
+    return c.json({ error: "Failed to track event" }, 500);
+  }
+};
+
+export const getListingStats = async (
+  c: ValidatedContext<{ param: ListingIdParam }>,
+) => {
+  try {
+    const listing = c.get("listing");
+
+    const db = createDatabase(c.env.DB);
+    const analyticsService = new AnalyticsService(db, c.env);
+    const stats = await analyticsService.getListingStats(listing);
+
+    return c.json({ stats });
+  } catch (error) {
+    console.error("Error fetching listing stats:", error);
+    return c.json({ error: "Failed to fetch listing stats" }, 500);
+  }
+};
+
+export const archiveListing = async (
+  c: ValidatedContext<{ param: ListingIdParam; json: ArchiveListingInput }>,
+) => {
+  try {
+    const session = c.get("session");
+    const { listingId } = c.req.valid("param");
+    const { reason } = c.req.valid("json");
 
     const db = createDatabase(c.env.DB);
     const adminService = new AdminService(db, c.env);
 
-    const result = await adminService.archiveListing(
-      listingIdResult.listingId,
-      body.reason,
-    );
+    const result = await adminService.archiveListing(listingId, reason);
 
     if (!result.success) {
       return c.json(
@@ -540,6 +593,16 @@ export const archiveListing = async (c: Context<{ Bindings: Env }>) => {
       );
     }
 
+    const auditService = new AuditService(db, c.env);
+    await auditService.record(session, {
+      action: "archive_listing",
+      targetType: "listing",
+      targetId: listingId,
+      reason,
+      before: result.previous,
+      after: result.listing,
+    });
+
     return c.json({
       message: "Listing archived successfully",
       listing: result.listing,
@@ -550,189 +613,117 @@ export const archiveListing = async (c: Context<{ Bindings: Env }>) => {
   }
 };
 
-export const uploadListingImages = async (c: Context<{ Bindings: Env }>) => {
+export const deleteListingImage = async (
+  c: ValidatedContext<{ param: ListingImageParam }>,
+) => {
   try {
-    const authResult = await authenticateUser(c);
-    if (authResult.error) {
-      return c.json(
-        { error: authResult.error.message },
-        authResult.error.status,
-      );
-    }
-
-    const listingIdResult = parseListingId(c);
-    if (listingIdResult.error) {
-      return c.json(
-        { error: listingIdResult.error.message },
-        listingIdResult.error.status,
-      );
-    }
+    const { listingId, imageId } = c.req.valid("param");
 
     const db = createDatabase(c.env.DB);
-    const listingService = new ListingService(db, c.env);
     const imageService = new ImageService(db, c.env.IMAGES);
 
-    // Check if listing exists and user owns it
-    const existingListing = await listingService.getListingById(
-      listingIdResult.listingId,
-    );
-    if (!existingListing) {
-      return c.json({ error: "Listing not found" }, 404);
-    }
-    if (existingListing.userId !== authResult.session.userId) {
-      return c.json(
-        { error: "Not authorized to upload images to this listing" },
-        403,
-      );
+    const deleted = await imageService.deleteListingImage(imageId, listingId);
+    if (!deleted) {
+      return c.json({ error: "Image not found" }, 404);
     }
 
-    // Parse multipart form data
-    const formData = await c.req.formData();
-    const images: ImageUploadData[] = [];
-
-    for (const [key, value] of formData.entries()) {
-      if (key.startsWith("image_") && value instanceof File) {
-        const arrayBuffer = await value.arrayBuffer();
-
-        // Validate image
-        if (!(await imageService.validateImageFile(arrayBuffer, value.type))) {
-          return c.json({ error: `Invalid image file: ${value.name}` }, 400);
-        }
-
-        // Get thumbnail data from form
-        const thumbnailKey = key.replace("image_", "thumbnail_");
-        const thumbnailFile = formData.get(thumbnailKey) as File;
-        if (!thumbnailFile) {
-          return c.json(
-            { error: `Thumbnail missing for image: ${value.name}` },
-            400,
-          );
-        }
-
-        const thumbnailBuffer = await thumbnailFile.arrayBuffer();
-        if (!(await imageService.validateThumbnailFile(thumbnailBuffer))) {
-          return c.json(
-            { error: `Invalid thumbnail file: ${value.name}` },
-            400,
-          );
-        }
-
-        // Get metadata from form
-        const orderKey = key.replace("image_", "order_");
-        const widthKey = key.replace("image_", "width_");
-        const heightKey = key.replace("image_", "height_");
-
-        const uploadOrder = parseInt(formData.get(orderKey) as string) || 1;
-        const width = parseInt(formData.get(widthKey) as string) || 0;
-        const height = parseInt(formData.get(heightKey) as string) || 0;
-
-        images.push({
-          originalName: value.name,
-          mimeType: value.type,
-          fileSize: arrayBuffer.byteLength,
-          width,
-          height,
-          uploadOrder,
-          imageBuffer: arrayBuffer,
-          thumbnailBuffer,
-        });
-      }
-    }
+    return c.json({ message: "Image deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting image:", error);
+    return c.json({ error: "Failed to delete image" }, 500);
+  }
+};
 
-    if (images.length === 0) {
-      return c.json({ error: "No valid images provided" }, 400);
-    }
+export const reorderListingImages = async (
+  c: ValidatedContext<{
+    param: ListingIdParam;
+    json: ReorderListingImagesInput;
+  }>,
+) => {
+  try {
+    const listing = c.get("listing");
+    const { imageIds, coverImageId } = c.req.valid("json");
 
-    if (images.length > 10) {
-      return c.json({ error: "Maximum 10 images allowed per listing" }, 400);
-    }
+    const db = createDatabase(c.env.DB);
+    const imageService = new ImageService(db, c.env.IMAGES);
 
-    // Check if adding these images would exceed the limit
-    const currentImageCount = await imageService.getListingImageCount(
-      listingIdResult.listingId,
+    const images = await imageService.reorderListingImages(
+      listing.id,
+      imageIds,
+      coverImageId,
     );
-    if (currentImageCount + images.length > 10) {
-      return c.json({ error: "Maximum 10 images allowed per listing" }, 400);
+    if (!images) {
+      return c.json(
+        { error: "List every image of the listing exactly once" },
+        400,
+      );
     }
 
-    // Upload all images
-    const uploadedImages = await imageService.uploadListingImages(
-      listingIdResult.listingId,
-      images,
-    );
-
-    return c.json(
-      {
-        message: "Images uploaded successfully",
-        images: uploadedImages.map((img) => ({
-          id: img.id,
-          originalName: img.originalName,
-          uploadOrder: img.uploadOrder,
-          width: img.width,
-          height: img.height,
-          fileSize: img.fileSize,
-        })),
-      },
-      201,
-    );
+    return c.json({
+      message: "Images reordered successfully",
+      images: await withImageTokens(c.env, listing, false, images),
+    });
   } catch (error) {
-    console.error("Error uploading images:", error);
-    return c.json({ error: "Failed to upload images" }, 500);
+    console.error("Error reordering images:", error);
+    return c.json({ error: "Failed to reorder images" }, 500);
   }
 };
 
-export const deleteListingImage = async (c: Context<{ Bindings: Env }>) => {
+// Replace an image's file, keeping its position and cover flag. The new file
+// is sent as the "image" field of a multipart form.
+export const replaceListingImage = async (
+  c: ValidatedContext<{ param: ListingImageParam }>,
+) => {
   try {
-    const authResult = await authenticateUser(c);
-    if (authResult.error) {
-      return c.json(
-        { error: authResult.error.message },
-        authResult.error.status,
-      );
-    }
+    const listing = c.get("listing");
+    const { imageId } = c.req.valid("param");
 
-    const listingIdResult = parseListingId(c);
-    if (listingIdResult.error) {
-      return c.json(
-        { error: listingIdResult.error.message },
-        listingIdResult.error.status,
-      );
+    const formData = await c.req.formData();
+    const file = formData.get("image");
+    if (!(file instanceof File)) {
+      return c.json({ error: "Image file is required" }, 400);
     }
-
-    const imageId = parseInt(c.req.param("imageId"), 10);
-    if (isNaN(imageId)) {
-      return c.json({ error: "Invalid image ID" }, 400);
+    if (file.size > IMAGE_UPLOAD_MAX_BYTES) {
+      return c.json({ error: "Images can be up to 10MB" }, 400);
     }
 
     const db = createDatabase(c.env.DB);
-    const listingService = new ListingService(db, c.env);
-    const imageService = new ImageService(db, c.env.IMAGES);
+    const imageService = new ImageService(
+      db,
+      c.env.IMAGES,
+      c.env.IMAGE_TRANSFORMER,
+    );
 
-    // Check if listing exists and user owns it
-    const existingListing = await listingService.getListingById(
-      listingIdResult.listingId,
+    // The old file still counts until it has been replaced
+    const usage = await new StorageService(db, c.env).getUserUsage(
+      listing.userId,
     );
-    if (!existingListing) {
-      return c.json({ error: "Listing not found" }, 404);
+    if (exceedsStorageQuota(usage, file.size)) {
+      return c.json(storageQuotaError(usage), 413);
     }
-    if (existingListing.userId !== authResult.session.userId) {
-      return c.json(
-        { error: "Not authorized to delete images from this listing" },
-        403,
-      );
+
+    // Check the real type and size; the file's declared type is ignored
+    const imageBuffer = await file.arrayBuffer();
+    const info = imageService.inspectImage(imageBuffer);
+    if (!info) {
+      return c.json({ error: `Invalid image file: ${file.name}` }, 400);
     }
 
-    const deleted = await imageService.deleteListingImage(
-      imageId,
-      listingIdResult.listingId,
-    );
-    if (!deleted) {
+    const image = await imageService.replaceListingImage(listing.id, imageId, {
+      originalName: file.name,
+      imageBuffer,
+      info,
+    });
+    if (!image) {
       return c.json({ error: "Image not found" }, 404);
     }
 
-    return c.json({ message: "Image deleted successfully" });
+    const [data] = await withImageTokens(c.env, listing, false, [
+      toImageUrlData(image),
+    ]);
+    return c.json({ message: "Image replaced successfully", image: data });
   } catch (error) {
-    console.error("Error deleting image:", error);
-    return c.json({ error: "Failed to delete image" }, 500);
+    console.error("Error replacing image:", error);
+    return c.json({ error: "Failed to replace image" }, 500);
   }
 };
@@ -0,0 +1,241 @@
+import type { Context } from "hono";
+import { createDatabase } from "../db";
+import { ModerationService } from "../services/moderation-service";
+import { ListingService } from "../services/listing-service";
+import { AdminService } from "../services/admin-service";
+import { AuditService } from "../services/audit-service";
+import { queueMatchesInBackground } from "../services/saved-search-service";
+import { hasPermission } from "../services/admin-auth";
+import { sendListingApprovedNotification } from "../services/notification-service";
+import type { ValidatedContext } from "../middleware/validator";
+import type { Listing } from "../db/schema";
+import type { Env } from "../types/env";
+import { LISTING_STATUS } from "../../../shared/constants";
+import type {
+  ListingIdParam,
+  ModerationQueueQuery,
+  ModerationRuleIdParam,
+  ModerationRuleInput,
+  ResolveModerationInput,
+} from "../../../shared/schemas";
+
+// Helper: Findings are stored as a JSON array of labels
+function withParsedFlags(listing: Listing) {
+  return {
+    ...listing,
+    moderationFlags: listing.moderationFlags
+      ? (JSON.parse(listing.moderationFlags) as string[])
+      : [],
+  };
+}
+
+/**
+ * GET /api/admin/moderation/rules
+ * Word and regex rules the content filter applies (manage_moderation_rules)
+ */
+export const getModerationRules = async (c: Context<{ Bindings: Env }>) => {
+  try {
+    const db = createDatabase(c.env.DB);
+    const moderationService = new ModerationService(db, c.env);
+
+    const rules = await moderationService.listRules();
+
+    return c.json({ rules });
+  } catch (error) {
+    console.error("Error fetching moderation rules:", error);
+    return c.json({ error: "Failed to fetch moderation rules" }, 500);
+  }
+};
+
+/**
+ * POST /api/admin/moderation/rules
+ * Add a rule (manage_moderation_rules)
+ * Body: { kind: 'word' | 'regex', pattern, action: 'reject' | 'hold' | 'flag', note? }
+ */
+export const createModerationRule = async (
+  c: ValidatedContext<{ json: ModerationRuleInput }>,
+) => {
+  try {
+    const session = c.get("session");
+    const input = c.req.valid("json");
+
+    const db = createDatabase(c.env.DB);
+    const moderationService = new ModerationService(db, c.env);
+
+    const rule = await moderationService.createRule(input, session.telegramId);
+    if (!rule) {
+      return c.json({ error: "This rule already exists" }, 409);
+    }
+
+    const auditService = new AuditService(db, c.env);
+    await auditService.record(session, {
+      action: "add_moderation_rule",
+      targetType: "moderation_rule",
+      targetId: rule.id,
+      reason: input.note,
+      after: { kind: rule.kind, pattern: rule.pattern, action: rule.action },
+    });
+
+    return c.json({ success: true, rule }, 201);
+  } catch (error) {
+    console.error("Error creating moderation rule:", error);
+    return c.json({ error: "Failed to create moderation rule" }, 500);
+  }
+};
+
+/**
+ * DELETE /api/admin/moderation/rules/:ruleId
+ * Remove a rule (manage_moderation_rules)
+ */
+export const deleteModerationRule = async (
+  c: ValidatedContext<{ param: ModerationRuleIdParam }>,
+) => {
+  try {
+    const session = c.get("session");
+    const { ruleId } = c.req.valid("param");
+
+    const db = createDatabase(c.env.DB);
+    const moderationService = new ModerationService(db, c.env);
+
+    const rule = await moderationService.deleteRule(ruleId);
+    if (!rule) {
+      return c.json({ error: "Rule not found" }, 404);
+    }
+
+    const auditService = new AuditService(db, c.env);
+    await auditService.record(session, {
+      action: "remove_moderation_rule",
+      targetType: "moderation_rule",
+      targetId: rule.id,
+      before: { kind: rule.kind, pattern: rule.pattern, action: rule.action },
+    });
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting moderation rule:", error);
+    return c.json({ error: "Failed to delete moderation rule" }, 500);
+  }
+};
+
+/**
+ * GET /api/admin/moderation/queue
+ * Listings held by the content filter, or live ones it flagged (review_reports)
+ * Query: ?view=held|flagged&limit=20&offset=0
+ */
+export const getModerationQueue = async (
+  c: ValidatedContext<{ query: ModerationQueueQuery }>,
+) => {
+  try {
+    const { view, limit, offset } = c.req.valid("query");
+
+    const db = createDatabase(c.env.DB);
+    const moderationService = new ModerationService(db, c.env);
+
+    const { listings, total } = await moderationService.getQueue({
+      view,
+      limit,
+      offset,
+    });
+
+    return c.json({
+      listings: listings.map(withParsedFlags),
+      total,
+      limit,
+      offset,
+    });
+  } catch (error) {
+    console.error("Error fetching moderation queue:", error);
+    return c.json({ error: "Failed to fetch moderation queue" }, 500);
+  }
+};
+
+/**
+ * POST /api/admin/moderation/listings/:listingId/resolve
+ * Approve a held or flagged listing, or reject it by archiving it
+ * (review_reports; reject also needs archive_listing)
+ * Body: { decision: 'approve' | 'reject', reason?: string }
+ */
+export const resolveModeration = async (
+  c: ValidatedContext<{ param: ListingIdParam; json: ResolveModerationInput }>,
+) => {
+  const session = c.get("session");
+  const { listingId } = c.req.valid("param");
+  const { decision, reason } = c.req.valid("json");
+
+  if (
+    decision === "reject" &&
+    !hasPermission(session.role, "archive_listing")
+  ) {
+    return c.json({ error: "You don't have permission to do this" }, 403);
+  }
+
+  try {
+    const db = createDatabase(c.env.DB);
+    const listingService = new ListingService(db, c.env);
+    const auditService = new AuditService(db, c.env);
+
+    const listing = await listingService.getListingById(listingId);
+    if (!listing) {
+      return c.json({ error: "Listing not found" }, 404);
+    }
+    if (
+      listing.status !== LISTING_STATUS.PENDING_REVIEW &&
+      !listing.moderationFlags
+    ) {
+      return c.json({ error: "This listing is not awaiting moderation" }, 409);
+    }
+
+    if (decision === "reject") {
+      const archiveReason = reason ?? "It didn't pass moderation";
+      const adminService = new AdminService(db, c.env);
+      const result = await adminService.archiveListing(
+        listingId,
+        archiveReason,
+      );
+      if (!result.success) {
+        return c.json(
+          { error: result.error || "Failed to archive listing" },
+          500,
+        );
+      }
+      await auditService.record(session, {
+        action: "archive_listing",
+        targetType: "listing",
+        targetId: listingId,
+        reason: archiveReason,
+        before: result.previous,
+        after: result.listing,
+      });
+
+      return c.json({ success: true, listing: result.listing });
+    }
+
+    const moderationService = new ModerationService(db, c.env);
+    const approved = await moderationService.approveListing(listingId);
+    if (!approved) {
+      return c.json({ error: "Listing not found" }, 404);
+    }
+    await auditService.record(session, {
+      action: "approve_listing",
+      targetType: "listing",
+      targetId: listingId,
+      reason,
+      before: {
+        status: listing.status,
+        moderationFlags: withParsedFlags(listing).moderationFlags,
+      },
+      after: { status: approved.status },
+    });
+
+    // A listing that was held only now reaches the feed and saved searches
+    if (listing.status === LISTING_STATUS.PENDING_REVIEW) {
+      await sendListingApprovedNotification(c.env, approved.userId, approved);
+      queueMatchesInBackground(c.executionCtx, db, c.env, approved);
+    }
+
+    return c.json({ success: true, listing: approved });
+  } catch (error) {
+    console.error("Error resolving moderation:", error);
+    return c.json({ error: "Failed to resolve moderation" }, 500);
+  }
+};
@@ -1,106 +1,34 @@
 import { Context } from "hono";
 import { createDatabase } from "../db";
 import { PaymentService } from "../services/payment-service";
-import { PostService } from "../services/post-service";
-import { SessionManager } from "../services/session-manager";
-import { isAdmin } from "../services/admin-auth";
+import { AuditService } from "../services/audit-service";
+import type { ValidatedContext } from "../middleware/validator";
 import type { Env } from "../types/env";
+import type {
+  MakePremiumInput,
+  PaginationQuery,
+  PaymentIdParam,
+  PostIdParam,
+  RefundPaymentInput,
+} from "../../../shared/schemas";
 import { eq } from "drizzle-orm";
 import { posts } from "../db/schema";
 
-// Helper: Extract and validate session
-async function authenticateUser(c: Context<{ Bindings: Env }>) {
-  const authHeader = c.req.header("Authorization");
-  if (!authHeader) {
-    return {
-      error: { message: "Authentication required", status: 401 as const },
-    };
-  }
-
-  let sessionId: string;
-  if (authHeader.startsWith("Bearer ")) {
-    sessionId = authHeader.substring(7).trim();
-  } else if (authHeader.startsWith("Session ")) {
-    sessionId = authHeader.substring(8).trim();
-  } else {
-    sessionId = authHeader.trim();
-  }
-
-  if (!sessionId) {
-    return {
-      error: { message: "Authentication required", status: 401 as const },
-    };
-  }
-
-  const sessionManager = SessionManager.create(c.env);
-  const session = await sessionManager.validateSession(sessionId);
-  if (!session) {
-    return {
-      error: { message: "Invalid or expired session", status: 401 as const },
-    };
-  }
-
-  return { session };
-}
-
-// Helper: Parse pagination parameters
-function parsePagination(c: Context) {
-  const limitParam = c.req.query("limit") || "50";
-  const offsetParam = c.req.query("offset") || "0";
-  const limit = Math.min(Math.max(parseInt(limitParam, 10) || 50, 1), 100);
-  const offset = Math.max(parseInt(offsetParam, 10) || 0, 0);
-  return { limit, offset };
-}
-
 /**
  * POST /api/posts/:postId/make-premium
  * Create payment and get invoice URL
  */
-export const makePremium = async (c: Context<{ Bindings: Env }>) => {
+export const makePremium = async (
+  c: ValidatedContext<{ param: PostIdParam; json: MakePremiumInput }>,
+) => {
   try {
-    // Authenticate user
-    const authResult = await authenticateUser(c);
-    if ("error" in authResult && authResult.error) {
-      return c.json(
-        { error: authResult.error.message },
-        authResult.error.status,
-      );
-    }
-    const { session } = authResult;
-
-    // Parse post ID
-    const postId = parseInt(c.req.param("postId"), 10);
-    if (isNaN(postId)) {
-      return c.json({ error: "Invalid post ID" }, 400);
-    }
-
-    // Parse and validate request body
-    const body = await c.req.json();
-    const starCount = body.star_count;
-
-    if (
-      !starCount ||
-      typeof starCount !== "number" ||
-      starCount < 1 ||
-      starCount > 10
-    ) {
-      return c.json({ error: "star_count must be between 1 and 10" }, 400);
-    }
+    const session = c.get("session");
+    const post = c.get("post");
+    const { star_count: starCount } = c.req.valid("json");
 
     const db = createDatabase(c.env.DB);
-    const postService = new PostService(db, c.env);
     const paymentService = new PaymentService(db, c.env);
 
-    // Check post exists and user owns it
-    const post = await postService.getPostById(postId);
-    if (!post) {
-      return c.json({ error: "Post not found" }, 404);
-    }
-
-    if (post.userId !== session.telegramId) {
-      return c.json({ error: "You do not own this post" }, 403);
-    }
-
     // Check if post is already premium or payment pending
     if (post.starCount && post.starCount > 0) {
       return c.json({ error: "Post is already premium" }, 409);
@@ -113,7 +41,7 @@ export const makePremium = async (c: Context<{ Bindings: Env }>) => {
     // Create payment and get invoice URL
     const result = await paymentService.createPayment({
       userId: session.telegramId,
-      listingId: postId,
+      listingId: post.id,
       starAmount: starCount,
       paymentType: "premium_listing",
     });
@@ -133,36 +61,13 @@ export const makePremium = async (c: Context<{ Bindings: Env }>) => {
  * POST /api/posts/:postId/clear-pending
  * Clear payment pending flag (called when payment cancelled/failed)
  */
-export const clearPending = async (c: Context<{ Bindings: Env }>) => {
+export const clearPending = async (
+  c: ValidatedContext<{ param: PostIdParam }>,
+) => {
   try {
-    // Authenticate user
-    const authResult = await authenticateUser(c);
-    if ("error" in authResult && authResult.error) {
-      return c.json(
-        { error: authResult.error.message },
-        authResult.error.status,
-      );
-    }
-    const { session } = authResult;
-
-    // Parse post ID
-    const postId = parseInt(c.req.param("postId"), 10);
-    if (isNaN(postId)) {
-      return c.json({ error: "Invalid post ID" }, 400);
-    }
+    const { postId } = c.req.valid("param");
 
     const db = createDatabase(c.env.DB);
-    const postService = new PostService(db, c.env);
-
-    // Check post exists and user owns it
-    const post = await postService.getPostById(postId);
-    if (!post) {
-      return c.json({ error: "Post not found" }, 404);
-    }
-
-    if (post.userId !== session.telegramId) {
-      return c.json({ error: "You do not own this post" }, 403);
-    }
 
     // Clear pending flag
     const now = new Date().toISOString();
@@ -183,26 +88,13 @@ export const clearPending = async (c: Context<{ Bindings: Env }>) => {
 
 /**
  * GET /api/payments
- * Get all payments (admin only)
+ * Get all payments (view_payments)
  */
-export const getAllPayments = async (c: Context<{ Bindings: Env }>) => {
+export const getAllPayments = async (
+  c: ValidatedContext<{ query: PaginationQuery }>,
+) => {
   try {
-    // Authenticate user
-    const authResult = await authenticateUser(c);
-    if ("error" in authResult && authResult.error) {
-      return c.json(
-        { error: authResult.error.message },
-        authResult.error.status,
-      );
-    }
-    const { session } = authResult;
-
-    // Check admin
-    if (!isAdmin(session.telegramId, c.env)) {
-      return c.json({ error: "Admin access required" }, 403);
-    }
-
-    const { limit, offset } = parsePagination(c);
+    const { limit, offset } = c.req.valid("query");
 
     const db = createDatabase(c.env.DB);
     const paymentService = new PaymentService(db, c.env);
@@ -224,25 +116,10 @@ export const getAllPayments = async (c: Context<{ Bindings: Env }>) => {
 
 /**
  * GET /api/payments/balance
- * Get bot star balance (admin only, cached)
+ * Get bot star balance (view_payments, cached)
  */
 export const getBalance = async (c: Context<{ Bindings: Env }>) => {
   try {
-    // Authenticate user
-    const authResult = await authenticateUser(c);
-    if ("error" in authResult && authResult.error) {
-      return c.json(
-        { error: authResult.error.message },
-        authResult.error.status,
-      );
-    }
-    const { session } = authResult;
-
-    // Check admin
-    if (!isAdmin(session.telegramId, c.env)) {
-      return c.json({ error: "Admin access required" }, 403);
-    }
-
     const db = createDatabase(c.env.DB);
     const paymentService = new PaymentService(db, c.env);
 
@@ -261,25 +138,10 @@ export const getBalance = async (c: Context<{ Bindings: Env }>) => {
 
 /**
  * POST /api/payments/refresh-balance
- * Refresh bot star balance cache (admin only)
+ * Refresh bot star balance cache (view_payments)
  */
 export const refreshBalance = async (c: Context<{ Bindings: Env }>) => {
   try {
-    // Authenticate user
-    const authResult = await authenticateUser(c);
-    if ("error" in authResult && authResult.error) {
-      return c.json(
-        { error: authResult.error.message },
-        authResult.error.status,
-      );
-    }
-    const { session } = authResult;
-
-    // Check admin
-    if (!isAdmin(session.telegramId, c.env)) {
-      return c.json({ error: "Admin access required" }, 403);
-    }
-
     const db = createDatabase(c.env.DB);
     const paymentService = new PaymentService(db, c.env);
 
@@ -300,33 +162,20 @@ export const refreshBalance = async (c: Context<{ Bindings: Env }>) => {
 
 /**
  * POST /api/payments/:paymentId/refund
- * Refund a payment (admin only)
+ * Refund a payment (refund_payment)
+ * Body: { reason: string } - kept in the audit log
  */
-export const refundPayment = async (c: Context<{ Bindings: Env }>) => {
+export const refundPayment = async (
+  c: ValidatedContext<{ param: PaymentIdParam; json: RefundPaymentInput }>,
+) => {
   try {
-    // Authenticate user
-    const authResult = await authenticateUser(c);
-    if ("error" in authResult && authResult.error) {
-      return c.json(
-        { error: authResult.error.message },
-        authResult.error.status,
-      );
-    }
-    const { session } = authResult;
-
-    // Check admin
-    if (!isAdmin(session.telegramId, c.env)) {
-      return c.json({ error: "Admin access required" }, 403);
-    }
-
-    // Parse payment ID
-    const paymentId = c.req.param("paymentId");
-    if (!paymentId) {
-      return c.json({ error: "Invalid payment ID" }, 400);
-    }
+    const session = c.get("session");
+    const { paymentId } = c.req.valid("param");
+    const { reason } = c.req.valid("json");
 
     const db = createDatabase(c.env.DB);
     const paymentService = new PaymentService(db, c.env);
+    const before = await paymentService.getPaymentById(paymentId);
 
     // Attempt refund
     const result = await paymentService.refundPayment(paymentId);
@@ -335,6 +184,16 @@ export const refundPayment = async (c: Context<{ Bindings: Env }>) => {
       return c.json({ error: result.error }, 400);
     }
 
+    const auditService = new AuditService(db, c.env);
+    await auditService.record(session, {
+      action: "refund_payment",
+      targetType: "payment",
+      targetId: paymentId,
+      reason,
+      before,
+      after: await paymentService.getPaymentById(paymentId),
+    });
+
     return c.json({ success: true });
   } catch (error) {
     console.error("Error processing refund:", error);
@@ -344,39 +203,34 @@ export const refundPayment = async (c: Context<{ Bindings: Env }>) => {
 
 /**
  * POST /api/payments/reconcile
- * Reconcile payments with Telegram Star transactions (admin only)
+ * Reconcile payments with Telegram Star transactions (view_payments)
  */
 export const reconcilePayments = async (c: Context<{ Bindings: Env }>) => {
   try {
-    // Authenticate user
-    const authResult = await authenticateUser(c);
-    if ("error" in authResult && authResult.error) {
-      return c.json(
-        { error: authResult.error.message },
-        authResult.error.status,
-      );
-    }
-    const { session } = authResult;
-
-    // Check admin
-    if (!isAdmin(session.telegramId, c.env)) {
-      return c.json({ error: "Admin access required" }, 403);
-    }
-
+    const session = c.get("session");
     const db = createDatabase(c.env.DB);
     const paymentService = new PaymentService(db, c.env);
 
     // Run reconciliation
     const result = await paymentService.reconcilePayments();
+    const summary = {
+      updated: result.updated.length,
+      unchanged: result.unchanged,
+      notFoundInTelegram: result.notFoundInTelegram.length,
+      errors: result.errors.length,
+    };
+
+    // Only the payments whose status changed are worth keeping
+    const auditService = new AuditService(db, c.env);
+    await auditService.record(session, {
+      action: "reconcile_payments",
+      targetType: "payment",
+      after: { summary, updated: result.updated },
+    });
 
     return c.json({
       success: true,
-      summary: {
-        updated: result.updated.length,
-        unchanged: result.unchanged,
-        notFoundInTelegram: result.notFoundInTelegram.length,
-        errors: result.errors.length,
-      },
+      summary,
       details: result,
     });
   } catch (error) {
@@ -2,8 +2,18 @@ import { Context } from "hono";
 import { createDatabase } from "../db";
 import { PostService } from "../services/post-service";
 import { ImageService } from "../services/image-service";
+import {
+  StorageService,
+  exceedsStorageQuota,
+  storageQuotaError,
+} from "../services/storage-service";
+import { AuditService } from "../services/audit-service";
+import {
+  ModerationService,
+  toListingModeration,
+} from "../services/moderation-service";
 import { createPostSchema, updatePostSchema } from "../models/post";
-import { SessionManager } from "../services/session-manager";
+import { canSeeHeldListings, hasPermission } from "../services/admin-auth";
 import type { Env } from "../types/env";
 import type { ImageUploadData } from "../services/image-service";
 import {
@@ -11,41 +21,6 @@ import {
   sendPostDeletedNotification,
 } from "../services/notification-service";
 
-// Helper: Extract and validate session
-async function authenticateUser(c: Context<{ Bindings: Env }>) {
-  const authHeader = c.req.header("Authorization");
-  if (!authHeader) {
-    return {
-      error: { message: "Authentication required", status: 401 as const },
-    };
-  }
-
-  let sessionId: string;
-  if (authHeader.startsWith("Bearer ")) {
-    sessionId = authHeader.substring(7).trim();
-  } else if (authHeader.startsWith("Session ")) {
-    sessionId = authHeader.substring(8).trim();
-  } else {
-    sessionId = authHeader.trim();
-  }
-
-  if (!sessionId) {
-    return {
-      error: { message: "Authentication required", status: 401 as const },
-    };
-  }
-
-  const sessionManager = SessionManager.create(c.env);
-  const session = await sessionManager.validateSession(sessionId);
-  if (!session) {
-    return {
-      error: { message: "Invalid or expired session", status: 401 as const },
-    };
-  }
-
-  return { session };
-}
-
 // Helper: Parse pagination parameters
 function parsePagination(c: Context) {
   const limitParam = c.req.query("limit") || "50";
@@ -120,10 +95,9 @@ export const getUserPosts = async (c: Context<{ Bindings: Env }>) => {
     const targetProfile = await profileService.getProfile(userId);
 
     if (targetProfile && targetProfile.isBanned === 1) {
-      // Check if viewer is admin
-      const auth = await authenticateUser(c);
-      const isViewerAdmin =
-        "session" in auth && auth.session && auth.session.role === "admin";
+      // Check if viewer is staff who can ban
+      const viewer = c.get("viewer");
+      const isViewerAdmin = !!viewer && hasPermission(viewer.role, "ban_user");
 
       // If user is banned and viewer is not admin, return empty array
       if (!isViewerAdmin) {
@@ -131,11 +105,10 @@ export const getUserPosts = async (c: Context<{ Bindings: Env }>) => {
       }
     }
 
-    const posts = await postService.getUserPostsWithImages({
-      userId,
-      limit,
-      offset,
-    });
+    const posts = await postService.getUserPostsWithImages(
+      { userId, limit, offset },
+      canSeeHeldListings(c.get("viewer"), userId),
+    );
 
     return c.json(createPaginationResponse(posts, limit, offset));
   } catch (error) {
@@ -146,13 +119,7 @@ export const getUserPosts = async (c: Context<{ Bindings: Env }>) => {
 
 export const createPost = async (c: Context<{ Bindings: Env }>) => {
   try {
-    const authResult = await authenticateUser(c);
-    if (authResult.error) {
-      return c.json(
-        { error: authResult.error.message },
-        authResult.error.status,
-      );
-    }
+    const session = c.get("session");
 
     const body = await c.req.json();
     const result = createPostSchema.safeParse(body);
@@ -166,11 +133,22 @@ export const createPost = async (c: Context<{ Bindings: Env }>) => {
     const db = createDatabase(c.env.DB);
     const postService = new PostService(db, c.env);
 
+    // Check the text as typed, before sanitizing escapes it
+    const moderationService = new ModerationService(db, c.env);
+    const verdict = await moderationService.checkListing({
+      userId: session.userId,
+      description: body.content,
+    });
+    if (verdict.action === "reject") {
+      return c.json({ error: verdict.message }, 400);
+    }
+
     const newPost = await postService.createPost(
-      authResult.session.userId,
-      authResult.session.username || `user_${authResult.session.userId}`,
-      authResult.session.displayName,
+      session.userId,
+      session.username || `user_${session.userId}`,
+      session.displayName,
       { content: result.data.content },
+      toListingModeration(verdict),
     );
 
     return c.json({ post: newPost }, 201);
@@ -182,13 +160,7 @@ export const createPost = async (c: Context<{ Bindings: Env }>) => {
 
 export const updatePost = async (c: Context<{ Bindings: Env }>) => {
   try {
-    const authResult = await authenticateUser(c);
-    if (authResult.error) {
-      return c.json(
-        { error: authResult.error.message },
-        authResult.error.status,
-      );
-    }
+    const session = c.get("session");
 
     const postIdResult = parsePostId(c);
     if (postIdResult.error) {
@@ -215,14 +187,26 @@ export const updatePost = async (c: Context<{ Bindings: Env }>) => {
     if (!existingPost) {
       return c.json({ error: "Post not found" }, 404);
     }
-    if (existingPost.userId !== authResult.session.userId) {
+    if (existingPost.userId !== session.userId) {
       return c.json({ error: "Not authorized to update this post" }, 403);
     }
 
+    // Check the text as typed, before sanitizing escapes it
+    const moderationService = new ModerationService(db, c.env);
+    const verdict = await moderationService.checkListing({
+      userId: session.userId,
+      listingId: postIdResult.postId,
+      description: body.content,
+    });
+    if (verdict.action === "reject") {
+      return c.json({ error: verdict.message }, 400);
+    }
+
     const updatedPost = await postService.updatePost(
       postIdResult.postId,
-      authResult.session.userId,
+      session.userId,
       result.data.content,
+      toListingModeration(verdict),
     );
 
     if (!updatedPost) {
@@ -240,18 +224,8 @@ export const deletePost = async (c: Context<{ Bindings: Env }>) => {
   try {
     console.log("[DELETE POST] Starting delete post request");
 
-    const authResult = await authenticateUser(c);
-    if (authResult.error) {
-      console.log("[DELETE POST] Auth failed:", authResult.error);
-      return c.json(
-        { error: authResult.error.message },
-        authResult.error.status,
-      );
-    }
-    console.log(
-      "[DELETE POST] Auth successful, userId:",
-      authResult.session.userId,
-    );
+    const session = c.get("session");
+    console.log("[DELETE POST] Auth successful, userId:", session.userId);
 
     const postIdResult = parsePostId(c);
     if (postIdResult.error) {
@@ -276,9 +250,9 @@ export const deletePost = async (c: Context<{ Bindings: Env }>) => {
     }
     console.log("[DELETE POST] Post found, userId:", existingPost.userId);
 
-    const isOwner = existingPost.userId === authResult.session.userId;
-    console.log("[DELETE POST] Session role:", authResult.session.role);
-    const isAdmin = authResult.session.role === "admin";
+    const isOwner = existingPost.userId === session.userId;
+    console.log("[DELETE POST] Session role:", session.role);
+    const isAdmin = hasPermission(session.role, "delete_content");
     console.log("[DELETE POST] isOwner:", isOwner, "isAdmin:", isAdmin);
 
     if (!isOwner && !isAdmin) {
@@ -311,10 +285,7 @@ export const deletePost = async (c: Context<{ Bindings: Env }>) => {
     const deletedPost =
       isAdmin && !isOwner
         ? await postService.deletePostByIdOnly(postIdResult.postId)
-        : await postService.deletePost(
-            postIdResult.postId,
-            authResult.session.userId,
-          );
+        : await postService.deletePost(postIdResult.postId, session.userId);
 
     if (!deletedPost) {
       console.log("[DELETE POST] Post deletion failed");
@@ -322,6 +293,17 @@ export const deletePost = async (c: Context<{ Bindings: Env }>) => {
     }
     console.log("[DELETE POST] Post deleted from database");
 
+    if (isAdmin && !isOwner) {
+      const auditService = new AuditService(db, c.env);
+      await auditService.record(session, {
+        action: "delete_post",
+        targetType: "post",
+        targetId: postIdResult.postId,
+        before: existingPost,
+        after: null,
+      });
+    }
+
     // Send notification if admin deleted another user's post
     if (shouldNotify && postOwnerTelegramId) {
       console.log("[DELETE POST] Sending bot notification...");
@@ -352,13 +334,7 @@ export const deletePost = async (c: Context<{ Bindings: Env }>) => {
 
 export const uploadPostImages = async (c: Context<{ Bindings: Env }>) => {
   try {
-    const authResult = await authenticateUser(c);
-    if (authResult.error) {
-      return c.json(
-        { error: authResult.error.message },
-        authResult.error.status,
-      );
-    }
+    const session = c.get("session");
 
     const postIdResult = parsePostId(c);
     if (postIdResult.error) {
@@ -370,14 +346,18 @@ export const uploadPostImages = async (c: Context<{ Bindings: Env }>) => {
 
     const db = createDatabase(c.env.DB);
     const postService = new PostService(db, c.env);
-    const imageService = new ImageService(db, c.env.IMAGES);
+    const imageService = new ImageService(
+      db,
+      c.env.IMAGES,
+      c.env.IMAGE_TRANSFORMER,
+    );
 
     // Check if post exists and user owns it
     const existingPost = await postService.getPostById(postIdResult.postId);
     if (!existingPost) {
       return c.json({ error: "Post not found" }, 404);
     }
-    if (existingPost.userId !== authResult.session.userId) {
+    if (existingPost.userId !== session.userId) {
       return c.json(
         { error: "Not authorized to upload images to this post" },
         403,
@@ -392,47 +372,21 @@ export const uploadPostImages = async (c: Context<{ Bindings: Env }>) => {
       if (key.startsWith("image_") && value instanceof File) {
         const arrayBuffer = await value.arrayBuffer();
 
-        // Validate image
-        if (!(await imageService.validateImageFile(arrayBuffer, value.type))) {
+        // Check the real type and size; the file's declared type and any
+        // width/height fields are ignored
+        const info = imageService.inspectImage(arrayBuffer);
+        if (!info) {
           return c.json({ error: `Invalid image file: ${value.name}` }, 400);
         }
 
-        // Get thumbnail data from form
-        const thumbnailKey = key.replace("image_", "thumbnail_");
-        const thumbnailFile = formData.get(thumbnailKey) as File;
-        if (!thumbnailFile) {
-          return c.json(
-            { error: `Thumbnail missing for image: ${value.name}` },
-            400,
-          );
-        }
-
-        const thumbnailBuffer = await thumbnailFile.arrayBuffer();
-        if (!(await imageService.validateThumbnailFile(thumbnailBuffer))) {
-          return c.json(
-            { error: `Invalid thumbnail file: ${value.name}` },
-            400,
-          );
-        }
-
-        // Get metadata from form
         const orderKey = key.replace("image_", "order_");
-        const widthKey = key.replace("image_", "width_");
-        const heightKey = key.replace("image_", "height_");
-
         const uploadOrder = parseInt(formData.get(orderKey) as string) || 1;
-        const width = parseInt(formData.get(widthKey) as string) || 0;
-        const height = parseInt(formData.get(heightKey) as string) || 0;
 
         images.push({
           originalName: value.name,
-          mimeType: value.type,
-          fileSize: arrayBuffer.byteLength,
-          width,
-          height,
           uploadOrder,
           imageBuffer: arrayBuffer,
-          thumbnailBuffer,
+          info,
         });
       }
     }
@@ -453,6 +407,17 @@ export const uploadPostImages = async (c: Context<{ Bindings: Env }>) => {
       return c.json({ error: "Maximum 10 images allowed per post" }, 400);
     }
 
+    const usage = await new StorageService(db, c.env).getUserUsage(
+      session.userId,
+    );
+    const incomingBytes = images.reduce(
+      (total, image) => total + image.imageBuffer.byteLength,
+      0,
+    );
+    if (exceedsStorageQuota(usage, incomingBytes)) {
+      return c.json(storageQuotaError(usage), 413);
+    }
+
     // Upload all images
     const uploadedImages = await imageService.uploadImages(
       postIdResult.postId,
@@ -481,13 +446,7 @@ export const uploadPostImages = async (c: Context<{ Bindings: Env }>) => {
 
 export const deletePostImage = async (c: Context<{ Bindings: Env }>) => {
   try {
-    const authResult = await authenticateUser(c);
-    if (authResult.error) {
-      return c.json(
-        { error: authResult.error.message },
-        authResult.error.status,
-      );
-    }
+    const session = c.get("session");
 
     const postIdResult = parsePostId(c);
     if (postIdResult.error) {
@@ -511,7 +470,7 @@ export const deletePostImage = async (c: Context<{ Bindings: Env }>) => {
     if (!existingPost) {
       return c.json({ error: "Post not found" }, 404);
     }
-    if (existingPost.userId !== authResult.session.userId) {
+    if (existingPost.userId !== session.userId) {
       return c.json(
         { error: "Not authorized to delete images from this post" },
         403,
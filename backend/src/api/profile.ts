@@ -2,9 +2,20 @@ import { Context } from "hono";
 import { createDatabase } from "../db";
 import { ProfileService } from "../services/profile-service";
 import { PostService } from "../services/post-service";
-import { updateProfileSchema, getProfileSchema } from "../models/profile";
-import { SessionManager } from "../services/session-manager";
+import {
+  getProfileSchema,
+  sanitizeProfileUpdate,
+  type UpdateProfileInput,
+} from "../models/profile";
 import { ImageService } from "../services/image-service";
+import {
+  StorageService,
+  exceedsStorageQuota,
+  storageQuotaError,
+} from "../services/storage-service";
+import { ReviewService } from "../services/review-service";
+import { ModerationService } from "../services/moderation-service";
+import type { ValidatedContext } from "../middleware/validator";
 import type { Env } from "../types/env";
 
 // Get public profile by telegram ID
@@ -34,6 +45,9 @@ export const getProfile = async (c: Context<{ Bindings: Env }>) => {
       });
     }
 
+    const reviewService = new ReviewService(createDatabase(c.env.DB), c.env);
+    const rating = await reviewService.getSellerRating(telegramId);
+
     return c.json({
       profile: {
         telegram_id: formattedProfile.telegramId,
@@ -43,6 +57,7 @@ export const getProfile = async (c: Context<{ Bindings: Env }>) => {
         profile_image_key: formattedProfile.profileImageKey,
         created_at: formattedProfile.createdAt,
         is_banned: false,
+        rating,
       },
     });
   } catch (error: unknown) {
@@ -59,17 +74,7 @@ export const getProfile = async (c: Context<{ Bindings: Env }>) => {
 // Get current user's profile
 export const getMyProfile = async (c: Context<{ Bindings: Env }>) => {
   try {
-    const sessionManager = SessionManager.create(c.env);
-    const sessionId = c.req.header("x-session-id");
-
-    if (!sessionId) {
-      return c.json({ error: "Session ID required" }, 401);
-    }
-
-    const session = await sessionManager.validateSession(sessionId);
-    if (!session) {
-      return c.json({ error: "Invalid session" }, 401);
-    }
+    const session = c.get("session");
 
     const profileService = new ProfileService(c.env.DB);
     let profile = await profileService.getProfile(session.userId);
@@ -84,6 +89,8 @@ export const getMyProfile = async (c: Context<{ Bindings: Env }>) => {
     }
 
     const formattedProfile = profileService.formatProfile(profile);
+    const reviewService = new ReviewService(createDatabase(c.env.DB), c.env);
+    const rating = await reviewService.getSellerRating(session.userId);
 
     return c.json({
       profile: {
@@ -96,6 +103,7 @@ export const getMyProfile = async (c: Context<{ Bindings: Env }>) => {
         profile_image_key: formattedProfile.profileImageKey,
         created_at: formattedProfile.createdAt,
         updated_at: formattedProfile.updatedAt,
+        rating,
       },
     });
   } catch (error: unknown) {
@@ -110,22 +118,29 @@ export const getMyProfile = async (c: Context<{ Bindings: Env }>) => {
 };
 
 // Update current user's profile
-export const updateMyProfile = async (c: Context<{ Bindings: Env }>) => {
+export const updateMyProfile = async (
+  c: ValidatedContext<{ json: UpdateProfileInput }>,
+) => {
   try {
-    const sessionManager = SessionManager.create(c.env);
-    const sessionId = c.req.header("x-session-id");
+    const session = c.get("session");
 
-    if (!sessionId) {
-      return c.json({ error: "Session ID required" }, 401);
-    }
+    const body = c.req.valid("json");
 
-    const session = await sessionManager.validateSession(sessionId);
-    if (!session) {
-      return c.json({ error: "Invalid session" }, 401);
+    // Check the text as typed, before sanitizing escapes it
+    const moderationService = new ModerationService(
+      createDatabase(c.env.DB),
+      c.env,
+    );
+    const verdict = await moderationService.checkProfile({
+      userId: session.userId,
+      displayName: body.display_name,
+      bio: body.bio,
+    });
+    if (verdict.action === "reject") {
+      return c.json({ error: verdict.message }, 400);
     }
 
-    const body = await c.req.json();
-    const updateData = updateProfileSchema.parse(body);
+    const updateData = sanitizeProfileUpdate(body);
 
     const profileService = new ProfileService(c.env.DB);
     const updatedProfile = await profileService.updateProfile(
@@ -174,17 +189,7 @@ export const updateMyProfile = async (c: Context<{ Bindings: Env }>) => {
 // Upload profile avatar
 export const uploadProfileAvatar = async (c: Context<{ Bindings: Env }>) => {
   try {
-    const sessionManager = SessionManager.create(c.env);
-    const sessionId = c.req.header("x-session-id");
-
-    if (!sessionId) {
-      return c.json({ error: "Session ID required" }, 401);
-    }
-
-    const session = await sessionManager.validateSession(sessionId);
-    if (!session) {
-      return c.json({ error: "Invalid session" }, 401);
-    }
+    const session = c.get("session");
 
     const formData = await c.req.formData();
     const file = formData.get("image") as File;
@@ -210,6 +215,15 @@ export const uploadProfileAvatar = async (c: Context<{ Bindings: Env }>) => {
 
     // Get current profile to check for existing avatar
     const currentProfile = await profileService.getProfile(session.userId);
+
+    // The new avatar takes the old one's place
+    const usage = await new StorageService(db, c.env).getUserUsage(
+      session.userId,
+    );
+    if (exceedsStorageQuota(usage, file.size, usage.avatarBytes)) {
+      return c.json(storageQuotaError(usage), 413);
+    }
+
     if (currentProfile?.profileImageKey) {
       // Delete old avatar from R2 before uploading new one
       await imageService.deleteProfileImage(currentProfile.profileImageKey);
@@ -217,12 +231,16 @@ export const uploadProfileAvatar = async (c: Context<{ Bindings: Env }>) => {
 
     // Upload profile image (resized to 512px)
     const profileImageKey = `profiles/${session.userId}/${Date.now()}-avatar.jpg`;
-    await imageService.uploadProfileImage(file, profileImageKey);
+    const profileImageSize = await imageService.uploadProfileImage(
+      file,
+      profileImageKey,
+    );
 
     // Update profile with new image key
     const updatedProfile = await profileService.uploadAvatar(
       session.userId,
       profileImageKey,
+      profileImageSize,
     );
 
     return c.json({
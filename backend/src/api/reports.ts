@@ -0,0 +1,260 @@
+import { createDatabase } from "../db";
+import { ReportService } from "../services/report-service";
+import { ListingService } from "../services/listing-service";
+import { ProfileService } from "../services/profile-service";
+import { AdminService } from "../services/admin-service";
+import { AuditService } from "../services/audit-service";
+import { BanService } from "../services/ban-service";
+import { hasPermission } from "../services/admin-auth";
+import { sendBanNotification } from "../services/notification-service";
+import type { ValidatedContext } from "../middleware/validator";
+import type { Report } from "../db/schema";
+import { LISTING_STATUS } from "../../../shared/constants";
+import type {
+  CreateReportInput,
+  ReportQueueQuery,
+  ReportTargetParam,
+  ResolveReportsInput,
+} from "../../../shared/schemas";
+
+// Helper: Summarise open reports for the audit log and default reasons
+function summarizeReports(openReports: Report[]) {
+  const reasons = [...new Set(openReports.map((report) => report.reason))];
+  return {
+    reportCount: openReports.length,
+    reporterCount: new Set(openReports.map((report) => report.reporterId)).size,
+    reasons,
+  };
+}
+
+/**
+ * POST /api/reports
+ * Report a listing or a user to the moderators
+ * Body: { targetType, targetId, reason, details? }
+ */
+export const createReport = async (
+  c: ValidatedContext<{ json: CreateReportInput }>,
+) => {
+  try {
+    const session = c.get("session");
+    const input = c.req.valid("json");
+
+    const db = createDatabase(c.env.DB);
+
+    if (input.targetType === "listing") {
+      const listingService = new ListingService(db, c.env);
+      const listing = await listingService.getListingById(input.targetId);
+      if (!listing) {
+        return c.json({ error: "Listing not found" }, 404);
+      }
+      if (listing.userId === session.telegramId) {
+        return c.json({ error: "You can't report your own listing" }, 400);
+      }
+    } else {
+      if (input.targetId === session.telegramId) {
+        return c.json({ error: "You can't report yourself" }, 400);
+      }
+      const profileService = new ProfileService(c.env.DB);
+      const profile = await profileService.getProfile(input.targetId);
+      if (!profile) {
+        return c.json({ error: "Profile not found" }, 404);
+      }
+    }
+
+    const reportService = new ReportService(db, c.env);
+    const report = await reportService.createReport(session.telegramId, input);
+    if (!report) {
+      return c.json({ error: "You have already reported this" }, 409);
+    }
+
+    if (input.targetType === "listing") {
+      await reportService.holdListingIfReported(input.targetId);
+    }
+
+    return c.json({ success: true, report }, 201);
+  } catch (error) {
+    console.error("Error creating report:", error);
+    return c.json({ error: "Failed to submit report" }, 500);
+  }
+};
+
+/**
+ * GET /api/admin/reports
+ * Open reports grouped by target, most-reported first (review_reports)
+ * Query: ?targetType=listing|user&limit=20&offset=0
+ */
+export const getReportQueue = async (
+  c: ValidatedContext<{ query: ReportQueueQuery }>,
+) => {
+  try {
+    const { targetType, limit, offset } = c.req.valid("query");
+
+    const db = createDatabase(c.env.DB);
+    const reportService = new ReportService(db, c.env);
+
+    const { groups, total } = await reportService.getQueue({
+      targetType,
+      limit,
+      offset,
+    });
+
+    return c.json({ groups, total, limit, offset });
+  } catch (error) {
+    console.error("Error fetching report queue:", error);
+    return c.json({ error: "Failed to fetch reports" }, 500);
+  }
+};
+
+/**
+ * POST /api/admin/reports/:targetType/:targetId/resolve
+ * Act on every open report about a target and close them (review_reports;
+ * archive also needs archive_listing and ban needs ban_user)
+ * Body: { action: 'dismiss' | 'archive' | 'ban', note?: string, durationDays?: number }
+ */
+export const resolveReports = async (
+  c: ValidatedContext<{ param: ReportTargetParam; json: ResolveReportsInput }>,
+) => {
+  const session = c.get("session");
+  const { targetType, targetId } = c.req.valid("param");
+  const { action, note, durationDays } = c.req.valid("json");
+
+  if (action === "archive" && targetType !== "listing") {
+    return c.json({ error: "Only listings can be archived" }, 400);
+  }
+  if (
+    (action === "archive" && !hasPermission(session.role, "archive_listing")) ||
+    (action === "ban" && !hasPermission(session.role, "ban_user"))
+  ) {
+    return c.json({ error: "You don't have permission to do this" }, 403);
+  }
+
+  try {
+    const db = createDatabase(c.env.DB);
+    const reportService = new ReportService(db, c.env);
+    const auditService = new AuditService(db, c.env);
+    const profileService = new ProfileService(c.env.DB);
+
+    const openReports = await reportService.getOpenReports(
+      targetType,
+      targetId,
+    );
+    if (openReports.length === 0) {
+      return c.json({ error: "No open reports for this target" }, 404);
+    }
+
+    const summary = summarizeReports(openReports);
+    const reason = note ?? `Reported for ${summary.reasons.join(", ")}`;
+
+    const listing =
+      targetType === "listing"
+        ? await new ListingService(db, c.env).getListingById(targetId)
+        : null;
+    const profile =
+      targetType === "user" ? await profileService.getProfile(targetId) : null;
+    const targetLabel = listing
+      ? `"${listing.title}"`
+      : profile?.displayName || profile?.username || "a user";
+
+    // A deleted listing's reports can still be dismissed
+    if (targetType === "listing" && !listing && action !== "dismiss") {
+      return c.json({ error: "Listing not found" }, 404);
+    }
+
+    // Check who a ban would hit before changing anything
+    const bannedId = listing ? listing.userId : targetId;
+    const bannedProfile =
+      action !== "ban"
+        ? null
+        : listing
+          ? await profileService.getProfile(bannedId)
+          : profile;
+    if (action === "ban") {
+      if (bannedId === session.telegramId) {
+        return c.json({ error: "Cannot ban yourself" }, 400);
+      }
+      if (!bannedProfile) {
+        return c.json({ error: "Profile not found" }, 404);
+      }
+      const refused = await new BanService(db, c.env).checkBan(
+        bannedId,
+        session,
+      );
+      if (refused) {
+        return c.json({ error: refused }, 403);
+      }
+    }
+
+    if (action === "dismiss") {
+      const released = listing
+        ? await reportService.releaseListing(targetId)
+        : null;
+      await auditService.record(session, {
+        action: "dismiss_reports",
+        targetType,
+        targetId,
+        reason: note,
+        before: { ...summary, status: listing?.status },
+        after: released ? { status: released.status } : undefined,
+      });
+    }
+
+    // Banning from a listing report bans its seller and takes the listing down
+    if (listing && action !== "dismiss") {
+      if (listing.status !== LISTING_STATUS.ARCHIVED) {
+        const adminService = new AdminService(db, c.env);
+        const result = await adminService.archiveListing(targetId, reason);
+        if (!result.success) {
+          return c.json(
+            { error: result.error || "Failed to archive listing" },
+            500,
+          );
+        }
+        await auditService.record(session, {
+          action: "archive_listing",
+          targetType: "listing",
+          targetId,
+          reason,
+          before: result.previous,
+          after: result.listing,
+        });
+      }
+    }
+
+    if (action === "ban" && bannedProfile) {
+      if (bannedProfile.isBanned !== 1) {
+        const banService = new BanService(db, c.env);
+        const result = await banService.ban(
+          bannedId,
+          { reason, durationDays },
+          session,
+        );
+        if ("error" in result) {
+          return c.json({ error: result.error }, 403);
+        }
+        const { ban } = result;
+        await auditService.record(session, {
+          action: "ban_user",
+          targetType: "user",
+          targetId: bannedId,
+          reason,
+          before: { isBanned: false },
+          after: { isBanned: true, banId: ban.id, expiresAt: ban.expiresAt },
+        });
+        await sendBanNotification(c.env, bannedId, true, ban);
+      }
+    }
+
+    const resolved = await reportService.resolveReports(
+      targetType,
+      targetId,
+      action,
+      session.telegramId,
+    );
+    await reportService.notifyReporters(resolved, targetLabel, action);
+
+    return c.json({ success: true, resolved: resolved.length });
+  } catch (error) {
+    console.error("Error resolving reports:", error);
+    return c.json({ error: "Failed to resolve reports" }, 500);
+  }
+};
@@ -0,0 +1,167 @@
+import { createDatabase } from "../db";
+import { ReviewService } from "../services/review-service";
+import { ListingService } from "../services/listing-service";
+import { ConversationService } from "../services/conversation-service";
+import { hasPermission } from "../services/admin-auth";
+import type { CreateReviewInput, ReviewReplyInput } from "../models/review";
+import type { ValidatedContext } from "../middleware/validator";
+import type {
+  ListingIdParam,
+  SellerReviewParam,
+  TelegramIdParam,
+} from "../../../shared/schemas";
+
+/**
+ * GET /api/profile/:telegramId/reviews
+ * Public reviews of a seller with their aggregate rating.
+ * Admins also get reviews they have hidden.
+ */
+export const getSellerReviews = async (
+  c: ValidatedContext<{ param: TelegramIdParam }>,
+) => {
+  try {
+    const { telegramId: sellerId } = c.req.valid("param");
+
+    const viewer = c.get("viewer");
+    const includeHidden = !!viewer && hasPermission(viewer.role, "hide_review");
+
+    const db = createDatabase(c.env.DB);
+    const reviewService = new ReviewService(db, c.env);
+    const [reviews, rating] = await Promise.all([
+      reviewService.getSellerReviews(sellerId, includeHidden),
+      reviewService.getSellerRating(sellerId),
+    ]);
+
+    return c.json({ reviews, rating });
+  } catch (error) {
+    console.error("Error fetching reviews:", error);
+    return c.json({ error: "Failed to fetch reviews" }, 500);
+  }
+};
+
+/**
+ * POST /api/listings/:listingId/purchase
+ * Mark a listing as bought from its seller. The buyer must have messaged
+ * the seller about it first.
+ */
+export const markPurchased = async (
+  c: ValidatedContext<{ param: ListingIdParam }>,
+) => {
+  try {
+    const session = c.get("session");
+    const { listingId } = c.req.valid("param");
+
+    const db = createDatabase(c.env.DB);
+    const listingService = new ListingService(db, c.env);
+    const listing = await listingService.getListingById(listingId);
+    if (!listing) {
+      return c.json({ error: "Listing not found" }, 404);
+    }
+
+    const buyerId = session.userId;
+    if (listing.userId === buyerId) {
+      return c.json({ error: "Cannot buy your own listing" }, 400);
+    }
+
+    const conversationService = new ConversationService(db, c.env);
+    const conversation = await conversationService.getConversationForListing(
+      listingId,
+      buyerId,
+    );
+    if (!conversation?.lastMessageAt) {
+      return c.json(
+        { error: "Message the seller about this listing first" },
+        400,
+      );
+    }
+
+    const reviewService = new ReviewService(db, c.env);
+    const purchase = await reviewService.markPurchased(listing, buyerId);
+    const review = await reviewService.getReviewForPurchase(purchase.id);
+
+    return c.json({
+      purchase: {
+        id: purchase.id,
+        listingId: purchase.listingId,
+        sellerId: purchase.sellerId,
+        createdAt: purchase.createdAt,
+      },
+      review: review ? reviewService.formatReview(review) : null,
+    });
+  } catch (error) {
+    console.error("Error marking listing as bought:", error);
+    return c.json({ error: "Failed to mark listing as bought" }, 500);
+  }
+};
+
+/**
+ * POST /api/profile/:telegramId/reviews
+ * Leave a review for a listing bought from this seller (one per listing)
+ */
+export const createReview = async (
+  c: ValidatedContext<{ param: TelegramIdParam; json: CreateReviewInput }>,
+) => {
+  try {
+    const session = c.get("session");
+    const { telegramId: sellerId } = c.req.valid("param");
+    const input = c.req.valid("json");
+
+    const db = createDatabase(c.env.DB);
+    const reviewService = new ReviewService(db, c.env);
+    const purchase = await reviewService.getPurchase(
+      input.listingId,
+      session.userId,
+    );
+    if (!purchase || purchase.sellerId !== sellerId) {
+      return c.json(
+        { error: "Mark the listing as bought before reviewing the seller" },
+        400,
+      );
+    }
+
+    if (await reviewService.getReviewForPurchase(purchase.id)) {
+      return c.json({ error: "You already reviewed this listing" }, 409);
+    }
+
+    const review = await reviewService.createReview(purchase, input);
+
+    return c.json({ review: reviewService.formatReview(review) }, 201);
+  } catch (error) {
+    console.error("Error creating review:", error);
+    return c.json({ error: "Failed to create review" }, 500);
+  }
+};
+
+/**
+ * POST /api/profile/:telegramId/reviews/:reviewId/reply
+ * The seller's one public reply to a review
+ */
+export const replyToReview = async (
+  c: ValidatedContext<{ param: SellerReviewParam; json: ReviewReplyInput }>,
+) => {
+  try {
+    const session = c.get("session");
+    const { telegramId: sellerId, reviewId } = c.req.valid("param");
+    const { reply } = c.req.valid("json");
+
+    const db = createDatabase(c.env.DB);
+    const reviewService = new ReviewService(db, c.env);
+    const review = await reviewService.getReviewById(reviewId);
+    if (!review || review.sellerId !== sellerId) {
+      return c.json({ error: "Review not found" }, 404);
+    }
+    if (review.sellerId !== session.userId) {
+      return c.json({ error: "Only the seller can reply" }, 403);
+    }
+
+    const updated = await reviewService.replyToReview(reviewId, reply);
+    if (!updated) {
+      return c.json({ error: "You already replied to this review" }, 409);
+    }
+
+    return c.json({ review: reviewService.formatReview(updated) });
+  } catch (error) {
+    console.error("Error replying to review:", error);
+    return c.json({ error: "Failed to reply to review" }, 500);
+  }
+};
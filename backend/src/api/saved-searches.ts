@@ -0,0 +1,127 @@
+import { Context } from "hono";
+import { createDatabase } from "../db";
+import { SavedSearchService } from "../services/saved-search-service";
+import type {
+  CreateSavedSearchInput,
+  UpdateSavedSearchInput,
+} from "../models/saved-search";
+import type { ValidatedContext } from "../middleware/validator";
+import type { Env } from "../types/env";
+import { MAX_SAVED_SEARCHES_PER_USER } from "../../../shared/constants";
+import type { SavedSearchIdParam } from "../../../shared/schemas";
+
+export const getSavedSearches = async (c: Context<{ Bindings: Env }>) => {
+  try {
+    const session = c.get("session");
+
+    const db = createDatabase(c.env.DB);
+    const savedSearchService = new SavedSearchService(db, c.env);
+    const savedSearches = await savedSearchService.getUserSavedSearches(
+      session.userId,
+    );
+
+    return c.json({
+      savedSearches: savedSearches.map((savedSearch) =>
+        savedSearchService.formatSavedSearch(savedSearch),
+      ),
+    });
+  } catch (error) {
+    console.error("Error fetching saved searches:", error);
+    return c.json({ error: "Failed to fetch saved searches" }, 500);
+  }
+};
+
+export const createSavedSearch = async (
+  c: ValidatedContext<{ json: CreateSavedSearchInput }>,
+) => {
+  try {
+    const session = c.get("session");
+
+    const input = c.req.valid("json");
+
+    const db = createDatabase(c.env.DB);
+    const savedSearchService = new SavedSearchService(db, c.env);
+
+    const existingCount = await savedSearchService.countUserSavedSearches(
+      session.userId,
+    );
+    if (existingCount >= MAX_SAVED_SEARCHES_PER_USER) {
+      return c.json(
+        {
+          error: `You can have at most ${MAX_SAVED_SEARCHES_PER_USER} saved searches`,
+        },
+        400,
+      );
+    }
+
+    const savedSearch = await savedSearchService.createSavedSearch(
+      session.userId,
+      input,
+    );
+
+    return c.json(
+      { savedSearch: savedSearchService.formatSavedSearch(savedSearch) },
+      201,
+    );
+  } catch (error) {
+    console.error("Error creating saved search:", error);
+    return c.json({ error: "Failed to create saved search" }, 500);
+  }
+};
+
+export const updateSavedSearch = async (
+  c: ValidatedContext<{
+    param: SavedSearchIdParam;
+    json: UpdateSavedSearchInput;
+  }>,
+) => {
+  try {
+    const session = c.get("session");
+    const { savedSearchId } = c.req.valid("param");
+    const input = c.req.valid("json");
+
+    const db = createDatabase(c.env.DB);
+    const savedSearchService = new SavedSearchService(db, c.env);
+    const savedSearch = await savedSearchService.updateSavedSearch(
+      savedSearchId,
+      session.userId,
+      input,
+    );
+
+    if (!savedSearch) {
+      return c.json({ error: "Saved search not found" }, 404);
+    }
+
+    return c.json({
+      savedSearch: savedSearchService.formatSavedSearch(savedSearch),
+    });
+  } catch (error) {
+    console.error("Error updating saved search:", error);
+    return c.json({ error: "Failed to update saved search" }, 500);
+  }
+};
+
+export const deleteSavedSearch = async (
+  c: ValidatedContext<{ param: SavedSearchIdParam }>,
+) => {
+  try {
+    const session = c.get("session");
+    const { savedSearchId } = c.req.valid("param");
+
+    const db = createDatabase(c.env.DB);
+    const savedSearchService = new SavedSearchService(db, c.env);
+    const deleted = await savedSearchService.deleteSavedSearch(
+      savedSearchId,
+      session.userId,
+    );
+
+    if (!deleted) {
+      return c.json({ error: "Saved search not found" }, 404);
+    }
+
+    return c.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting saved search:", error);
+    return c.json({ error: "Failed to delete saved search" }, 500);
+  }
+};
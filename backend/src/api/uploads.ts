@@ -0,0 +1,269 @@
+import type { Context } from "hono";
+import { createDatabase } from "../db";
+import { ImageService, toImageUrlData } from "../services/image-service";
+import {
+  StorageService,
+  exceedsStorageQuota,
+  storageQuotaError,
+} from "../services/storage-service";
+import {
+  UploadSessionService,
+  toUploadSessionState,
+  uploadPartCount,
+  uploadPartLength,
+  type UploadSessionDetails,
+} from "../services/upload-session-service";
+import type { ValidatedContext } from "../middleware/validator";
+import type { Env } from "../types/env";
+import { MAX_LISTING_IMAGES } from "../../../shared/constants";
+import type {
+  CreateUploadSessionInput,
+  ListingIdParam,
+  UploadPartParam,
+  UploadSessionParam,
+  UploadSlotParam,
+} from "../../../shared/schemas";
+
+const SESSION_NOT_FOUND = "Upload session not found or expired";
+
+// Helper: Read a request body that must be exactly `expected` bytes,
+// refusing oversized ones before reading them
+async function readExactBody(
+  c: Context<{ Bindings: Env }>,
+  expected: number,
+): Promise<ArrayBuffer | null> {
+  const declared = c.req.header("Content-Length");
+  if (declared !== undefined && Number(declared) !== expected) {
+    return null;
+  }
+
+  const body = await c.req.arrayBuffer();
+  return body.byteLength === expected ? body : null;
+}
+
+// Helper: The session and slot a file or part upload is for
+async function findSlot(
+  c: ValidatedContext<{ param: UploadSlotParam }>,
+): Promise<
+  | {
+      service: UploadSessionService;
+      details: UploadSessionDetails;
+      file: UploadSessionDetails["files"][number];
+    }
+  | { error: string; status: 404 }
+> {
+  const { listingId, uploadId, slot } = c.req.valid("param");
+
+  const service = new UploadSessionService(createDatabase(c.env.DB), c.env);
+  const details = await service.getSession(listingId, uploadId);
+  if (!details) {
+    return { error: SESSION_NOT_FOUND, status: 404 };
+  }
+
+  const file = details.files.find((file) => file.slot === slot);
+  if (!file) {
+    return { error: "Slot not found", status: 404 };
+  }
+
+  return { service, details, file };
+}
+
+export const createUploadSession = async (
+  c: ValidatedContext<{
+    param: ListingIdParam;
+    json: CreateUploadSessionInput;
+  }>,
+) => {
+  try {
+    const session = c.get("session");
+    const { listingId } = c.req.valid("param");
+    const { files } = c.req.valid("json");
+
+    const db = createDatabase(c.env.DB);
+    const imageService = new ImageService(db, c.env.IMAGES);
+    const currentImageCount =
+      await imageService.getListingImageCount(listingId);
+    if (currentImageCount + files.length > MAX_LISTING_IMAGES) {
+      return c.json(
+        {
+          error: `Maximum ${MAX_LISTING_IMAGES} images allowed per listing`,
+        },
+        400,
+      );
+    }
+
+    const usage = await new StorageService(db, c.env).getUserUsage(
+      session.userId,
+    );
+    const incomingBytes = files.reduce((total, file) => total + file.size, 0);
+    if (exceedsStorageQuota(usage, incomingBytes)) {
+      return c.json(storageQuotaError(usage), 413);
+    }
+
+    const service = new UploadSessionService(db, c.env);
+    const details = await service.createSession(
+      listingId,
+      session.userId,
+      files,
+    );
+
+    return c.json({ upload: toUploadSessionState(details) }, 201);
+  } catch (error) {
+    console.error("Error creating upload session:", error);
+    return c.json({ error: "Failed to create upload session" }, 500);
+  }
+};
+
+export const getUploadSession = async (
+  c: ValidatedContext<{ param: UploadSessionParam }>,
+) => {
+  try {
+    const { listingId, uploadId } = c.req.valid("param");
+
+    const service = new UploadSessionService(createDatabase(c.env.DB), c.env);
+    const details = await service.getSession(listingId, uploadId);
+    if (!details) {
+      return c.json({ error: SESSION_NOT_FOUND }, 404);
+    }
+
+    return c.json({ upload: toUploadSessionState(details) });
+  } catch (error) {
+    console.error("Error fetching upload session:", error);
+    return c.json({ error: "Failed to fetch upload session" }, 500);
+  }
+};
+
+// PUT the raw bytes of a file small enough to go in one request
+export const uploadSessionFile = async (
+  c: ValidatedContext<{ param: UploadSlotParam }>,
+) => {
+  try {
+    const found = await findSlot(c);
+    if ("error" in found) {
+      return c.json({ error: found.error }, found.status);
+    }
+    const { service, details, file } = found;
+
+    if (file.multipartUploadId) {
+      return c.json({ error: "This file must be sent in parts" }, 400);
+    }
+
+    const body = await readExactBody(c, file.size);
+    if (!body) {
+      return c.json({ error: `Expected exactly ${file.size} bytes` }, 400);
+    }
+
+    await service.putFile(details, file, body);
+
+    const updated = await service.getSession(
+      details.session.listingId,
+      details.session.id,
+    );
+    return c.json({ upload: updated && toUploadSessionState(updated) });
+  } catch (error) {
+    console.error("Error uploading file:", error);
+    return c.json({ error: "Failed to upload file" }, 500);
+  }
+};
+
+// PUT one part of a large file; parts can arrive in any order and be resent
+export const uploadSessionPart = async (
+  c: ValidatedContext<{ param: UploadPartParam }>,
+) => {
+  try {
+    const { partNumber } = c.req.valid("param");
+
+    const found = await findSlot(c);
+    if ("error" in found) {
+      return c.json({ error: found.error }, found.status);
+    }
+    const { service, details, file } = found;
+
+    if (!file.multipartUploadId) {
+      return c.json({ error: "This file must be sent in one request" }, 400);
+    }
+    if (partNumber > uploadPartCount(file.size)) {
+      return c.json({ error: "Part not found" }, 404);
+    }
+
+    const length = uploadPartLength(file.size, partNumber);
+    const body = await readExactBody(c, length);
+    if (!body) {
+      return c.json({ error: `Expected exactly ${length} bytes` }, 400);
+    }
+
+    await service.putPart(details, file, partNumber, body);
+
+    const updated = await service.getSession(
+      details.session.listingId,
+      details.session.id,
+    );
+    return c.json({ upload: updated && toUploadSessionState(updated) });
+  } catch (error) {
+    console.error("Error uploading part:", error);
+    return c.json({ error: "Failed to upload part" }, 500);
+  }
+};
+
+export const commitUploadSession = async (
+  c: ValidatedContext<{ param: UploadSessionParam }>,
+) => {
+  try {
+    const { listingId, uploadId } = c.req.valid("param");
+
+    const service = new UploadSessionService(createDatabase(c.env.DB), c.env);
+    const details = await service.getSession(listingId, uploadId);
+    if (!details) {
+      return c.json({ error: SESSION_NOT_FOUND }, 404);
+    }
+
+    const missingSlots = details.files
+      .filter((file) => file.uploadedAt === null)
+      .map((file) => file.slot);
+    if (missingSlots.length > 0) {
+      return c.json(
+        { error: "Some files haven't been uploaded yet", missingSlots },
+        409,
+      );
+    }
+
+    const result = await service.commitSession(details);
+    if (!result) {
+      return c.json({ error: SESSION_NOT_FOUND }, 404);
+    }
+
+    return c.json(
+      {
+        message:
+          result.failed.length > 0
+            ? "Some images could not be added"
+            : "Images uploaded successfully",
+        images: result.images.map(toImageUrlData),
+        failed: result.failed,
+      },
+      201,
+    );
+  } catch (error) {
+    console.error("Error committing upload session:", error);
+    return c.json({ error: "Failed to commit upload session" }, 500);
+  }
+};
+
+export const deleteUploadSession = async (
+  c: ValidatedContext<{ param: UploadSessionParam }>,
+) => {
+  try {
+    const { listingId, uploadId } = c.req.valid("param");
+
+    const service = new UploadSessionService(createDatabase(c.env.DB), c.env);
+    const details = await service.getSession(listingId, uploadId);
+    if (!details || !(await service.abortSession(details))) {
+      return c.json({ error: SESSION_NOT_FOUND }, 404);
+    }
+
+    return c.json({ message: "Upload session cancelled" });
+  } catch (error) {
+    console.error("Error cancelling upload session:", error);
+    return c.json({ error: "Failed to cancel upload session" }, 500);
+  }
+};
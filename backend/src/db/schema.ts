@@ -1,4 +1,10 @@
-import { sqliteTable, integer, text, index } from "drizzle-orm/sqlite-core";
+import {
+  sqliteTable,
+  integer,
+  text,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/sqlite-core";
 import { sql } from "drizzle-orm";
 
 export const payments = sqliteTable(
@@ -41,9 +47,12 @@ export const listings = sqliteTable(
     content: text("content").notNull(), // Keep as 'content' for backward compatibility
     price: integer("price").notNull(), // Stored in cents (0 - 100,000,000)
     category: text("category").notNull(), // From predefined category list
-    status: text("status").notNull().default("active"), // 'active' | 'expired' | 'archived'
+    status: text("status").notNull().default("active"), // 'active' | 'reserved' | 'sold' | 'expired' | 'archived' | 'under_review' | 'pending_review'
+    statusBeforeReview: text("status_before_review"), // Restored when staff release an under_review or pending_review listing
+    moderationFlags: text("moderation_flags"), // JSON array of content filter findings, cleared once staff review them
     expiresAt: integer("expires_at").notNull(), // Unix timestamp in milliseconds
     lastBumpedAt: integer("last_bumped_at"), // Unix timestamp in milliseconds
+    expiryReminderSentFor: integer("expiry_reminder_sent_for"), // expiresAt value the reminder was sent for
     bumpCount: integer("bump_count").default(0).notNull(),
     starCount: integer("star_count").default(0).notNull(), // For premium listings
     paymentId: text("payment_id").references(() => payments.id),
@@ -62,9 +71,15 @@ export const listings = sqliteTable(
     statusIdx: index("idx_listings_status").on(table.status),
     expiresAtIdx: index("idx_listings_expires_at").on(table.expiresAt),
     priceIdx: index("idx_listings_price").on(table.price),
+    flaggedIdx: index("idx_listings_moderation_flags")
+      .on(table.status)
+      .where(sql`moderation_flags IS NOT NULL`),
   }),
 );
 
+// Full-text search: the listings_fts FTS5 table and its sync triggers live in
+// drizzle/migrations/0008_listings_fts.sql (Drizzle can't model virtual tables)
+
 export const userProfiles = sqliteTable(
   "user_profiles",
   {
@@ -76,6 +91,7 @@ export const userProfiles = sqliteTable(
     phoneNumber: text("phone_number"),
     contactLinks: text("contact_links"), // JSON string
     profileImageKey: text("profile_image_key"),
+    profileImageSize: integer("profile_image_size").default(0).notNull(), // Bytes in R2, counted against the storage quota
     isBanned: integer("is_banned").default(0).notNull(),
     createdAt: text("created_at")
       .default(sql`CURRENT_TIMESTAMP`)
@@ -88,6 +104,9 @@ export const userProfiles = sqliteTable(
     telegramIdIdx: index("idx_user_profiles_telegram_id").on(table.telegramId),
     usernameIdx: index("idx_user_profiles_username").on(table.username),
     isBannedIdx: index("idx_user_profiles_is_banned").on(table.isBanned),
+    profileImageKeyIdx: index("idx_user_profiles_profile_image_key").on(
+      table.profileImageKey,
+    ),
   }),
 );
 
@@ -101,21 +120,483 @@ export const listingImages = sqliteTable(
     originalName: text("original_name").notNull(),
     imageKey: text("image_key").notNull(),
     thumbnailKey: text("thumbnail_key").notNull(),
+    variantPrefix: text("variant_prefix"), // R2 prefix of the rendered sizes; null for older uploads
     mimeType: text("mime_type").notNull(),
     fileSize: integer("file_size").notNull(),
+    storedBytes: integer("stored_bytes").default(0).notNull(), // Every variant together, counted against the seller's storage quota
     width: integer("width").notNull(),
     height: integer("height").notNull(),
-    uploadOrder: integer("upload_order").notNull(),
+    uploadOrder: integer("upload_order").notNull(), // Gallery position, 1-based; sellers can reorder
+    isCover: integer("is_cover").default(0).notNull(), // 1 for the image shown first and on cards; one per listing
     createdAt: text("created_at")
       .default(sql`CURRENT_TIMESTAMP`)
       .notNull(),
   },
   (table) => ({
     listingIdIdx: index("idx_listing_images_listing_id").on(table.listingId),
+    coverIdx: uniqueIndex("idx_listing_images_cover")
+      .on(table.listingId)
+      .where(sql`${table.isCover} = 1`),
     uploadOrderIdx: index("idx_listing_images_upload_order").on(
       table.listingId,
       table.uploadOrder,
     ),
+    imageKeyIdx: index("idx_listing_images_image_key").on(table.imageKey),
+    thumbnailKeyIdx: index("idx_listing_images_thumbnail_key").on(
+      table.thumbnailKey,
+    ),
+    variantPrefixIdx: index("idx_listing_images_variant_prefix").on(
+      table.variantPrefix,
+    ),
+  }),
+);
+
+export const cronRuns = sqliteTable(
+  "cron_runs",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    job: text("job").notNull(), // CronJob in shared/constants.ts
+    status: text("status").notNull(), // 'running' | 'succeeded' | 'failed'
+    itemsProcessed: integer("items_processed").default(0).notNull(),
+    details: text("details"), // JSON string with job-specific output
+    error: text("error"),
+    startedAt: text("started_at")
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    finishedAt: text("finished_at"),
+  },
+  (table) => ({
+    jobIdx: index("idx_cron_runs_job").on(table.job),
+    startedAtIdx: index("idx_cron_runs_started_at").on(table.startedAt),
+  }),
+);
+
+export const savedSearches = sqliteTable(
+  "saved_searches",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    userId: integer("user_id").notNull(),
+    name: text("name").notNull(),
+    filters: text("filters").notNull(), // JSON string: { category?, priceMin?, priceMax?, search? }
+    isMuted: integer("is_muted").default(0).notNull(), // 0 or 1
+    createdAt: text("created_at")
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    updatedAt: text("updated_at")
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => ({
+    userIdIdx: index("idx_saved_searches_user_id").on(table.userId),
+  }),
+);
+
+export const savedSearchMatches = sqliteTable(
+  "saved_search_matches",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    savedSearchId: integer("saved_search_id")
+      .notNull()
+      .references(() => savedSearches.id, { onDelete: "cascade" }),
+    listingId: integer("listing_id")
+      .notNull()
+      .references(() => listings.id, { onDelete: "cascade" }),
+    userId: integer("user_id").notNull(), // Saved search owner, denormalized for digests
+    status: text("status").notNull().default("pending"), // 'pending' | 'sent' | 'skipped'
+    notifiedAt: integer("notified_at"), // Unix timestamp in milliseconds
+    createdAt: text("created_at")
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => ({
+    searchListingIdx: uniqueIndex("idx_saved_search_matches_search_listing").on(
+      table.savedSearchId,
+      table.listingId,
+    ),
+    userStatusIdx: index("idx_saved_search_matches_user_status").on(
+      table.userId,
+      table.status,
+    ),
+  }),
+);
+
+export const favorites = sqliteTable(
+  "favorites",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    userId: integer("user_id").notNull(), // Watcher's telegram ID
+    listingId: integer("listing_id")
+      .notNull()
+      .references(() => listings.id, { onDelete: "cascade" }),
+    createdAt: text("created_at")
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => ({
+    userListingIdx: uniqueIndex("idx_favorites_user_listing").on(
+      table.userId,
+      table.listingId,
+    ),
+    listingIdIdx: index("idx_favorites_listing_id").on(table.listingId),
+  }),
+);
+
+export const conversations = sqliteTable(
+  "conversations",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    listingId: integer("listing_id")
+      .notNull()
+      .references(() => listings.id, { onDelete: "cascade" }),
+    buyerId: integer("buyer_id").notNull(), // Telegram ID
+    sellerId: integer("seller_id").notNull(), // Telegram ID (listing owner)
+    lastMessageAt: integer("last_message_at"), // Unix timestamp in milliseconds, null until the first message
+    createdAt: text("created_at")
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    updatedAt: text("updated_at")
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => ({
+    listingBuyerIdx: uniqueIndex("idx_conversations_listing_buyer").on(
+      table.listingId,
+      table.buyerId,
+    ),
+    buyerIdIdx: index("idx_conversations_buyer_id").on(table.buyerId),
+    sellerIdIdx: index("idx_conversations_seller_id").on(table.sellerId),
+  }),
+);
+
+export const messages = sqliteTable(
+  "messages",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    conversationId: integer("conversation_id")
+      .notNull()
+      .references(() => conversations.id, { onDelete: "cascade" }),
+    senderId: integer("sender_id").notNull(), // Telegram ID
+    body: text("body").notNull(),
+    readAt: integer("read_at"), // Unix timestamp in milliseconds
+    createdAt: integer("created_at").notNull(), // Unix timestamp in milliseconds
+  },
+  (table) => ({
+    conversationIdx: index("idx_messages_conversation_id").on(
+      table.conversationId,
+      table.id,
+    ),
+  }),
+);
+
+export const purchases = sqliteTable(
+  "purchases",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    // Cleared when the listing is purged; the review stays on the profile
+    listingId: integer("listing_id").references(() => listings.id, {
+      onDelete: "set null",
+    }),
+    listingTitle: text("listing_title").notNull(),
+    buyerId: integer("buyer_id").notNull(), // Telegram ID
+    sellerId: integer("seller_id").notNull(), // Telegram ID
+    createdAt: text("created_at")
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => ({
+    listingBuyerIdx: uniqueIndex("idx_purchases_listing_buyer").on(
+      table.listingId,
+      table.buyerId,
+    ),
+  }),
+);
+
+export const reviews = sqliteTable(
+  "reviews",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    purchaseId: integer("purchase_id")
+      .notNull()
+      .references(() => purchases.id, { onDelete: "cascade" }),
+    sellerId: integer("seller_id").notNull(), // Telegram ID
+    reviewerId: integer("reviewer_id").notNull(), // Telegram ID (buyer)
+    rating: integer("rating").notNull(), // 1-5
+    body: text("body"),
+    sellerReply: text("seller_reply"),
+    sellerRepliedAt: text("seller_replied_at"),
+    isHidden: integer("is_hidden").default(0).notNull(), // Hidden by an admin
+    createdAt: text("created_at")
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    updatedAt: text("updated_at")
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => ({
+    purchaseIdIdx: uniqueIndex("idx_reviews_purchase_id").on(table.purchaseId),
+    sellerIdIdx: index("idx_reviews_seller_id").on(
+      table.sellerId,
+      table.isHidden,
+    ),
+  }),
+);
+
+export const listingEvents = sqliteTable(
+  "listing_events",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    listingId: integer("listing_id")
+      .notNull()
+      .references(() => listings.id, { onDelete: "cascade" }),
+    type: text("type").notNull(), // 'view' | 'contact_click' | 'share'
+    viewerKey: text("viewer_key").notNull(), // 'user:<telegramId>' or 'anon:<hash>'
+    day: text("day").notNull(), // UTC date, YYYY-MM-DD
+    bucket: integer("bucket").notNull(), // Dedup window index, see ANALYTICS_DEDUP_MINUTES
+    createdAt: integer("created_at").notNull(), // Unix timestamp in milliseconds
+  },
+  (table) => ({
+    dedupIdx: uniqueIndex("idx_listing_events_dedup").on(
+      table.listingId,
+      table.type,
+      table.viewerKey,
+      table.bucket,
+    ),
+    dayIdx: index("idx_listing_events_day").on(table.day),
+  }),
+);
+
+export const listingDailyStats = sqliteTable(
+  "listing_daily_stats",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    listingId: integer("listing_id")
+      .notNull()
+      .references(() => listings.id, { onDelete: "cascade" }),
+    day: text("day").notNull(), // UTC date, YYYY-MM-DD
+    views: integer("views").default(0).notNull(),
+    uniqueViewers: integer("unique_viewers").default(0).notNull(),
+    contactClicks: integer("contact_clicks").default(0).notNull(),
+    shares: integer("shares").default(0).notNull(),
+    updatedAt: integer("updated_at").notNull(), // Unix timestamp in milliseconds
+  },
+  (table) => ({
+    listingDayIdx: uniqueIndex("idx_listing_daily_stats_listing_day").on(
+      table.listingId,
+      table.day,
+    ),
+  }),
+);
+
+// Staff roles granted through /api/admin/roles. The TELEGRAM_ADMIN_ID owner is
+// implicit and never stored here
+export const userRoles = sqliteTable("user_roles", {
+  telegramId: integer("telegram_id").primaryKey(),
+  role: text("role").notNull(), // StaffRole in shared/constants.ts
+  grantedBy: integer("granted_by").notNull(), // Telegram ID
+  createdAt: text("created_at")
+    .default(sql`CURRENT_TIMESTAMP`)
+    .notNull(),
+  updatedAt: text("updated_at")
+    .default(sql`CURRENT_TIMESTAMP`)
+    .notNull(),
+});
+
+// Append-only record of every staff action (UPDATE and DELETE are blocked by
+// triggers in 0015_admin_actions.sql)
+export const adminActions = sqliteTable(
+  "admin_actions",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    actorId: integer("actor_id").notNull(), // Telegram ID
+    actorRole: text("actor_role").notNull(), // Role at the time of the action
+    action: text("action").notNull(), // AdminAction in shared/constants.ts
+    targetType: text("target_type").notNull(), // AuditTargetType
+    targetId: text("target_id"), // Null for bulk actions like reconciliation
+    reason: text("reason"),
+    before: text("before"), // JSON snapshot
+    after: text("after"), // JSON snapshot
+    createdAt: text("created_at")
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => ({
+    createdAtIdx: index("idx_admin_actions_created_at").on(table.createdAt),
+    actorIdx: index("idx_admin_actions_actor").on(
+      table.actorId,
+      table.createdAt,
+    ),
+    targetIdx: index("idx_admin_actions_target").on(
+      table.targetType,
+      table.targetId,
+    ),
+  }),
+);
+
+export const reports = sqliteTable(
+  "reports",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    reporterId: integer("reporter_id").notNull(), // Telegram ID
+    targetType: text("target_type").notNull(), // ReportTargetType in shared/constants.ts
+    targetId: integer("target_id").notNull(), // Listing ID or Telegram ID
+    reason: text("reason").notNull(), // ReportReason
+    details: text("details"),
+    status: text("status").notNull().default("open"), // 'open' | 'resolved'
+    resolution: text("resolution"), // ReportAction taken by staff
+    resolvedBy: integer("resolved_by"), // Telegram ID
+    resolvedAt: text("resolved_at"),
+    createdAt: text("created_at")
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => ({
+    // One open report per reporter and target; they can report it again
+    // once the first one is resolved
+    openReporterIdx: uniqueIndex("idx_reports_open_reporter")
+      .on(table.reporterId, table.targetType, table.targetId)
+      .where(sql`status = 'open'`),
+    targetIdx: index("idx_reports_target").on(
+      table.targetType,
+      table.targetId,
+      table.status,
+    ),
+  }),
+);
+
+export const bans = sqliteTable(
+  "bans",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    telegramId: integer("telegram_id").notNull(),
+    reason: text("reason").notNull(),
+    bannedBy: integer("banned_by"), // Telegram ID of the staff member, null for bans from before this table
+    expiresAt: integer("expires_at"), // Unix timestamp in milliseconds, null for permanent bans
+    liftedAt: text("lifted_at"), // Null while the ban is in force
+    liftedBy: integer("lifted_by"), // Null when the ban expired on its own
+    liftReason: text("lift_reason"), // 'unbanned' | 'expired' | 'appeal_accepted'
+    createdAt: text("created_at")
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => ({
+    telegramIdIdx: index("idx_bans_telegram_id").on(
+      table.telegramId,
+      table.createdAt,
+    ),
+    activeExpiryIdx: index("idx_bans_active_expiry")
+      .on(table.expiresAt)
+      .where(sql`lifted_at IS NULL`),
+  }),
+);
+
+export const banAppeals = sqliteTable(
+  "ban_appeals",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    banId: integer("ban_id")
+      .notNull()
+      .unique() // One appeal per ban
+      .references(() => bans.id, { onDelete: "cascade" }),
+    telegramId: integer("telegram_id").notNull(),
+    message: text("message").notNull(),
+    status: text("status").notNull().default("pending"), // BanAppealStatus in shared/constants.ts
+    response: text("response"), // Sent to the user with the decision
+    reviewedBy: integer("reviewed_by"),
+    reviewedAt: text("reviewed_at"),
+    createdAt: text("created_at")
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => ({
+    statusIdx: index("idx_ban_appeals_status").on(
+      table.status,
+      table.createdAt,
+    ),
+  }),
+);
+
+export const moderationRules = sqliteTable(
+  "moderation_rules",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    kind: text("kind").notNull(), // ModerationRuleKind in shared/constants.ts
+    pattern: text("pattern").notNull(), // A word or phrase, or a regular expression
+    action: text("action").notNull(), // ModerationAction
+    note: text("note"), // Why the rule exists, for other staff
+    createdBy: integer("created_by").notNull(), // Telegram ID
+    createdAt: text("created_at")
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => ({
+    patternIdx: uniqueIndex("idx_moderation_rules_pattern").on(
+      table.kind,
+      table.pattern,
+    ),
+  }),
+);
+
+// Image upload sessions: slots reserved for a listing's images, each filled
+// by its own request (or by R2 multipart parts for large files) and
+// processed into listing_images on commit. Sessions that are never committed
+// are purged by the lifecycle cron.
+export const uploadSessions = sqliteTable(
+  "upload_sessions",
+  {
+    id: text("id").primaryKey(), // UUID, also the R2 staging prefix uploads/<id>/
+    listingId: integer("listing_id")
+      .notNull()
+      .references(() => listings.id, { onDelete: "cascade" }),
+    userId: integer("user_id").notNull(), // Telegram ID of the uploader
+    expiresAt: integer("expires_at").notNull(), // Unix timestamp in milliseconds, pushed back by every upload
+    createdAt: text("created_at")
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => ({
+    listingIdIdx: index("idx_upload_sessions_listing_id").on(table.listingId),
+    expiresAtIdx: index("idx_upload_sessions_expires_at").on(table.expiresAt),
+  }),
+);
+
+export const uploadSessionFiles = sqliteTable(
+  "upload_session_files",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    sessionId: text("session_id")
+      .notNull()
+      .references(() => uploadSessions.id, { onDelete: "cascade" }),
+    slot: integer("slot").notNull(), // 0-based; also the upload order within the session
+    originalName: text("original_name").notNull(),
+    size: integer("size").notNull(), // Bytes, declared up front; what arrives must match
+    multipartUploadId: text("multipart_upload_id"), // R2 multipart upload, for files sent in parts
+    uploadedAt: integer("uploaded_at"), // Unix timestamp in milliseconds, once the whole file is in R2
+  },
+  (table) => ({
+    sessionSlotIdx: uniqueIndex("idx_upload_session_files_slot").on(
+      table.sessionId,
+      table.slot,
+    ),
+  }),
+);
+
+// Parts of multipart files received so far; R2 needs every part's etag to
+// complete the upload
+export const uploadSessionParts = sqliteTable(
+  "upload_session_parts",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    fileId: integer("file_id")
+      .notNull()
+      .references(() => uploadSessionFiles.id, { onDelete: "cascade" }),
+    partNumber: integer("part_number").notNull(), // 1-based, as R2 numbers them
+    etag: text("etag").notNull(),
+  },
+  (table) => ({
+    filePartIdx: uniqueIndex("idx_upload_session_parts_file_part").on(
+      table.fileId,
+      table.partNumber,
+    ),
   }),
 );
 
@@ -127,6 +608,25 @@ export type ListingImage = typeof listingImages.$inferSelect;
 export type NewListingImage = typeof listingImages.$inferInsert;
 export type UserProfile = typeof userProfiles.$inferSelect;
 export type NewUserProfile = typeof userProfiles.$inferInsert;
+export type CronRun = typeof cronRuns.$inferSelect;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type SavedSearchMatch = typeof savedSearchMatches.$inferSelect;
+export type Favorite = typeof favorites.$inferSelect;
+export type Conversation = typeof conversations.$inferSelect;
+export type Message = typeof messages.$inferSelect;
+export type Purchase = typeof purchases.$inferSelect;
+export type Review = typeof reviews.$inferSelect;
+export type ListingEvent = typeof listingEvents.$inferSelect;
+export type ListingDailyStat = typeof listingDailyStats.$inferSelect;
+export type RoleGrant = typeof userRoles.$inferSelect;
+export type AdminActionRecord = typeof adminActions.$inferSelect;
+export type Report = typeof reports.$inferSelect;
+export type Ban = typeof bans.$inferSelect;
+export type BanAppeal = typeof banAppeals.$inferSelect;
+export type ModerationRule = typeof moderationRules.$inferSelect;
+export type UploadSession = typeof uploadSessions.$inferSelect;
+export type UploadSessionFile = typeof uploadSessionFiles.$inferSelect;
+export type UploadSessionPart = typeof uploadSessionParts.$inferSelect;
 
 // Legacy exports for backward compatibility (to be removed)
 export const posts = listings;
@@ -1,9 +1,11 @@
 import { Hono } from "hono";
 import { prettyJSON } from "hono/pretty-json";
 import { cors } from "hono/cors";
+import { HTTPException } from "hono/http-exception";
 import { handleWebhook } from "./webhook";
+import { handleScheduled } from "./scheduled";
 import { healthHandler } from "./api/health";
-import { authHandler } from "./api/auth";
+import { authHandler, logout, getSessions, revokeSession } from "./api/auth";
 import {
   getAllPosts,
   getUserPosts,
@@ -21,17 +23,74 @@ import {
   updateListing,
   deleteListing,
   bumpListing,
+  updateListingStatus,
+  trackListingEvent,
+  getListingStats,
   archiveListing,
-  uploadListingImages,
   deleteListingImage,
+  reorderListingImages,
+  replaceListingImage,
 } from "./api/listings";
+import {
+  createUploadSession,
+  getUploadSession,
+  uploadSessionFile,
+  uploadSessionPart,
+  commitUploadSession,
+  deleteUploadSession,
+} from "./api/uploads";
 import {
   getProfile,
   getMyProfile,
   updateMyProfile,
   uploadProfileAvatar,
 } from "./api/profile";
-import { banUser, unbanUser } from "./api/admin";
+import {
+  getSavedSearches,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+} from "./api/saved-searches";
+import { getFavorites, addFavorite, removeFavorite } from "./api/favorites";
+import { serveImage } from "./api/images";
+import {
+  getConversations,
+  startConversation,
+  getConversation,
+  sendMessage,
+} from "./api/conversations";
+import {
+  banUser,
+  unbanUser,
+  getCronRuns,
+  getStorageUsage,
+  getUserStorageUsage,
+  hideReview,
+  unhideReview,
+  getRoles,
+  grantRole,
+  revokeRole,
+  getAuditLog,
+  getBanHistory,
+  getAppeals,
+  resolveAppeal,
+  getRateLimits,
+  updateRateLimits,
+} from "./api/admin";
+import { createReport, getReportQueue, resolveReports } from "./api/reports";
+import {
+  getModerationRules,
+  createModerationRule,
+  deleteModerationRule,
+  getModerationQueue,
+  resolveModeration,
+} from "./api/moderation";
+import {
+  getSellerReviews,
+  createReview,
+  replyToReview,
+  markPurchased,
+} from "./api/reviews";
 import {
   makePremium,
   clearPending,
@@ -41,6 +100,73 @@ import {
   refundPayment,
   reconcilePayments,
 } from "./api/payments";
+import { validate } from "./middleware/validator";
+import { rateLimit } from "./middleware/rate-limit";
+import {
+  ownedListing,
+  ownedPost,
+  requireAuth,
+  requireOwner,
+  requirePermission,
+  resolveSession,
+  SESSION_EXPIRES_HEADER,
+} from "./middleware/auth";
+import {
+  addFavoriteSchema,
+  appealIdParamSchema,
+  appealsQuerySchema,
+  archiveListingSchema,
+  auditQuerySchema,
+  banUserSchema,
+  bumpListingSchema,
+  conversationIdParamSchema,
+  conversationQuerySchema,
+  createListingSchema,
+  createReportSchema,
+  createUploadSessionSchema,
+  cronRunsQuerySchema,
+  grantRoleSchema,
+  imageQuerySchema,
+  listingEventSchema,
+  listingIdParamSchema,
+  listingImageParamSchema,
+  listingsQuerySchema,
+  listingStatusSchema,
+  makePremiumSchema,
+  moderationQueueQuerySchema,
+  moderationRuleIdParamSchema,
+  moderationRuleSchema,
+  paginationQuerySchema,
+  rateLimitOverridesSchema,
+  paymentIdParamSchema,
+  postIdParamSchema,
+  refundPaymentSchema,
+  reorderListingImagesSchema,
+  reportQueueQuerySchema,
+  reportTargetParamSchema,
+  resolveAppealSchema,
+  resolveModerationSchema,
+  resolveReportsSchema,
+  reviewIdParamSchema,
+  savedSearchIdParamSchema,
+  sellerReviewParamSchema,
+  sendMessageSchema,
+  sessionIdParamSchema,
+  startConversationSchema,
+  storageQuerySchema,
+  telegramIdParamSchema,
+  updateListingSchema,
+  uploadPartParamSchema,
+  uploadSessionParamSchema,
+  uploadSlotParamSchema,
+  userIdParamSchema,
+} from "../../shared/schemas";
+import {
+  createSavedSearchSchema,
+  updateSavedSearchSchema,
+} from "./models/saved-search";
+import { createReviewSchema, reviewReplySchema } from "./models/review";
+import { updateProfileSchema } from "./models/profile";
 import type { Env } from "./types/env";
 
 const app = new Hono<{ Bindings: Env }>();
@@ -75,6 +201,8 @@ app.use(
       return allowed[0];
     },
     credentials: true,
+    // Read by the frontend to keep its session expiry in step
+    exposeHeaders: [SESSION_EXPIRES_HEADER],
   }),
 );
 
@@ -84,81 +212,453 @@ app.post("/webhook", handleWebhook);
 
 // Authentication endpoints
 app.get("/api/auth", authHandler);
-app.post("/api/auth", authHandler);
+app.post("/api/auth", rateLimit("auth"), authHandler);
+
+// Resolve the session once for every API route below; routes opt into
+// requireAuth/requirePermission/requireOwner where they're registered. Registered
+// after /api/auth, whose Authorization header carries initData, not a session
+app.use("/api/*", resolveSession);
+
+// Session endpoints
+app.post("/api/auth/logout", logout);
+app.get("/api/auth/sessions", requireAuth, getSessions);
+app.delete(
+  "/api/auth/sessions/:sessionId",
+  requireAuth,
+  validate("param", sessionIdParamSchema),
+  revokeSession,
+);
 
 // Post endpoints (legacy - to be removed)
 app.get("/api/posts", getAllPosts);
 app.get("/api/posts/user/:userId", getUserPosts);
-app.post("/api/posts", createPost);
-app.put("/api/posts/:postId", updatePost);
-app.delete("/api/posts/:postId", deletePost);
-app.post("/api/posts/:postId/images", uploadPostImages);
-app.delete("/api/posts/:postId/images/:imageId", deletePostImage);
+app.post("/api/posts", requireAuth, rateLimit("create_listing"), createPost);
+app.put("/api/posts/:postId", requireAuth, updatePost);
+app.delete("/api/posts/:postId", requireAuth, deletePost);
+app.post(
+  "/api/posts/:postId/images",
+  requireAuth,
+  rateLimit("upload_images"),
+  uploadPostImages,
+);
+app.delete("/api/posts/:postId/images/:imageId", requireAuth, deletePostImage);
 
 // Listing endpoints (marketplace)
-app.get("/api/listings", getAllListings);
-app.get("/api/listings/:listingId", getListingById);
-app.get("/api/listings/user/:userId", getUserListings);
-app.post("/api/listings", createListing);
-app.put("/api/listings/:listingId", updateListing);
-app.delete("/api/listings/:listingId", deleteListing);
-app.post("/api/listings/:listingId/bump", bumpListing);
-app.post("/api/admin/listings/:listingId/archive", archiveListing);
-app.post("/api/listings/:listingId/images", uploadListingImages);
-app.delete("/api/listings/:listingId/images/:imageId", deleteListingImage);
+const listingParam = validate("param", listingIdParamSchema);
+app.get(
+  "/api/listings",
+  validate("query", listingsQuerySchema),
+  getAllListings,
+);
+app.get("/api/listings/:listingId", listingParam, getListingById);
+app.get(
+  "/api/listings/user/:userId",
+  validate("param", userIdParamSchema),
+  validate("query", listingsQuerySchema),
+  getUserListings,
+);
+app.post(
+  "/api/listings",
+  requireAuth,
+  validate("json", createListingSchema),
+  rateLimit("create_listing"),
+  createListing,
+);
+app.put(
+  "/api/listings/:listingId",
+  requireAuth,
+  listingParam,
+  validate("json", updateListingSchema),
+  requireOwner(ownedListing),
+  updateListing,
+);
+app.delete(
+  "/api/listings/:listingId",
+  requireAuth,
+  listingParam,
+  requireOwner(ownedListing, { bypass: "delete_content" }),
+  deleteListing,
+);
+app.post(
+  "/api/listings/:listingId/bump",
+  requireAuth,
+  listingParam,
+  validate("json", bumpListingSchema),
+  requireOwner(ownedListing),
+  bumpListing,
+);
+app.post(
+  "/api/listings/:listingId/status",
+  requireAuth,
+  listingParam,
+  validate("json", listingStatusSchema),
+  requireOwner(ownedListing),
+  updateListingStatus,
+);
+app.post(
+  "/api/listings/:listingId/events",
+  listingParam,
+  rateLimit("listing_events"),
+  validate("json", listingEventSchema),
+  trackListingEvent,
+);
+app.get(
+  "/api/listings/:listingId/stats",
+  requireAuth,
+  listingParam,
+  requireOwner(ownedListing, { bypass: "view_listing_stats" }),
+  getListingStats,
+);
+app.patch(
+  "/api/listings/:listingId/images/order",
+  requireAuth,
+  listingParam,
+  validate("json", reorderListingImagesSchema),
+  requireOwner(ownedListing),
+  reorderListingImages,
+);
+app.put(
+  "/api/listings/:listingId/images/:imageId",
+  requireAuth,
+  validate("param", listingImageParamSchema),
+  requireOwner(ownedListing),
+  rateLimit("upload_images"),
+  replaceListingImage,
+);
+app.delete(
+  "/api/listings/:listingId/images/:imageId",
+  requireAuth,
+  validate("param", listingImageParamSchema),
+  requireOwner(ownedListing),
+  deleteListingImage,
+);
+
+// Image upload sessions: reserve a slot per file, send each file (or its
+// parts) on its own, then commit. Files are raw request bodies.
+app.post(
+  "/api/listings/:listingId/uploads",
+  requireAuth,
+  listingParam,
+  requireOwner(ownedListing),
+  rateLimit("upload_images"),
+  validate("json", createUploadSessionSchema),
+  createUploadSession,
+);
+app.get(
+  "/api/listings/:listingId/uploads/:uploadId",
+  requireAuth,
+  validate("param", uploadSessionParamSchema),
+  requireOwner(ownedListing),
+  getUploadSession,
+);
+app.put(
+  "/api/listings/:listingId/uploads/:uploadId/files/:slot",
+  requireAuth,
+  validate("param", uploadSlotParamSchema),
+  requireOwner(ownedListing),
+  uploadSessionFile,
+);
+app.put(
+  "/api/listings/:listingId/uploads/:uploadId/files/:slot/parts/:partNumber",
+  requireAuth,
+  validate("param", uploadPartParamSchema),
+  requireOwner(ownedListing),
+  uploadSessionPart,
+);
+app.post(
+  "/api/listings/:listingId/uploads/:uploadId/commit",
+  requireAuth,
+  validate("param", uploadSessionParamSchema),
+  requireOwner(ownedListing),
+  commitUploadSession,
+);
+app.delete(
+  "/api/listings/:listingId/uploads/:uploadId",
+  requireAuth,
+  validate("param", uploadSessionParamSchema),
+  requireOwner(ownedListing),
+  deleteUploadSession,
+);
+
+// Saved search endpoints
+const savedSearchIdParam = validate("param", savedSearchIdParamSchema);
+app.use("/api/saved-searches", requireAuth);
+app.use("/api/saved-searches/*", requireAuth);
+app.get("/api/saved-searches", getSavedSearches);
+app.post(
+  "/api/saved-searches",
+  validate("json", createSavedSearchSchema),
+  createSavedSearch,
+);
+app.put(
+  "/api/saved-searches/:savedSearchId",
+  savedSearchIdParam,
+  validate("json", updateSavedSearchSchema),
+  updateSavedSearch,
+);
+app.delete(
+  "/api/saved-searches/:savedSearchId",
+  savedSearchIdParam,
+  deleteSavedSearch,
+);
+
+// Favorite endpoints
+app.use("/api/favorites", requireAuth);
+app.use("/api/favorites/*", requireAuth);
+app.get("/api/favorites", getFavorites);
+app.post("/api/favorites", validate("json", addFavoriteSchema), addFavorite);
+app.delete("/api/favorites/:listingId", listingParam, removeFavorite);
+
+// Conversation endpoints
+const conversationIdParam = validate("param", conversationIdParamSchema);
+app.use("/api/conversations", requireAuth);
+app.use("/api/conversations/*", requireAuth);
+app.get("/api/conversations", getConversations);
+app.post(
+  "/api/conversations",
+  validate("json", startConversationSchema),
+  rateLimit("send_message"),
+  startConversation,
+);
+app.get(
+  "/api/conversations/:conversationId",
+  conversationIdParam,
+  validate("query", conversationQuerySchema),
+  getConversation,
+);
+app.post(
+  "/api/conversations/:conversationId/messages",
+  conversationIdParam,
+  validate("json", sendMessageSchema),
+  rateLimit("send_message"),
+  sendMessage,
+);
 
 // Profile endpoints
+app.use("/api/profile/me", requireAuth);
+app.use("/api/profile/me/*", requireAuth);
 app.get("/api/profile/me", getMyProfile);
-app.put("/api/profile/me", updateMyProfile);
-app.post("/api/profile/me/avatar", uploadProfileAvatar);
+app.put(
+  "/api/profile/me",
+  validate("json", updateProfileSchema),
+  updateMyProfile,
+);
+app.post(
+  "/api/profile/me/avatar",
+  rateLimit("upload_images"),
+  uploadProfileAvatar,
+);
 app.get("/api/profile/:telegramId", getProfile);
 
-// Admin endpoints
-app.post("/api/admin/ban/:telegramId", banUser);
-app.post("/api/admin/unban/:telegramId", unbanUser);
+// Review endpoints
+const telegramIdParam = validate("param", telegramIdParamSchema);
+app.post(
+  "/api/listings/:listingId/purchase",
+  requireAuth,
+  listingParam,
+  markPurchased,
+);
+app.get("/api/profile/:telegramId/reviews", telegramIdParam, getSellerReviews);
+app.post(
+  "/api/profile/:telegramId/reviews",
+  requireAuth,
+  telegramIdParam,
+  validate("json", createReviewSchema),
+  createReview,
+);
+app.post(
+  "/api/profile/:telegramId/reviews/:reviewId/reply",
+  requireAuth,
+  validate("param", sellerReviewParamSchema),
+  validate("json", reviewReplySchema),
+  replyToReview,
+);
 
-// Payment endpoints
-app.post("/api/posts/:postId/make-premium", makePremium);
-app.post("/api/posts/:postId/clear-pending", clearPending);
-app.get("/api/payments", getAllPayments);
-app.get("/api/payments/balance", getBalance);
-app.post("/api/payments/refresh-balance", refreshBalance);
-app.post("/api/payments/reconcile", reconcilePayments);
-app.post("/api/payments/:paymentId/refund", refundPayment);
-
-// R2 image serving for local development
-app.get("/r2/*", async (c) => {
-  const path = c.req.url.split("/r2/")[1];
-  if (!path) {
-    return c.json({ error: "Invalid path" }, 400);
-  }
+// Report endpoints
+app.post(
+  "/api/reports",
+  requireAuth,
+  validate("json", createReportSchema),
+  createReport,
+);
 
-  const r2 = c.env.IMAGES;
-  if (!r2) {
-    return c.json({ error: "R2 bucket not available" }, 500);
-  }
+// Admin endpoints
+const reviewIdParam = validate("param", reviewIdParamSchema);
+const canBan = requirePermission("ban_user");
+const canHideReviews = requirePermission("hide_review");
+const canManageRoles = requirePermission("manage_roles");
+app.post(
+  "/api/admin/ban/:telegramId",
+  canBan,
+  telegramIdParam,
+  validate("json", banUserSchema),
+  banUser,
+);
+app.post("/api/admin/unban/:telegramId", canBan, telegramIdParam, unbanUser);
+app.get("/api/admin/bans/:telegramId", canBan, telegramIdParam, getBanHistory);
+app.get(
+  "/api/admin/appeals",
+  canBan,
+  validate("query", appealsQuerySchema),
+  getAppeals,
+);
+app.post(
+  "/api/admin/appeals/:appealId/resolve",
+  canBan,
+  validate("param", appealIdParamSchema),
+  validate("json", resolveAppealSchema),
+  resolveAppeal,
+);
+app.get(
+  "/api/admin/cron-runs",
+  requirePermission("view_cron_runs"),
+  validate("query", cronRunsQuerySchema),
+  getCronRuns,
+);
+const canViewStorage = requirePermission("view_storage");
+app.get(
+  "/api/admin/storage",
+  canViewStorage,
+  validate("query", storageQuerySchema),
+  getStorageUsage,
+);
+app.get(
+  "/api/admin/storage/:telegramId",
+  canViewStorage,
+  telegramIdParam,
+  getUserStorageUsage,
+);
+app.post(
+  "/api/admin/reviews/:reviewId/hide",
+  canHideReviews,
+  reviewIdParam,
+  hideReview,
+);
+app.post(
+  "/api/admin/reviews/:reviewId/unhide",
+  canHideReviews,
+  reviewIdParam,
+  unhideReview,
+);
+app.post(
+  "/api/admin/listings/:listingId/archive",
+  requirePermission("archive_listing"),
+  listingParam,
+  validate("json", archiveListingSchema),
+  archiveListing,
+);
+app.get(
+  "/api/admin/audit",
+  requirePermission("view_audit_log"),
+  validate("query", auditQuerySchema),
+  getAuditLog,
+);
+const canReviewReports = requirePermission("review_reports");
+app.get(
+  "/api/admin/reports",
+  canReviewReports,
+  validate("query", reportQueueQuerySchema),
+  getReportQueue,
+);
+app.post(
+  "/api/admin/reports/:targetType/:targetId/resolve",
+  canReviewReports,
+  validate("param", reportTargetParamSchema),
+  validate("json", resolveReportsSchema),
+  resolveReports,
+);
+app.get(
+  "/api/admin/moderation/queue",
+  canReviewReports,
+  validate("query", moderationQueueQuerySchema),
+  getModerationQueue,
+);
+app.post(
+  "/api/admin/moderation/listings/:listingId/resolve",
+  canReviewReports,
+  listingParam,
+  validate("json", resolveModerationSchema),
+  resolveModeration,
+);
+const canManageRateLimits = requirePermission("manage_rate_limits");
+app.get("/api/admin/rate-limits", canManageRateLimits, getRateLimits);
+app.put(
+  "/api/admin/rate-limits",
+  canManageRateLimits,
+  validate("json", rateLimitOverridesSchema),
+  updateRateLimits,
+);
+const canManageModerationRules = requirePermission("manage_moderation_rules");
+app.get(
+  "/api/admin/moderation/rules",
+  canManageModerationRules,
+  getModerationRules,
+);
+app.post(
+  "/api/admin/moderation/rules",
+  canManageModerationRules,
+  validate("json", moderationRuleSchema),
+  createModerationRule,
+);
+app.delete(
+  "/api/admin/moderation/rules/:ruleId",
+  canManageModerationRules,
+  validate("param", moderationRuleIdParamSchema),
+  deleteModerationRule,
+);
+app.get("/api/admin/roles", canManageRoles, getRoles);
+app.put(
+  "/api/admin/roles/:telegramId",
+  canManageRoles,
+  telegramIdParam,
+  validate("json", grantRoleSchema),
+  grantRole,
+);
+app.delete(
+  "/api/admin/roles/:telegramId",
+  canManageRoles,
+  telegramIdParam,
+  revokeRole,
+);
 
-  try {
-    const object = await r2.get(path);
-    if (!object) {
-      return c.json({ error: "Image not found" }, 404);
-    }
+// Payment endpoints
+const postIdParam = validate("param", postIdParamSchema);
+app.post(
+  "/api/posts/:postId/make-premium",
+  requireAuth,
+  postIdParam,
+  validate("json", makePremiumSchema),
+  requireOwner(ownedPost),
+  rateLimit("create_invoice"),
+  makePremium,
+);
+app.post(
+  "/api/posts/:postId/clear-pending",
+  requireAuth,
+  postIdParam,
+  requireOwner(ownedPost),
+  clearPending,
+);
+const canViewPayments = requirePermission("view_payments");
+app.get(
+  "/api/payments",
+  canViewPayments,
+  validate("query", paginationQuerySchema),
+  getAllPayments,
+);
+app.get("/api/payments/balance", canViewPayments, getBalance);
+app.post("/api/payments/refresh-balance", canViewPayments, refreshBalance);
+app.post("/api/payments/reconcile", canViewPayments, reconcilePayments);
+app.post(
+  "/api/payments/:paymentId/refund",
+  requirePermission("refund_payment"),
+  validate("param", paymentIdParamSchema),
+  validate("json", refundPaymentSchema),
+  refundPayment,
+);
 
-    const headers = new Headers();
-    headers.set(
-      "Content-Type",
-      object.httpMetadata?.contentType || "application/octet-stream",
-    );
-    headers.set("Cache-Control", "public, max-age=31536000"); // Cache for 1 year
-
-    return new Response(object.body as unknown as ReadableStream, {
-      headers: headers,
-    });
-  } catch (error) {
-    console.error("Error serving R2 image:", error);
-    return c.json({ error: "Failed to serve image" }, 500);
-  }
-});
+// Listing images and avatars, with ETags, byte ranges and ?w=&fmt= resizing
+app.get("/r2/*", validate("query", imageQuerySchema), serveImage);
 
 app.get("/", async (c) => {
   const env = c.env.ENVIRONMENT || "local";
@@ -185,24 +685,53 @@ app.get("/", async (c) => {
       health: "/api/health",
       webhook: "/webhook",
       auth: "/api/auth",
+      logout: "/api/auth/logout",
+      sessions: "/api/auth/sessions",
       posts: "/api/posts",
       userPosts: "/api/posts/user/:userId",
       updatePost: "/api/posts/:postId",
       deletePost: "/api/posts/:postId",
       uploadImages: "/api/posts/:postId/images",
       deleteImage: "/api/posts/:postId/images/:imageId",
+      savedSearches: "/api/saved-searches",
+      favorites: "/api/favorites",
+      conversations: "/api/conversations",
+      conversationMessages: "/api/conversations/:conversationId/messages",
       profile: "/api/profile/:telegramId",
       myProfile: "/api/profile/me",
       updateProfile: "/api/profile/me",
       uploadAvatar: "/api/profile/me/avatar",
+      reviews: "/api/profile/:telegramId/reviews",
+      markPurchased: "/api/listings/:listingId/purchase",
+      reorderImages: "/api/listings/:listingId/images/order",
+      replaceImage: "/api/listings/:listingId/images/:imageId",
+      uploadSessions: "/api/listings/:listingId/uploads",
+      uploadSessionFile:
+        "/api/listings/:listingId/uploads/:uploadId/files/:slot",
+      uploadSessionPart:
+        "/api/listings/:listingId/uploads/:uploadId/files/:slot/parts/:partNumber",
+      commitUploadSession: "/api/listings/:listingId/uploads/:uploadId/commit",
+      reports: "/api/reports",
       banUser: "/api/admin/ban/:telegramId",
       unbanUser: "/api/admin/unban/:telegramId",
+      banHistory: "/api/admin/bans/:telegramId",
+      appeals: "/api/admin/appeals",
+      cronRuns: "/api/admin/cron-runs",
+      storageUsage: "/api/admin/storage",
+      userStorageUsage: "/api/admin/storage/:telegramId",
+      hideReview: "/api/admin/reviews/:reviewId/hide",
+      unhideReview: "/api/admin/reviews/:reviewId/unhide",
+      reportQueue: "/api/admin/reports",
+      resolveReports: "/api/admin/reports/:targetType/:targetId/resolve",
+      moderationQueue: "/api/admin/moderation/queue",
+      moderationRules: "/api/admin/moderation/rules",
+      rateLimits: "/api/admin/rate-limits",
       makePremium: "/api/posts/:postId/make-premium",
       clearPending: "/api/posts/:postId/clear-pending",
       payments: "/api/payments",
       paymentsBalance: "/api/payments/balance",
       refreshBalance: "/api/payments/refresh-balance",
-      r2Images: "/r2/{key}",
+      r2Images: "/r2/{key}?w=&fmt=&token=",
     },
   });
 });
@@ -219,6 +748,17 @@ app.notFound((c) => {
 });
 
 app.onError((err, c) => {
+  // Thrown by Hono itself, e.g. a validator given a malformed JSON body
+  if (err instanceof HTTPException && err.status < 500) {
+    return c.json(
+      {
+        error: "BAD_REQUEST",
+        message: err.message,
+      },
+      err.status,
+    );
+  }
+
   console.error("Error:", err);
   return c.json(
     {
@@ -229,4 +769,9 @@ app.onError((err, c) => {
   );
 });
 
-export default app;
+export { app };
+
+export default {
+  fetch: app.fetch,
+  scheduled: handleScheduled,
+} satisfies ExportedHandler<Env>;
@@ -0,0 +1,187 @@
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+import { createDatabase } from "../db";
+import type { Listing, Post } from "../db/schema";
+import { hasPermission } from "../services/admin-auth";
+import { ListingService } from "../services/listing-service";
+import { PostService } from "../services/post-service";
+import { ProfileService } from "../services/profile-service";
+import { SessionManager } from "../services/session-manager";
+import type { Env, SessionData } from "../types/env";
+import type { Permission } from "../../../shared/constants";
+
+declare module "hono" {
+  interface ContextVariableMap {
+    viewer: SessionData | undefined; // Valid session sent with the request, if any
+    session: SessionData; // Set by requireAuth
+    listing: Listing; // Set by requireOwner(ownedListing)
+    post: Post; // Set by requireOwner(ownedPost)
+  }
+}
+
+type AppContext = Context<{ Bindings: Env }>;
+
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+export const SESSION_EXPIRES_HEADER = "X-Session-Expires-At";
+
+// Sessions arrive as `Authorization: Bearer <id>` (or `Session <id>`, or the
+// bare id); the profile endpoints send `x-session-id` instead
+function getSessionId(c: AppContext): string | undefined {
+  const authHeader = c.req.header("Authorization");
+  if (authHeader) {
+    if (authHeader.startsWith("Bearer ")) {
+      return authHeader.substring(7).trim() || undefined;
+    }
+    if (authHeader.startsWith("Session ")) {
+      return authHeader.substring(8).trim() || undefined;
+    }
+    return authHeader.trim() || undefined;
+  }
+  return c.req.header("x-session-id")?.trim() || undefined;
+}
+
+/**
+ * Resolve the request's session once and expose it as `viewer`. Never
+ * rejects: public routes use it for optional personalization, and the
+ * guards below decide what a missing session means.
+ *
+ * Valid sessions are slid forward while in use, and the response carries
+ * the expiry in `X-Session-Expires-At` so the client can keep its copy.
+ */
+export const resolveSession = createMiddleware<{ Bindings: Env }>(
+  async (c, next) => {
+    const sessionId = getSessionId(c);
+    let session: SessionData | null = null;
+    if (sessionId) {
+      const sessionManager = SessionManager.create(c.env);
+      session = await sessionManager.validateSession(sessionId);
+      if (session) {
+        try {
+          session = await sessionManager.slideSession(session);
+        } catch (error) {
+          // The session still works until its old expiry
+          console.error("Failed to extend session:", error);
+        }
+      }
+      c.set("viewer", session ?? undefined);
+    }
+
+    await next();
+
+    if (session) {
+      c.header(SESSION_EXPIRES_HEADER, String(session.expiresAt));
+    }
+  },
+);
+
+function unauthenticated(c: AppContext) {
+  const message = getSessionId(c)
+    ? "Invalid or expired session"
+    : "Authentication required";
+  return c.json({ error: message }, 401);
+}
+
+/**
+ * Require a valid session and expose it as `session`. Banned users can still
+ * read, but every write is rejected here rather than route by route.
+ */
+export const requireAuth = createMiddleware<{ Bindings: Env }>(
+  async (c, next) => {
+    const session = c.get("viewer");
+    if (!session) {
+      return unauthenticated(c);
+    }
+
+    if (!READ_METHODS.includes(c.req.method)) {
+      const profileService = new ProfileService(c.env.DB);
+      const profile = await profileService.getProfile(session.telegramId);
+      if (profile?.isBanned === 1) {
+        return c.json({ error: "Your account has been banned" }, 403);
+      }
+    }
+
+    c.set("session", session);
+    await next();
+  },
+);
+
+/**
+ * Require a session whose current role grants `permission`, and expose it as
+ * `session`. Use instead of requireAuth, not after it.
+ */
+export function requirePermission(permission: Permission) {
+  return createMiddleware<{ Bindings: Env }>(async (c, next) => {
+    const session = c.get("viewer");
+    if (!session) {
+      return unauthenticated(c);
+    }
+
+    if (!hasPermission(session.role, permission)) {
+      return c.json({ error: "You don't have permission to do this" }, 403);
+    }
+
+    c.set("session", session);
+    await next();
+  });
+}
+
+interface OwnedResource<K extends "listing" | "post"> {
+  key: K;
+  load: (c: AppContext) => Promise<AppContext["var"][K] | undefined>;
+  ownerId: (resource: AppContext["var"][K]) => number;
+}
+
+export const ownedListing: OwnedResource<"listing"> = {
+  key: "listing",
+  load: (c) =>
+    new ListingService(createDatabase(c.env.DB), c.env).getListingById(
+      parseInt(c.req.param("listingId") ?? "", 10),
+    ),
+  ownerId: (listing) => listing.userId,
+};
+
+export const ownedPost: OwnedResource<"post"> = {
+  key: "post",
+  load: (c) =>
+    new PostService(createDatabase(c.env.DB), c.env).getPostById(
+      parseInt(c.req.param("postId") ?? "", 10),
+    ),
+  ownerId: (post) => post.userId,
+};
+
+/**
+ * Load the route's listing or post and require the session user to own it.
+ * Must run after requireAuth and the route's param validator. The loaded
+ * resource is exposed under its key, so handlers don't fetch it again.
+ *
+ * @param options.bypass - Permission that lets staff act on resources they
+ * don't own
+ */
+export function requireOwner<K extends "listing" | "post">(
+  resource: OwnedResource<K>,
+  options: { bypass?: Permission } = {},
+) {
+  return createMiddleware<{ Bindings: Env }>(async (c, next) => {
+    const session = c.get("session");
+    const loaded = await resource.load(c);
+    if (!loaded) {
+      return c.json({ error: `${capitalize(resource.key)} not found` }, 404);
+    }
+
+    const isOwner = resource.ownerId(loaded) === session.userId;
+    if (
+      !isOwner &&
+      !(options.bypass && hasPermission(session.role, options.bypass))
+    ) {
+      return c.json({ error: `You do not own this ${resource.key}` }, 403);
+    }
+
+    c.set(resource.key, loaded);
+    await next();
+  });
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
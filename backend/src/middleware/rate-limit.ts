@@ -0,0 +1,63 @@
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+import { hasPermission } from "../services/admin-auth";
+import { RateLimitService } from "../services/rate-limit-service";
+import { RateLimitErrors } from "../models/error-response";
+import type { Env } from "../types/env";
+import {
+  RATE_LIMIT_POLICIES,
+  type RateLimitPolicyName,
+} from "../../../shared/constants";
+
+/**
+ * Limit how often a route can be called, per the named policy in
+ * RATE_LIMIT_POLICIES. Counts the request before the handler runs and
+ * rejects it with 429 and `Retry-After` once the window's limit is used up.
+ * Staff with bypass_rate_limits are never limited.
+ *
+ * Register after requireAuth on authenticated routes so "user" policies see
+ * the session. If KV is unavailable the request is let through: a broken
+ * limiter shouldn't take writes down with it.
+ */
+export function rateLimit(policyName: RateLimitPolicyName) {
+  return createMiddleware<{ Bindings: Env }>(async (c, next) => {
+    const limited = await checkRateLimit(c, policyName);
+    if (limited) return limited;
+
+    await next();
+  });
+}
+
+/**
+ * Count a request against a policy from inside a handler, for routes where
+ * only some requests are limited. Returns the 429 response to send once the
+ * limit is used up, or null to carry on.
+ */
+export async function checkRateLimit(
+  c: Context<{ Bindings: Env }>,
+  policyName: RateLimitPolicyName,
+): Promise<Response | null> {
+  const viewer = c.get("viewer");
+  if (viewer && hasPermission(viewer.role, "bypass_rate_limits")) {
+    return null;
+  }
+
+  const ip = c.req.header("CF-Connecting-IP") ?? "unknown";
+  const subject =
+    RATE_LIMIT_POLICIES[policyName].scope === "user" && viewer
+      ? `user:${viewer.telegramId}`
+      : `ip:${ip}`;
+
+  try {
+    const rateLimitService = new RateLimitService(c.env);
+    const result = await rateLimitService.hit(policyName, subject);
+    if (!result.allowed) {
+      c.header("Retry-After", String(result.retryAfter));
+      return c.json(RateLimitErrors.tooManyRequests(result.retryAfter), 429);
+    }
+  } catch (error) {
+    console.error(`Rate limiter failed for ${policyName}:`, error);
+  }
+
+  return null;
+}
@@ -0,0 +1,37 @@
+import type { Context, ValidationTargets } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { ValidationErrors } from "../models/error-response";
+import type { Env } from "../types/env";
+
+type ValidatedTarget = "json" | "query" | "param";
+
+/**
+ * Validate part of the request against a zod schema before the handler runs.
+ * Failures never reach the handler; they get a 400 with per-field details.
+ *
+ * @example
+ * app.post("/api/listings", validate("json", createListingSchema), createListing);
+ */
+export function validate<T extends z.ZodType, Target extends ValidatedTarget>(
+  target: Target,
+  schema: T,
+) {
+  return zValidator<T, Target, { Bindings: Env }, string>(
+    target,
+    schema,
+    (result, c) => {
+      if (!result.success) {
+        return c.json(ValidationErrors.invalidRequest(result.error), 400);
+      }
+    },
+  );
+}
+
+/**
+ * Handler context for a route with validators attached, so
+ * `c.req.valid(target)` is typed with each schema's output
+ */
+export type ValidatedContext<
+  T extends Partial<Record<keyof ValidationTargets, unknown>>,
+> = Context<{ Bindings: Env }, string, { out: T }>;
@@ -1,3 +1,5 @@
+import { z } from "zod";
+
 export interface ErrorResponse {
   error: string;
   message: string;
@@ -21,3 +23,27 @@ export const AuthErrors = {
     message: "initData has expired (older than 1 hour)",
   }),
 };
+
+export const ValidationErrors = {
+  invalidRequest: (error: z.core.$ZodError): ErrorResponse => ({
+    error: "VALIDATION_ERROR",
+    message: error.issues[0]?.message ?? "Invalid request",
+    details: z.flattenError(error).fieldErrors,
+  }),
+};
+
+export const RateLimitErrors = {
+  tooManyRequests: (retryAfterSeconds: number): ErrorResponse => ({
+    error: "RATE_LIMITED",
+    message: `Too many requests, try again in ${formatWait(retryAfterSeconds)}`,
+    details: { retryAfter: retryAfterSeconds },
+  }),
+};
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  const hours = Math.ceil(minutes / 60);
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+}
@@ -19,18 +19,15 @@ export const contactLinksSchema = z.object({
   telegram: z.string().max(50).optional(),
 });
 
+// Validates the text as typed; sanitizeProfileUpdate escapes it for storage
+// once moderation has seen it
 export const updateProfileSchema = z.object({
   display_name: z
     .string()
     .min(1, "Display name cannot be empty")
     .max(50, "Display name cannot exceed 50 characters")
-    .transform((content) => sanitizeContent(content))
-    .optional(),
-  bio: z
-    .string()
-    .max(160, "Bio cannot exceed 160 characters")
-    .transform((content) => sanitizeContent(content))
     .optional(),
+  bio: z.string().max(160, "Bio cannot exceed 160 characters").optional(),
   phone_number: z
     .string()
     .max(20, "Phone number cannot exceed 20 characters")
@@ -38,6 +35,17 @@ export const updateProfileSchema = z.object({
   contact_links: contactLinksSchema.optional(),
 });
 
+export const sanitizeProfileUpdate = (
+  input: UpdateProfileInput,
+): UpdateProfileInput => ({
+  ...input,
+  display_name:
+    input.display_name !== undefined
+      ? sanitizeContent(input.display_name)
+      : undefined,
+  bio: input.bio !== undefined ? sanitizeContent(input.bio) : undefined,
+});
+
 export const getProfileSchema = z.object({
   telegramId: z.string().transform((val) => {
     const num = parseInt(val, 10);
@@ -0,0 +1,36 @@
+import { z } from "zod";
+import {
+  REVIEW_MAX_LENGTH,
+  REVIEW_REPLY_MAX_LENGTH,
+} from "../../../shared/constants";
+
+export const createReviewSchema = z.object({
+  listingId: z.number().int().positive(),
+  rating: z
+    .number()
+    .int()
+    .min(1, "Rating must be between 1 and 5")
+    .max(5, "Rating must be between 1 and 5"),
+  body: z
+    .string()
+    .trim()
+    .max(
+      REVIEW_MAX_LENGTH,
+      `Review cannot exceed ${REVIEW_MAX_LENGTH} characters`,
+    )
+    .optional(),
+});
+
+export const reviewReplySchema = z.object({
+  reply: z
+    .string()
+    .trim()
+    .min(1, "Reply cannot be empty")
+    .max(
+      REVIEW_REPLY_MAX_LENGTH,
+      `Reply cannot exceed ${REVIEW_REPLY_MAX_LENGTH} characters`,
+    ),
+});
+
+export type CreateReviewInput = z.infer<typeof createReviewSchema>;
+export type ReviewReplyInput = z.infer<typeof reviewReplySchema>;
@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { CATEGORIES, PRICE_MIN, PRICE_MAX } from "../../../shared/constants";
+
+const categoryIds = CATEGORIES.map((category) => category.id) as [
+  string,
+  ...string[],
+];
+
+// Subset of the feed's ListingFilters that a saved search can match on
+export const savedSearchFiltersSchema = z
+  .object({
+    category: z.enum(categoryIds).optional(),
+    priceMin: z.number().int().min(PRICE_MIN).max(PRICE_MAX).optional(),
+    priceMax: z.number().int().min(PRICE_MIN).max(PRICE_MAX).optional(),
+    search: z
+      .string()
+      .trim()
+      .max(100, "Search text cannot exceed 100 characters")
+      .optional(),
+  })
+  .refine(
+    (filters) =>
+      filters.priceMin === undefined ||
+      filters.priceMax === undefined ||
+      filters.priceMin <= filters.priceMax,
+    { message: "Minimum price cannot exceed maximum price" },
+  )
+  .refine(
+    (filters) =>
+      Boolean(
+        filters.category ||
+          filters.search ||
+          filters.priceMin !== undefined ||
+          filters.priceMax !== undefined,
+      ),
+    { message: "A saved search needs at least one filter" },
+  );
+
+export const createSavedSearchSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name cannot be empty")
+    .max(50, "Name cannot exceed 50 characters"),
+  filters: savedSearchFiltersSchema,
+});
+
+export const updateSavedSearchSchema = z.object({
+  name: createSavedSearchSchema.shape.name.optional(),
+  filters: savedSearchFiltersSchema.optional(),
+  isMuted: z.boolean().optional(),
+});
+
+export type SavedSearchFilters = z.infer<typeof savedSearchFiltersSchema>;
+export type CreateSavedSearchInput = z.infer<typeof createSavedSearchSchema>;
+export type UpdateSavedSearchInput = z.infer<typeof updateSavedSearchSchema>;
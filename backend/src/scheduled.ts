@@ -0,0 +1,46 @@
+import type {
+  ExecutionContext,
+  ScheduledController,
+} from "@cloudflare/workers-types";
+import { createDatabase } from "./db";
+import { SchedulerService } from "./services/scheduler-service";
+import type { Env } from "./types/env";
+
+// Cron expressions must match [triggers] crons in wrangler.toml
+export const LIFECYCLE_CRON = "*/15 * * * *";
+export const CLEANUP_CRON = "0 3 * * *";
+
+export async function handleScheduled(
+  controller: ScheduledController,
+  env: Env,
+  ctx: ExecutionContext,
+) {
+  const db = createDatabase(env.DB);
+  const scheduler = new SchedulerService(db, env);
+
+  switch (controller.cron) {
+    case LIFECYCLE_CRON:
+      // Expire first so reminders never go out for already-expired listings
+      ctx.waitUntil(
+        (async () => {
+          await scheduler.runExpiry();
+          await scheduler.runReminders();
+          await scheduler.runSavedSearchDigests();
+          await scheduler.runAnalyticsRollup();
+          await scheduler.runBanExpiry();
+          await scheduler.runUploadSessionPurge();
+        })(),
+      );
+      break;
+    case CLEANUP_CRON:
+      ctx.waitUntil(
+        (async () => {
+          await scheduler.runCleanup();
+          await scheduler.runOrphanedImageSweep();
+        })(),
+      );
+      break;
+    default:
+      console.warn(`No scheduled job for cron "${controller.cron}"`);
+  }
+}
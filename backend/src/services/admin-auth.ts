@@ -1,22 +1,30 @@
-import type { Env } from "../types/env";
+import type { Env, SessionData } from "../types/env";
+import { createDatabase } from "../db";
+import { RoleService } from "./role-service";
+import {
+  ROLE_PERMISSIONS,
+  type Permission,
+  type StaffRole,
+  type UserRole,
+} from "../../../shared/constants";
 
 /**
  * Admin Authorization Service
  *
- * Security-focused module for validating admin privileges.
- * Centralized admin validation to ensure consistent authorization across the application.
+ * Security-focused module for validating staff privileges.
+ * Centralized role and permission checks to ensure consistent authorization across the application.
  *
  * ⚠️ SECURITY CRITICAL: Changes to this file require careful security review.
  */
 
 /**
- * Check if a Telegram user ID has admin privileges
+ * Check if a Telegram user ID is the bootstrap owner configured in the env
  *
  * @param telegramId - The Telegram user ID to check
  * @param env - Environment variables containing TELEGRAM_ADMIN_ID
- * @returns true if user is admin, false otherwise
+ * @returns true if user is the bootstrap owner, false otherwise
  */
-export function isAdmin(telegramId: number, env: Env): boolean {
+export function isBootstrapOwner(telegramId: number, env: Env): boolean {
   // Parse admin ID from environment (could be string or number)
   const adminId =
     typeof env.TELEGRAM_ADMIN_ID === "string"
@@ -33,26 +41,81 @@ export function isAdmin(telegramId: number, env: Env): boolean {
 }
 
 /**
- * Validate that a session user has admin privileges
+ * Check if a role grants a permission
+ *
+ * @param role - The user's current role
+ * @param permission - The permission required for the action
+ * @returns true if the role includes the permission
+ */
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Check if a viewer may see listings held for review, which only their
+ * seller and staff reviewing reports can
+ *
+ * @param viewer - The signed-in viewer, if any
+ * @param sellerId - Seller of the listings being looked at, if known
+ * @returns true if held listings may be shown
+ */
+export function canSeeHeldListings(
+  viewer: SessionData | undefined,
+  sellerId?: number,
+): boolean {
+  if (!viewer) return false;
+  return (
+    viewer.userId === sellerId || hasPermission(viewer.role, "review_reports")
+  );
+}
+
+/**
+ * Check if a staff member may grant or revoke a role. Owners manage every
+ * role; admins only manage moderators, so they can't promote past themselves.
+ *
+ * @param actorRole - Role of the staff member making the change
+ * @param role - Role being granted, or the target's current role on revoke
+ * @returns true if the change is allowed
+ */
+export function canAssignRole(actorRole: UserRole, role: StaffRole): boolean {
+  if (!hasPermission(actorRole, "manage_roles")) {
+    return false;
+  }
+  return actorRole === "owner" || role === "moderator";
+}
+
+/**
+ * Validate that a session user has a permission
  *
  * @param sessionTelegramId - The telegram ID from the authenticated session
  * @param env - Environment variables
- * @returns Promise<boolean> - true if user is admin
+ * @param permission - The permission required for the action
+ * @returns Promise<boolean> - true if the user's current role grants it
  */
 export async function validateAdminAction(
   sessionTelegramId: number,
   env: Env,
+  permission: Permission,
 ): Promise<boolean> {
-  return isAdmin(sessionTelegramId, env);
+  return hasPermission(await getAdminRole(sessionTelegramId, env), permission);
 }
 
 /**
- * Get the role designation for a user
+ * Get the current role of a user from the database. Read on every
+ * authenticated request, so grants and revocations apply to live sessions.
  *
  * @param telegramId - The Telegram user ID
  * @param env - Environment variables
- * @returns 'admin' | 'user'
+ * @returns 'owner' | 'admin' | 'moderator' | 'user'
  */
-export function getAdminRole(telegramId: number, env: Env): "admin" | "user" {
-  return isAdmin(telegramId, env) ? "admin" : "user";
+export async function getAdminRole(
+  telegramId: number,
+  env: Env,
+): Promise<UserRole> {
+  if (isBootstrapOwner(telegramId, env)) {
+    return "owner";
+  }
+
+  const roleService = new RoleService(createDatabase(env.DB), env);
+  return roleService.getRole(telegramId);
 }
@@ -1,7 +1,9 @@
 import { eq } from "drizzle-orm";
 import type { Database } from "../db";
 import { listings } from "../db/schema";
+import type { Listing } from "../db/schema";
 import type { Env } from "../types/env";
+import { FavoriteService } from "./favorite-service";
 import { LISTING_STATUS } from "../../../shared/constants";
 
 export class AdminService {
@@ -16,6 +18,7 @@ export class AdminService {
   ): Promise<{
     success: boolean;
     listing?: any;
+    previous?: Listing; // The listing as it was before archiving
     error?: string;
   }> {
     try {
@@ -45,7 +48,12 @@ export class AdminService {
       // Send Telegram notification to listing owner
       await this.sendArchiveNotification(listing.userId, listing.title, reason);
 
-      return { success: true, listing: archivedListing };
+      const favoriteService = new FavoriteService(this.db, this.env);
+      await favoriteService.notifyWatchers(archivedListing, {
+        type: "archived",
+      });
+
+      return { success: true, listing: archivedListing, previous: listing };
     } catch (error) {
       console.error("Error archiving listing:", error);
       return {
@@ -0,0 +1,198 @@
+import { eq, and, gte, lt, asc, sql } from "drizzle-orm";
+import type { Database } from "../db";
+import { listingEvents, listingDailyStats } from "../db/schema";
+import type { Listing } from "../db/schema";
+import type { Env } from "../types/env";
+import {
+  calculateBumpLift,
+  fillAnalyticsDays,
+  listAnalyticsDays,
+  toAnalyticsDay,
+  type BumpLift,
+  type DailyListingStats,
+} from "./listing-analytics";
+import {
+  ANALYTICS_BUMP_LIFT_DAYS,
+  ANALYTICS_DEDUP_MINUTES,
+  ANALYTICS_STATS_DAYS,
+  type ListingEventType,
+} from "../../../shared/constants";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ListingStats {
+  days: DailyListingStats[]; // Last ANALYTICS_STATS_DAYS days, oldest first
+  totals: { views: number; contactClicks: number; shares: number };
+  bumpLift: BumpLift | null;
+}
+
+/**
+ * Dedup key for a viewer: the Telegram ID when signed in, otherwise a hash of
+ * IP and user agent so no address is stored
+ */
+export async function getViewerKey(
+  userId: number | undefined,
+  ip: string | undefined,
+  userAgent: string | undefined,
+): Promise<string> {
+  if (userId !== undefined) return `user:${userId}`;
+
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(`${ip ?? "unknown"}|${userAgent ?? ""}`),
+  );
+  const hex = Array.from(new Uint8Array(digest).slice(0, 12))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return `anon:${hex}`;
+}
+
+/**
+ * Records listing views, contact clicks and shares, and serves the owner's
+ * stats from the daily rollup.
+ *
+ * The request path only inserts a raw event; repeats from the same viewer
+ * within ANALYTICS_DEDUP_MINUTES hit the unique index and are dropped. The
+ * lifecycle cron folds raw events into listing_daily_stats.
+ */
+export class AnalyticsService {
+  constructor(
+    private db: Database,
+    private env: Env,
+  ) {}
+
+  /**
+   * Record an event. Analytics never fail the request, errors are only logged.
+   */
+  async recordEvent(
+    listingId: number,
+    type: ListingEventType,
+    viewerKey: string,
+    now = Date.now(),
+  ): Promise<void> {
+    try {
+      await this.db
+        .insert(listingEvents)
+        .values({
+          listingId,
+          type,
+          viewerKey,
+          day: toAnalyticsDay(now),
+          bucket: Math.floor(now / (ANALYTICS_DEDUP_MINUTES * 60 * 1000)),
+          createdAt: now,
+        })
+        .onConflictDoNothing();
+    } catch (error) {
+      console.error(
+        `Failed to record ${type} event for listing ${listingId}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Recompute the rollup for today and yesterday from raw events, then drop
+   * raw events older than that. Unique viewers need every event of the day,
+   * so a day's raw events are kept until it can no longer change.
+   */
+  async rollupDailyStats(now = Date.now()) {
+    const since = toAnalyticsDay(now - DAY_MS);
+    const countType = (type: ListingEventType) =>
+      sql<number>`sum(case when ${listingEvents.type} = ${type} then 1 else 0 end)`;
+
+    const updated = await this.db
+      .insert(listingDailyStats)
+      .select(
+        this.db
+          .select({
+            // Insert-select must list every column; null lets SQLite assign the id
+            id: sql<number>`null`.as("id"),
+            listingId: listingEvents.listingId,
+            day: listingEvents.day,
+            views: countType("view").as("views"),
+            uniqueViewers:
+              sql<number>`count(distinct case when ${listingEvents.type} = 'view' then ${listingEvents.viewerKey} end)`.as(
+                "unique_viewers",
+              ),
+            contactClicks: countType("contact_click").as("contact_clicks"),
+            shares: countType("share").as("shares"),
+            updatedAt: sql<number>`${now}`.as("updated_at"),
+          })
+          .from(listingEvents)
+          .where(gte(listingEvents.day, since))
+          .groupBy(listingEvents.listingId, listingEvents.day),
+      )
+      .onConflictDoUpdate({
+        target: [listingDailyStats.listingId, listingDailyStats.day],
+        set: {
+          views: sql`excluded.views`,
+          uniqueViewers: sql`excluded.unique_viewers`,
+          contactClicks: sql`excluded.contact_clicks`,
+          shares: sql`excluded.shares`,
+          updatedAt: sql`excluded.updated_at`,
+        },
+      })
+      .returning({ id: listingDailyStats.id });
+
+    const purged = await this.db
+      .delete(listingEvents)
+      .where(lt(listingEvents.day, since))
+      .returning({ id: listingEvents.id });
+
+    return { rowsUpdated: updated.length, eventsPurged: purged.length };
+  }
+
+  /**
+   * Daily stats for the owner's panel, plus the view lift from the last bump
+   */
+  async getListingStats(
+    listing: Pick<Listing, "id" | "createdAt" | "lastBumpedAt">,
+    now = Date.now(),
+  ): Promise<ListingStats> {
+    const windowStart = now - (ANALYTICS_STATS_DAYS - 1) * DAY_MS;
+    // Reach further back when the bump's "before" days fall outside the window
+    const queryStart = listing.lastBumpedAt
+      ? Math.min(
+          windowStart,
+          listing.lastBumpedAt - ANALYTICS_BUMP_LIFT_DAYS * DAY_MS,
+        )
+      : windowStart;
+
+    const rows = await this.db
+      .select({
+        day: listingDailyStats.day,
+        views: listingDailyStats.views,
+        uniqueViewers: listingDailyStats.uniqueViewers,
+        contactClicks: listingDailyStats.contactClicks,
+        shares: listingDailyStats.shares,
+      })
+      .from(listingDailyStats)
+      .where(
+        and(
+          eq(listingDailyStats.listingId, listing.id),
+          gte(listingDailyStats.day, toAnalyticsDay(queryStart)),
+        ),
+      )
+      .orderBy(asc(listingDailyStats.day));
+
+    const days = fillAnalyticsDays(rows, listAnalyticsDays(windowStart, now));
+
+    return {
+      days,
+      totals: {
+        views: days.reduce((total, day) => total + day.views, 0),
+        contactClicks: days.reduce(
+          (total, day) => total + day.contactClicks,
+          0,
+        ),
+        shares: days.reduce((total, day) => total + day.shares, 0),
+      },
+      bumpLift: calculateBumpLift(
+        rows,
+        Date.parse(listing.createdAt),
+        listing.lastBumpedAt,
+        now,
+      ),
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import { and, count, desc, eq, gte, lt, type SQL } from "drizzle-orm";
+import type { Database } from "../db";
+import { adminActions } from "../db/schema";
+import type { AdminActionRecord } from "../db/schema";
+import type { Env, SessionData } from "../types/env";
+import type { AdminAction, AuditTargetType } from "../../../shared/constants";
+
+export interface AuditEntry {
+  action: AdminAction;
+  targetType: AuditTargetType;
+  targetId?: string | number | null;
+  reason?: string | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditFilters {
+  action?: AdminAction;
+  actorId?: number;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  from?: string; // ISO timestamp or date, inclusive
+  to?: string; // ISO timestamp (exclusive) or date (inclusive)
+  limit: number;
+  offset: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A date-only upper bound (YYYY-MM-DD) includes that whole day
+function endOf(bound: string): string {
+  if (bound.length > 10) return bound;
+  return new Date(Date.parse(bound) + DAY_MS).toISOString().slice(0, 10);
+}
+
+export class AuditService {
+  constructor(
+    private db: Database,
+    private env: Env,
+  ) {}
+
+  /**
+   * Append an entry for an action the actor has already performed. Never
+   * throws: a failed write is logged rather than failing the action itself.
+   */
+  async record(actor: SessionData, entry: AuditEntry): Promise<void> {
+    try {
+      await this.db.insert(adminActions).values({
+        actorId: actor.telegramId,
+        actorRole: actor.role,
+        action: entry.action,
+        targetType: entry.targetType,
+        targetId: entry.targetId == null ? null : String(entry.targetId),
+        reason: entry.reason ?? null,
+        before:
+          entry.before === undefined ? null : JSON.stringify(entry.before),
+        after: entry.after === undefined ? null : JSON.stringify(entry.after),
+        createdAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error(`Failed to record admin action ${entry.action}:`, error);
+    }
+  }
+
+  async list(
+    filters: AuditFilters,
+  ): Promise<{ actions: AdminActionRecord[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (filters.action) {
+      conditions.push(eq(adminActions.action, filters.action));
+    }
+    if (filters.actorId) {
+      conditions.push(eq(adminActions.actorId, filters.actorId));
+    }
+    if (filters.targetType) {
+      conditions.push(eq(adminActions.targetType, filters.targetType));
+    }
+    if (filters.targetId) {
+      conditions.push(eq(adminActions.targetId, filters.targetId));
+    }
+    if (filters.from) {
+      conditions.push(gte(adminActions.createdAt, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lt(adminActions.createdAt, endOf(filters.to)));
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [actions, [totals]] = await Promise.all([
+      this.db
+        .select()
+        .from(adminActions)
+        .where(where)
+        .orderBy(desc(adminActions.id))
+        .limit(filters.limit)
+        .offset(filters.offset),
+      this.db.select({ total: count() }).from(adminActions).where(where),
+    ]);
+
+    return { actions, total: totals?.total ?? 0 };
+  }
+
+  formatAction(record: AdminActionRecord) {
+    return {
+      ...record,
+      before: record.before ? JSON.parse(record.before) : null,
+      after: record.after ? JSON.parse(record.after) : null,
+    };
+  }
+}
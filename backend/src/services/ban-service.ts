@@ -0,0 +1,304 @@
+import { and, count, desc, eq, isNull, lte } from "drizzle-orm";
+import type { Database } from "../db";
+import { banAppeals, bans, userProfiles } from "../db/schema";
+import type { Ban, BanAppeal } from "../db/schema";
+import type { Env } from "../types/env";
+import { ProfileService } from "./profile-service";
+import { SessionManager } from "./session-manager";
+import { canAssignRole, getAdminRole, isBootstrapOwner } from "./admin-auth";
+import type { BanAppealStatus, UserRole } from "../../../shared/constants";
+
+export type BanLiftReason = "unbanned" | "expired" | "appeal_accepted";
+
+export interface BanInput {
+  reason: string;
+  durationDays?: number; // Omit for a permanent ban
+}
+
+// The staff member issuing a ban
+export interface BanActor {
+  telegramId: number;
+  role: UserRole;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AppealFilters {
+  status?: BanAppealStatus;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Bans with reasons, expiry and history. userProfiles.isBanned stays the
+ * flag every access check reads; this service keeps it in step with the
+ * ban currently in force (the one with liftedAt null).
+ */
+export class BanService {
+  constructor(
+    private db: Database,
+    private env: Env,
+  ) {}
+
+  async getActiveBan(telegramId: number): Promise<Ban | null> {
+    const [ban] = await this.db
+      .select()
+      .from(bans)
+      .where(and(eq(bans.telegramId, telegramId), isNull(bans.liftedAt)))
+      .orderBy(desc(bans.id))
+      .limit(1);
+
+    return ban ?? null;
+  }
+
+  async getBanHistory(telegramId: number): Promise<Ban[]> {
+    return this.db
+      .select()
+      .from(bans)
+      .where(eq(bans.telegramId, telegramId))
+      .orderBy(desc(bans.id));
+  }
+
+  /**
+   * Why a staff member can't ban a user, if they can't: the bootstrap owner
+   * can never be banned, and other staff only by someone who could revoke
+   * their role, ranking above them
+   *
+   * @returns null if the ban is allowed
+   */
+  async checkBan(
+    telegramId: number,
+    bannedBy: BanActor,
+  ): Promise<string | null> {
+    if (isBootstrapOwner(telegramId, this.env)) {
+      return "The bootstrap owner can't be banned";
+    }
+
+    const role = await getAdminRole(telegramId, this.env);
+    if (
+      role !== "user" &&
+      (role === bannedBy.role || !canAssignRole(bannedBy.role, role))
+    ) {
+      return `You can't ban staff with the ${role} role`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Ban a user and sign them out everywhere
+   *
+   * @returns The ban, or why the staff member can't ban them (see checkBan)
+   */
+  async ban(
+    telegramId: number,
+    input: BanInput,
+    bannedBy: BanActor,
+  ): Promise<{ ban: Ban } | { error: string }> {
+    const refused = await this.checkBan(telegramId, bannedBy);
+    if (refused) {
+      return { error: refused };
+    }
+
+    const [ban] = await this.db
+      .insert(bans)
+      .values({
+        telegramId,
+        reason: input.reason,
+        bannedBy: bannedBy.telegramId,
+        expiresAt: input.durationDays
+          ? Date.now() + input.durationDays * DAY_MS
+          : null,
+        createdAt: new Date().toISOString(),
+      })
+      .returning();
+
+    const profileService = new ProfileService(this.env.DB);
+    await profileService.setBanned(telegramId, true);
+
+    // Sign the user out everywhere; the ban check at login keeps them out
+    const sessionManager = SessionManager.create(this.env);
+    await sessionManager.revokeAllSessions(telegramId);
+
+    return { ban };
+  }
+
+  /**
+   * Lift the ban in force and clear the profile flag
+   *
+   * @param liftedBy - Staff member lifting it, null when it expired
+   * @returns The lifted ban, or null if the user had none in force
+   */
+  async unban(
+    telegramId: number,
+    liftedBy: number | null,
+    liftReason: BanLiftReason,
+  ): Promise<Ban | null> {
+    const [lifted] = await this.db
+      .update(bans)
+      .set({ liftedAt: new Date().toISOString(), liftedBy, liftReason })
+      .where(and(eq(bans.telegramId, telegramId), isNull(bans.liftedAt)))
+      .returning();
+
+    const profileService = new ProfileService(this.env.DB);
+    await profileService.setBanned(telegramId, false);
+
+    return lifted ?? null;
+  }
+
+  /**
+   * Lift every temporary ban whose expiry has passed
+   *
+   * @returns The bans lifted by this call
+   */
+  async liftExpiredBans(now = Date.now()): Promise<Ban[]> {
+    const expired = await this.db
+      .update(bans)
+      .set({ liftedAt: new Date(now).toISOString(), liftReason: "expired" })
+      .where(and(isNull(bans.liftedAt), lte(bans.expiresAt, now)))
+      .returning();
+
+    const profileService = new ProfileService(this.env.DB);
+    for (const ban of expired) {
+      await profileService.setBanned(ban.telegramId, false);
+    }
+
+    return expired;
+  }
+
+  /**
+   * Lift a user's ban right away if it has expired, so they don't wait for
+   * the next scheduled run to sign in again
+   *
+   * @returns true if the user is no longer banned
+   */
+  async liftIfExpired(telegramId: number): Promise<boolean> {
+    const ban = await this.getActiveBan(telegramId);
+    if (!ban || ban.expiresAt === null || ban.expiresAt > Date.now()) {
+      return false;
+    }
+
+    await this.unban(telegramId, null, "expired");
+    return true;
+  }
+
+  /**
+   * File the single appeal allowed against the ban in force
+   */
+  async createAppeal(
+    telegramId: number,
+    message: string,
+  ): Promise<{ appeal?: BanAppeal; error?: string }> {
+    const ban = await this.getActiveBan(telegramId);
+    if (!ban) {
+      return { error: "You are not banned." };
+    }
+
+    const [appeal] = await this.db
+      .insert(banAppeals)
+      .values({
+        banId: ban.id,
+        telegramId,
+        message,
+        createdAt: new Date().toISOString(),
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!appeal) {
+      return { error: "You have already appealed this ban." };
+    }
+
+    return { appeal };
+  }
+
+  async getAppealById(appealId: number): Promise<BanAppeal | null> {
+    const [appeal] = await this.db
+      .select()
+      .from(banAppeals)
+      .where(eq(banAppeals.id, appealId))
+      .limit(1);
+
+    return appeal ?? null;
+  }
+
+  /**
+   * Appeals with the ban they contest and who filed them, oldest first so
+   * the queue is worked in order
+   */
+  async listAppeals(filters: AppealFilters) {
+    const where = filters.status
+      ? eq(banAppeals.status, filters.status)
+      : undefined;
+
+    const [rows, [totals]] = await Promise.all([
+      this.db
+        .select({
+          appeal: banAppeals,
+          ban: bans,
+          username: userProfiles.username,
+          displayName: userProfiles.displayName,
+        })
+        .from(banAppeals)
+        .innerJoin(bans, eq(banAppeals.banId, bans.id))
+        .leftJoin(
+          userProfiles,
+          eq(banAppeals.telegramId, userProfiles.telegramId),
+        )
+        .where(where)
+        .orderBy(banAppeals.createdAt)
+        .limit(filters.limit)
+        .offset(filters.offset),
+      this.db.select({ total: count() }).from(banAppeals).where(where),
+    ]);
+
+    return {
+      appeals: rows.map((row) => ({
+        ...row.appeal,
+        ban: row.ban,
+        username: row.username,
+        displayName: row.displayName,
+      })),
+      total: totals?.total ?? 0,
+    };
+  }
+
+  /**
+   * Decide a pending appeal. Accepting it lifts the ban.
+   *
+   * @returns The decided appeal, or null if it was no longer pending
+   */
+  async resolveAppeal(
+    appeal: BanAppeal,
+    decision: Exclude<BanAppealStatus, "pending">,
+    reviewedBy: number,
+    response?: string,
+  ): Promise<BanAppeal | null> {
+    const [decided] = await this.db
+      .update(banAppeals)
+      .set({
+        status: decision,
+        response: response ?? null,
+        reviewedBy,
+        reviewedAt: new Date().toISOString(),
+      })
+      .where(
+        and(eq(banAppeals.id, appeal.id), eq(banAppeals.status, "pending")),
+      )
+      .returning();
+
+    if (!decided) {
+      return null;
+    }
+
+    // Only lift the ban that was appealed, not one issued since
+    if (decision === "accepted") {
+      const activeBan = await this.getActiveBan(appeal.telegramId);
+      if (activeBan?.id === appeal.banId) {
+        await this.unban(appeal.telegramId, reviewedBy, "appeal_accepted");
+      }
+    }
+
+    return decided;
+  }
+}
@@ -1,18 +1,88 @@
 import { eq, sql } from "drizzle-orm";
 import type { Database } from "../db";
 import { listings } from "../db/schema";
+import type { Listing } from "../db/schema";
 import type { Env } from "../types/env";
 import {
   BUMP_COOLDOWN_HOURS,
   EXPIRY_FREE_BUMP_DAYS,
   EXPIRY_PAID_BUMP_DAYS,
+  HELD_LISTING_STATUSES,
   LISTING_STATUS,
+  type ListingStatus,
 } from "../../../shared/constants";
 
 export interface BumpListingInput {
   listingId: number;
   userId: number;
   isPaid: boolean;
+  // Set when settling a Stars payment: eligibility was already checked at
+  // pre-checkout, so the cooldown must not reject a bump the user paid for
+  paymentId?: string;
+}
+
+/**
+ * Listing state captured before a paid bump, stored in the payment's meta
+ * so a refund can undo the bump
+ */
+export interface PaidBumpSnapshot {
+  previousExpiresAt: number;
+  previousLastBumpedAt: number | null;
+  previousStatus: string;
+  bumpedAt: number;
+}
+
+export function toBumpSnapshotMeta(snapshot: PaidBumpSnapshot): string {
+  return JSON.stringify({ bump: snapshot });
+}
+
+/**
+ * The snapshot kept in a payment's meta, or null if it has none (e.g. a bump
+ * that was refunded because it never applied)
+ */
+export function parseBumpSnapshot(
+  meta: string | null,
+): PaidBumpSnapshot | null {
+  if (!meta) return null;
+
+  try {
+    const parsed = JSON.parse(meta) as { bump?: PaidBumpSnapshot };
+    return parsed.bump ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The listing fields that undo a refunded paid bump. If the listing was
+ * bumped again after the paid bump, the later bump wins and only the bump
+ * count is corrected.
+ */
+export function revertedBumpFields(
+  listing: Pick<Listing, "bumpCount" | "lastBumpedAt" | "status">,
+  snapshot: PaidBumpSnapshot,
+  now = Date.now(),
+): Partial<Pick<Listing, "expiresAt" | "lastBumpedAt" | "status">> & {
+  bumpCount: number;
+} {
+  const bumpCount = Math.max(listing.bumpCount - 1, 0);
+  if (listing.lastBumpedAt !== snapshot.bumpedAt) {
+    return { bumpCount };
+  }
+
+  // A reactivated listing goes back to expired if its old expiry has passed
+  const status =
+    listing.status === LISTING_STATUS.ACTIVE &&
+    snapshot.previousExpiresAt <= now
+      ? LISTING_STATUS.EXPIRED
+      : snapshot.previousStatus;
+
+  return {
+    expiresAt: snapshot.previousExpiresAt,
+    lastBumpedAt: snapshot.previousLastBumpedAt,
+    bumpCount,
+    status,
+  };
 }
 
 export class BumpService {
@@ -43,6 +113,23 @@ export class BumpService {
       return { canBump: false, reason: "You don't own this listing" };
     }
 
+    if (listing.status === LISTING_STATUS.SOLD) {
+      return { canBump: false, reason: "Sold listings can't be bumped" };
+    }
+
+    // Bumping reactivates a listing, which would skip the review
+    if (HELD_LISTING_STATUSES.includes(listing.status as ListingStatus)) {
+      return {
+        canBump: false,
+        reason: "Listings held for review can't be bumped",
+      };
+    }
+
+    // Nor may it bring back a listing staff archived
+    if (listing.status === LISTING_STATUS.ARCHIVED) {
+      return { canBump: false, reason: "Archived listings can't be bumped" };
+    }
+
     // Check bump cooldown (24 hours)
     if (listing.lastBumpedAt) {
       const hoursSinceLastBump =
@@ -70,7 +157,9 @@ export class BumpService {
       input.userId,
     );
 
-    if (!eligibility.canBump) {
+    // A settled payment only bypasses the cooldown, never the ownership check
+    const onlyCooldownFailed = eligibility.hoursUntilNextBump !== undefined;
+    if (!eligibility.canBump && !(input.paymentId && onlyCooldownFailed)) {
       throw new Error(eligibility.reason || "Cannot bump listing");
     }
 
@@ -90,7 +179,8 @@ export class BumpService {
         expiresAt: newExpiresAt,
         lastBumpedAt: now,
         bumpCount: sql`${listings.bumpCount} + 1`,
-        status: LISTING_STATUS.ACTIVE, // Reactivate if expired
+        // Reactivate if expired; a reserved listing stays reserved
+        status: sql`CASE WHEN ${listings.status} = ${LISTING_STATUS.RESERVED} THEN ${LISTING_STATUS.RESERVED} ELSE ${LISTING_STATUS.ACTIVE} END`,
         updatedAt: nowIso,
       })
       .where(eq(listings.id, input.listingId))
@@ -99,6 +189,63 @@ export class BumpService {
     return bumpedListing;
   }
 
+  /**
+   * Settle a paid bump and return the snapshot needed to revert it on refund
+   */
+  async applyPaidBump(listingId: number, userId: number, paymentId: string) {
+    const [listing] = await this.db
+      .select()
+      .from(listings)
+      .where(eq(listings.id, listingId))
+      .limit(1);
+
+    if (!listing) {
+      throw new Error("Listing not found");
+    }
+
+    const bumpedListing = await this.bumpListing({
+      listingId,
+      userId,
+      isPaid: true,
+      paymentId,
+    });
+
+    const snapshot: PaidBumpSnapshot = {
+      previousExpiresAt: listing.expiresAt,
+      previousLastBumpedAt: listing.lastBumpedAt,
+      previousStatus: listing.status,
+      bumpedAt: bumpedListing.lastBumpedAt ?? Date.now(),
+    };
+
+    return { listing: bumpedListing, snapshot };
+  }
+
+  /**
+   * Undo a refunded paid bump, see revertedBumpFields
+   */
+  async revertPaidBump(listingId: number, snapshot: PaidBumpSnapshot) {
+    const [listing] = await this.db
+      .select()
+      .from(listings)
+      .where(eq(listings.id, listingId))
+      .limit(1);
+
+    if (!listing) {
+      return null;
+    }
+
+    const [revertedListing] = await this.db
+      .update(listings)
+      .set({
+        ...revertedBumpFields(listing, snapshot),
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(listings.id, listingId))
+      .returning();
+
+    return revertedListing;
+  }
+
   async getTimeUntilNextBump(listingId: number): Promise<number | null> {
     const [listing] = await this.db
       .select({ lastBumpedAt: listings.lastBumpedAt })
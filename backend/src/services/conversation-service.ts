@@ -0,0 +1,375 @@
+import {
+  eq,
+  and,
+  or,
+  desc,
+  lt,
+  ne,
+  isNull,
+  isNotNull,
+  count,
+  inArray,
+  max,
+} from "drizzle-orm";
+import type { Database } from "../db";
+import { conversations, messages, listings, userProfiles } from "../db/schema";
+import type { Conversation, Listing, Message } from "../db/schema";
+import type { Env } from "../types/env";
+import { sendConversationMessageNotification } from "./notification-service";
+
+// Relayed DMs stay answerable for this long
+const RELAY_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Conversations looked up per query when listing a user's inbox, keeps the
+// IN lists within D1's bound parameter limit
+const CONVERSATION_BATCH_SIZE = 50;
+
+export class ConversationService {
+  constructor(
+    private db: Database,
+    private env: Env,
+  ) {}
+
+  /**
+   * Get the buyer's conversation about a listing, creating it on first contact
+   */
+  async getOrCreateConversation(
+    listing: Pick<Listing, "id" | "userId">,
+    buyerId: number,
+  ): Promise<Conversation> {
+    const now = new Date().toISOString();
+    await this.db
+      .insert(conversations)
+      .values({
+        listingId: listing.id,
+        buyerId,
+        sellerId: listing.userId,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .onConflictDoNothing();
+
+    const conversation = await this.getConversationForListing(
+      listing.id,
+      buyerId,
+    );
+    return conversation!;
+  }
+
+  async getConversationById(conversationId: number) {
+    const [conversation] = await this.db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.id, conversationId))
+      .limit(1);
+
+    return conversation;
+  }
+
+  async getConversationForListing(listingId: number, buyerId: number) {
+    const [conversation] = await this.db
+      .select()
+      .from(conversations)
+      .where(
+        and(
+          eq(conversations.listingId, listingId),
+          eq(conversations.buyerId, buyerId),
+        ),
+      )
+      .limit(1);
+
+    return conversation;
+  }
+
+  /**
+   * Buyers who have exchanged messages with the seller about a listing
+   */
+  async getListingBuyerIds(listingId: number): Promise<number[]> {
+    const rows = await this.db
+      .select({ buyerId: conversations.buyerId })
+      .from(conversations)
+      .where(
+        and(
+          eq(conversations.listingId, listingId),
+          isNotNull(conversations.lastMessageAt),
+        ),
+      );
+
+    return rows.map((row) => row.buyerId);
+  }
+
+  isParticipant(conversation: Conversation, userId: number): boolean {
+    return conversation.buyerId === userId || conversation.sellerId === userId;
+  }
+
+  /**
+   * List a user's conversations that have at least one message, newest first
+   */
+  async getUserConversations(userId: number) {
+    const rows = await this.db
+      .select({
+        conversation: conversations,
+        listingTitle: listings.title,
+        listingPrice: listings.price,
+        listingStatus: listings.status,
+      })
+      .from(conversations)
+      .innerJoin(listings, eq(conversations.listingId, listings.id))
+      .where(
+        and(
+          or(
+            eq(conversations.buyerId, userId),
+            eq(conversations.sellerId, userId),
+          ),
+          isNotNull(conversations.lastMessageAt),
+        ),
+      )
+      .orderBy(desc(conversations.lastMessageAt));
+
+    const otherUserIdOf = (conversation: Conversation) =>
+      conversation.buyerId === userId
+        ? conversation.sellerId
+        : conversation.buyerId;
+
+    const lastMessages = new Map<number, Message>();
+    const unreadCounts = new Map<number, number>();
+    const displayNames = new Map<number, string>();
+    for (let i = 0; i < rows.length; i += CONVERSATION_BATCH_SIZE) {
+      const batch = rows
+        .slice(i, i + CONVERSATION_BATCH_SIZE)
+        .map((row) => row.conversation);
+      const conversationIds = batch.map((conversation) => conversation.id);
+
+      const [latest, unread, profiles] = await Promise.all([
+        this.db
+          .select()
+          .from(messages)
+          .where(
+            inArray(
+              messages.id,
+              this.db
+                .select({ id: max(messages.id) })
+                .from(messages)
+                .where(inArray(messages.conversationId, conversationIds))
+                .groupBy(messages.conversationId),
+            ),
+          ),
+        this.db
+          .select({ conversationId: messages.conversationId, total: count() })
+          .from(messages)
+          .where(
+            and(
+              inArray(messages.conversationId, conversationIds),
+              ne(messages.senderId, userId),
+              isNull(messages.readAt),
+            ),
+          )
+          .groupBy(messages.conversationId),
+        this.db
+          .select({
+            telegramId: userProfiles.telegramId,
+            displayName: userProfiles.displayName,
+          })
+          .from(userProfiles)
+          .where(
+            inArray(userProfiles.telegramId, [
+              ...new Set(batch.map(otherUserIdOf)),
+            ]),
+          ),
+      ]);
+
+      for (const message of latest) {
+        lastMessages.set(message.conversationId, message);
+      }
+      for (const row of unread) {
+        unreadCounts.set(row.conversationId, row.total);
+      }
+      for (const profile of profiles) {
+        if (profile.displayName) {
+          displayNames.set(profile.telegramId, profile.displayName);
+        }
+      }
+    }
+
+    return rows.map((row) => {
+      const { conversation } = row;
+      const lastMessage = lastMessages.get(conversation.id);
+
+      return {
+        ...this.formatConversation(conversation, userId),
+        listing: {
+          id: conversation.listingId,
+          title: row.listingTitle,
+          price: row.listingPrice,
+          status: row.listingStatus,
+        },
+        otherParty: {
+          displayName:
+            displayNames.get(otherUserIdOf(conversation)) ?? "Someone",
+        },
+        lastMessage: lastMessage
+          ? this.formatMessage(lastMessage, userId)
+          : null,
+        unreadCount: unreadCounts.get(conversation.id) ?? 0,
+      };
+    });
+  }
+
+  /**
+   * Get messages oldest first, paging backwards from `beforeId`
+   */
+  async getMessages(
+    conversationId: number,
+    userId: number,
+    limit: number,
+    beforeId?: number,
+  ) {
+    const rows = await this.db
+      .select()
+      .from(messages)
+      .where(
+        and(
+          eq(messages.conversationId, conversationId),
+          ...(beforeId !== undefined ? [lt(messages.id, beforeId)] : []),
+        ),
+      )
+      .orderBy(desc(messages.id))
+      .limit(limit);
+
+    return rows.reverse().map((message) => this.formatMessage(message, userId));
+  }
+
+  /**
+   * Mark the other participant's messages as read
+   */
+  async markRead(conversationId: number, userId: number) {
+    await this.db
+      .update(messages)
+      .set({ readAt: Date.now() })
+      .where(
+        and(
+          eq(messages.conversationId, conversationId),
+          ne(messages.senderId, userId),
+          isNull(messages.readAt),
+        ),
+      );
+  }
+
+  /**
+   * Store a message and relay it to the other participant as a bot DM.
+   * The DM's message ID is remembered so a Telegram reply to it can be
+   * routed back into this conversation.
+   */
+  async sendMessage(
+    conversation: Conversation,
+    senderId: number,
+    body: string,
+  ) {
+    const now = Date.now();
+
+    const [message] = await this.db
+      .insert(messages)
+      .values({
+        conversationId: conversation.id,
+        senderId,
+        body,
+        createdAt: now,
+      })
+      .returning();
+
+    await this.db
+      .update(conversations)
+      .set({ lastMessageAt: now, updatedAt: new Date(now).toISOString() })
+      .where(eq(conversations.id, conversation.id));
+
+    const recipientId =
+      senderId === conversation.buyerId
+        ? conversation.sellerId
+        : conversation.buyerId;
+
+    const [listing] = await this.db
+      .select({ title: listings.title })
+      .from(listings)
+      .where(eq(listings.id, conversation.listingId))
+      .limit(1);
+
+    const relayedMessageId = await sendConversationMessageNotification(
+      this.env,
+      recipientId,
+      {
+        conversationId: conversation.id,
+        listingTitle: listing?.title ?? "your listing",
+        senderName: `${await this.getDisplayName(senderId)} (${
+          senderId === conversation.buyerId ? "buyer" : "seller"
+        })`,
+        body,
+      },
+    );
+
+    if (relayedMessageId !== null) {
+      await this.rememberRelay(recipientId, relayedMessageId, conversation.id);
+    }
+
+    return this.formatMessage(message, senderId);
+  }
+
+  /**
+   * Map a bot message in a user's chat to a conversation, so replying to it
+   * in Telegram posts into that conversation
+   */
+  async rememberRelay(
+    chatId: number,
+    telegramMessageId: number,
+    conversationId: number,
+  ) {
+    await this.env.SESSIONS.put(
+      `relay:${chatId}:${telegramMessageId}`,
+      String(conversationId),
+      { expirationTtl: RELAY_TTL_SECONDS },
+    );
+  }
+
+  /**
+   * Find the conversation a Telegram reply belongs to
+   */
+  async findConversationByRelay(
+    chatId: number,
+    telegramMessageId: number,
+  ): Promise<number | null> {
+    const value = await this.env.SESSIONS.get(
+      `relay:${chatId}:${telegramMessageId}`,
+    );
+    return value ? parseInt(value, 10) : null;
+  }
+
+  formatConversation(conversation: Conversation, userId: number) {
+    return {
+      id: conversation.id,
+      listingId: conversation.listingId,
+      role: conversation.buyerId === userId ? "buyer" : "seller",
+      lastMessageAt: conversation.lastMessageAt,
+      createdAt: conversation.createdAt,
+    };
+  }
+
+  private formatMessage(message: Message, userId: number) {
+    return {
+      id: message.id,
+      body: message.body,
+      isMine: message.senderId === userId,
+      readAt: message.readAt,
+      createdAt: message.createdAt,
+    };
+  }
+
+  // Only display names are shared; usernames and phone numbers stay private
+  private async getDisplayName(telegramId: number): Promise<string> {
+    const [profile] = await this.db
+      .select({ displayName: userProfiles.displayName })
+      .from(userProfiles)
+      .where(eq(userProfiles.telegramId, telegramId))
+      .limit(1);
+
+    return profile?.displayName || "Someone";
+  }
+}
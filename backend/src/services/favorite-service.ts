@@ -0,0 +1,102 @@
+import { eq, and, desc, count } from "drizzle-orm";
+import type { Database } from "../db";
+import { favorites } from "../db/schema";
+import type { Listing } from "../db/schema";
+import type { Env } from "../types/env";
+import { ListingService } from "./listing-service";
+import {
+  sendWatcherNotification,
+  type WatcherEvent,
+} from "./notification-service";
+
+// Upper bound on favorites returned for the Saved tab
+const MAX_FAVORITES_LISTED = 100;
+
+export class FavoriteService {
+  constructor(
+    private db: Database,
+    private env: Env,
+  ) {}
+
+  async addFavorite(userId: number, listingId: number) {
+    await this.db
+      .insert(favorites)
+      .values({ userId, listingId, createdAt: new Date().toISOString() })
+      .onConflictDoNothing();
+  }
+
+  async removeFavorite(userId: number, listingId: number): Promise<boolean> {
+    const removed = await this.db
+      .delete(favorites)
+      .where(
+        and(eq(favorites.userId, userId), eq(favorites.listingId, listingId)),
+      )
+      .returning({ id: favorites.id });
+
+    return removed.length > 0;
+  }
+
+  async isFavorited(userId: number, listingId: number): Promise<boolean> {
+    const [favorite] = await this.db
+      .select({ id: favorites.id })
+      .from(favorites)
+      .where(
+        and(eq(favorites.userId, userId), eq(favorites.listingId, listingId)),
+      )
+      .limit(1);
+
+    return !!favorite;
+  }
+
+  async countWatchers(listingId: number): Promise<number> {
+    const [result] = await this.db
+      .select({ total: count() })
+      .from(favorites)
+      .where(eq(favorites.listingId, listingId));
+
+    return result?.total ?? 0;
+  }
+
+  /**
+   * Get a user's favorited listings with images, most recently saved first.
+   * Sold and expired listings are still shown; held listings and banned
+   * sellers' listings only when includeHidden is set for staff.
+   */
+  async getUserFavoriteListings(userId: number, includeHidden = false) {
+    const rows = await this.db
+      .select({ listingId: favorites.listingId })
+      .from(favorites)
+      .where(eq(favorites.userId, userId))
+      .orderBy(desc(favorites.createdAt))
+      .limit(MAX_FAVORITES_LISTED);
+
+    const listingService = new ListingService(this.db, this.env);
+    return listingService.getListingsByIdsWithImages(
+      rows.map((row) => row.listingId),
+      includeHidden,
+    );
+  }
+
+  async getWatcherIds(listingId: number): Promise<number[]> {
+    const watchers = await this.db
+      .select({ userId: favorites.userId })
+      .from(favorites)
+      .where(eq(favorites.listingId, listingId));
+
+    return watchers.map((watcher) => watcher.userId);
+  }
+
+  /**
+   * Notify everyone watching a listing about a change
+   */
+  async notifyWatchers(listing: Listing, event: WatcherEvent): Promise<number> {
+    const watcherIds = await this.getWatcherIds(listing.id);
+
+    for (const watcherId of watcherIds) {
+      if (watcherId === listing.userId) continue;
+      await sendWatcherNotification(this.env, watcherId, listing, event);
+    }
+
+    return watcherIds.length;
+  }
+}
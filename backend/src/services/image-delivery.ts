@@ -0,0 +1,194 @@
+import type { Env } from "../types/env";
+import type { ImageUrlData } from "./image-service";
+import {
+  HELD_LISTING_STATUSES,
+  LISTING_STATUS,
+  type ListingStatus,
+} from "../../../shared/constants";
+
+// Signed image URLs expire on the hour after next, so a listing's images
+// keep the same URL (and the browser's cached copy) for an hour at a time
+// while each URL stays usable for at least an hour
+export const IMAGE_TOKEN_WINDOW_MS = 60 * 60 * 1000;
+
+// Images of these listings are only served with a signed token, handed out
+// with the listing to whoever the API lets see it
+const PRIVATE_IMAGE_STATUSES: ListingStatus[] = [
+  LISTING_STATUS.ARCHIVED,
+  ...HELD_LISTING_STATUSES,
+];
+
+type SigningEnv = Pick<Env, "TELEGRAM_BOT_TOKEN" | "IMAGE_URL_SECRET">;
+
+export interface ByteRange {
+  offset: number;
+  length: number;
+}
+
+/**
+ * Whether a listing's images need a signed URL: it's archived, held for
+ * review, or its seller is banned
+ */
+export function isPrivateListingImage(
+  status: string,
+  sellerBanned: boolean,
+): boolean {
+  return (
+    sellerBanned || PRIVATE_IMAGE_STATUSES.includes(status as ListingStatus)
+  );
+}
+
+// Derived the way Telegram derives its WebAppData key, so the bot token is
+// never used to sign URLs directly
+async function signingKey(env: SigningEnv): Promise<CryptoKey> {
+  const labelKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode("ImageUrls"),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const keyData = await crypto.subtle.sign(
+    "HMAC",
+    labelKey,
+    new TextEncoder().encode(env.IMAGE_URL_SECRET || env.TELEGRAM_BOT_TOKEN),
+  );
+  return crypto.subtle.importKey(
+    "raw",
+    keyData,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+const tokenPayload = (listingId: number, expiresAt: number) =>
+  new TextEncoder().encode(`listing:${listingId}:${expiresAt}`);
+
+/**
+ * Sign access to every image of a listing
+ *
+ * @returns Token in the form `<expiresAt>.<hex HMAC>`
+ */
+export async function signImageToken(
+  env: SigningEnv,
+  listingId: number,
+  now = Date.now(),
+): Promise<string> {
+  const expiresAt =
+    (Math.floor(now / IMAGE_TOKEN_WINDOW_MS) + 2) * IMAGE_TOKEN_WINDOW_MS;
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await signingKey(env),
+    tokenPayload(listingId, expiresAt),
+  );
+  const hex = Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return `${expiresAt}.${hex}`;
+}
+
+/**
+ * Check a token from signImageToken against the listing an image belongs to
+ *
+ * @returns When the token expires, or null if it's invalid or expired
+ */
+export async function verifyImageToken(
+  env: SigningEnv,
+  listingId: number,
+  token: string,
+  now = Date.now(),
+): Promise<number | null> {
+  const match = /^(\d{1,15})\.([0-9a-f]{64})$/.exec(token);
+  if (!match) return null;
+
+  const expiresAt = Number(match[1]);
+  if (expiresAt <= now) return null;
+
+  const signature = new Uint8Array(
+    match[2].match(/../g)!.map((byte) => parseInt(byte, 16)),
+  );
+  const valid = await crypto.subtle.verify(
+    "HMAC",
+    await signingKey(env),
+    signature,
+    tokenPayload(listingId, expiresAt),
+  );
+  return valid ? expiresAt : null;
+}
+
+/**
+ * Attach a signed token to a listing's images when they aren't public
+ */
+export async function withImageTokens(
+  env: SigningEnv,
+  listing: { id: number; status: string },
+  sellerBanned: boolean,
+  images: ImageUrlData[],
+): Promise<ImageUrlData[]> {
+  if (
+    images.length === 0 ||
+    !isPrivateListingImage(listing.status, sellerBanned)
+  ) {
+    return images;
+  }
+
+  const token = await signImageToken(env, listing.id);
+  return images.map((image) => ({ ...image, token }));
+}
+
+/**
+ * Whether a conditional GET can be answered with 304. If-None-Match wins
+ * over If-Modified-Since when both are sent.
+ */
+export function isNotModified(
+  headers: Headers,
+  etag: string,
+  lastModified: Date,
+): boolean {
+  const ifNoneMatch = headers.get("If-None-Match");
+  if (ifNoneMatch !== null) {
+    if (ifNoneMatch.trim() === "*") return true;
+
+    // GET compares weakly
+    const opaque = (tag: string) => tag.trim().replace(/^W\//, "");
+    return ifNoneMatch.split(",").some((tag) => opaque(tag) === opaque(etag));
+  }
+
+  const ifModifiedSince = headers.get("If-Modified-Since");
+  if (!ifModifiedSince) return false;
+
+  const since = Date.parse(ifModifiedSince);
+  // HTTP dates only have whole seconds
+  const modified = Math.floor(lastModified.getTime() / 1000) * 1000;
+  return !Number.isNaN(since) && modified <= since;
+}
+
+/**
+ * Read a single byte range from a Range header
+ *
+ * @returns The range; undefined when the whole file should be sent (no
+ *   header, or one we don't handle, such as several ranges); null when the
+ *   range is outside the file
+ */
+export function parseByteRange(
+  header: string | undefined,
+  size: number,
+): ByteRange | null | undefined {
+  const match = header && /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return undefined;
+
+  // bytes=-500 is the last 500 bytes
+  if (!match[1]) {
+    const length = Math.min(Number(match[2]), size);
+    return length > 0 ? { offset: size - length, length } : null;
+  }
+
+  const start = Number(match[1]);
+  if (start >= size) return null;
+
+  const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  if (end < start) return undefined;
+
+  return { offset: start, length: end - start + 1 };
+}
@@ -0,0 +1,333 @@
+import {
+  IMAGE_UPLOAD_MAX_BYTES,
+  IMAGE_VARIANTS,
+  type ImageVariantName,
+} from "../../../shared/constants";
+
+export type SupportedImageType = "image/jpeg" | "image/png" | "image/webp";
+
+// What the bytes of an upload actually are, whatever the client claimed
+export interface ImageInfo {
+  mimeType: SupportedImageType;
+  width: number; // As displayed, after the EXIF orientation is applied
+  height: number;
+  orientation: number; // EXIF orientation, 1 when absent
+}
+
+export interface RenderedVariant {
+  name: ImageVariantName;
+  mimeType: string;
+  width: number;
+  height: number;
+  bytes: Uint8Array;
+}
+
+const VARIANT_QUALITY = 82;
+
+// Larger images are refused rather than handed to the transformer
+const MAX_IMAGE_PIXELS = 50_000_000;
+
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+// JPEG segments that carry camera, location and editing metadata. APP0
+// (JFIF), APP2 (ICC profile) and APP14 (Adobe colour transform) are kept
+// because decoders need them to show the right colours.
+const JPEG_METADATA_MARKERS = new Set([0xe1, 0xed, 0xfe]); // APP1 (EXIF/XMP), APP13 (IPTC), COM
+const PNG_METADATA_CHUNKS = new Set(["eXIf", "tEXt", "zTXt", "iTXt", "tIME"]);
+const WEBP_METADATA_CHUNKS = new Set(["EXIF", "XMP "]);
+
+// How to turn each EXIF orientation upright
+const ORIENTATION_TRANSFORMS: Record<number, ImageTransform> = {
+  2: { flip: "h" },
+  3: { rotate: 180 },
+  4: { flip: "v" },
+  5: { rotate: 90, flip: "h" },
+  6: { rotate: 90 },
+  7: { rotate: 270, flip: "h" },
+  8: { rotate: 270 },
+};
+
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0) {
+  return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number) {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+/**
+ * Identify an image from its file signature
+ */
+export function detectImageType(bytes: Uint8Array): SupportedImageType | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "image/png";
+  }
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") {
+    return "image/webp";
+  }
+  return null;
+}
+
+// Walk a JPEG's segments up to the image data. The callback gets each
+// segment's marker and its start; returning true stops the walk.
+function walkJpegSegments(
+  bytes: Uint8Array,
+  visit: (marker: number, start: number, end: number) => boolean | void,
+) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2; // After SOI
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++; // Fill byte
+      continue;
+    }
+    if (marker === 0xd9 || marker === 0xda) {
+      visit(marker, offset, bytes.length); // EOI or start of scan
+      return;
+    }
+
+    const end = offset + 2 + view.getUint16(offset + 2);
+    if (end > bytes.length) return;
+    if (visit(marker, offset, end)) return;
+    offset = end;
+  }
+}
+
+const JPEG_FRAME_MARKERS = new Set([
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+]);
+
+interface ImageSize {
+  width: number;
+  height: number;
+}
+
+function readJpegDimensions(bytes: Uint8Array): ImageSize | null {
+  let size: ImageSize | null = null;
+  walkJpegSegments(bytes, (marker, start) => {
+    if (!JPEG_FRAME_MARKERS.has(marker)) return false;
+    const view = new DataView(bytes.buffer, bytes.byteOffset + start);
+    size = { height: view.getUint16(5), width: view.getUint16(7) };
+    return true;
+  });
+  return size;
+}
+
+function readJpegOrientation(bytes: Uint8Array): number {
+  let orientation = 1;
+  walkJpegSegments(bytes, (marker, start, end) => {
+    if (marker !== 0xe1 || ascii(bytes, start + 4, 6) !== "Exif\0\0") {
+      return false;
+    }
+
+    const tiff = start + 10;
+    if (tiff + 8 > end) return true;
+    const view = new DataView(bytes.buffer, bytes.byteOffset);
+    const little = ascii(bytes, tiff, 2) === "II";
+    const ifd = tiff + view.getUint32(tiff + 4, little);
+    if (ifd + 2 > end) return true;
+
+    const entries = view.getUint16(ifd, little);
+    for (let i = 0; i < entries; i++) {
+      const entry = ifd + 2 + i * 12;
+      if (entry + 12 > end) break;
+      if (view.getUint16(entry, little) === EXIF_ORIENTATION_TAG) {
+        const value = view.getUint16(entry + 8, little);
+        if (value >= 1 && value <= 8) orientation = value;
+        break;
+      }
+    }
+    return true;
+  });
+  return orientation;
+}
+
+function readPngDimensions(bytes: Uint8Array) {
+  if (bytes.length < 24 || ascii(bytes, 12, 4) !== "IHDR") return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+// Walk the chunks of a RIFF (WebP) file
+function* webpChunks(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const end = Math.min(offset + 8 + size + (size % 2), bytes.length);
+    yield { type, start: offset, data: offset + 8, end };
+    offset = end;
+  }
+}
+
+function readWebpDimensions(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (const chunk of webpChunks(bytes)) {
+    const data = chunk.data;
+    if (chunk.type === "VP8X" && data + 10 <= bytes.length) {
+      const uint24 = (at: number) =>
+        bytes[at] | (bytes[at + 1] << 8) | (bytes[at + 2] << 16);
+      return { width: uint24(data + 4) + 1, height: uint24(data + 7) + 1 };
+    }
+    if (chunk.type === "VP8 " && data + 10 <= bytes.length) {
+      return {
+        width: view.getUint16(data + 6, true) & 0x3fff,
+        height: view.getUint16(data + 8, true) & 0x3fff,
+      };
+    }
+    if (chunk.type === "VP8L" && data + 5 <= bytes.length) {
+      const bits = view.getUint32(data + 1, true);
+      return {
+        width: (bits & 0x3fff) + 1,
+        height: ((bits >> 14) & 0x3fff) + 1,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Check that an upload is a JPEG, PNG or WebP we can process and read its
+ * real dimensions
+ *
+ * @returns null if the bytes aren't a supported image, or are too big
+ */
+export function inspectImage(buffer: ArrayBuffer): ImageInfo | null {
+  if (buffer.byteLength > IMAGE_UPLOAD_MAX_BYTES) return null;
+
+  const bytes = new Uint8Array(buffer);
+  const mimeType = detectImageType(bytes);
+  if (!mimeType) return null;
+
+  const size =
+    mimeType === "image/jpeg"
+      ? readJpegDimensions(bytes)
+      : mimeType === "image/png"
+        ? readPngDimensions(bytes)
+        : readWebpDimensions(bytes);
+  if (!size || size.width < 1 || size.height < 1) return null;
+  if (size.width * size.height > MAX_IMAGE_PIXELS) return null;
+
+  const orientation =
+    mimeType === "image/jpeg" ? readJpegOrientation(bytes) : 1;
+  const sideways = orientation >= 5; // 90° and 270° turns swap the sides
+
+  return {
+    mimeType,
+    width: sideways ? size.height : size.width,
+    height: sideways ? size.width : size.height,
+    orientation,
+  };
+}
+
+/**
+ * Drop EXIF (including GPS), XMP, IPTC and text metadata, leaving the pixels
+ * and colour information untouched
+ */
+export function stripImageMetadata(
+  buffer: ArrayBuffer,
+  mimeType: SupportedImageType,
+): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(buffer);
+  const kept: Uint8Array[] = [];
+
+  if (mimeType === "image/jpeg") {
+    kept.push(bytes.subarray(0, 2));
+    walkJpegSegments(bytes, (marker, start, end) => {
+      if (!JPEG_METADATA_MARKERS.has(marker)) {
+        kept.push(bytes.subarray(start, end));
+      }
+    });
+    return concat(kept);
+  }
+
+  if (mimeType === "image/png") {
+    const view = new DataView(buffer);
+    kept.push(bytes.subarray(0, 8));
+    let offset = 8;
+    while (offset + 12 <= bytes.length) {
+      const end = offset + 12 + view.getUint32(offset);
+      if (!PNG_METADATA_CHUNKS.has(ascii(bytes, offset + 4, 4))) {
+        kept.push(bytes.subarray(offset, Math.min(end, bytes.length)));
+      }
+      offset = end;
+    }
+    return concat(kept);
+  }
+
+  kept.push(bytes.subarray(0, 12));
+  for (const chunk of webpChunks(bytes)) {
+    if (WEBP_METADATA_CHUNKS.has(chunk.type)) continue;
+    const copy = bytes.slice(chunk.start, chunk.end);
+    if (chunk.type === "VP8X") {
+      copy[8] &= ~0x0c; // Clear the EXIF and XMP flags
+    }
+    kept.push(copy);
+  }
+  const stripped = concat(kept);
+  new DataView(stripped.buffer).setUint32(4, stripped.length - 8, true);
+  return stripped;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * The size a variant comes out at: the image scaled down to fit the
+ * variant's box, or left alone if it already fits
+ */
+export function variantSize(
+  info: Pick<ImageInfo, "width" | "height">,
+  maxSize: number,
+) {
+  const scale = Math.min(1, maxSize / Math.max(info.width, info.height));
+  return {
+    width: Math.max(1, Math.round(info.width * scale)),
+    height: Math.max(1, Math.round(info.height * scale)),
+  };
+}
+
+/**
+ * Render every IMAGE_VARIANTS size of a stripped image with the Images
+ * binding, turned upright first
+ */
+export async function renderImageVariants(
+  transformer: ImagesBinding,
+  stripped: Uint8Array<ArrayBuffer>,
+  info: ImageInfo,
+): Promise<RenderedVariant[]> {
+  const orient = ORIENTATION_TRANSFORMS[info.orientation];
+
+  return Promise.all(
+    (Object.keys(IMAGE_VARIANTS) as ImageVariantName[]).map(async (name) => {
+      const { maxSize, mimeType } = IMAGE_VARIANTS[name];
+      let image = transformer.input(new Blob([stripped]).stream());
+      if (orient) image = image.transform(orient);
+
+      const result = await image
+        .transform({ width: maxSize, height: maxSize, fit: "scale-down" })
+        .output({ format: mimeType, quality: VARIANT_QUALITY });
+      const bytes = new Uint8Array(await result.response().arrayBuffer());
+
+      return { name, mimeType, ...variantSize(info, maxSize), bytes };
+    }),
+  );
+}
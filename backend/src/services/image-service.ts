@@ -1,18 +1,46 @@
-import { eq, and } from "drizzle-orm";
+import {
+  eq,
+  and,
+  or,
+  count,
+  asc,
+  desc,
+  inArray,
+  ne,
+  notExists,
+} from "drizzle-orm";
 import type { Database } from "../db";
-import { listingImages } from "../db/schema";
+import { listingImages, listings, userProfiles } from "../db/schema";
 import type { ListingImage } from "../db/schema";
 import type { Env } from "../types/env";
-
+import {
+  IMAGE_EXTENSIONS,
+  inspectImage,
+  renderImageVariants,
+  stripImageMetadata,
+  variantSize,
+  type ImageInfo,
+} from "./image-processing";
+import {
+  IMAGE_VARIANTS,
+  type ImageVariantName,
+} from "../../../shared/constants";
+
+// An upload that passed inspectImage; width, height and type come from the
+// bytes, never from the client
 export interface ImageUploadData {
   originalName: string;
+  uploadOrder: number;
+  imageBuffer: ArrayBuffer;
+  info: ImageInfo;
+}
+
+export interface ImageVariant {
+  name: ImageVariantName;
+  key: string;
   mimeType: string;
-  fileSize: number;
   width: number;
   height: number;
-  uploadOrder: number;
-  imageBuffer: ArrayBuffer;
-  thumbnailBuffer: ArrayBuffer;
 }
 
 export interface ImageUrlData {
@@ -24,66 +52,115 @@ export interface ImageUrlData {
   originalName: string;
   fileSize: number;
   uploadOrder: number;
+  isCover: boolean;
+  variants: ImageVariant[]; // Every rendered size, for srcset; empty for images uploaded before variants
+  token?: string; // Signature the image URLs need when the listing's images aren't public
+}
+
+// What a stored R2 key belongs to, for the image route to decide who may
+// fetch it
+export type ImageOwner =
+  | {
+      type: "listing";
+      listingId: number;
+      status: string;
+      sellerBanned: boolean;
+    }
+  | { type: "profile" };
+
+// Variants of an image live side by side under its prefix, e.g.
+// images/12/<uuid>/medium.webp
+function variantKey(prefix: string, name: ImageVariantName): string {
+  return `${prefix}/${name}.${IMAGE_EXTENSIONS[IMAGE_VARIANTS[name].mimeType]}`;
+}
+
+/**
+ * The rendered sizes of a stored image
+ */
+export function getImageVariants(image: ListingImage): ImageVariant[] {
+  const prefix = image.variantPrefix;
+  if (!prefix) return [];
+
+  return (Object.keys(IMAGE_VARIANTS) as ImageVariantName[]).map((name) => ({
+    name,
+    key: variantKey(prefix, name),
+    mimeType: IMAGE_VARIANTS[name].mimeType,
+    ...variantSize(image, IMAGE_VARIANTS[name].maxSize),
+  }));
 }
 
+export function toImageUrlData(image: ListingImage): ImageUrlData {
+  return {
+    id: image.id,
+    imageKey: image.imageKey,
+    thumbnailKey: image.thumbnailKey,
+    width: image.width,
+    height: image.height,
+    originalName: image.originalName,
+    fileSize: image.fileSize,
+    uploadOrder: image.uploadOrder,
+    isCover: image.isCover === 1,
+    variants: getImageVariants(image),
+  };
+}
+
+// How a listing's images are shown: the cover first, then in gallery order
+export const LISTING_IMAGE_ORDER = [
+  desc(listingImages.isCover),
+  asc(listingImages.uploadOrder),
+];
+
+// Every R2 object an image row owns
+export function storedKeys(image: ListingImage): string[] {
+  const keys = [
+    image.imageKey,
+    image.thumbnailKey,
+    ...getImageVariants(image).map((variant) => variant.key),
+  ];
+  return [...new Set(keys)];
+}
+
+/**
+ * Whether a new gallery order lists every one of the listing's images
+ * exactly once, and the cover (if one is chosen) is among them
+ */
+export function isCompleteImageOrder(
+  currentIds: number[],
+  imageIds: number[],
+  coverImageId?: number,
+): boolean {
+  const current = new Set(currentIds);
+  return (
+    imageIds.length === current.size &&
+    new Set(imageIds).size === imageIds.length &&
+    imageIds.every((id) => current.has(id)) &&
+    (coverImageId === undefined || current.has(coverImageId))
+  );
+}
+
+/**
+ * Listing images in R2. Uploads are checked, stripped of metadata and
+ * rendered at every IMAGE_VARIANTS size here; the bytes a client sends are
+ * never stored as-is.
+ *
+ * @param transformer - The Images binding; only needed to upload
+ */
 export class ImageService {
   private r2: Env["IMAGES"];
 
   constructor(
     private db: Database,
     r2: Env["IMAGES"],
+    private transformer?: ImagesBinding,
   ) {
     this.r2 = r2;
   }
 
-  private generateImageKey(listingId: number, filename: string): string {
-    const timestamp = Date.now();
-    const uuid = crypto.randomUUID();
-    const ext = filename.split(".").pop()?.toLowerCase() || "jpg";
-    return `images/${listingId}/full/${timestamp}_${uuid}.${ext}`;
-  }
-
-  private generateThumbnailKey(listingId: number, filename: string): string {
-    const timestamp = Date.now();
-    const uuid = crypto.randomUUID();
-    const ext = filename.split(".").pop()?.toLowerCase() || "jpg";
-    return `images/${listingId}/thumbs/${timestamp}_${uuid}.${ext}`;
-  }
-
   async uploadListingImage(
     listingId: number,
     imageData: ImageUploadData,
   ): Promise<ListingImage> {
-    const imageKey = this.generateImageKey(listingId, imageData.originalName);
-    const thumbnailKey = this.generateThumbnailKey(
-      listingId,
-      imageData.originalName,
-    );
-
-    // Upload full image to R2
-    await this.r2.put(imageKey, imageData.imageBuffer, {
-      httpMetadata: {
-        contentType: imageData.mimeType,
-      },
-      customMetadata: {
-        originalName: imageData.originalName,
-        listingId: listingId.toString(),
-        width: imageData.width.toString(),
-        height: imageData.height.toString(),
-      },
-    });
-
-    // Upload thumbnail to R2
-    await this.r2.put(thumbnailKey, imageData.thumbnailBuffer, {
-      httpMetadata: {
-        contentType: imageData.mimeType,
-      },
-      customMetadata: {
-        originalName: imageData.originalName,
-        listingId: listingId.toString(),
-        type: "thumbnail",
-      },
-    });
+    const stored = await this.storeImage(listingId, imageData);
 
     // Save metadata to database
     const now = new Date().toISOString();
@@ -92,18 +169,197 @@ export class ImageService {
       .values({
         listingId,
         originalName: imageData.originalName,
-        imageKey,
-        thumbnailKey,
-        mimeType: imageData.mimeType,
-        fileSize: imageData.fileSize,
-        width: imageData.width,
-        height: imageData.height,
+        ...stored,
         uploadOrder: imageData.uploadOrder,
         createdAt: now,
       })
       .returning();
 
-    return newImage;
+    // The first image a listing gets is its cover until the seller picks
+    // another; checked in the same statement so parallel uploads can't both
+    // take it
+    const [cover] = await this.db
+      .update(listingImages)
+      .set({ isCover: 1 })
+      .where(
+        and(
+          eq(listingImages.id, newImage.id),
+          notExists(
+            this.db
+              .select({ id: listingImages.id })
+              .from(listingImages)
+              .where(
+                and(
+                  eq(listingImages.listingId, listingId),
+                  eq(listingImages.isCover, 1),
+                ),
+              ),
+          ),
+        ),
+      )
+      .returning();
+
+    return cover ?? newImage;
+  }
+
+  /**
+   * Swap an image's file for a new one, keeping its place in the gallery
+   * and its cover flag. The old file is only deleted once the row points at
+   * the new one.
+   *
+   * @returns null if the listing has no such image
+   */
+  async replaceListingImage(
+    listingId: number,
+    imageId: number,
+    imageData: Omit<ImageUploadData, "uploadOrder">,
+  ): Promise<ListingImage | null> {
+    const [image] = await this.db
+      .select()
+      .from(listingImages)
+      .where(
+        and(
+          eq(listingImages.id, imageId),
+          eq(listingImages.listingId, listingId),
+        ),
+      )
+      .limit(1);
+
+    if (!image) {
+      return null;
+    }
+
+    const stored = await this.storeImage(listingId, imageData);
+    const [updated] = await this.db
+      .update(listingImages)
+      .set({ originalName: imageData.originalName, ...stored })
+      .where(eq(listingImages.id, image.id))
+      .returning();
+
+    try {
+      await this.r2.delete(storedKeys(image));
+    } catch (error) {
+      console.error(`Failed to delete replaced image ${image.id}:`, error);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Put a listing's images in the given gallery order, and optionally make
+   * one of them the cover, in a single batch
+   *
+   * @param imageIds - Every image of the listing, each exactly once
+   * @returns The images in their new order, or null if imageIds isn't
+   *   exactly the listing's images or the cover isn't one of them
+   */
+  async reorderListingImages(
+    listingId: number,
+    imageIds: number[],
+    coverImageId?: number,
+  ): Promise<ImageUrlData[] | null> {
+    const current = await this.db
+      .select({ id: listingImages.id })
+      .from(listingImages)
+      .where(eq(listingImages.listingId, listingId));
+
+    if (
+      !isCompleteImageOrder(
+        current.map((image) => image.id),
+        imageIds,
+        coverImageId,
+      )
+    ) {
+      return null;
+    }
+
+    const [first, ...rest] = imageIds.map((id, index) =>
+      this.db
+        .update(listingImages)
+        .set({ uploadOrder: index + 1 })
+        .where(
+          and(eq(listingImages.id, id), eq(listingImages.listingId, listingId)),
+        ),
+    );
+
+    // The old cover is cleared before the new one is set, as only one image
+    // per listing may be flagged at a time
+    const coverUpdates =
+      coverImageId === undefined
+        ? []
+        : [
+            this.db
+              .update(listingImages)
+              .set({ isCover: 0 })
+              .where(
+                and(
+                  eq(listingImages.listingId, listingId),
+                  ne(listingImages.id, coverImageId),
+                ),
+              ),
+            this.db
+              .update(listingImages)
+              .set({ isCover: 1 })
+              .where(
+                and(
+                  eq(listingImages.id, coverImageId),
+                  eq(listingImages.listingId, listingId),
+                ),
+              ),
+          ];
+
+    await this.db.batch([first, ...rest, ...coverUpdates]);
+
+    return this.getListingImages(listingId);
+  }
+
+  // Render an upload at every size and store the files in R2, under a new
+  // prefix each time
+  private async storeImage(
+    listingId: number,
+    imageData: Omit<ImageUploadData, "uploadOrder">,
+  ) {
+    if (!this.transformer) {
+      throw new Error("Image uploads need the IMAGE_TRANSFORMER binding");
+    }
+
+    const { info } = imageData;
+    const stripped = stripImageMetadata(imageData.imageBuffer, info.mimeType);
+    const variants = await renderImageVariants(
+      this.transformer,
+      stripped,
+      info,
+    );
+
+    const prefix = `images/${listingId}/${crypto.randomUUID()}`;
+    await Promise.all(
+      variants.map((variant) =>
+        this.r2.put(variantKey(prefix, variant.name), variant.bytes, {
+          httpMetadata: { contentType: variant.mimeType },
+          customMetadata: {
+            listingId: listingId.toString(),
+            variant: variant.name,
+            width: variant.width.toString(),
+            height: variant.height.toString(),
+          },
+        }),
+      ),
+    );
+
+    const full = variants.find((variant) => variant.name === "full")!;
+    return {
+      imageKey: variantKey(prefix, "full"),
+      thumbnailKey: variantKey(prefix, "thumb"),
+      variantPrefix: prefix,
+      mimeType: full.mimeType,
+      fileSize: full.bytes.byteLength,
+      storedBytes: variants.reduce(
+        (total, variant) => total + variant.bytes.byteLength,
+        0,
+      ),
+      width: info.width,
+      height: info.height,
+    };
   }
 
   async uploadListingImages(
@@ -117,8 +373,10 @@ export class ImageService {
         const image = await this.uploadListingImage(listingId, imageData);
         results.push(image);
       } catch (error) {
-        // If any upload fails, cleanup uploaded images and throw
-        await this.cleanupListingImages(listingId);
+        // Undo this batch only; images the listing already had stay
+        for (const image of results) {
+          await this.deleteListingImage(image.id, listingId);
+        }
         throw error;
       }
     }
@@ -131,18 +389,9 @@ export class ImageService {
       .select()
       .from(listingImages)
       .where(eq(listingImages.listingId, listingId))
-      .orderBy(listingImages.uploadOrder);
-
-    return images.map((image) => ({
-      id: image.id,
-      imageKey: image.imageKey,
-      thumbnailKey: image.thumbnailKey,
-      width: image.width,
-      height: image.height,
-      originalName: image.originalName,
-      fileSize: image.fileSize,
-      uploadOrder: image.uploadOrder,
-    }));
+      .orderBy(...LISTING_IMAGE_ORDER);
+
+    return images.map(toImageUrlData);
   }
 
   async deleteListingImage(
@@ -167,8 +416,7 @@ export class ImageService {
 
     // Delete from R2
     try {
-      await this.r2.delete(image.imageKey);
-      await this.r2.delete(image.thumbnailKey);
+      await this.r2.delete(storedKeys(image));
     } catch (error) {
       console.error("Failed to delete from R2:", error);
       // Continue to delete from database even if R2 deletion fails
@@ -185,6 +433,22 @@ export class ImageService {
       )
       .returning();
 
+    // A listing with images always has a cover; the next in line takes over
+    if (deletedImage?.isCover) {
+      const [next] = await this.db
+        .select({ id: listingImages.id })
+        .from(listingImages)
+        .where(eq(listingImages.listingId, listingId))
+        .orderBy(asc(listingImages.uploadOrder))
+        .limit(1);
+      if (next) {
+        await this.db
+          .update(listingImages)
+          .set({ isCover: 1 })
+          .where(eq(listingImages.id, next.id));
+      }
+    }
+
     return !!deletedImage;
   }
 
@@ -198,8 +462,7 @@ export class ImageService {
     // Delete from R2
     for (const image of images) {
       try {
-        await this.r2.delete(image.imageKey);
-        await this.r2.delete(image.thumbnailKey);
+        await this.r2.delete(storedKeys(image));
       } catch (error) {
         console.error(`Failed to delete image ${image.id} from R2:`, error);
       }
@@ -211,40 +474,104 @@ export class ImageService {
       .where(eq(listingImages.listingId, listingId));
   }
 
-  async validateImageFile(
-    buffer: ArrayBuffer,
-    mimeType: string,
-  ): Promise<boolean> {
-    // Check file size (1MB limit for full images)
-    if (buffer.byteLength > 1024 * 1024) {
-      return false;
-    }
+  /**
+   * Find the listing image or avatar an R2 key was stored for
+   *
+   * @returns null for keys nothing in the database refers to
+   */
+  async findImageOwner(key: string): Promise<ImageOwner | null> {
+    // Variant keys are only recorded by their shared prefix
+    const prefix = key.slice(0, key.lastIndexOf("/"));
+
+    const [row] = await this.db
+      .select({
+        image: listingImages,
+        status: listings.status,
+        sellerBanned: userProfiles.isBanned,
+      })
+      .from(listingImages)
+      .innerJoin(listings, eq(listingImages.listingId, listings.id))
+      .leftJoin(userProfiles, eq(listings.userId, userProfiles.telegramId))
+      .where(
+        or(
+          eq(listingImages.imageKey, key),
+          eq(listingImages.thumbnailKey, key),
+          ...(prefix ? [eq(listingImages.variantPrefix, prefix)] : []),
+        ),
+      )
+      .limit(1);
 
-    // Check MIME type - only accept compressed formats (all files are converted to JPEG on frontend)
-    const allowedTypes = ["image/jpeg", "image/png", "image/webp"];
-    if (!allowedTypes.includes(mimeType)) {
-      return false;
+    if (row && storedKeys(row.image).includes(key)) {
+      return {
+        type: "listing",
+        listingId: row.image.listingId,
+        status: row.status,
+        sellerBanned: row.sellerBanned === 1,
+      };
     }
 
-    return true;
+    const [profile] = await this.db
+      .select({ id: userProfiles.id })
+      .from(userProfiles)
+      .where(eq(userProfiles.profileImageKey, key))
+      .limit(1);
+
+    return profile ? { type: "profile" } : null;
   }
 
-  async validateThumbnailFile(buffer: ArrayBuffer): Promise<boolean> {
-    // Check minimum file size (at least 1KB to ensure valid image)
-    if (buffer.byteLength < 1024) {
-      return false;
-    }
-    // Check maximum file size (150KB limit for thumbnails - compression isn't always exact)
-    return buffer.byteLength <= 150 * 1024;
+  /**
+   * Which of the given R2 keys a listing image or avatar still refers to.
+   * Listing keys are looked up by the listing in their path
+   * (images/<listingId>/...), so a page of keys costs two queries.
+   */
+  async findReferencedKeys(keys: string[]): Promise<Set<string>> {
+    const listingIds = [
+      ...new Set(
+        keys
+          .map((key) => key.match(/^images\/(\d+)\//)?.[1])
+          .filter((id): id is string => id !== undefined)
+          .map(Number),
+      ),
+    ];
+    const profileKeys = keys.filter((key) => key.startsWith("profiles/"));
+
+    const [images, profiles] = await Promise.all([
+      listingIds.length > 0
+        ? this.db
+            .select()
+            .from(listingImages)
+            .where(inArray(listingImages.listingId, listingIds))
+        : [],
+      profileKeys.length > 0
+        ? this.db
+            .select({ key: userProfiles.profileImageKey })
+            .from(userProfiles)
+            .where(inArray(userProfiles.profileImageKey, profileKeys))
+        : [],
+    ]);
+
+    return new Set([
+      ...images.flatMap(storedKeys),
+      ...profiles.map((profile) => profile.key!),
+    ]);
+  }
+
+  /**
+   * Check an upload's signature and read its real dimensions
+   *
+   * @returns null if it isn't a JPEG, PNG or WebP we can process
+   */
+  inspectImage(buffer: ArrayBuffer): ImageInfo | null {
+    return inspectImage(buffer);
   }
 
   async getListingImageCount(listingId: number): Promise<number> {
     const [result] = await this.db
-      .select({ count: listingImages.id })
+      .select({ total: count() })
       .from(listingImages)
       .where(eq(listingImages.listingId, listingId));
 
-    return result?.count || 0;
+    return result?.total ?? 0;
   }
 
   // Legacy methods for backward compatibility (posts = listings)
@@ -272,13 +599,24 @@ export class ImageService {
     return this.getListingImageCount(postId);
   }
 
-  async uploadProfileImage(file: File, profileImageKey: string): Promise<void> {
-    // Convert File to ArrayBuffer
+  /**
+   * @returns The bytes stored
+   */
+  async uploadProfileImage(
+    file: File,
+    profileImageKey: string,
+  ): Promise<number> {
+    // Convert File to ArrayBuffer, dropping EXIF so avatars don't leak
+    // where they were taken
     const arrayBuffer = await file.arrayBuffer();
+    const info = inspectImage(arrayBuffer);
+    const body = info
+      ? stripImageMetadata(arrayBuffer, info.mimeType)
+      : arrayBuffer;
 
     // Simple resize logic - for now, just upload as-is
     // In a real implementation, you might want to resize to exactly 512x512
-    await this.r2.put(profileImageKey, arrayBuffer, {
+    await this.r2.put(profileImageKey, body, {
       httpMetadata: {
         contentType: file.type,
       },
@@ -288,6 +626,7 @@ export class ImageService {
         uploadedAt: new Date().toISOString(),
       },
     });
+    return body.byteLength;
   }
 
   getProfileImageKey(key: string | null): string | null {
@@ -0,0 +1,114 @@
+/**
+ * Listing analytics helpers for the listing_daily_stats rollup
+ * (see drizzle/migrations/0013_listing_analytics.sql)
+ */
+
+import { ANALYTICS_BUMP_LIFT_DAYS } from "../../../shared/constants";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DailyListingStats {
+  day: string; // UTC date, YYYY-MM-DD
+  views: number;
+  uniqueViewers: number;
+  contactClicks: number;
+  shares: number;
+}
+
+export interface BumpLift {
+  bumpedAt: number; // Unix timestamp in milliseconds
+  viewsPerDayBefore: number;
+  viewsPerDayAfter: number;
+  liftPercent: number | null; // null when there were no views to compare against
+}
+
+/**
+ * UTC calendar day of a timestamp, the rollup's grouping key
+ */
+export function toAnalyticsDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Consecutive days from `from` to `to` (inclusive), oldest first
+ */
+export function listAnalyticsDays(from: number, to: number): string[] {
+  const days: string[] = [];
+  const last = toAnalyticsDay(to);
+  let day = toAnalyticsDay(from);
+  while (day <= last) {
+    days.push(day);
+    day = toAnalyticsDay(Date.parse(day) + DAY_MS);
+  }
+  return days;
+}
+
+/**
+ * Fill days without a rollup row with zeros, so charts get a continuous series
+ */
+export function fillAnalyticsDays(
+  rows: DailyListingStats[],
+  days: string[],
+): DailyListingStats[] {
+  const byDay = new Map(rows.map((row) => [row.day, row]));
+  return days.map(
+    (day) =>
+      byDay.get(day) ?? {
+        day,
+        views: 0,
+        uniqueViewers: 0,
+        contactClicks: 0,
+        shares: 0,
+      },
+  );
+}
+
+/**
+ * Compare average daily views in the ANALYTICS_BUMP_LIFT_DAYS before a bump
+ * with the days from the bump on. Works at day granularity, so the bump day
+ * counts as "after" even for views that came in before the bump.
+ *
+ * @param rows - Rollup rows for the listing, any order, missing days are zero
+ * @param listedAt - Listing creation time; days before it don't count as "before"
+ * @returns null when the listing was never bumped or has no history before the bump
+ */
+export function calculateBumpLift(
+  rows: DailyListingStats[],
+  listedAt: number,
+  bumpedAt: number | null,
+  now: number,
+): BumpLift | null {
+  if (!bumpedAt) return null;
+
+  const viewsByDay = new Map(rows.map((row) => [row.day, row.views]));
+  const sumViews = (days: string[]) =>
+    days.reduce((total, day) => total + (viewsByDay.get(day) ?? 0), 0);
+
+  const bumpDay = toAnalyticsDay(bumpedAt);
+  const listedDay = toAnalyticsDay(listedAt);
+  const before = listAnalyticsDays(
+    bumpedAt - ANALYTICS_BUMP_LIFT_DAYS * DAY_MS,
+    bumpedAt - DAY_MS,
+  ).filter((day) => day >= listedDay);
+  const after = listAnalyticsDays(
+    bumpedAt,
+    Math.min(bumpedAt + (ANALYTICS_BUMP_LIFT_DAYS - 1) * DAY_MS, now),
+  ).filter((day) => day >= bumpDay);
+
+  if (before.length === 0 || after.length === 0) return null;
+
+  const viewsPerDayBefore = sumViews(before) / before.length;
+  const viewsPerDayAfter = sumViews(after) / after.length;
+
+  return {
+    bumpedAt,
+    viewsPerDayBefore: Math.round(viewsPerDayBefore * 10) / 10,
+    viewsPerDayAfter: Math.round(viewsPerDayAfter * 10) / 10,
+    liftPercent:
+      viewsPerDayBefore > 0
+        ? Math.round(
+            ((viewsPerDayAfter - viewsPerDayBefore) / viewsPerDayBefore) * 100,
+          )
+        : null,
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Opaque cursors for paging through listing queries.
+ *
+ * A cursor remembers the sort value and id of the last row on a page, so the
+ * next page starts strictly after it and rows inserted or bumped mid-scroll
+ * can't shift later pages. Relevance is the exception: bm25 scores change as
+ * the FTS index changes, so search results page by position instead.
+ */
+
+export type ListingSortBy = "price" | "date" | "bumped" | "relevance";
+
+export type ListingCursor =
+  | { value: string | number; id: number }
+  | { offset: number };
+
+interface EncodedCursor {
+  s: string; // Sort the cursor was issued for
+  v?: string | number;
+  id?: number;
+  o?: number;
+}
+
+// Cursors only make sense for the sort they were issued under
+export function getCursorSortKey(
+  sortBy: ListingSortBy,
+  sortOrder: "asc" | "desc",
+): string {
+  return sortBy === "relevance" ? sortBy : `${sortBy}:${sortOrder}`;
+}
+
+function toBase64Url(text: string): string {
+  return btoa(text).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): string {
+  return atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+}
+
+export function encodeListingCursor(
+  sortKey: string,
+  cursor: ListingCursor,
+): string {
+  const encoded: EncodedCursor =
+    "offset" in cursor
+      ? { s: sortKey, o: cursor.offset }
+      : { s: sortKey, v: cursor.value, id: cursor.id };
+  return toBase64Url(JSON.stringify(encoded));
+}
+
+/**
+ * @returns The decoded position, or null when the cursor is malformed or was
+ *   issued for a different sort
+ */
+export function decodeListingCursor(
+  raw: string,
+  sortKey: string,
+): ListingCursor | null {
+  let decoded: EncodedCursor;
+  try {
+    decoded = JSON.parse(fromBase64Url(raw));
+  } catch {
+    return null;
+  }
+
+  if (!decoded || typeof decoded !== "object" || decoded.s !== sortKey) {
+    return null;
+  }
+
+  if (decoded.o !== undefined) {
+    return Number.isInteger(decoded.o) && decoded.o >= 0
+      ? { offset: decoded.o }
+      : null;
+  }
+
+  if (
+    (typeof decoded.v === "string" || typeof decoded.v === "number") &&
+    Number.isInteger(decoded.id)
+  ) {
+    return { value: decoded.v, id: decoded.id! };
+  }
+
+  return null;
+}
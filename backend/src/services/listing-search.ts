@@ -0,0 +1,116 @@
+/**
+ * Listing search helpers for the listings_fts FTS5 index
+ * (see drizzle/migrations/0008_listings_fts.sql)
+ */
+
+// Control characters used as snippet() highlight markers. Segments go out as
+// plain text, so a marker typed into a listing can at worst shift a highlight.
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
+
+// Keeps a single search from expanding into an arbitrarily large FTS query
+const MAX_SEARCH_TERMS = 10;
+
+export interface SnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+// Only letters and digits reach the MATCH expression, so FTS5 operators and
+// column filters typed by the user are treated as plain separators
+function extractWords(text: string): string[] {
+  return text.match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+// Quoted terms of a search, split into the ones listings must contain and
+// the ones they must not
+function parseSearchTerms(search: string): {
+  include: string[];
+  exclude: string[];
+} {
+  const include: string[] = [];
+  const exclude: string[] = [];
+  const tokenPattern = /(-?)"([^"]*)"?|(-?)([^\s"]+)/g;
+
+  for (const match of search.matchAll(tokenPattern)) {
+    if (include.length + exclude.length >= MAX_SEARCH_TERMS) break;
+
+    const isPhrase = match[2] !== undefined;
+    const negated = (isPhrase ? match[1] : match[3]) === "-";
+    const words = extractWords(isPhrase ? match[2] : match[4]);
+    if (words.length === 0) continue;
+
+    // Included bare terms match as prefixes; phrases and exclusions are exact
+    const phrase = `"${words.join(" ")}"`;
+    if (negated) {
+      exclude.push(phrase);
+    } else {
+      include.push(isPhrase ? phrase : `${phrase}*`);
+    }
+  }
+
+  return { include, exclude };
+}
+
+const anyOf = (terms: string[]) =>
+  terms.length === 1 ? terms[0] : `(${terms.join(" OR ")})`;
+
+/**
+ * Convert user search input into an FTS5 MATCH expression.
+ *
+ * - `word` matches any token starting with "word"
+ * - `"two words"` matches the exact phrase
+ * - `-word` / `-"two words"` excludes listings containing the exact word or phrase
+ *
+ * @param search - Raw search string from the query parameter
+ * @returns MATCH expression, or null when there are no terms to include
+ *   (FTS5 can't evaluate a query made only of exclusions; see
+ *   buildFtsExclusionQuery)
+ */
+export function buildFtsMatchQuery(search: string): string | null {
+  const { include, exclude } = parseSearchTerms(search);
+  if (include.length === 0) return null;
+
+  const positive = include.length === 1 ? include[0] : `(${include.join(" ")})`;
+  if (exclude.length === 0) return positive;
+
+  return `${positive} NOT ${anyOf(exclude)}`;
+}
+
+/**
+ * For a search made only of exclusions (e.g. `-case`), a MATCH expression
+ * for the listings to leave out, to filter with `NOT IN`
+ *
+ * @returns null if the search has terms to include, or nothing to exclude
+ */
+export function buildFtsExclusionQuery(search: string): string | null {
+  const { include, exclude } = parseSearchTerms(search);
+  if (include.length > 0 || exclude.length === 0) return null;
+
+  return anyOf(exclude);
+}
+
+/**
+ * Split a snippet() result into plain and highlighted segments
+ *
+ * @param snippet - snippet() output using HIGHLIGHT_START/HIGHLIGHT_END markers
+ * @returns Segments in order, empty when there is no snippet
+ */
+export function parseSnippet(snippet: string | null): SnippetSegment[] {
+  if (!snippet) return [];
+
+  const segments: SnippetSegment[] = [];
+  const push = (text: string, highlight: boolean) => {
+    if (text) segments.push({ text, highlight });
+  };
+
+  const [leading, ...parts] = snippet.split(HIGHLIGHT_START);
+  push(leading, false);
+  for (const part of parts) {
+    const [highlighted, ...rest] = part.split(HIGHLIGHT_END);
+    push(highlighted, true);
+    push(rest.join(""), false);
+  }
+
+  return segments;
+}
@@ -1,10 +1,46 @@
-import { eq, desc, and, or, gte, lte, like } from "drizzle-orm";
+import {
+  eq,
+  ne,
+  asc,
+  desc,
+  and,
+  or,
+  gt,
+  gte,
+  lt,
+  lte,
+  isNull,
+  inArray,
+  notInArray,
+  sql,
+} from "drizzle-orm";
 import type { Database } from "../db";
 import { listings, listingImages, userProfiles } from "../db/schema";
-import type { ImageUrlData } from "./image-service";
+import {
+  LISTING_IMAGE_ORDER,
+  toImageUrlData,
+  type ImageUrlData,
+} from "./image-service";
+import { withImageTokens } from "./image-delivery";
+import { ProfileService } from "./profile-service";
+import {
+  encodeListingCursor,
+  getCursorSortKey,
+  type ListingCursor,
+  type ListingSortBy,
+} from "./listing-cursor";
+import {
+  buildFtsExclusionQuery,
+  buildFtsMatchQuery,
+  parseSnippet,
+  HIGHLIGHT_START,
+  HIGHLIGHT_END,
+} from "./listing-search";
 import type { Env } from "../types/env";
 import {
   EXPIRY_DEFAULT_DAYS,
+  FEED_LISTING_STATUSES,
+  HELD_LISTING_STATUSES,
   LISTING_STATUS,
   type CategoryId,
   type ListingStatus,
@@ -24,6 +60,12 @@ export interface UpdateListingInput {
   category?: CategoryId;
 }
 
+// What the content filter decided about a listing's text
+export interface ListingModeration {
+  hold: boolean; // Keep it out of the feed until staff approve it
+  flags: string[]; // Findings for staff, empty when the text is clean
+}
+
 export interface GetListingsInput {
   limit: number;
   offset: number;
@@ -31,8 +73,9 @@ export interface GetListingsInput {
   priceMin?: number;
   priceMax?: number;
   search?: string;
-  sortBy?: "price" | "date";
+  sortBy?: ListingSortBy; // relevance only applies with search
   sortOrder?: "asc" | "desc";
+  cursor?: ListingCursor; // Takes precedence over offset
   status?: ListingStatus[];
   userId?: number; // Filter by user
 }
@@ -48,6 +91,7 @@ export class ListingService {
     username: string,
     displayName: string,
     input: CreateListingInput,
+    moderation?: ListingModeration,
   ) {
     const now = new Date().toISOString();
     const expiresAt = Date.now() + EXPIRY_DEFAULT_DAYS * 24 * 60 * 60 * 1000;
@@ -62,7 +106,13 @@ export class ListingService {
         content: input.description,
         price: input.price,
         category: input.category,
-        status: LISTING_STATUS.ACTIVE,
+        status: moderation?.hold
+          ? LISTING_STATUS.PENDING_REVIEW
+          : LISTING_STATUS.ACTIVE,
+        statusBeforeReview: moderation?.hold ? LISTING_STATUS.ACTIVE : null,
+        moderationFlags: moderation?.flags.length
+          ? JSON.stringify(moderation.flags)
+          : null,
         expiresAt,
         createdAt: now,
         updatedAt: now,
@@ -76,13 +126,13 @@ export class ListingService {
     // Build where conditions
     const conditions = [];
 
-    // Status filter (default to active only if not specified)
+    // Status filter (default to what the feed shows if not specified)
     if (input.status && input.status.length > 0) {
       conditions.push(
         or(...input.status.map((status) => eq(listings.status, status)))!,
       );
     } else {
-      conditions.push(eq(listings.status, LISTING_STATUS.ACTIVE));
+      conditions.push(inArray(listings.status, FEED_LISTING_STATUSES));
     }
 
     // Category filter
@@ -104,14 +154,18 @@ export class ListingService {
     }
 
     // Search filter (title, content, category)
-    if (input.search) {
-      const searchTerm = `%${input.search}%`;
+    const matchQuery = input.search ? buildFtsMatchQuery(input.search) : null;
+    const exclusionQuery = input.search
+      ? buildFtsExclusionQuery(input.search)
+      : null;
+    if (matchQuery) {
       conditions.push(
-        or(
-          like(listings.title, searchTerm),
-          like(listings.content, searchTerm),
-          like(listings.category, searchTerm),
-        )!,
+        sql`${listings.id} IN (SELECT rowid FROM listings_fts WHERE listings_fts MATCH ${matchQuery})`,
+      );
+    }
+    if (exclusionQuery) {
+      conditions.push(
+        sql`${listings.id} NOT IN (SELECT rowid FROM listings_fts WHERE listings_fts MATCH ${exclusionQuery})`,
       );
     }
 
@@ -149,7 +203,17 @@ export class ListingService {
     return listing;
   }
 
-  async updateListing(id: number, userId: number, input: UpdateListingInput) {
+  /**
+   * Update a seller's listing. With a moderation result, its findings
+   * replace the old ones and a hold moves the listing to pending_review
+   * unless it is already held.
+   */
+  async updateListing(
+    id: number,
+    userId: number,
+    input: UpdateListingInput,
+    moderation?: ListingModeration,
+  ) {
     const now = new Date().toISOString();
 
     const updateData: any = {
@@ -161,6 +225,17 @@ export class ListingService {
     if (input.price !== undefined) updateData.price = input.price;
     if (input.category !== undefined) updateData.category = input.category;
 
+    if (moderation) {
+      updateData.moderationFlags = moderation.flags.length
+        ? JSON.stringify(moderation.flags)
+        : null;
+      if (moderation.hold) {
+        const isHeld = inArray(listings.status, HELD_LISTING_STATUSES);
+        updateData.status = sql`CASE WHEN ${isHeld} THEN ${listings.status} ELSE ${LISTING_STATUS.PENDING_REVIEW} END`;
+        updateData.statusBeforeReview = sql`CASE WHEN ${isHeld} THEN ${listings.statusBeforeReview} ELSE ${listings.status} END`;
+      }
+    }
+
     const [updatedListing] = await this.db
       .update(listings)
       .set(updateData)
@@ -188,6 +263,16 @@ export class ListingService {
     return deletedListing;
   }
 
+  async updateListingStatus(id: number, status: ListingStatus) {
+    const [updatedListing] = await this.db
+      .update(listings)
+      .set({ status, updatedAt: new Date().toISOString() })
+      .where(eq(listings.id, id))
+      .returning();
+
+    return updatedListing;
+  }
+
   async archiveListing(id: number) {
     const now = new Date().toISOString();
 
@@ -232,7 +317,7 @@ export class ListingService {
       })
       .where(
         and(
-          eq(listings.status, LISTING_STATUS.ACTIVE),
+          inArray(listings.status, FEED_LISTING_STATUSES),
           lte(listings.expiresAt, now),
         ),
       )
@@ -241,9 +326,107 @@ export class ListingService {
     return expiredListings;
   }
 
+  /**
+   * Mark active or reserved listings expiring within the window as reminded and return
+   * them. Claiming before sending keeps overlapping cron runs from sending
+   * the same reminder twice; a bump changes expiresAt and re-arms it.
+   */
+  async claimListingsForExpiryReminder(windowMs: number) {
+    const now = Date.now();
+
+    return await this.db
+      .update(listings)
+      .set({ expiryReminderSentFor: sql`${listings.expiresAt}` })
+      .where(
+        and(
+          inArray(listings.status, FEED_LISTING_STATUSES),
+          gt(listings.expiresAt, now),
+          lte(listings.expiresAt, now + windowMs),
+          or(
+            isNull(listings.expiryReminderSentFor),
+            ne(listings.expiryReminderSentFor, listings.expiresAt),
+          ),
+        ),
+      )
+      .returning();
+  }
+
+  async getArchivedListingsUpdatedBefore(cutoffIso: string, limit: number) {
+    return await this.db
+      .select()
+      .from(listings)
+      .where(
+        and(
+          eq(listings.status, LISTING_STATUS.ARCHIVED),
+          lt(listings.updatedAt, cutoffIso),
+        ),
+      )
+      .orderBy(listings.updatedAt)
+      .limit(limit);
+  }
+
+  /**
+   * One page of listings with their images and seller profiles.
+   *
+   * Takes three queries however large the page is: the listings (profiles
+   * come from the same join), one batched image lookup, and nothing per row.
+   * One extra row is fetched to tell whether another page exists.
+   */
   async getListingsWithImages(input: GetListingsInput) {
-    // Filter out listings from banned users
-    const listingList = await this.db
+    const matchQuery = input.search ? buildFtsMatchQuery(input.search) : null;
+    // A search of only exclusions can't be ranked; it just filters
+    const exclusionQuery = input.search
+      ? buildFtsExclusionQuery(input.search)
+      : null;
+
+    // Ranking and snippets come from FTS5 auxiliary functions, which only
+    // work in a query that joins listings_fts and filters it with MATCH
+    const rank = sql<number>`bm25(listings_fts, 10.0, 3.0, 1.0)`;
+    const searchFields = matchQuery
+      ? {
+          titleSnippet: sql<
+            string | null
+          >`snippet(listings_fts, 0, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}, '…', 16)`,
+          descriptionSnippet: sql<
+            string | null
+          >`snippet(listings_fts, 1, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}, '…', 24)`,
+        }
+      : {
+          titleSnippet: sql<string | null>`NULL`,
+          descriptionSnippet: sql<string | null>`NULL`,
+        };
+
+    const sortBy: ListingSortBy =
+      input.sortBy === "relevance" && !matchQuery
+        ? "date"
+        : (input.sortBy ?? "date");
+    const sortOrder = input.sortOrder === "asc" ? "asc" : "desc";
+    const sortKey = getCursorSortKey(sortBy, sortOrder);
+
+    // Never-bumped listings sort by when they were posted
+    const sortValue = {
+      price: sql<number>`${listings.price}`,
+      date: sql<string>`${listings.createdAt}`,
+      bumped: sql<number>`COALESCE(${listings.lastBumpedAt}, CAST(strftime('%s', ${listings.createdAt}) AS INTEGER) * 1000)`,
+      relevance: rank,
+    }[sortBy];
+
+    // The id breaks ties, so every row has a unique position for the cursor
+    const direction = sortOrder === "asc" ? asc : desc;
+    const orderBy =
+      sortBy === "relevance"
+        ? [rank, desc(listings.id)]
+        : [direction(sortValue), direction(listings.id)];
+
+    const keyset =
+      input.cursor && "value" in input.cursor ? input.cursor : undefined;
+    const offset = input.cursor
+      ? "offset" in input.cursor
+        ? input.cursor.offset
+        : 0
+      : input.offset;
+
+    let query = this.db
       .select({
         id: listings.id,
         userId: listings.userId,
@@ -262,9 +445,27 @@ export class ListingService {
         isPaymentPending: listings.isPaymentPending,
         createdAt: listings.createdAt,
         updatedAt: listings.updatedAt,
+        profileTelegramId: userProfiles.telegramId,
+        profileDisplayName: userProfiles.displayName,
+        profileBio: userProfiles.bio,
+        profileImageKey: userProfiles.profileImageKey,
+        profileUsername: userProfiles.username,
+        sortValue,
+        ...searchFields,
       })
       .from(listings)
       .leftJoin(userProfiles, eq(listings.userId, userProfiles.telegramId))
+      .$dynamic();
+
+    if (matchQuery) {
+      query = query.innerJoin(
+        sql`listings_fts`,
+        sql`listings_fts.rowid = ${listings.id}`,
+      );
+    }
+
+    // Filter out listings from banned users
+    const rows = await query
       .where(
         and(
           eq(userProfiles.isBanned, 0),
@@ -274,7 +475,7 @@ export class ListingService {
                   ...input.status.map((status) => eq(listings.status, status)),
                 )!,
               ]
-            : [eq(listings.status, LISTING_STATUS.ACTIVE)]),
+            : [inArray(listings.status, FEED_LISTING_STATUSES)]),
           ...(input.category ? [eq(listings.category, input.category)] : []),
           ...(input.priceMin !== undefined
             ? [gte(listings.price, input.priceMin)]
@@ -285,64 +486,96 @@ export class ListingService {
           ...(input.userId !== undefined
             ? [eq(listings.userId, input.userId)]
             : []),
-          ...(input.search
+          ...(matchQuery ? [sql`listings_fts MATCH ${matchQuery}`] : []),
+          ...(exclusionQuery
             ? [
-                or(
-                  like(listings.title, `%${input.search}%`),
-                  like(listings.content, `%${input.search}%`),
-                  like(listings.category, `%${input.search}%`),
-                )!,
+                sql`${listings.id} NOT IN (SELECT rowid FROM listings_fts WHERE listings_fts MATCH ${exclusionQuery})`,
+              ]
+            : []),
+          ...(keyset
+            ? [
+                sql`(${sortValue}, ${listings.id}) ${sql.raw(
+                  sortOrder === "asc" ? ">" : "<",
+                )} (${keyset.value}, ${keyset.id})`,
               ]
             : []),
         ),
       )
-      .orderBy(
-        input.sortBy === "price"
-          ? input.sortOrder === "asc"
-            ? listings.price
-            : desc(listings.price)
-          : input.sortOrder === "asc"
-            ? listings.createdAt
-            : desc(listings.createdAt),
-      )
-      .limit(input.limit)
-      .offset(input.offset);
-
-    // Get images and profile data for all listings
-    const listingsWithImages = await Promise.all(
-      listingList.map(async (listing) => {
-        const images = await this.getListingImagesData(listing.id);
-
-        // Get profile data for this user
-        const profileResult = await this.db
-          .select()
-          .from(userProfiles)
-          .where(eq(userProfiles.telegramId, listing.userId))
-          .limit(1);
-
-        const profile = profileResult[0] || null;
-
-        // Use profile display name if available, otherwise use listing's display name
-        const effectiveDisplayName =
-          profile?.displayName || listing.displayName;
+      .orderBy(...orderBy)
+      .limit(input.limit + 1)
+      .offset(offset);
+
+    const hasMore = rows.length > input.limit;
+    const page = rows.slice(0, input.limit);
+    const last = page[page.length - 1];
+    const nextCursor =
+      hasMore && last
+        ? encodeListingCursor(
+            sortKey,
+            sortBy === "relevance"
+              ? { offset: offset + input.limit }
+              : { value: last.sortValue, id: last.id },
+          )
+        : null;
+
+    const imagesByListing = await this.getImagesForListings(
+      page.map((row) => row.id),
+    );
 
-        return {
+    // Banned sellers' listings are filtered out above
+    const listingList = await Promise.all(
+      page.map(
+        async ({
+          titleSnippet,
+          descriptionSnippet,
+          sortValue: _sortValue,
+          profileTelegramId,
+          profileDisplayName,
+          profileBio,
+          profileImageKey,
+          profileUsername,
+          ...listing
+        }) => ({
           ...listing,
-          displayName: effectiveDisplayName,
-          profile: profile
-            ? {
-                displayName: profile.displayName,
-                bio: profile.bio,
-                profileImageKey: profile.profileImageKey,
-                username: profile.username,
-              }
+          // Use profile display name if available, otherwise use listing's display name
+          displayName: profileDisplayName || listing.displayName,
+          profile:
+            profileTelegramId !== null
+              ? {
+                  displayName: profileDisplayName,
+                  bio: profileBio,
+                  profileImageKey,
+                  username: profileUsername,
+                }
+              : null,
+          images: await withImageTokens(
+            this.env,
+            listing,
+            false,
+            imagesByListing.get(listing.id) ?? [],
+          ),
+          highlights: matchQuery
+            ? this.buildHighlights(titleSnippet, descriptionSnippet)
             : null,
-          images,
-        };
-      }),
+        }),
+      ),
     );
 
-    return listingsWithImages;
+    return { listings: listingList, hasMore, nextCursor };
+  }
+
+  // Description snippets without a hit are just the opening words
+  private buildHighlights(
+    titleSnippet: string | null,
+    descriptionSnippet: string | null,
+  ) {
+    const description = parseSnippet(descriptionSnippet);
+    return {
+      title: parseSnippet(titleSnippet),
+      description: description.some((segment) => segment.highlight)
+        ? description
+        : null,
+    };
   }
 
   async getListingByIdWithImages(id: number) {
@@ -356,8 +589,6 @@ export class ListingService {
       return null;
     }
 
-    const images = await this.getListingImagesData(listing.id);
-
     // Get profile data for this user
     const profileResult = await this.db
       .select()
@@ -367,6 +598,13 @@ export class ListingService {
 
     const profile = profileResult[0] || null;
 
+    const images = await withImageTokens(
+      this.env,
+      listing,
+      profile?.isBanned === 1,
+      await this.getListingImagesData(listing.id),
+    );
+
     // Use profile display name if available, otherwise use listing's display name
     const effectiveDisplayName = profile?.displayName || listing.displayName;
 
@@ -379,12 +617,83 @@ export class ListingService {
             bio: profile.bio,
             profileImageKey: profile.profileImageKey,
             username: profile.username,
+            contactLinks: new ProfileService(this.env.DB).parseContactLinks(
+              profile.contactLinks,
+            ),
           }
         : null,
       images,
     };
   }
 
+  /**
+   * Get listings by id with images, in the order the ids are given. Held
+   * listings and banned sellers' listings are left out unless includeHidden
+   * is set. Takes two queries however many ids are asked for.
+   */
+  async getListingsByIdsWithImages(ids: number[], includeHidden = false) {
+    if (ids.length === 0) return [];
+
+    const rows = await this.db
+      .select({ listing: listings, profile: userProfiles })
+      .from(listings)
+      .leftJoin(userProfiles, eq(listings.userId, userProfiles.telegramId))
+      .where(
+        and(
+          inArray(listings.id, ids),
+          ...(includeHidden
+            ? []
+            : [
+                eq(userProfiles.isBanned, 0),
+                notInArray(listings.status, HELD_LISTING_STATUSES),
+              ]),
+        ),
+      );
+
+    const imagesByListing = await this.getImagesForListings(
+      rows.map((row) => row.listing.id),
+    );
+    const profileService = new ProfileService(this.env.DB);
+
+    const listingsById = new Map(
+      await Promise.all(
+        rows.map(
+          async ({ listing, profile }) =>
+            [
+              listing.id,
+              {
+                ...listing,
+                // Use profile display name if available, otherwise use listing's display name
+                displayName: profile?.displayName || listing.displayName,
+                profile: profile
+                  ? {
+                      displayName: profile.displayName,
+                      bio: profile.bio,
+                      profileImageKey: profile.profileImageKey,
+                      username: profile.username,
+                      contactLinks: profileService.parseContactLinks(
+                        profile.contactLinks,
+                      ),
+                    }
+                  : null,
+                images: await withImageTokens(
+                  this.env,
+                  listing,
+                  profile?.isBanned === 1,
+                  imagesByListing.get(listing.id) ?? [],
+                ),
+              },
+            ] as const,
+        ),
+      ),
+    );
+
+    return ids.flatMap((id) => {
+      const listing = listingsById.get(id);
+      return listing ? [listing] : [];
+    });
+  }
+
   private async getListingImagesData(
     listingId: number,
   ): Promise<ImageUrlData[]> {
@@ -392,17 +701,31 @@ export class ListingService {
       .select()
       .from(listingImages)
       .where(eq(listingImages.listingId, listingId))
-      .orderBy(listingImages.uploadOrder);
-
-    return images.map((image) => ({
-      id: image.id,
-      imageKey: image.imageKey,
-      thumbnailKey: image.thumbnailKey,
-      width: image.width,
-      height: image.height,
-      originalName: image.originalName,
-      fileSize: image.fileSize,
-      uploadOrder: image.uploadOrder,
-    }));
+      .orderBy(...LISTING_IMAGE_ORDER);
+
+    return images.map(toImageUrlData);
+  }
+
+  // Page sizes and favorites are capped at 100, which keeps the IN list
+  // within D1's bound parameter limit
+  private async getImagesForListings(
+    listingIds: number[],
+  ): Promise<Map<number, ImageUrlData[]>> {
+    const imagesByListing = new Map<number, ImageUrlData[]>();
+    if (listingIds.length === 0) return imagesByListing;
+
+    const images = await this.db
+      .select()
+      .from(listingImages)
+      .where(inArray(listingImages.listingId, listingIds))
+      .orderBy(listingImages.listingId, ...LISTING_IMAGE_ORDER);
+
+    for (const image of images) {
+      const listingImagesData = imagesByListing.get(image.listingId) ?? [];
+      listingImagesData.push(toImageUrlData(image));
+      imagesByListing.set(image.listingId, listingImagesData);
+    }
+
+    return imagesByListing;
   }
 }
@@ -0,0 +1,87 @@
+import type { Database } from "../db";
+import type { Listing } from "../db/schema";
+import type { Env } from "../types/env";
+import { ListingService } from "./listing-service";
+import { FavoriteService } from "./favorite-service";
+import { ConversationService } from "./conversation-service";
+import { sendListingStatusNotification } from "./notification-service";
+import {
+  LISTING_STATUS,
+  LISTING_STATUS_TRANSITIONS,
+  type ListingStatus,
+} from "../../../shared/constants";
+
+export type SellerListingStatus = "active" | "reserved" | "sold";
+
+export class ListingStatusService {
+  constructor(
+    private db: Database,
+    private env: Env,
+  ) {}
+
+  canChangeStatus(
+    listing: Listing,
+    userId: number,
+    status: ListingStatus,
+  ): { allowed: boolean; reason?: string } {
+    if (listing.userId !== userId) {
+      return { allowed: false, reason: "You don't own this listing" };
+    }
+
+    const allowed =
+      LISTING_STATUS_TRANSITIONS[listing.status as ListingStatus] ?? [];
+    if (!allowed.includes(status)) {
+      return {
+        allowed: false,
+        reason: `Cannot change a ${listing.status} listing to ${status}`,
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Apply a seller status change and notify watchers and buyers who messaged
+   * the seller. Reopening a reserved listing whose time ran out while it was
+   * held makes it expired rather than active.
+   */
+  async changeStatus(listing: Listing, status: SellerListingStatus) {
+    const newStatus =
+      status === LISTING_STATUS.ACTIVE && listing.expiresAt <= Date.now()
+        ? LISTING_STATUS.EXPIRED
+        : status;
+
+    const listingService = new ListingService(this.db, this.env);
+    const updated = await listingService.updateListingStatus(
+      listing.id,
+      newStatus,
+    );
+
+    if (newStatus !== LISTING_STATUS.EXPIRED) {
+      await this.notifyInterestedUsers(updated, status);
+    }
+
+    return updated;
+  }
+
+  // Watchers and chat buyers overlap, so each user is messaged once
+  private async notifyInterestedUsers(
+    listing: Listing,
+    status: SellerListingStatus,
+  ) {
+    const favoriteService = new FavoriteService(this.db, this.env);
+    const conversationService = new ConversationService(this.db, this.env);
+
+    const recipients = new Set([
+      ...(await favoriteService.getWatcherIds(listing.id)),
+      ...(await conversationService.getListingBuyerIds(listing.id)),
+    ]);
+    recipients.delete(listing.userId);
+
+    for (const userId of recipients) {
+      await sendListingStatusNotification(this.env, userId, listing, status);
+    }
+
+    return recipients.size;
+  }
+}
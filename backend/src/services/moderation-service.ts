@@ -0,0 +1,337 @@
+import {
+  and,
+  asc,
+  count,
+  eq,
+  inArray,
+  isNotNull,
+  ne,
+  notInArray,
+  sql,
+} from "drizzle-orm";
+import type { Database } from "../db";
+import { listings, moderationRules } from "../db/schema";
+import type { Listing, ModerationRule } from "../db/schema";
+import type { Env } from "../types/env";
+import type { ListingModeration } from "./listing-service";
+import {
+  FEED_LISTING_STATUSES,
+  LISTING_STATUS,
+  MODERATION_ACTIONS,
+  type ModerationAction,
+  type ModerationQueueView,
+} from "../../../shared/constants";
+import type { ModerationRuleInput } from "../../../shared/schemas";
+
+// Text submitted for a listing or a profile; checks skip fields that aren't set
+export interface ModerationContent {
+  userId: number;
+  listingId?: number; // Set when an existing listing is edited
+  title?: string;
+  description?: string;
+  displayName?: string;
+  bio?: string;
+}
+
+export interface ModerationFinding {
+  action: ModerationAction;
+  label: string; // Shown to staff in the queue
+  message?: string; // Shown to the user when the finding rejects their text
+}
+
+export interface ModerationVerdict {
+  action: ModerationAction | "allow"; // The most severe finding wins
+  findings: ModerationFinding[];
+  message?: string;
+}
+
+/**
+ * One step of the moderation pipeline. A check returns a finding for each
+ * problem it sees, or nothing for content it has no opinion on.
+ */
+export type ModerationCheck = (
+  content: ModerationContent,
+) => Promise<ModerationFinding[]>;
+
+export interface ModerationQueueFilters {
+  view: ModerationQueueView;
+  limit: number;
+  offset: number;
+}
+
+const REJECTED_MESSAGE = "This contains content that isn't allowed";
+
+// What the built-in checks do with what they find
+const PHONE_NUMBER_ACTION: ModerationAction = "flag";
+const LINK_ACTION: ModerationAction = "hold";
+const DUPLICATE_LISTING_ACTION: ModerationAction = "reject";
+
+const PHONE_NUMBER_PATTERN = /\+?\d(?:[\s().-]*\d){6,}/;
+const LINK_PATTERN =
+  /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|io|me|ru|co|ly)\b/i;
+
+// Listings a new one can't duplicate; sold and archived ones can be relisted
+const CLOSED_LISTING_STATUSES = [LISTING_STATUS.SOLD, LISTING_STATUS.ARCHIVED];
+
+/**
+ * Compile a rule into a case-insensitive matcher. Words and phrases only
+ * match whole words, in any script.
+ */
+export function compileModerationRule(
+  rule: Pick<ModerationRule, "kind" | "pattern">,
+): RegExp {
+  if (rule.kind === "regex") {
+    return new RegExp(rule.pattern, "iu");
+  }
+  const escaped = rule.pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, "iu");
+}
+
+// Lowercased with whitespace collapsed, so trivial edits don't dodge the
+// duplicate check
+function normalizeText(text: string) {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Phone numbers and links in a listing description
+ */
+export const contactDetailsCheck: ModerationCheck = async (content) => {
+  const findings: ModerationFinding[] = [];
+  if (!content.description) return findings;
+
+  if (PHONE_NUMBER_PATTERN.test(content.description)) {
+    findings.push({
+      action: PHONE_NUMBER_ACTION,
+      label: "Phone number in description",
+    });
+  }
+  if (LINK_PATTERN.test(content.description)) {
+    findings.push({ action: LINK_ACTION, label: "Link in description" });
+  }
+
+  return findings;
+};
+
+/**
+ * Listing and profile text filter. Listings run every check; rules managed
+ * by staff apply to all fields, the built-in checks to listings only.
+ */
+export class ModerationService {
+  private checks: ModerationCheck[];
+  private rules: ModerationRule[] | null = null;
+
+  constructor(
+    private db: Database,
+    private env: Env,
+    checks?: ModerationCheck[],
+  ) {
+    this.checks = checks ?? [
+      this.rulesCheck,
+      contactDetailsCheck,
+      this.duplicateListingCheck,
+    ];
+  }
+
+  async checkListing(content: ModerationContent): Promise<ModerationVerdict> {
+    return this.runChecks(content);
+  }
+
+  /**
+   * Profiles can't be held for review, so anything that would hold a listing
+   * rejects profile text instead
+   */
+  async checkProfile(content: ModerationContent): Promise<ModerationVerdict> {
+    const verdict = await this.runChecks(content);
+    if (verdict.action === "hold") {
+      return { ...verdict, action: "reject", message: REJECTED_MESSAGE };
+    }
+    return verdict;
+  }
+
+  async listRules(): Promise<ModerationRule[]> {
+    return this.db
+      .select()
+      .from(moderationRules)
+      .orderBy(asc(moderationRules.kind), asc(moderationRules.pattern));
+  }
+
+  /**
+   * Add a rule. Returns null if the same pattern already exists.
+   */
+  async createRule(
+    input: ModerationRuleInput,
+    createdBy: number,
+  ): Promise<ModerationRule | null> {
+    const [rule] = await this.db
+      .insert(moderationRules)
+      .values({
+        kind: input.kind,
+        pattern: input.pattern,
+        action: input.action,
+        note: input.note ?? null,
+        createdBy,
+        createdAt: new Date().toISOString(),
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    return rule ?? null;
+  }
+
+  async deleteRule(ruleId: number): Promise<ModerationRule | null> {
+    const [rule] = await this.db
+      .delete(moderationRules)
+      .where(eq(moderationRules.id, ruleId))
+      .returning();
+
+    return rule ?? null;
+  }
+
+  /**
+   * Listings held by the filter, or live listings it flagged, oldest first
+   */
+  async getQueue(
+    filters: ModerationQueueFilters,
+  ): Promise<{ listings: Listing[]; total: number }> {
+    const where =
+      filters.view === "held"
+        ? eq(listings.status, LISTING_STATUS.PENDING_REVIEW)
+        : and(
+            isNotNull(listings.moderationFlags),
+            inArray(listings.status, FEED_LISTING_STATUSES),
+          );
+
+    const [rows, [totals]] = await Promise.all([
+      this.db
+        .select()
+        .from(listings)
+        .where(where)
+        .orderBy(asc(listings.updatedAt))
+        .limit(filters.limit)
+        .offset(filters.offset),
+      this.db.select({ total: count() }).from(listings).where(where),
+    ]);
+
+    return { listings: rows, total: totals?.total ?? 0 };
+  }
+
+  /**
+   * Clear a listing's findings and put it back in the status it had if the
+   * filter held it. Holds from reports are left to the report queue.
+   */
+  async approveListing(listingId: number): Promise<Listing | null> {
+    const isHeld = sql`${listings.status} = ${LISTING_STATUS.PENDING_REVIEW}`;
+    const [approved] = await this.db
+      .update(listings)
+      .set({
+        status: sql`CASE WHEN ${isHeld} THEN coalesce(${listings.statusBeforeReview}, ${LISTING_STATUS.ACTIVE}) ELSE ${listings.status} END`,
+        statusBeforeReview: sql`CASE WHEN ${isHeld} THEN NULL ELSE ${listings.statusBeforeReview} END`,
+        moderationFlags: null,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(listings.id, listingId))
+      .returning();
+
+    return approved ?? null;
+  }
+
+  private async runChecks(
+    content: ModerationContent,
+  ): Promise<ModerationVerdict> {
+    const findings = (
+      await Promise.all(this.checks.map((check) => check(content)))
+    ).flat();
+
+    const action =
+      MODERATION_ACTIONS.find((severity) =>
+        findings.some((finding) => finding.action === severity),
+      ) ?? "allow";
+    const message =
+      action === "reject"
+        ? (findings.find((finding) => finding.action === "reject")?.message ??
+          REJECTED_MESSAGE)
+        : undefined;
+
+    return { action, findings, message };
+  }
+
+  private rulesCheck: ModerationCheck = async (content) => {
+    this.rules ??= await this.listRules();
+
+    const fields = [
+      content.title,
+      content.description,
+      content.displayName,
+      content.bio,
+    ].filter((field): field is string => !!field);
+
+    const findings: ModerationFinding[] = [];
+    for (const rule of this.rules) {
+      let matcher: RegExp;
+      try {
+        matcher = compileModerationRule(rule);
+      } catch (error) {
+        console.error(`Skipping invalid moderation rule ${rule.id}:`, error);
+        continue;
+      }
+
+      if (fields.some((field) => matcher.test(field))) {
+        findings.push({
+          action: rule.action as ModerationAction,
+          label: `Matched ${rule.kind} rule "${rule.pattern}"`,
+        });
+      }
+    }
+
+    return findings;
+  };
+
+  private duplicateListingCheck: ModerationCheck = async (content) => {
+    if (content.title === undefined || content.description === undefined) {
+      return [];
+    }
+
+    const existing = await this.db
+      .select({ title: listings.title, content: listings.content })
+      .from(listings)
+      .where(
+        and(
+          eq(listings.userId, content.userId),
+          notInArray(listings.status, CLOSED_LISTING_STATUSES),
+          content.listingId ? ne(listings.id, content.listingId) : undefined,
+        ),
+      );
+
+    const title = normalizeText(content.title);
+    const description = normalizeText(content.description);
+    const isDuplicate = existing.some(
+      (listing) =>
+        normalizeText(listing.title) === title &&
+        normalizeText(listing.content) === description,
+    );
+
+    return isDuplicate
+      ? [
+          {
+            action: DUPLICATE_LISTING_ACTION,
+            label: "Duplicate of another listing by the seller",
+            message:
+              "You already have a listing with this title and description",
+          },
+        ]
+      : [];
+  };
+}
+
+/**
+ * What a listing write should do with a verdict that didn't reject it
+ */
+export function toListingModeration(
+  verdict: ModerationVerdict,
+): ListingModeration {
+  return {
+    hold: verdict.action === "hold",
+    flags: verdict.findings.map((finding) => finding.label),
+  };
+}
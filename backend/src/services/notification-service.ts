@@ -39,18 +39,31 @@ export async function sendPostDeletedNotification(
  * @param env - Environment variables containing bot token
  * @param telegramId - The telegram ID of the user
  * @param isBanned - true if user is being banned, false if unbanned
+ * @param ban - Reason and expiry (Unix ms, null if permanent) of a new ban
  */
 export async function sendBanNotification(
   env: Env,
   telegramId: number,
   isBanned: boolean,
+  ban?: { reason: string; expiresAt: number | null },
 ): Promise<void> {
   try {
     const bot = getBotInstance(env);
-    const message = isBanned
+    let message = isBanned
       ? "You have been banned. You cannot access the web app."
       : "You have been unbanned. You can now access the web app again.";
 
+    if (isBanned && ban) {
+      const until = ban.expiresAt
+        ? `until ${formatUtc(ban.expiresAt)}`
+        : "permanently";
+      message =
+        `🚫 You have been banned ${until}. You cannot access the web app.\n\n` +
+        `Reason: ${ban.reason}\n\n` +
+        `If you think this is a mistake, send /appeal followed by your ` +
+        `explanation. You can appeal each ban once.`;
+    }
+
     await bot.api.sendMessage(telegramId, message);
   } catch (error) {
     // Log error but don't throw - notification failure shouldn't break ban/unban action
@@ -61,6 +74,459 @@ export async function sendBanNotification(
   }
 }
 
+/**
+ * Tell a banned user the decision on their appeal
+ *
+ * @param env - Environment variables containing bot token
+ * @param telegramId - The telegram ID of the user who appealed
+ * @param accepted - true if the ban was lifted
+ * @param response - Optional explanation from staff
+ */
+export async function sendAppealOutcomeNotification(
+  env: Env,
+  telegramId: number,
+  accepted: boolean,
+  response?: string,
+): Promise<void> {
+  try {
+    const bot = getBotInstance(env);
+    const decision = accepted
+      ? "✅ Your appeal was accepted and your ban has been lifted. You can use the web app again."
+      : "❌ Your appeal was reviewed and your ban stays in place.";
+
+    await bot.api.sendMessage(
+      telegramId,
+      response ? `${decision}\n\n${response}` : decision,
+    );
+  } catch (error) {
+    console.error(
+      `Failed to send appeal outcome notification to user ${telegramId}:`,
+      error,
+    );
+  }
+}
+
+// e.g. "2025-03-01 14:30 UTC"
+function formatUtc(timestamp: number): string {
+  return `${new Date(timestamp).toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+/**
+ * Build the Mini App URL that opens a listing (handled by the startParam
+ * deep link in the frontend)
+ *
+ * @param env - Environment variables containing the Pages URL
+ * @param listingId - The ID of the listing to open
+ * @returns Mini App URL for a web_app button
+ */
+export function getListingWebAppUrl(env: Env, listingId: number): string {
+  const webappUrl = env.PAGES_URL || "https://fleamarket-twa.pages.dev";
+  return `${webappUrl}?startParam=listing_${listingId}`;
+}
+
+/**
+ * Build the Mini App URL that opens a conversation thread
+ *
+ * @param env - Environment variables containing the Pages URL
+ * @param conversationId - The ID of the conversation to open
+ * @returns Mini App URL for a web_app button
+ */
+export function getConversationWebAppUrl(
+  env: Env,
+  conversationId: number,
+): string {
+  const webappUrl = env.PAGES_URL || "https://fleamarket-twa.pages.dev";
+  return `${webappUrl}?startParam=conversation_${conversationId}`;
+}
+
+/**
+ * Relay an in-app message to the other participant as a bot DM
+ *
+ * @param env - Environment variables containing bot token
+ * @param telegramId - The telegram ID of the recipient
+ * @param message - Conversation, listing and message details
+ * @returns The Telegram message ID of the DM, or null if sending failed
+ */
+export async function sendConversationMessageNotification(
+  env: Env,
+  telegramId: number,
+  message: {
+    conversationId: number;
+    listingTitle: string;
+    senderName: string;
+    body: string;
+  },
+): Promise<number | null> {
+  try {
+    const bot = getBotInstance(env);
+    const sent = await bot.api.sendMessage(
+      telegramId,
+      `💬 ${message.senderName} about "${message.listingTitle}":\n\n` +
+        `${message.body}\n\n` +
+        `Reply to this message to answer.`,
+      {
+        reply_markup: {
+          inline_keyboard: [
+            [
+              {
+                text: "↩️ Reply",
+                callback_data: `reply_conversation:${message.conversationId}`,
+              },
+              {
+                text: "Open Chat",
+                web_app: {
+                  url: getConversationWebAppUrl(env, message.conversationId),
+                },
+              },
+            ],
+          ],
+        },
+      },
+    );
+    return sent.message_id;
+  } catch (error) {
+    console.error(
+      `Failed to relay conversation message to user ${telegramId}:`,
+      error,
+    );
+    return null;
+  }
+}
+
+/**
+ * Tell a seller they received a new review
+ *
+ * @param env - Environment variables containing bot token
+ * @param telegramId - The telegram ID of the seller
+ * @param review - Rating, text and the title of the listing it is about
+ */
+export async function sendNewReviewNotification(
+  env: Env,
+  telegramId: number,
+  review: { rating: number; body: string | null; listingTitle: string },
+): Promise<void> {
+  try {
+    const bot = getBotInstance(env);
+    const stars = "⭐".repeat(review.rating);
+    await bot.api.sendMessage(
+      telegramId,
+      `${stars} New review for "${review.listingTitle}"` +
+        (review.body ? `:\n\n${review.body}` : "") +
+        `\n\nYou can reply once from your profile in the app.`,
+    );
+  } catch (error) {
+    console.error(
+      `Failed to send review notification to user ${telegramId}:`,
+      error,
+    );
+  }
+}
+
+/**
+ * Remind a seller that their listing is about to expire
+ *
+ * @param env - Environment variables containing bot token
+ * @param telegramId - The telegram ID of the listing owner
+ * @param listing - The expiring listing
+ */
+export async function sendExpiryReminderNotification(
+  env: Env,
+  telegramId: number,
+  listing: { id: number; title: string; expiresAt: number },
+): Promise<void> {
+  try {
+    const bot = getBotInstance(env);
+    const hoursLeft = Math.max(
+      1,
+      Math.round((listing.expiresAt - Date.now()) / (60 * 60 * 1000)),
+    );
+    await bot.api.sendMessage(
+      telegramId,
+      `⏰ Your listing "${listing.title}" expires in ${hoursLeft}h.\n\n` +
+        `Bump it to keep it visible in the marketplace.`,
+      {
+        reply_markup: {
+          inline_keyboard: [
+            [
+              {
+                text: "Open Listing",
+                web_app: { url: getListingWebAppUrl(env, listing.id) },
+              },
+            ],
+          ],
+        },
+      },
+    );
+  } catch (error) {
+    console.error(
+      `Failed to send expiry reminder to user ${telegramId}:`,
+      error,
+    );
+  }
+}
+
+/**
+ * Send a saved search digest with a button to open each matching listing
+ *
+ * @param env - Environment variables containing bot token
+ * @param telegramId - The telegram ID of the saved search owner
+ * @param matches - Listings to include, each with the search it matched
+ */
+export async function sendSavedSearchDigest(
+  env: Env,
+  telegramId: number,
+  matches: Array<{
+    listingId: number;
+    title: string;
+    price: number;
+    searchName: string;
+  }>,
+): Promise<void> {
+  try {
+    const bot = getBotInstance(env);
+    const lines = matches.map(
+      (match) =>
+        `• ${match.title} — $${(match.price / 100).toFixed(2)} (${match.searchName})`,
+    );
+
+    await bot.api.sendMessage(
+      telegramId,
+      `🔎 New listings for your saved searches:\n\n${lines.join("\n")}`,
+      {
+        reply_markup: {
+          inline_keyboard: [
+            ...matches.map((match) => [
+              {
+                text: match.title.slice(0, 40),
+                web_app: { url: getListingWebAppUrl(env, match.listingId) },
+              },
+            ]),
+            [{ text: "🔕 Mute alerts", callback_data: "mute_saved_searches" }],
+          ],
+        },
+      },
+    );
+  } catch (error) {
+    console.error(
+      `Failed to send saved search digest to user ${telegramId}:`,
+      error,
+    );
+  }
+}
+
+export type WatcherEvent =
+  | { type: "price_drop"; previousPrice: number }
+  | { type: "expired" }
+  | { type: "archived" };
+
+/**
+ * Notify a user about a change to a listing they favorited
+ *
+ * @param env - Environment variables containing bot token
+ * @param telegramId - The telegram ID of the watcher
+ * @param listing - The listing after the change
+ * @param event - What changed
+ */
+export async function sendWatcherNotification(
+  env: Env,
+  telegramId: number,
+  listing: { id: number; title: string; price: number },
+  event: WatcherEvent,
+): Promise<void> {
+  const formatPrice = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+  let message: string;
+  switch (event.type) {
+    case "price_drop":
+      message =
+        `💸 Price drop on "${listing.title}"!\n\n` +
+        `Now ${formatPrice(listing.price)} (was ${formatPrice(event.previousPrice)}).`;
+      break;
+    case "expired":
+      message = `⌛ "${listing.title}" from your saved listings has expired.`;
+      break;
+    case "archived":
+      message = `📦 "${listing.title}" from your saved listings is no longer available.`;
+      break;
+  }
+
+  try {
+    const bot = getBotInstance(env);
+    await bot.api.sendMessage(telegramId, message, {
+      reply_markup: {
+        inline_keyboard: [
+          [
+            {
+              text: "Open Listing",
+              web_app: { url: getListingWebAppUrl(env, listing.id) },
+            },
+          ],
+        ],
+      },
+    });
+  } catch (error) {
+    console.error(
+      `Failed to send watcher notification to user ${telegramId}:`,
+      error,
+    );
+  }
+}
+
+/**
+ * Tell watchers and buyers who messaged the seller that a listing was
+ * reserved, sold or became available again
+ *
+ * @param env - Environment variables containing bot token
+ * @param telegramId - The telegram ID of the watcher or buyer
+ * @param listing - The listing after the change
+ * @param status - The listing's new status
+ */
+export async function sendListingStatusNotification(
+  env: Env,
+  telegramId: number,
+  listing: { id: number; title: string },
+  status: "active" | "reserved" | "sold",
+): Promise<void> {
+  const messages = {
+    active: `✅ "${listing.title}" is available again.`,
+    reserved: `🔒 "${listing.title}" has been reserved for another buyer.`,
+    sold: `🤝 "${listing.title}" has been sold.`,
+  };
+
+  try {
+    const bot = getBotInstance(env);
+    await bot.api.sendMessage(telegramId, messages[status], {
+      reply_markup: {
+        inline_keyboard: [
+          [
+            {
+              text: "Open Listing",
+              web_app: { url: getListingWebAppUrl(env, listing.id) },
+            },
+          ],
+        ],
+      },
+    });
+  } catch (error) {
+    console.error(
+      `Failed to send listing status notification to user ${telegramId}:`,
+      error,
+    );
+  }
+}
+
+/**
+ * Tell a seller their listing was hidden from the feed after several reports
+ *
+ * @param env - Environment variables containing bot token
+ * @param telegramId - The telegram ID of the seller
+ * @param listing - The held listing
+ */
+export async function sendListingHeldNotification(
+  env: Env,
+  telegramId: number,
+  listing: { id: number; title: string },
+): Promise<void> {
+  try {
+    const bot = getBotInstance(env);
+    await bot.api.sendMessage(
+      telegramId,
+      `⏸ "${listing.title}" was reported by several users and is hidden ` +
+        `from the feed until a moderator reviews it.`,
+      {
+        reply_markup: {
+          inline_keyboard: [
+            [
+              {
+                text: "Open Listing",
+                web_app: { url: getListingWebAppUrl(env, listing.id) },
+              },
+            ],
+          ],
+        },
+      },
+    );
+  } catch (error) {
+    console.error(
+      `Failed to send listing held notification to user ${telegramId}:`,
+      error,
+    );
+  }
+}
+
+/**
+ * Tell a seller a listing held by the content filter was approved
+ *
+ * @param env - Environment variables containing bot token
+ * @param telegramId - The telegram ID of the seller
+ * @param listing - The approved listing
+ */
+export async function sendListingApprovedNotification(
+  env: Env,
+  telegramId: number,
+  listing: { id: number; title: string },
+): Promise<void> {
+  try {
+    const bot = getBotInstance(env);
+    await bot.api.sendMessage(
+      telegramId,
+      `✅ "${listing.title}" was approved by a moderator and is now visible ` +
+        `to buyers.`,
+      {
+        reply_markup: {
+          inline_keyboard: [
+            [
+              {
+                text: "Open Listing",
+                web_app: { url: getListingWebAppUrl(env, listing.id) },
+              },
+            ],
+          ],
+        },
+      },
+    );
+  } catch (error) {
+    console.error(
+      `Failed to send listing approved notification to user ${telegramId}:`,
+      error,
+    );
+  }
+}
+
+/**
+ * Tell a reporter what staff did about their report
+ *
+ * @param env - Environment variables containing bot token
+ * @param telegramId - The telegram ID of the reporter
+ * @param targetLabel - How the reported listing or user is named in the message
+ * @param resolution - The action staff took
+ */
+export async function sendReportOutcomeNotification(
+  env: Env,
+  telegramId: number,
+  targetLabel: string,
+  resolution: "dismiss" | "archive" | "ban",
+): Promise<void> {
+  const outcomes = {
+    dismiss: "A moderator reviewed it and found no rule violation.",
+    archive: "A moderator reviewed it and removed the listing.",
+    ban: "A moderator reviewed it and banned the account responsible.",
+  };
+
+  try {
+    const bot = getBotInstance(env);
+    await bot.api.sendMessage(
+      telegramId,
+      `🛡 Thanks for your report about ${targetLabel}.\n\n${outcomes[resolution]}`,
+    );
+  } catch (error) {
+    console.error(
+      `Failed to send report outcome notification to user ${telegramId}:`,
+      error,
+    );
+  }
+}
+
 /**
  * Get a bot instance from environment
  *
@@ -99,6 +565,35 @@ export async function sendPaymentSuccessNotification(
   }
 }
 
+/**
+ * Send notification to user when a paid bump is settled
+ *
+ * @param env - Environment variables containing bot token
+ * @param telegramId - The telegram ID of the user
+ * @param listingId - The ID of the bumped listing
+ * @param expiresAt - New expiry of the listing (Unix ms)
+ */
+export async function sendBumpPaymentSuccessNotification(
+  env: Env,
+  telegramId: number,
+  listingId: number,
+  expiresAt: number,
+): Promise<void> {
+  try {
+    const bot = getBotInstance(env);
+    await bot.api.sendMessage(
+      telegramId,
+      `✅ Payment successful! Your listing (ID: ${listingId}) was bumped to the top ⬆️\n\n` +
+        `It is now active until ${new Date(expiresAt).toUTCString()}.`,
+    );
+  } catch (error) {
+    console.error(
+      `Failed to send bump success notification to user ${telegramId}:`,
+      error,
+    );
+  }
+}
+
 /**
  * Send notification to user when payment fails
  *
@@ -157,6 +652,49 @@ export async function sendAdminPaymentAlert(
   }
 }
 
+/**
+ * Send notification to admin when a paid bump couldn't be applied
+ *
+ * @param env - Environment variables containing bot token and admin ID
+ * @param details - Payment details, and whether the automatic refund went through
+ */
+export async function sendAdminBumpFailureAlert(
+  env: Env,
+  details: {
+    paymentId: string;
+    userId: number;
+    postId: number;
+    starAmount: number;
+    refunded: boolean;
+    error: string;
+  },
+): Promise<void> {
+  try {
+    if (!env.TELEGRAM_ADMIN_ID) {
+      console.warn(
+        "TELEGRAM_ADMIN_ID not set, skipping admin bump failure alert",
+      );
+      return;
+    }
+
+    const bot = getBotInstance(env);
+    await bot.api.sendMessage(
+      env.TELEGRAM_ADMIN_ID,
+      `⚠️ Paid bump could not be applied!\n\n` +
+        `Payment ID: ${details.paymentId}\n` +
+        `User ID: ${details.userId}\n` +
+        `Post ID: ${details.postId}\n` +
+        `Stars: ${details.starAmount} ⭐️\n` +
+        `Error: ${details.error}\n\n` +
+        (details.refunded
+          ? `The stars were refunded automatically.`
+          : `The automatic refund failed, refund the payment by hand.`),
+    );
+  } catch (error) {
+    console.error(`Failed to send admin bump failure alert:`, error);
+  }
+}
+
 /**
  * Send notification to user when their payment is refunded
  *
@@ -188,6 +726,37 @@ export async function sendPaymentRefundNotification(
   }
 }
 
+/**
+ * Send notification to user when a paid bump is refunded
+ *
+ * @param env - Environment variables containing bot token
+ * @param telegramId - The telegram ID of the user
+ * @param listingId - The ID of the listing
+ * @param starAmount - Number of stars refunded
+ */
+export async function sendBumpRefundNotification(
+  env: Env,
+  telegramId: number,
+  listingId: number,
+  starAmount: number,
+): Promise<void> {
+  try {
+    const bot = getBotInstance(env);
+    await bot.api.sendMessage(
+      telegramId,
+      `↩️ Your bump payment was reverted!\n\n` +
+        `Listing ID: ${listingId}\n` +
+        `Stars refunded: ${starAmount} ⭐️\n\n` +
+        `The paid bump was removed from your listing.`,
+    );
+  } catch (error) {
+    console.error(
+      `Failed to send bump refund notification to user ${telegramId}:`,
+      error,
+    );
+  }
+}
+
 /**
  * Send notification to admin when a refund is processed
  *
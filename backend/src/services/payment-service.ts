@@ -1,8 +1,11 @@
 import { eq, desc, sql } from "drizzle-orm";
 import type { Database } from "../db";
 import { payments, posts } from "../db/schema";
+import type { Payment } from "../db/schema";
 import type { Env } from "../types/env";
 import { Bot } from "grammy";
+import { BumpService, parseBumpSnapshot } from "./bump-service";
+import { EXPIRY_PAID_BUMP_DAYS } from "../../../shared/constants";
 
 export type PaymentStatus =
   | "created"
@@ -11,11 +14,13 @@ export type PaymentStatus =
   | "failed"
   | "refunded";
 
+export type PaymentType = "premium_listing" | "bump";
+
 export interface CreatePaymentInput {
   userId: number;
   listingId: number;
   starAmount: number;
-  paymentType?: "premium_listing" | "bump";
+  paymentType?: PaymentType;
   // Legacy support
   postId?: number;
 }
@@ -83,8 +88,10 @@ export class PaymentService {
     // Generate invoice link using Telegram Bot API
     const bot = new Bot(this.env.TELEGRAM_BOT_TOKEN);
     const invoiceLink = await bot.api.createInvoiceLink(
-      "Make Post Premium",
-      `Upgrade your post with ${input.starAmount} star${input.starAmount > 1 ? "s" : ""}`,
+      paymentType === "bump" ? "Bump Listing" : "Make Post Premium",
+      paymentType === "bump"
+        ? `Move your listing to the top and extend it by ${EXPIRY_PAID_BUMP_DAYS} days`
+        : `Upgrade your post with ${input.starAmount} star${input.starAmount > 1 ? "s" : ""}`,
       invoicePayload,
       "", // provider_token is empty for Telegram Stars
       "XTR", // currency
@@ -171,6 +178,84 @@ export class PaymentService {
     return updatedPayment;
   }
 
+  /**
+   * Refund a paid bump that couldn't be applied to its listing. The payment is
+   * first recorded as succeeded with its charge IDs, which the refund needs;
+   * if the refund fails it stays that way so an admin can refund it by hand.
+   */
+  async refundUnappliedBump(
+    paymentId: string,
+    charge: Omit<UpdatePaymentStatusInput, "status">,
+    reason: string,
+  ): Promise<{ success: boolean; error?: string }> {
+    const now = new Date().toISOString();
+    const [payment] = await this.db
+      .update(payments)
+      .set({
+        status: "succeeded",
+        telegramPaymentChargeId: charge.telegramPaymentChargeId,
+        providerPaymentChargeId: charge.providerPaymentChargeId,
+        rawUpdate: charge.rawUpdate
+          ? JSON.stringify(charge.rawUpdate)
+          : undefined,
+        meta: JSON.stringify({ bumpError: reason }),
+        updatedAt: now,
+      })
+      .where(eq(payments.id, paymentId))
+      .returning();
+
+    if (payment?.listingId != null) {
+      await this.db
+        .update(posts)
+        .set({ isPaymentPending: 0, updatedAt: now })
+        .where(eq(posts.id, payment.listingId));
+    }
+
+    const result = await this.refundPayment(paymentId);
+    if (result.success) {
+      // Nothing to revert, so the refunded_payment update can be skipped
+      await this.db
+        .update(payments)
+        .set({ status: "refunded", updatedAt: new Date().toISOString() })
+        .where(eq(payments.id, paymentId));
+    }
+
+    return result;
+  }
+
+  /**
+   * Undo the effect a refunded payment had on its listing
+   * Premium payments lose their stars, paid bumps are rolled back
+   */
+  async revertListingForPayment(payment: Payment) {
+    if (payment.listingId === null) {
+      return;
+    }
+
+    if (payment.paymentType === "bump") {
+      const snapshot = parseBumpSnapshot(payment.meta);
+      if (!snapshot) {
+        console.warn(
+          `[Refund] No bump snapshot on payment ${payment.id}, listing left unchanged`,
+        );
+        return;
+      }
+      const bumpService = new BumpService(this.db, this.env);
+      await bumpService.revertPaidBump(payment.listingId, snapshot);
+      return;
+    }
+
+    const now = new Date().toISOString();
+    await this.db
+      .update(posts)
+      .set({
+        starCount: 0,
+        paymentId: null,
+        updatedAt: now,
+      })
+      .where(eq(posts.id, payment.listingId));
+  }
+
   /**
    * Get payments by user
    */
@@ -522,16 +607,8 @@ export class PaymentService {
             });
 
             // If refunded, also update the listing
-            if (expectedStatus === "refunded" && payment.listingId) {
-              const now = new Date().toISOString();
-              await this.db
-                .update(posts)
-                .set({
-                  starCount: 0,
-                  paymentId: null,
-                  updatedAt: now,
-                })
-                .where(eq(posts.id, payment.listingId));
+            if (expectedStatus === "refunded") {
+              await this.revertListingForPayment(payment);
             }
           } else {
             result.unchanged++;
@@ -1,4 +1,4 @@
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, and, inArray, sql } from "drizzle-orm";
 import type { Database } from "../db";
 import { posts, postImages, userProfiles } from "../db/schema";
 import type {
@@ -6,8 +6,19 @@ import type {
   GetPostsInput,
   GetUserPostsInput,
 } from "../models/post";
-import type { ImageUrlData } from "./image-service";
+import {
+  LISTING_IMAGE_ORDER,
+  toImageUrlData,
+  type ImageUrlData,
+} from "./image-service";
+import { withImageTokens } from "./image-delivery";
+import type { ListingModeration } from "./listing-service";
 import type { Env } from "../types/env";
+import {
+  FEED_LISTING_STATUSES,
+  HELD_LISTING_STATUSES,
+  LISTING_STATUS,
+} from "../../../shared/constants";
 
 export class PostService {
   constructor(
@@ -20,6 +31,7 @@ export class PostService {
     username: string,
     displayName: string,
     input: CreatePostInput,
+    moderation?: ListingModeration,
   ) {
     const now = new Date().toISOString();
 
@@ -33,7 +45,13 @@ export class PostService {
         content: input.content,
         price: 0,
         category: "other",
-        status: "active",
+        status: moderation?.hold
+          ? LISTING_STATUS.PENDING_REVIEW
+          : LISTING_STATUS.ACTIVE,
+        statusBeforeReview: moderation?.hold ? LISTING_STATUS.ACTIVE : null,
+        moderationFlags: moderation?.flags.length
+          ? JSON.stringify(moderation.flags)
+          : null,
         expiresAt: Date.now() + 30 * 24 * 60 * 60 * 1000, // 30 days
         createdAt: now,
         updatedAt: now,
@@ -47,6 +65,7 @@ export class PostService {
     return await this.db
       .select()
       .from(posts)
+      .where(inArray(posts.status, FEED_LISTING_STATUSES))
       .orderBy(desc(posts.createdAt))
       .limit(input.limit)
       .offset(input.offset);
@@ -56,7 +75,12 @@ export class PostService {
     return await this.db
       .select()
       .from(posts)
-      .where(eq(posts.userId, input.userId))
+      .where(
+        and(
+          eq(posts.userId, input.userId),
+          inArray(posts.status, FEED_LISTING_STATUSES),
+        ),
+      )
       .orderBy(desc(posts.createdAt))
       .limit(input.limit)
       .offset(input.offset);
@@ -87,13 +111,27 @@ export class PostService {
     return result?.count || 0;
   }
 
-  async updatePost(id: number, userId: number, content: string) {
+  async updatePost(
+    id: number,
+    userId: number,
+    content: string,
+    moderation: ListingModeration,
+  ) {
     const now = new Date().toISOString();
 
+    // Same hold rules as ListingService.updateListing
+    const isHeld = inArray(posts.status, HELD_LISTING_STATUSES);
     const [updatedPost] = await this.db
       .update(posts)
       .set({
         content: content,
+        moderationFlags: moderation.flags.length
+          ? JSON.stringify(moderation.flags)
+          : null,
+        ...(moderation.hold && {
+          status: sql`CASE WHEN ${isHeld} THEN ${posts.status} ELSE ${LISTING_STATUS.PENDING_REVIEW} END`,
+          statusBeforeReview: sql`CASE WHEN ${isHeld} THEN ${posts.statusBeforeReview} ELSE ${posts.status} END`,
+        }),
         updatedAt: now,
       })
       .where(and(eq(posts.id, id), eq(posts.userId, userId)))
@@ -143,6 +181,7 @@ export class PostService {
         username: posts.username,
         displayName: posts.displayName,
         content: posts.content,
+        status: posts.status,
         starCount: posts.starCount,
         paymentId: posts.paymentId,
         isPaymentPending: posts.isPaymentPending,
@@ -151,7 +190,12 @@ export class PostService {
       })
       .from(posts)
       .leftJoin(userProfiles, eq(posts.userId, userProfiles.telegramId))
-      .where(eq(userProfiles.isBanned, 0))
+      .where(
+        and(
+          eq(userProfiles.isBanned, 0),
+          inArray(posts.status, FEED_LISTING_STATUSES),
+        ),
+      )
       .orderBy(desc(posts.createdAt))
       .limit(input.limit)
       .offset(input.offset);
@@ -159,8 +203,6 @@ export class PostService {
     // Get images and profile data for all posts
     const postsWithImages = await Promise.all(
       postList.map(async (post) => {
-        const images = await this.getPostImagesData(post.id);
-
         // Get profile data for this user
         const profileResult = await this.db
           .select()
@@ -170,6 +212,10 @@ export class PostService {
 
         const profile = profileResult[0] || null;
 
+        // Only public listings of sellers in good standing reach the feed,
+        // so no image URL needs signing
+        const images = await this.getPostImagesData(post.id);
+
         // Use profile display name if available, otherwise use post's display name
         const effectiveDisplayName = profile?.displayName || post.displayName;
 
@@ -191,11 +237,23 @@ export class PostService {
     return postsWithImages;
   }
 
-  async getUserPostsWithImages(input: GetUserPostsInput) {
+  /**
+   * A user's posts in the feed, like getListingsWithImages
+   *
+   * @param includeHeld - The viewer is the seller or staff: also return posts
+   *   held for review, and sign the image URLs of those and of a banned
+   *   seller's posts. Nobody else is handed image tokens.
+   */
+  async getUserPostsWithImages(input: GetUserPostsInput, includeHeld = false) {
+    const statuses = includeHeld
+      ? [...FEED_LISTING_STATUSES, ...HELD_LISTING_STATUSES]
+      : FEED_LISTING_STATUSES;
     const userPosts = await this.db
       .select()
       .from(posts)
-      .where(eq(posts.userId, input.userId))
+      .where(
+        and(eq(posts.userId, input.userId), inArray(posts.status, statuses)),
+      )
       .orderBy(desc(posts.createdAt))
       .limit(input.limit)
       .offset(input.offset);
@@ -203,8 +261,6 @@ export class PostService {
     // Get images and profile data for all posts
     const postsWithImages = await Promise.all(
       userPosts.map(async (post) => {
-        const images = await this.getPostImagesData(post.id);
-
         // Get profile data for this user
         const profileResult = await this.db
           .select()
@@ -214,6 +270,15 @@ export class PostService {
 
         const profile = profileResult[0] || null;
 
+        const images = includeHeld
+          ? await withImageTokens(
+              this.env,
+              post,
+              profile?.isBanned === 1,
+              await this.getPostImagesData(post.id),
+            )
+          : await this.getPostImagesData(post.id);
+
         // Use profile display name if available, otherwise use post's display name
         const effectiveDisplayName = profile?.displayName || post.displayName;
 
@@ -246,8 +311,6 @@ export class PostService {
       return null;
     }
 
-    const images = await this.getPostImagesData(post.id);
-
     // Get profile data for this user
     const profileResult = await this.db
       .select()
@@ -257,6 +320,10 @@ export class PostService {
 
     const profile = profileResult[0] || null;
 
+    // Unsigned: this doesn't know who is asking, and the images of listings
+    // that aren't public can only be fetched with a token
+    const images = await this.getPostImagesData(post.id);
+
     // Use profile display name if available, otherwise use post's display name
     const effectiveDisplayName = profile?.displayName || post.displayName;
 
@@ -279,17 +346,8 @@ export class PostService {
       .select()
       .from(postImages)
       .where(eq(postImages.listingId, postId))
-      .orderBy(postImages.uploadOrder);
-
-    return images.map((image) => ({
-      id: image.id,
-      imageKey: image.imageKey,
-      thumbnailKey: image.thumbnailKey,
-      width: image.width,
-      height: image.height,
-      originalName: image.originalName,
-      fileSize: image.fileSize,
-      uploadOrder: image.uploadOrder,
-    }));
+      .orderBy(...LISTING_IMAGE_ORDER);
+
+    return images.map(toImageUrlData);
   }
 }
@@ -22,6 +22,16 @@ export class ProfileService {
     return result[0] || null;
   }
 
+  async setBanned(telegramId: number, banned: boolean): Promise<void> {
+    await this.db
+      .update(userProfiles)
+      .set({
+        isBanned: banned ? 1 : 0,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(eq(userProfiles.telegramId, telegramId));
+  }
+
   async createProfile(
     telegramId: number,
     username?: string,
@@ -92,6 +102,7 @@ export class ProfileService {
   async uploadAvatar(
     telegramId: number,
     imageKey: string,
+    imageSize: number,
   ): Promise<UserProfile> {
     // First, ensure profile exists
     let profile = await this.getProfile(telegramId);
@@ -103,6 +114,7 @@ export class ProfileService {
       .update(userProfiles)
       .set({
         profileImageKey: imageKey,
+        profileImageSize: imageSize,
         updatedAt: new Date().toISOString(),
       })
       .where(eq(userProfiles.telegramId, telegramId))
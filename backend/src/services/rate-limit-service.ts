@@ -0,0 +1,90 @@
+import type { Env } from "../types/env";
+import {
+  RATE_LIMIT_POLICIES,
+  RATE_LIMIT_MIN_WINDOW_SECONDS,
+  type RateLimitPolicy,
+  type RateLimitPolicyName,
+} from "../../../shared/constants";
+import type { RateLimitOverrides } from "../../../shared/schemas";
+
+const OVERRIDES_KEY = "rate_limits:overrides";
+const OVERRIDES_CACHE_SECONDS = 60; // How long edge caches may serve old overrides
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfter: number; // Seconds until the current window ends
+}
+
+/**
+ * Fixed-window request counters in the SESSIONS KV. KV writes aren't atomic
+ * and take time to propagate, so a burst across locations can overshoot a
+ * limit slightly; that's fine for stopping abuse, not for exact quotas.
+ */
+export class RateLimitService {
+  constructor(private env: Env) {}
+
+  /**
+   * Defaults with the staff overrides applied
+   */
+  async getPolicies(): Promise<Record<RateLimitPolicyName, RateLimitPolicy>> {
+    const overrides = await this.getOverrides();
+    const policies = { ...RATE_LIMIT_POLICIES } as Record<
+      RateLimitPolicyName,
+      RateLimitPolicy
+    >;
+    for (const [name, override] of Object.entries(overrides)) {
+      const policyName = name as RateLimitPolicyName;
+      if (policies[policyName] && override) {
+        policies[policyName] = { ...policies[policyName], ...override };
+      }
+    }
+    return policies;
+  }
+
+  async getOverrides(): Promise<RateLimitOverrides> {
+    const overrides = await this.env.SESSIONS.get<RateLimitOverrides>(
+      OVERRIDES_KEY,
+      { type: "json", cacheTtl: OVERRIDES_CACHE_SECONDS },
+    );
+    return overrides ?? {};
+  }
+
+  async setOverrides(overrides: RateLimitOverrides): Promise<void> {
+    await this.env.SESSIONS.put(OVERRIDES_KEY, JSON.stringify(overrides));
+  }
+
+  /**
+   * Count a request against a policy
+   *
+   * @param subject - Who is limited, e.g. `user:123` or `ip:203.0.113.7`
+   */
+  async hit(
+    policyName: RateLimitPolicyName,
+    subject: string,
+    now = Date.now(),
+  ): Promise<RateLimitResult> {
+    const policy = (await this.getPolicies())[policyName];
+    const windowMs = policy.windowSeconds * 1000;
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const retryAfter = Math.ceil((windowStart + windowMs - now) / 1000);
+    const key = `ratelimit:${policyName}:${subject}:${windowStart}`;
+
+    const count = parseInt((await this.env.SESSIONS.get(key)) ?? "0", 10);
+    if (count >= policy.limit) {
+      return { allowed: false, limit: policy.limit, remaining: 0, retryAfter };
+    }
+
+    await this.env.SESSIONS.put(key, String(count + 1), {
+      expirationTtl: Math.max(retryAfter, RATE_LIMIT_MIN_WINDOW_SECONDS),
+    });
+
+    return {
+      allowed: true,
+      limit: policy.limit,
+      remaining: policy.limit - count - 1,
+      retryAfter,
+    };
+  }
+}
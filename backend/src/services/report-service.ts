@@ -0,0 +1,327 @@
+import {
+  and,
+  count,
+  countDistinct,
+  desc,
+  eq,
+  inArray,
+  max,
+  min,
+  sql,
+} from "drizzle-orm";
+import type { Database } from "../db";
+import { listings, reports, userProfiles } from "../db/schema";
+import type { Listing, Report } from "../db/schema";
+import type { Env } from "../types/env";
+import {
+  sendListingHeldNotification,
+  sendReportOutcomeNotification,
+} from "./notification-service";
+import {
+  FEED_LISTING_STATUSES,
+  LISTING_STATUS,
+  REPORT_AUTO_HIDE_THRESHOLD,
+  type ReportAction,
+  type ReportReason,
+  type ReportTargetType,
+} from "../../../shared/constants";
+import type { CreateReportInput } from "../../../shared/schemas";
+
+export interface ReportQueueFilters {
+  targetType?: ReportTargetType;
+  limit: number;
+  offset: number;
+}
+
+// What staff need to recognise a reported target without opening it
+type ReportedListing = Pick<Listing, "id" | "title" | "status" | "userId">;
+interface ReportedUser {
+  telegramId: number;
+  username: string | null;
+  displayName: string | null;
+  isBanned: number;
+}
+
+export interface ReportGroup {
+  targetType: ReportTargetType;
+  targetId: number;
+  reportCount: number;
+  reporterCount: number;
+  reasons: ReportReason[];
+  firstReportedAt: string;
+  lastReportedAt: string;
+  target: ReportedListing | ReportedUser | null; // null once deleted
+  reports: Report[];
+}
+
+export class ReportService {
+  constructor(
+    private db: Database,
+    private env: Env,
+  ) {}
+
+  /**
+   * File a report. Returns null if the reporter already has an open report
+   * on this target.
+   */
+  async createReport(
+    reporterId: number,
+    input: CreateReportInput,
+  ): Promise<Report | null> {
+    const [report] = await this.db
+      .insert(reports)
+      .values({
+        reporterId,
+        targetType: input.targetType,
+        targetId: input.targetId,
+        reason: input.reason,
+        details: input.details ?? null,
+        createdAt: new Date().toISOString(),
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    return report ?? null;
+  }
+
+  /**
+   * Hide a listing from the feed once enough distinct users have open
+   * reports against it, and tell the seller. Only listings currently in the
+   * feed are held; their status is kept so a dismissal can restore it.
+   *
+   * @returns The held listing, or null if it wasn't held by this call
+   */
+  async holdListingIfReported(listingId: number): Promise<Listing | null> {
+    const [result] = await this.db
+      .select({ reporters: countDistinct(reports.reporterId) })
+      .from(reports)
+      .where(this.openReportsFor("listing", listingId));
+
+    if ((result?.reporters ?? 0) < REPORT_AUTO_HIDE_THRESHOLD) {
+      return null;
+    }
+
+    const [held] = await this.db
+      .update(listings)
+      .set({
+        status: LISTING_STATUS.UNDER_REVIEW,
+        statusBeforeReview: sql`${listings.status}`,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(
+        and(
+          eq(listings.id, listingId),
+          inArray(listings.status, FEED_LISTING_STATUSES),
+        ),
+      )
+      .returning();
+
+    if (!held) {
+      return null;
+    }
+
+    await sendListingHeldNotification(this.env, held.userId, held);
+    return held;
+  }
+
+  /**
+   * Put a held listing back in the status it had before review. Listings
+   * that are no longer under review are left alone.
+   */
+  async releaseListing(listingId: number): Promise<Listing | null> {
+    const [released] = await this.db
+      .update(listings)
+      .set({
+        status: sql`coalesce(${listings.statusBeforeReview}, ${LISTING_STATUS.ACTIVE})`,
+        statusBeforeReview: null,
+        updatedAt: new Date().toISOString(),
+      })
+      .where(
+        and(
+          eq(listings.id, listingId),
+          eq(listings.status, LISTING_STATUS.UNDER_REVIEW),
+        ),
+      )
+      .returning();
+
+    return released ?? null;
+  }
+
+  /**
+   * Open reports grouped by target, most-reported first
+   */
+  async getQueue(
+    filters: ReportQueueFilters,
+  ): Promise<{ groups: ReportGroup[]; total: number }> {
+    const where = and(
+      eq(reports.status, "open"),
+      filters.targetType
+        ? eq(reports.targetType, filters.targetType)
+        : undefined,
+    );
+
+    const [rows, [totals]] = await Promise.all([
+      this.db
+        .select({
+          targetType: reports.targetType,
+          targetId: reports.targetId,
+          reportCount: count(),
+          reporterCount: countDistinct(reports.reporterId),
+          reasons: sql<string>`group_concat(distinct ${reports.reason})`,
+          firstReportedAt: min(reports.createdAt),
+          lastReportedAt: max(reports.createdAt),
+        })
+        .from(reports)
+        .where(where)
+        .groupBy(reports.targetType, reports.targetId)
+        .orderBy(
+          desc(countDistinct(reports.reporterId)),
+          desc(max(reports.createdAt)),
+        )
+        .limit(filters.limit)
+        .offset(filters.offset),
+      this.db
+        .select({
+          total: sql<number>`count(distinct ${reports.targetType} || ':' || ${reports.targetId})`,
+        })
+        .from(reports)
+        .where(where),
+    ]);
+
+    if (rows.length === 0) {
+      return { groups: [], total: totals?.total ?? 0 };
+    }
+
+    const idsOf = (type: ReportTargetType) =>
+      rows.filter((row) => row.targetType === type).map((row) => row.targetId);
+    const listingIds = idsOf("listing");
+    const userIds = idsOf("user");
+
+    const [reportedListings, reportedUsers, openReports] = await Promise.all([
+      listingIds.length > 0
+        ? this.db
+            .select({
+              id: listings.id,
+              title: listings.title,
+              status: listings.status,
+              userId: listings.userId,
+            })
+            .from(listings)
+            .where(inArray(listings.id, listingIds))
+        : [],
+      userIds.length > 0
+        ? this.db
+            .select({
+              telegramId: userProfiles.telegramId,
+              username: userProfiles.username,
+              displayName: userProfiles.displayName,
+              isBanned: userProfiles.isBanned,
+            })
+            .from(userProfiles)
+            .where(inArray(userProfiles.telegramId, userIds))
+        : [],
+      this.db
+        .select()
+        .from(reports)
+        .where(
+          and(
+            where,
+            inArray(
+              reports.targetId,
+              rows.map((row) => row.targetId),
+            ),
+          ),
+        )
+        .orderBy(desc(reports.createdAt)),
+    ]);
+
+    const groups = rows.map((row) => {
+      const targetType = row.targetType as ReportTargetType;
+      const target =
+        targetType === "listing"
+          ? reportedListings.find((listing) => listing.id === row.targetId)
+          : reportedUsers.find((user) => user.telegramId === row.targetId);
+
+      return {
+        targetType,
+        targetId: row.targetId,
+        reportCount: row.reportCount,
+        reporterCount: row.reporterCount,
+        reasons: row.reasons.split(",") as ReportReason[],
+        firstReportedAt: row.firstReportedAt ?? "",
+        lastReportedAt: row.lastReportedAt ?? "",
+        target: target ?? null,
+        reports: openReports.filter(
+          (report) =>
+            report.targetType === targetType &&
+            report.targetId === row.targetId,
+        ),
+      };
+    });
+
+    return { groups, total: totals?.total ?? 0 };
+  }
+
+  async getOpenReports(
+    targetType: ReportTargetType,
+    targetId: number,
+  ): Promise<Report[]> {
+    return this.db
+      .select()
+      .from(reports)
+      .where(this.openReportsFor(targetType, targetId))
+      .orderBy(desc(reports.createdAt));
+  }
+
+  /**
+   * Close every open report on a target with the action staff took
+   *
+   * @returns The reports that were closed by this call
+   */
+  async resolveReports(
+    targetType: ReportTargetType,
+    targetId: number,
+    resolution: ReportAction,
+    resolvedBy: number,
+  ): Promise<Report[]> {
+    return this.db
+      .update(reports)
+      .set({
+        status: "resolved",
+        resolution,
+        resolvedBy,
+        resolvedAt: new Date().toISOString(),
+      })
+      .where(this.openReportsFor(targetType, targetId))
+      .returning();
+  }
+
+  /**
+   * Tell each reporter once what came of their reports
+   */
+  async notifyReporters(
+    resolved: Report[],
+    targetLabel: string,
+    resolution: ReportAction,
+  ): Promise<void> {
+    const reporterIds = [...new Set(resolved.map((r) => r.reporterId))];
+    await Promise.all(
+      reporterIds.map((reporterId) =>
+        sendReportOutcomeNotification(
+          this.env,
+          reporterId,
+          targetLabel,
+          resolution,
+        ),
+      ),
+    );
+  }
+
+  private openReportsFor(targetType: ReportTargetType, targetId: number) {
+    return and(
+      eq(reports.targetType, targetType),
+      eq(reports.targetId, targetId),
+      eq(reports.status, "open"),
+    );
+  }
+}
@@ -0,0 +1,191 @@
+import { eq, and, desc, avg, count, isNull } from "drizzle-orm";
+import type { Database } from "../db";
+import { purchases, reviews, userProfiles } from "../db/schema";
+import type { Listing, Purchase, Review } from "../db/schema";
+import type { Env } from "../types/env";
+import type { CreateReviewInput } from "../models/review";
+import { sendNewReviewNotification } from "./notification-service";
+
+export interface SellerRating {
+  average: number | null; // null until the seller has a visible review
+  count: number;
+}
+
+export class ReviewService {
+  constructor(
+    private db: Database,
+    private env: Env,
+  ) {}
+
+  /**
+   * Record that a buyer bought a listing. Marking the same listing twice
+   * returns the existing purchase.
+   */
+  async markPurchased(listing: Listing, buyerId: number): Promise<Purchase> {
+    await this.db
+      .insert(purchases)
+      .values({
+        listingId: listing.id,
+        listingTitle: listing.title,
+        buyerId,
+        sellerId: listing.userId,
+        createdAt: new Date().toISOString(),
+      })
+      .onConflictDoNothing();
+
+    const purchase = await this.getPurchase(listing.id, buyerId);
+    return purchase!;
+  }
+
+  async getPurchase(listingId: number, buyerId: number) {
+    const [purchase] = await this.db
+      .select()
+      .from(purchases)
+      .where(
+        and(eq(purchases.listingId, listingId), eq(purchases.buyerId, buyerId)),
+      )
+      .limit(1);
+
+    return purchase;
+  }
+
+  async getReviewForPurchase(purchaseId: number) {
+    const [review] = await this.db
+      .select()
+      .from(reviews)
+      .where(eq(reviews.purchaseId, purchaseId))
+      .limit(1);
+
+    return review;
+  }
+
+  async getReviewById(reviewId: number) {
+    const [review] = await this.db
+      .select()
+      .from(reviews)
+      .where(eq(reviews.id, reviewId))
+      .limit(1);
+
+    return review;
+  }
+
+  /**
+   * Create the buyer's review for a purchase and let the seller know
+   */
+  async createReview(purchase: Purchase, input: CreateReviewInput) {
+    const now = new Date().toISOString();
+
+    const [review] = await this.db
+      .insert(reviews)
+      .values({
+        purchaseId: purchase.id,
+        sellerId: purchase.sellerId,
+        reviewerId: purchase.buyerId,
+        rating: input.rating,
+        body: input.body || null,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+
+    await sendNewReviewNotification(this.env, purchase.sellerId, {
+      rating: review.rating,
+      body: review.body,
+      listingTitle: purchase.listingTitle,
+    });
+
+    return review;
+  }
+
+  /**
+   * Get reviews of a seller, newest first
+   *
+   * @param includeHidden - Include reviews hidden by admins (admin view)
+   */
+  async getSellerReviews(sellerId: number, includeHidden = false) {
+    const rows = await this.db
+      .select({
+        review: reviews,
+        listingId: purchases.listingId,
+        listingTitle: purchases.listingTitle,
+        reviewerName: userProfiles.displayName,
+      })
+      .from(reviews)
+      .innerJoin(purchases, eq(reviews.purchaseId, purchases.id))
+      .leftJoin(userProfiles, eq(reviews.reviewerId, userProfiles.telegramId))
+      .where(
+        and(
+          eq(reviews.sellerId, sellerId),
+          ...(includeHidden ? [] : [eq(reviews.isHidden, 0)]),
+        ),
+      )
+      .orderBy(desc(reviews.createdAt), desc(reviews.id));
+
+    return rows.map((row) => ({
+      ...this.formatReview(row.review),
+      reviewer: {
+        telegramId: row.review.reviewerId,
+        displayName: row.reviewerName || `User ${row.review.reviewerId}`,
+      },
+      listing: { id: row.listingId, title: row.listingTitle },
+    }));
+  }
+
+  /**
+   * Average rating over a seller's visible reviews
+   */
+  async getSellerRating(sellerId: number): Promise<SellerRating> {
+    const [result] = await this.db
+      .select({ average: avg(reviews.rating), total: count() })
+      .from(reviews)
+      .where(and(eq(reviews.sellerId, sellerId), eq(reviews.isHidden, 0)));
+
+    return {
+      average:
+        result?.average != null
+          ? Math.round(parseFloat(result.average) * 10) / 10
+          : null,
+      count: result?.total ?? 0,
+    };
+  }
+
+  /**
+   * Add the seller's public reply. Each review gets at most one reply.
+   *
+   * @returns The updated review, or undefined if it was already answered
+   */
+  async replyToReview(reviewId: number, reply: string) {
+    const now = new Date().toISOString();
+
+    const [updated] = await this.db
+      .update(reviews)
+      .set({ sellerReply: reply, sellerRepliedAt: now, updatedAt: now })
+      .where(and(eq(reviews.id, reviewId), isNull(reviews.sellerReply)))
+      .returning();
+
+    return updated;
+  }
+
+  async setHidden(reviewId: number, hidden: boolean) {
+    const [updated] = await this.db
+      .update(reviews)
+      .set({ isHidden: hidden ? 1 : 0, updatedAt: new Date().toISOString() })
+      .where(eq(reviews.id, reviewId))
+      .returning();
+
+    return updated;
+  }
+
+  formatReview(review: Review) {
+    return {
+      id: review.id,
+      sellerId: review.sellerId,
+      rating: review.rating,
+      body: review.body,
+      sellerReply: review.sellerReply,
+      sellerRepliedAt: review.sellerRepliedAt,
+      isHidden: review.isHidden === 1,
+      createdAt: review.createdAt,
+    };
+  }
+}
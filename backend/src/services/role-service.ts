@@ -0,0 +1,57 @@
+import { desc, eq } from "drizzle-orm";
+import type { Database } from "../db";
+import { userRoles } from "../db/schema";
+import type { RoleGrant } from "../db/schema";
+import type { Env } from "../types/env";
+import type { StaffRole, UserRole } from "../../../shared/constants";
+
+export class RoleService {
+  constructor(
+    private db: Database,
+    private env: Env,
+  ) {}
+
+  /**
+   * Role granted in the table. Use getAdminRole to include the bootstrap owner.
+   */
+  async getRole(telegramId: number): Promise<UserRole> {
+    const [grant] = await this.db
+      .select({ role: userRoles.role })
+      .from(userRoles)
+      .where(eq(userRoles.telegramId, telegramId))
+      .limit(1);
+
+    return (grant?.role as StaffRole | undefined) ?? "user";
+  }
+
+  async listRoles(): Promise<RoleGrant[]> {
+    return this.db.select().from(userRoles).orderBy(desc(userRoles.updatedAt));
+  }
+
+  async grantRole(
+    telegramId: number,
+    role: StaffRole,
+    grantedBy: number,
+  ): Promise<RoleGrant> {
+    const now = new Date().toISOString();
+    const [grant] = await this.db
+      .insert(userRoles)
+      .values({ telegramId, role, grantedBy, createdAt: now, updatedAt: now })
+      .onConflictDoUpdate({
+        target: userRoles.telegramId,
+        set: { role, grantedBy, updatedAt: now },
+      })
+      .returning();
+
+    return grant;
+  }
+
+  async revokeRole(telegramId: number): Promise<boolean> {
+    const removed = await this.db
+      .delete(userRoles)
+      .where(eq(userRoles.telegramId, telegramId))
+      .returning({ telegramId: userRoles.telegramId });
+
+    return removed.length > 0;
+  }
+}
@@ -0,0 +1,355 @@
+import { eq, and, ne, inArray, max, count, sql } from "drizzle-orm";
+import type { Database } from "../db";
+import { savedSearches, savedSearchMatches, listings } from "../db/schema";
+import type { Listing, SavedSearch } from "../db/schema";
+import type { Env } from "../types/env";
+import type {
+  CreateSavedSearchInput,
+  SavedSearchFilters,
+  UpdateSavedSearchInput,
+} from "../models/saved-search";
+import { buildFtsExclusionQuery, buildFtsMatchQuery } from "./listing-search";
+import { sendSavedSearchDigest } from "./notification-service";
+import {
+  LISTING_STATUS,
+  SAVED_SEARCH_DIGEST_INTERVAL_MINUTES,
+  SAVED_SEARCH_DIGEST_MAX_LISTINGS,
+} from "../../../shared/constants";
+
+// Pending matches examined per digest run
+const DIGEST_BATCH_SIZE = 500;
+
+export interface DigestRunResult {
+  usersNotified: number;
+  listingsSent: number;
+  skipped: number;
+  rateLimitedUsers: number;
+}
+
+// Matches inserted per statement, keeping under D1's bound parameter limit
+const MATCH_INSERT_CHUNK_SIZE = 20;
+
+/**
+ * Check the price and category part of a saved search against a listing.
+ * Search text is matched separately through the FTS index.
+ */
+export function matchesBasicFilters(
+  filters: SavedSearchFilters,
+  listing: Pick<Listing, "category" | "price">,
+): boolean {
+  if (filters.category && filters.category !== listing.category) return false;
+  if (filters.priceMin !== undefined && listing.price < filters.priceMin)
+    return false;
+  if (filters.priceMax !== undefined && listing.price > filters.priceMax)
+    return false;
+  return true;
+}
+
+/**
+ * Queue a new or bumped listing's saved search alerts once the response has
+ * been sent: matching runs an FTS query per saved search, too slow to hold up
+ * the request. Failures are logged and never reach the seller.
+ */
+export function queueMatchesInBackground(
+  executionCtx: { waitUntil(promise: Promise<unknown>): void },
+  db: Database,
+  env: Env,
+  listing: Listing,
+): void {
+  executionCtx.waitUntil(
+    new SavedSearchService(db, env)
+      .queueMatchesForListing(listing)
+      .catch((error) =>
+        console.error("Failed to queue saved search matches:", error),
+      ),
+  );
+}
+
+export class SavedSearchService {
+  constructor(
+    private db: Database,
+    private env: Env,
+  ) {}
+
+  async getUserSavedSearches(userId: number) {
+    return await this.db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId))
+      .orderBy(savedSearches.createdAt);
+  }
+
+  async countUserSavedSearches(userId: number): Promise<number> {
+    const [result] = await this.db
+      .select({ total: count() })
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId));
+
+    return result?.total ?? 0;
+  }
+
+  async createSavedSearch(userId: number, input: CreateSavedSearchInput) {
+    const now = new Date().toISOString();
+
+    const [savedSearch] = await this.db
+      .insert(savedSearches)
+      .values({
+        userId,
+        name: input.name,
+        filters: JSON.stringify(input.filters),
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+
+    return savedSearch;
+  }
+
+  async updateSavedSearch(
+    id: number,
+    userId: number,
+    input: UpdateSavedSearchInput,
+  ) {
+    const [savedSearch] = await this.db
+      .update(savedSearches)
+      .set({
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.filters !== undefined && {
+          filters: JSON.stringify(input.filters),
+        }),
+        ...(input.isMuted !== undefined && { isMuted: input.isMuted ? 1 : 0 }),
+        updatedAt: new Date().toISOString(),
+      })
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)))
+      .returning();
+
+    return savedSearch;
+  }
+
+  async deleteSavedSearch(id: number, userId: number) {
+    const [deleted] = await this.db
+      .delete(savedSearches)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)))
+      .returning();
+
+    return deleted;
+  }
+
+  /**
+   * Mute every saved search a user owns (from the digest's mute button)
+   */
+  async muteAllForUser(userId: number): Promise<number> {
+    const muted = await this.db
+      .update(savedSearches)
+      .set({ isMuted: 1, updatedAt: new Date().toISOString() })
+      .where(
+        and(eq(savedSearches.userId, userId), eq(savedSearches.isMuted, 0)),
+      )
+      .returning({ id: savedSearches.id });
+
+    return muted.length;
+  }
+
+  formatSavedSearch(savedSearch: SavedSearch) {
+    return {
+      id: savedSearch.id,
+      name: savedSearch.name,
+      filters: this.parseFilters(savedSearch),
+      isMuted: savedSearch.isMuted === 1,
+      createdAt: savedSearch.createdAt,
+      updatedAt: savedSearch.updatedAt,
+    };
+  }
+
+  /**
+   * Queue a new or bumped listing for every unmuted saved search it matches.
+   * A listing is only ever queued once per saved search, so repeated bumps
+   * don't re-alert the same buyer.
+   *
+   * @returns Number of newly queued matches
+   */
+  async queueMatchesForListing(listing: Listing): Promise<number> {
+    if (listing.status !== LISTING_STATUS.ACTIVE) return 0;
+
+    const candidates = await this.db
+      .select()
+      .from(savedSearches)
+      .where(
+        and(
+          eq(savedSearches.isMuted, 0),
+          ne(savedSearches.userId, listing.userId),
+        ),
+      );
+
+    const matched: SavedSearch[] = [];
+    for (const savedSearch of candidates) {
+      const filters = this.parseFilters(savedSearch);
+      if (!matchesBasicFilters(filters, listing)) continue;
+
+      if (filters.search) {
+        const matchQuery = buildFtsMatchQuery(filters.search);
+        const exclusionQuery = buildFtsExclusionQuery(filters.search);
+        if (matchQuery) {
+          const hits = await this.db.all<{ rowid: number }>(
+            sql`SELECT rowid FROM listings_fts WHERE listings_fts MATCH ${matchQuery} AND rowid = ${listing.id}`,
+          );
+          if (hits.length === 0) continue;
+        } else if (exclusionQuery) {
+          const excluded = await this.db.all<{ rowid: number }>(
+            sql`SELECT rowid FROM listings_fts WHERE listings_fts MATCH ${exclusionQuery} AND rowid = ${listing.id}`,
+          );
+          if (excluded.length > 0) continue;
+        } else {
+          continue;
+        }
+      }
+
+      matched.push(savedSearch);
+    }
+
+    // D1 caps bound parameters per statement and each row binds 4 (status
+    // included), so insert in chunks
+    let queued = 0;
+    for (let i = 0; i < matched.length; i += MATCH_INSERT_CHUNK_SIZE) {
+      const inserted = await this.db
+        .insert(savedSearchMatches)
+        .values(
+          matched.slice(i, i + MATCH_INSERT_CHUNK_SIZE).map((savedSearch) => ({
+            savedSearchId: savedSearch.id,
+            listingId: listing.id,
+            userId: savedSearch.userId,
+          })),
+        )
+        .onConflictDoNothing()
+        .returning({ id: savedSearchMatches.id });
+      queued += inserted.length;
+    }
+
+    return queued;
+  }
+
+  /**
+   * Send one digest DM per user with pending matches, at most once per
+   * SAVED_SEARCH_DIGEST_INTERVAL_MINUTES. Matches for muted searches or
+   * listings that are no longer active are marked skipped.
+   */
+  async sendPendingDigests(): Promise<DigestRunResult> {
+    const pending = await this.db
+      .select({
+        matchId: savedSearchMatches.id,
+        userId: savedSearchMatches.userId,
+        listingId: savedSearchMatches.listingId,
+        searchName: savedSearches.name,
+        isMuted: savedSearches.isMuted,
+        title: listings.title,
+        price: listings.price,
+        listingStatus: listings.status,
+      })
+      .from(savedSearchMatches)
+      .innerJoin(
+        savedSearches,
+        eq(savedSearchMatches.savedSearchId, savedSearches.id),
+      )
+      .innerJoin(listings, eq(savedSearchMatches.listingId, listings.id))
+      .where(eq(savedSearchMatches.status, "pending"))
+      .orderBy(savedSearchMatches.id)
+      .limit(DIGEST_BATCH_SIZE);
+
+    const result: DigestRunResult = {
+      usersNotified: 0,
+      listingsSent: 0,
+      skipped: 0,
+      rateLimitedUsers: 0,
+    };
+
+    const staleIds = pending
+      .filter(
+        (match) =>
+          match.isMuted === 1 || match.listingStatus !== LISTING_STATUS.ACTIVE,
+      )
+      .map((match) => match.matchId);
+    if (staleIds.length > 0) {
+      await this.markMatches(staleIds, "skipped");
+      result.skipped = staleIds.length;
+    }
+
+    const byUser = new Map<number, typeof pending>();
+    for (const match of pending) {
+      if (staleIds.includes(match.matchId)) continue;
+      byUser.set(match.userId, [...(byUser.get(match.userId) ?? []), match]);
+    }
+
+    const now = Date.now();
+    const intervalMs = SAVED_SEARCH_DIGEST_INTERVAL_MINUTES * 60 * 1000;
+
+    for (const [userId, matches] of byUser) {
+      const [lastDigest] = await this.db
+        .select({ notifiedAt: max(savedSearchMatches.notifiedAt) })
+        .from(savedSearchMatches)
+        .where(
+          and(
+            eq(savedSearchMatches.userId, userId),
+            eq(savedSearchMatches.status, "sent"),
+          ),
+        );
+      if (lastDigest?.notifiedAt && now - lastDigest.notifiedAt < intervalMs) {
+        result.rateLimitedUsers++;
+        continue;
+      }
+
+      // A listing can match several of the user's searches; list it once
+      const listingIds = [
+        ...new Set(matches.map((match) => match.listingId)),
+      ].slice(0, SAVED_SEARCH_DIGEST_MAX_LISTINGS);
+      const included = matches.filter((match) =>
+        listingIds.includes(match.listingId),
+      );
+
+      await sendSavedSearchDigest(
+        this.env,
+        userId,
+        listingIds.map((listingId) => {
+          const match = included.find((m) => m.listingId === listingId)!;
+          return {
+            listingId,
+            title: match.title,
+            price: match.price,
+            searchName: match.searchName,
+          };
+        }),
+      );
+
+      await this.markMatches(
+        included.map((match) => match.matchId),
+        "sent",
+        now,
+      );
+      result.usersNotified++;
+      result.listingsSent += listingIds.length;
+    }
+
+    return result;
+  }
+
+  private async markMatches(
+    matchIds: number[],
+    status: "sent" | "skipped",
+    notifiedAt?: number,
+  ) {
+    // D1 caps bound parameters per statement, so update in chunks
+    for (let i = 0; i < matchIds.length; i += 90) {
+      await this.db
+        .update(savedSearchMatches)
+        .set({ status, notifiedAt: notifiedAt ?? null })
+        .where(inArray(savedSearchMatches.id, matchIds.slice(i, i + 90)));
+    }
+  }
+
+  private parseFilters(savedSearch: SavedSearch): SavedSearchFilters {
+    try {
+      return JSON.parse(savedSearch.filters) as SavedSearchFilters;
+    } catch {
+      return {};
+    }
+  }
+}
@@ -0,0 +1,285 @@
+import { and, eq, desc } from "drizzle-orm";
+import type { Database } from "../db";
+import { cronRuns } from "../db/schema";
+import type { CronRun } from "../db/schema";
+import type { Env } from "../types/env";
+import { ListingService } from "./listing-service";
+import { ImageService } from "./image-service";
+import { SavedSearchService } from "./saved-search-service";
+import { FavoriteService } from "./favorite-service";
+import { AnalyticsService } from "./analytics-service";
+import { BanService } from "./ban-service";
+import { UploadSessionService } from "./upload-session-service";
+import { StorageService } from "./storage-service";
+import {
+  sendBanNotification,
+  sendExpiryReminderNotification,
+} from "./notification-service";
+import {
+  EXPIRY_REMINDER_HOURS,
+  ARCHIVED_PURGE_DAYS,
+  type CronJob,
+} from "../../../shared/constants";
+
+export type { CronJob };
+
+export interface CronJobResult {
+  itemsProcessed: number;
+  details?: Record<string, unknown>;
+}
+
+// Upper bound on listings purged per run, keeps a single invocation short
+const PURGE_BATCH_SIZE = 50;
+
+/**
+ * Runs the scheduled listing lifecycle and ban expiry jobs and records each
+ * run in cron_runs.
+ *
+ * Every job only acts on rows that still need work (status and timestamp
+ * checks live in the queries), so a retried or overlapping run is a no-op
+ * for listings an earlier run already handled.
+ */
+export class SchedulerService {
+  constructor(
+    private db: Database,
+    private env: Env,
+  ) {}
+
+  /**
+   * Mark active listings past their expiry as expired
+   */
+  async runExpiry(): Promise<CronRun> {
+    return this.runJob("expire_listings", async () => {
+      const listingService = new ListingService(this.db, this.env);
+      const expired = await listingService.expireOldListings();
+
+      const favoriteService = new FavoriteService(this.db, this.env);
+      for (const listing of expired) {
+        await favoriteService.notifyWatchers(listing, { type: "expired" });
+      }
+
+      return {
+        itemsProcessed: expired.length,
+        details: { listingIds: expired.map((listing) => listing.id) },
+      };
+    });
+  }
+
+  /**
+   * DM sellers whose listings expire within EXPIRY_REMINDER_HOURS
+   */
+  async runReminders(): Promise<CronRun> {
+    return this.runJob("expiry_reminders", async () => {
+      const listingService = new ListingService(this.db, this.env);
+      const due = await listingService.claimListingsForExpiryReminder(
+        EXPIRY_REMINDER_HOURS * 60 * 60 * 1000,
+      );
+
+      for (const listing of due) {
+        await sendExpiryReminderNotification(this.env, listing.userId, {
+          id: listing.id,
+          title: listing.title,
+          expiresAt: listing.expiresAt,
+        });
+      }
+
+      return {
+        itemsProcessed: due.length,
+        details: { listingIds: due.map((listing) => listing.id) },
+      };
+    });
+  }
+
+  /**
+   * DM buyers the listings that matched their saved searches since the last digest
+   */
+  async runSavedSearchDigests(): Promise<CronRun> {
+    return this.runJob("saved_search_digests", async () => {
+      const savedSearchService = new SavedSearchService(this.db, this.env);
+      const result = await savedSearchService.sendPendingDigests();
+
+      return {
+        itemsProcessed: result.listingsSent,
+        details: { ...result },
+      };
+    });
+  }
+
+  /**
+   * Fold raw listing events into the daily stats rollup
+   */
+  async runAnalyticsRollup(): Promise<CronRun> {
+    return this.runJob("analytics_rollup", async () => {
+      const analyticsService = new AnalyticsService(this.db, this.env);
+      const result = await analyticsService.rollupDailyStats();
+
+      return {
+        itemsProcessed: result.rowsUpdated,
+        details: { ...result },
+      };
+    });
+  }
+
+  /**
+   * Lift temporary bans whose expiry has passed and tell the users
+   */
+  async runBanExpiry(): Promise<CronRun> {
+    return this.runJob("lift_expired_bans", async () => {
+      const banService = new BanService(this.db, this.env);
+      const lifted = await banService.liftExpiredBans();
+
+      for (const ban of lifted) {
+        await sendBanNotification(this.env, ban.telegramId, false);
+      }
+
+      return {
+        itemsProcessed: lifted.length,
+        details: { telegramIds: lifted.map((ban) => ban.telegramId) },
+      };
+    });
+  }
+
+  /**
+   * Drop image upload sessions that expired without a commit, with their
+   * staged files
+   */
+  async runUploadSessionPurge(): Promise<CronRun> {
+    return this.runJob("purge_upload_sessions", async () => {
+      const uploadSessionService = new UploadSessionService(this.db, this.env);
+      const { sessionIds, strayObjects, hasMore } =
+        await uploadSessionService.purgeExpiredSessions();
+
+      return {
+        itemsProcessed: sessionIds.length,
+        details: { sessionIds, strayObjects, hasMore },
+      };
+    });
+  }
+
+  /**
+   * Delete R2 images and avatars nothing refers to any more. Each run covers
+   * part of the bucket and carries on where the last successful one stopped.
+   */
+  async runOrphanedImageSweep(): Promise<CronRun> {
+    return this.runJob("purge_orphaned_images", async () => {
+      const [last] = await this.db
+        .select({ details: cronRuns.details })
+        .from(cronRuns)
+        .where(
+          and(
+            eq(cronRuns.job, "purge_orphaned_images"),
+            eq(cronRuns.status, "succeeded"),
+          ),
+        )
+        .orderBy(desc(cronRuns.id))
+        .limit(1);
+      const cursor: string | null = last?.details
+        ? (JSON.parse(last.details).cursor ?? null)
+        : null;
+
+      const storageService = new StorageService(this.db, this.env);
+      const result = await storageService.sweepOrphanedObjects(cursor);
+
+      return {
+        itemsProcessed: result.deleted,
+        details: { ...result },
+      };
+    });
+  }
+
+  /**
+   * Delete listings archived longer than ARCHIVED_PURGE_DAYS, with their R2 images
+   */
+  async runCleanup(): Promise<CronRun> {
+    return this.runJob("purge_archived", async () => {
+      const listingService = new ListingService(this.db, this.env);
+      const imageService = new ImageService(this.db, this.env.IMAGES);
+      const cutoff = new Date(
+        Date.now() - ARCHIVED_PURGE_DAYS * 24 * 60 * 60 * 1000,
+      ).toISOString();
+
+      const stale = await listingService.getArchivedListingsUpdatedBefore(
+        cutoff,
+        PURGE_BATCH_SIZE,
+      );
+
+      const purgedIds: number[] = [];
+      const failedIds: number[] = [];
+      for (const listing of stale) {
+        try {
+          await imageService.cleanupListingImages(listing.id);
+          await listingService.deleteListingByIdOnly(listing.id);
+          purgedIds.push(listing.id);
+        } catch (error) {
+          console.error(`Failed to purge listing ${listing.id}:`, error);
+          failedIds.push(listing.id);
+        }
+      }
+
+      return {
+        itemsProcessed: purgedIds.length,
+        details: {
+          listingIds: purgedIds,
+          failedIds,
+          hasMore: stale.length === PURGE_BATCH_SIZE,
+        },
+      };
+    });
+  }
+
+  /**
+   * Get the most recent runs, optionally for a single job
+   */
+  async getRecentRuns(limit: number, job?: CronJob): Promise<CronRun[]> {
+    const query = this.db.select().from(cronRuns);
+
+    return await (job ? query.where(eq(cronRuns.job, job)) : query)
+      .orderBy(desc(cronRuns.id))
+      .limit(limit);
+  }
+
+  private async runJob(
+    job: CronJob,
+    fn: () => Promise<CronJobResult>,
+  ): Promise<CronRun> {
+    const [run] = await this.db
+      .insert(cronRuns)
+      .values({
+        job,
+        status: "running",
+        startedAt: new Date().toISOString(),
+      })
+      .returning();
+
+    try {
+      const result = await fn();
+
+      const [finished] = await this.db
+        .update(cronRuns)
+        .set({
+          status: "succeeded",
+          itemsProcessed: result.itemsProcessed,
+          details: result.details ? JSON.stringify(result.details) : null,
+          finishedAt: new Date().toISOString(),
+        })
+        .where(eq(cronRuns.id, run.id))
+        .returning();
+
+      return finished;
+    } catch (error) {
+      console.error(`Scheduled job ${job} failed:`, error);
+
+      const [failed] = await this.db
+        .update(cronRuns)
+        .set({
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+          finishedAt: new Date().toISOString(),
+        })
+        .where(eq(cronRuns.id, run.id))
+        .returning();
+
+      return failed;
+    }
+  }
+}
@@ -3,6 +3,36 @@ import type { TelegramUser } from "../models/telegram-user";
 import { getDisplayName } from "../models/telegram-user";
 import { getAdminRole } from "./admin-auth";
 
+const USER_AGENT_MAX_LENGTH = 256;
+
+// How long after a session expires the client can still renew it from
+// initData (see claimRenewal)
+export const SESSION_RENEWAL_WINDOW_SECONDS = 24 * 60 * 60;
+
+// Stored as the metadata of a user's session index key, so listing a user's
+// sessions doesn't need a read per session
+interface SessionIndexMetadata {
+  createdAt: number;
+  expiresAt: number;
+  userAgent?: string;
+}
+
+export interface SessionSummary extends SessionIndexMetadata {
+  id: string; // The session's publicId
+}
+
+/**
+ * Sessions live under `session:<id>`. Each one also has an index key,
+ * `user_session:<userId>:<publicId>`, holding its id with the same TTL, so a
+ * user's sessions can be listed and revoked with a prefix scan. KV deletes
+ * take up to a minute to reach every location, so a revoked session can
+ * outlive its revocation briefly elsewhere.
+ *
+ * The index key and `session_renewal:<id>` (holding the publicId) outlive the
+ * session by SESSION_RENEWAL_WINDOW_SECONDS, so a client whose session
+ * expired while the app stayed open can renew it, unless it was revoked in
+ * the meantime.
+ */
 export class SessionManager {
   private readonly kv: KVNamespace;
   private readonly sessionTTL: number;
@@ -14,12 +44,19 @@ export class SessionManager {
     this.sessionTTL = sessionTTL;
   }
 
-  async createSession(user: TelegramUser): Promise<SessionData> {
+  /**
+   * @param userAgent - The signing-in browser's User-Agent, for the device list
+   */
+  async createSession(
+    user: TelegramUser,
+    userAgent?: string,
+  ): Promise<SessionData> {
     const sessionId = crypto.randomUUID();
     const now = Date.now();
 
     const sessionData: SessionData = {
       sessionId,
+      publicId: crypto.randomUUID(),
       userId: user.id,
       username: user.username,
       displayName: getDisplayName(user),
@@ -27,14 +64,13 @@ export class SessionManager {
       createdAt: now,
       expiresAt: now + this.sessionTTL * 1000,
       isActive: true,
-      role: getAdminRole(user.id, this.env),
+      role: await getAdminRole(user.id, this.env),
       telegramId: user.id,
       isPremium: user.is_premium,
+      userAgent: userAgent?.slice(0, USER_AGENT_MAX_LENGTH),
     };
 
-    await this.kv.put(`session:${sessionId}`, JSON.stringify(sessionData), {
-      expirationTtl: this.sessionTTL,
-    });
+    await this.saveSession(sessionData);
 
     return sessionData;
   }
@@ -45,12 +81,19 @@ export class SessionManager {
     const sessionData = await this.kv.get(`session:${sessionId}`);
     if (!sessionData) return null;
 
+    let session: SessionData;
     try {
-      return JSON.parse(sessionData) as SessionData;
+      session = JSON.parse(sessionData) as SessionData;
     } catch {
       await this.kv.delete(`session:${sessionId}`);
       return null;
     }
+
+    // Roles can change mid-session; never trust the one stored at login
+    return {
+      ...session,
+      role: await getAdminRole(session.telegramId, this.env),
+    };
   }
 
   async refreshSession(sessionId: string): Promise<SessionData | null> {
@@ -62,13 +105,161 @@ export class SessionManager {
       expiresAt: Date.now() + this.sessionTTL * 1000,
     };
 
-    await this.kv.put(`session:${sessionId}`, JSON.stringify(updatedSession), {
-      expirationTtl: this.sessionTTL,
-    });
+    await this.saveSession(updatedSession);
 
     return updatedSession;
   }
 
+  /**
+   * Push a session's expiry back once less than half of its TTL is left, so
+   * active users stay signed in without a KV write on every request
+   *
+   * @returns The session, with the new expiry if it was extended
+   */
+  async slideSession(session: SessionData): Promise<SessionData> {
+    const now = Date.now();
+    if (session.expiresAt - now > (this.sessionTTL * 1000) / 2) {
+      return session;
+    }
+
+    const extended: SessionData = {
+      ...session,
+      expiresAt: now + this.sessionTTL * 1000,
+    };
+    await this.saveSession(extended);
+
+    return extended;
+  }
+
+  /**
+   * Use up an expired session's renewal, so it can be swapped for a new one
+   *
+   * @returns false if the session was revoked, belongs to another user or is
+   *   past its renewal window
+   */
+  async claimRenewal(sessionId: string, userId: number): Promise<boolean> {
+    const publicId = await this.kv.get(this.renewalKey(sessionId));
+    if (!publicId) return false;
+
+    const indexKey = this.indexKey(userId, publicId);
+    if ((await this.kv.get(indexKey)) !== sessionId) return false;
+
+    await Promise.all([
+      this.kv.delete(`session:${sessionId}`),
+      this.kv.delete(indexKey),
+      this.kv.delete(this.renewalKey(sessionId)),
+    ]);
+    return true;
+  }
+
+  /**
+   * End a session, e.g. on logout
+   */
+  async deleteSession(session: SessionData): Promise<void> {
+    await Promise.all([
+      this.kv.delete(`session:${session.sessionId}`),
+      this.kv.delete(this.renewalKey(session.sessionId)),
+      session.publicId
+        ? this.kv.delete(this.indexKey(session.userId, session.publicId))
+        : undefined,
+    ]);
+  }
+
+  /**
+   * A user's sessions, oldest first, including expired ones that can still
+   * be renewed
+   */
+  async listSessions(userId: number): Promise<SessionSummary[]> {
+    const prefix = this.indexPrefix(userId);
+    const sessions: SessionSummary[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.kv.list<SessionIndexMetadata>({ prefix, cursor });
+      for (const key of page.keys) {
+        if (!key.metadata) continue;
+        sessions.push({ id: key.name.slice(prefix.length), ...key.metadata });
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    return sessions.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * End one of a user's sessions by its publicId
+   *
+   * @returns false if the user has no such session
+   */
+  async revokeSession(userId: number, publicId: string): Promise<boolean> {
+    const indexKey = this.indexKey(userId, publicId);
+    const sessionId = await this.kv.get(indexKey);
+    if (!sessionId) return false;
+
+    await Promise.all([
+      this.kv.delete(`session:${sessionId}`),
+      this.kv.delete(indexKey),
+      this.kv.delete(this.renewalKey(sessionId)),
+    ]);
+    return true;
+  }
+
+  /**
+   * End every session a user has, e.g. when they're banned
+   *
+   * @returns How many sessions were ended
+   */
+  async revokeAllSessions(userId: number): Promise<number> {
+    const sessions = await this.listSessions(userId);
+    const revoked = await Promise.all(
+      sessions.map((session) => this.revokeSession(userId, session.id)),
+    );
+    return revoked.filter(Boolean).length;
+  }
+
+  private async saveSession(session: SessionData): Promise<void> {
+    const writes = [
+      this.kv.put(`session:${session.sessionId}`, JSON.stringify(session), {
+        expirationTtl: this.sessionTTL,
+      }),
+    ];
+
+    // Sessions created before the index existed have no publicId and stay
+    // unlisted until they expire
+    if (session.publicId) {
+      const metadata: SessionIndexMetadata = {
+        createdAt: session.createdAt,
+        expiresAt: session.expiresAt,
+        userAgent: session.userAgent,
+      };
+      const expirationTtl = this.sessionTTL + SESSION_RENEWAL_WINDOW_SECONDS;
+      writes.push(
+        this.kv.put(
+          this.indexKey(session.userId, session.publicId),
+          session.sessionId,
+          { expirationTtl, metadata },
+        ),
+        this.kv.put(this.renewalKey(session.sessionId), session.publicId, {
+          expirationTtl,
+        }),
+      );
+    }
+
+    await Promise.all(writes);
+  }
+
+  private renewalKey(sessionId: string): string {
+    return `session_renewal:${sessionId}`;
+  }
+
+  private indexPrefix(userId: number): string {
+    return `user_session:${userId}:`;
+  }
+
+  private indexKey(userId: number, publicId: string): string {
+    return `${this.indexPrefix(userId)}${publicId}`;
+  }
+
   static create(env: Env, sessionTTL?: number): SessionManager {
     return new SessionManager(env.SESSIONS, env, sessionTTL);
   }
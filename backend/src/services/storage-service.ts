@@ -0,0 +1,271 @@
+import { and, count, desc, eq, gt, inArray, sql } from "drizzle-orm";
+import type { Database } from "../db";
+import {
+  listingImages,
+  listings,
+  uploadSessionFiles,
+  uploadSessions,
+  userProfiles,
+} from "../db/schema";
+import type { Env } from "../types/env";
+import { ImageService } from "./image-service";
+import {
+  ORPHANED_IMAGE_GRACE_HOURS,
+  USER_STORAGE_QUOTA_BYTES,
+} from "../../../shared/constants";
+
+// R2 objects a user's listing images and avatar take up, plus what their
+// open upload sessions have reserved
+export interface StorageUsage {
+  telegramId: number;
+  imageCount: number;
+  listingImageBytes: number;
+  avatarBytes: number;
+  reservedBytes: number; // Declared sizes of files in upload sessions not yet committed
+  totalBytes: number;
+  quotaBytes: number;
+}
+
+export interface OrphanSweepResult {
+  scanned: number;
+  deleted: number;
+  deletedBytes: number;
+  cursor: string | null; // Where the next sweep carries on; null once the whole bucket was covered
+}
+
+// Prefixes the sweep may delete from. Staged uploads (uploads/) are purged
+// with their sessions; anything else in the bucket is left alone
+const SWEPT_PREFIXES = ["images/", "profiles/"];
+
+// Keys listed per R2 page, which also bounds the keys looked up per query
+const SWEEP_PAGE_SIZE = 50;
+// Upper bound on pages per sweep, keeps a single invocation short
+const SWEEP_MAX_PAGES = 10;
+
+/**
+ * The objects of a listed R2 page that nothing refers to and that are older
+ * than the grace period, so can't belong to an upload still being saved
+ */
+export function findOrphanedObjects<T extends { key: string; uploaded: Date }>(
+  objects: T[],
+  referencedKeys: Set<string>,
+  now = Date.now(),
+): T[] {
+  const cutoff = now - ORPHANED_IMAGE_GRACE_HOURS * 60 * 60 * 1000;
+
+  return objects.filter(
+    (object) =>
+      SWEPT_PREFIXES.some((prefix) => object.key.startsWith(prefix)) &&
+      object.uploaded.getTime() <= cutoff &&
+      !referencedKeys.has(object.key),
+  );
+}
+
+/**
+ * Whether storing incomingBytes more would take a user over their quota
+ *
+ * @param freedBytes - Stored bytes the upload replaces, e.g. the old avatar
+ */
+export function exceedsStorageQuota(
+  usage: StorageUsage,
+  incomingBytes: number,
+  freedBytes = 0,
+): boolean {
+  return usage.totalBytes - freedBytes + incomingBytes > usage.quotaBytes;
+}
+
+const toMegabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+// Response body for an upload turned down by the quota
+export function storageQuotaError(usage: StorageUsage) {
+  return {
+    error: `Not enough storage left: ${toMegabytes(usage.totalBytes)} of ${toMegabytes(usage.quotaBytes)} MB used`,
+    usedBytes: usage.totalBytes,
+    quotaBytes: usage.quotaBytes,
+  };
+}
+
+/**
+ * Storage accounting per user and reconciliation of the R2 bucket with the
+ * database.
+ *
+ * Usage is summed from the sizes recorded when images and avatars are
+ * stored, and the sizes declared for uploads still in progress. The sweep
+ * deletes objects under images/ and profiles/ that no listing image or
+ * profile refers to any more, e.g. files of listings deleted without their
+ * images or avatars whose replacement failed to clean up.
+ */
+export class StorageService {
+  constructor(
+    private db: Database,
+    private env: Env,
+  ) {}
+
+  async getUserUsage(telegramId: number): Promise<StorageUsage> {
+    const [[images], [profile], reserved] = await Promise.all([
+      this.db
+        .select({
+          imageCount: count(),
+          bytes: sql<number>`coalesce(sum(${listingImages.storedBytes}), 0)`,
+        })
+        .from(listingImages)
+        .innerJoin(listings, eq(listingImages.listingId, listings.id))
+        .where(eq(listings.userId, telegramId)),
+      this.db
+        .select({ bytes: userProfiles.profileImageSize })
+        .from(userProfiles)
+        .where(eq(userProfiles.telegramId, telegramId))
+        .limit(1),
+      this.getReservedBytes([telegramId]),
+    ]);
+
+    const listingImageBytes = images?.bytes ?? 0;
+    const avatarBytes = profile?.bytes ?? 0;
+    const reservedBytes = reserved.get(telegramId) ?? 0;
+    return {
+      telegramId,
+      imageCount: images?.imageCount ?? 0,
+      listingImageBytes,
+      avatarBytes,
+      reservedBytes,
+      totalBytes: listingImageBytes + avatarBytes + reservedBytes,
+      quotaBytes: USER_STORAGE_QUOTA_BYTES,
+    };
+  }
+
+  /**
+   * Users with the most listing image storage, and the total for everyone
+   */
+  async getTopUsers(
+    limit: number,
+  ): Promise<{ users: StorageUsage[]; totalBytes: number }> {
+    const listingImageBytes = sql<number>`sum(${listingImages.storedBytes})`;
+    const avatarBytes = sql<number>`coalesce(max(${userProfiles.profileImageSize}), 0)`;
+
+    const [rows, [images], [avatars]] = await Promise.all([
+      this.db
+        .select({
+          telegramId: listings.userId,
+          imageCount: count(),
+          listingImageBytes,
+          avatarBytes,
+        })
+        .from(listingImages)
+        .innerJoin(listings, eq(listingImages.listingId, listings.id))
+        .leftJoin(userProfiles, eq(listings.userId, userProfiles.telegramId))
+        .groupBy(listings.userId)
+        .orderBy(desc(sql`${listingImageBytes} + ${avatarBytes}`))
+        .limit(limit),
+      this.db
+        .select({
+          bytes: sql<number>`coalesce(sum(${listingImages.storedBytes}), 0)`,
+        })
+        .from(listingImages),
+      this.db
+        .select({
+          bytes: sql<number>`coalesce(sum(${userProfiles.profileImageSize}), 0)`,
+        })
+        .from(userProfiles),
+    ]);
+
+    const reserved = await this.getReservedBytes(
+      rows.map((row) => row.telegramId),
+    );
+
+    return {
+      users: rows.map((row) => {
+        const reservedBytes = reserved.get(row.telegramId) ?? 0;
+        return {
+          ...row,
+          reservedBytes,
+          totalBytes: row.listingImageBytes + row.avatarBytes + reservedBytes,
+          quotaBytes: USER_STORAGE_QUOTA_BYTES,
+        };
+      }),
+      totalBytes: (images?.bytes ?? 0) + (avatars?.bytes ?? 0),
+    };
+  }
+
+  // Bytes each user's open upload sessions will store once committed, so
+  // sessions opened side by side can't each fit under the quota alone
+  private async getReservedBytes(
+    telegramIds: number[],
+  ): Promise<Map<number, number>> {
+    if (telegramIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await this.db
+      .select({
+        telegramId: uploadSessions.userId,
+        bytes: sql<number>`coalesce(sum(${uploadSessionFiles.size}), 0)`,
+      })
+      .from(uploadSessions)
+      .innerJoin(
+        uploadSessionFiles,
+        eq(uploadSessionFiles.sessionId, uploadSessions.id),
+      )
+      .where(
+        and(
+          inArray(uploadSessions.userId, telegramIds),
+          gt(uploadSessions.expiresAt, Date.now()),
+        ),
+      )
+      .groupBy(uploadSessions.userId);
+
+    return new Map(rows.map((row) => [row.telegramId, row.bytes]));
+  }
+
+  /**
+   * Delete orphaned objects from up to SWEEP_MAX_PAGES pages of the bucket,
+   * starting at cursor
+   *
+   * @param cursor - Where the previous sweep stopped; null to start over
+   */
+  async sweepOrphanedObjects(
+    cursor: string | null,
+    now = Date.now(),
+  ): Promise<OrphanSweepResult> {
+    const imageService = new ImageService(this.db, this.env.IMAGES);
+    const result: OrphanSweepResult = {
+      scanned: 0,
+      deleted: 0,
+      deletedBytes: 0,
+      cursor,
+    };
+
+    for (let page = 0; page < SWEEP_MAX_PAGES; page++) {
+      const listed = await this.env.IMAGES.list({
+        limit: SWEEP_PAGE_SIZE,
+        ...(result.cursor ? { cursor: result.cursor } : {}),
+      });
+      result.scanned += listed.objects.length;
+
+      const keys = listed.objects
+        .map((object) => object.key)
+        .filter((key) =>
+          SWEPT_PREFIXES.some((prefix) => key.startsWith(prefix)),
+        );
+      const referenced =
+        keys.length > 0
+          ? await imageService.findReferencedKeys(keys)
+          : new Set<string>();
+
+      const orphans = findOrphanedObjects(listed.objects, referenced, now);
+      if (orphans.length > 0) {
+        await this.env.IMAGES.delete(orphans.map((object) => object.key));
+        result.deleted += orphans.length;
+        for (const object of orphans) {
+          result.deletedBytes += object.size;
+        }
+      }
+
+      result.cursor = listed.truncated ? listed.cursor : null;
+      if (!result.cursor) {
+        break;
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,504 @@
+import { and, asc, count, eq, gt, inArray, lte } from "drizzle-orm";
+import type { Database } from "../db";
+import {
+  uploadSessionFiles,
+  uploadSessionParts,
+  uploadSessions,
+} from "../db/schema";
+import type {
+  ListingImage,
+  UploadSession,
+  UploadSessionFile,
+  UploadSessionPart,
+} from "../db/schema";
+import type { Env } from "../types/env";
+import { ImageService } from "./image-service";
+import { inspectImage } from "./image-processing";
+import { MAX_LISTING_IMAGES } from "../../../shared/constants";
+
+// Files larger than this are sent in parts of exactly this size (the last
+// one shorter); R2 needs every part but the last to be at least 5 MiB
+export const UPLOAD_PART_SIZE = 5 * 1024 * 1024;
+
+// A session expires this long after it was opened or last received data
+export const UPLOAD_SESSION_TTL_MS = 60 * 60 * 1000;
+
+// Upper bound on sessions purged per run, keeps a single invocation short
+const PURGE_BATCH_SIZE = 50;
+
+const STAGING_PREFIX = "uploads/";
+
+export interface UploadSessionDetails {
+  session: UploadSession;
+  files: (UploadSessionFile & { parts: UploadSessionPart[] })[];
+}
+
+export type UploadSessionFileDetails = UploadSessionDetails["files"][number];
+
+// What the client sees: enough to resume, i.e. which files and parts still
+// need sending
+export interface UploadSessionState {
+  id: string;
+  listingId: number;
+  expiresAt: number;
+  partSize: number;
+  files: {
+    slot: number;
+    name: string;
+    size: number;
+    parts: number; // 1 for files sent in a single request
+    receivedParts: number[];
+    uploaded: boolean;
+  }[];
+}
+
+export interface UploadCommitResult {
+  images: ListingImage[];
+  failed: { slot: number; name: string; error: string }[];
+}
+
+/**
+ * How many parts a file of this size is sent in
+ */
+export function uploadPartCount(size: number): number {
+  return Math.max(1, Math.ceil(size / UPLOAD_PART_SIZE));
+}
+
+/**
+ * Length in bytes of a 1-based part of a file of this size
+ */
+export function uploadPartLength(size: number, partNumber: number): number {
+  return Math.min(UPLOAD_PART_SIZE, size - (partNumber - 1) * UPLOAD_PART_SIZE);
+}
+
+function stagingKey(sessionId: string, slot: number): string {
+  return `${STAGING_PREFIX}${sessionId}/${slot}`;
+}
+
+export function toUploadSessionState(
+  details: UploadSessionDetails,
+): UploadSessionState {
+  return {
+    id: details.session.id,
+    listingId: details.session.listingId,
+    expiresAt: details.session.expiresAt,
+    partSize: UPLOAD_PART_SIZE,
+    files: details.files.map((file) => ({
+      slot: file.slot,
+      name: file.originalName,
+      size: file.size,
+      parts: uploadPartCount(file.size),
+      receivedParts: file.parts.map((part) => part.partNumber),
+      uploaded: file.uploadedAt !== null,
+    })),
+  };
+}
+
+/**
+ * Resumable listing image uploads. A session reserves a slot per file; each
+ * file is staged in R2 under uploads/<session>/<slot>, in one request or as
+ * R2 multipart parts, and only becomes a listing image on commit. Nothing
+ * here ever touches images the listing already has.
+ */
+export class UploadSessionService {
+  constructor(
+    private db: Database,
+    private env: Env,
+  ) {}
+
+  async createSession(
+    listingId: number,
+    userId: number,
+    files: { name: string; size: number }[],
+  ): Promise<UploadSessionDetails> {
+    const id = crypto.randomUUID();
+
+    const [session] = await this.db
+      .insert(uploadSessions)
+      .values({
+        id,
+        listingId,
+        userId,
+        expiresAt: Date.now() + UPLOAD_SESSION_TTL_MS,
+      })
+      .returning();
+
+    const rows = await Promise.all(
+      files.map(async (file, slot) => {
+        let multipartUploadId: string | null = null;
+        if (uploadPartCount(file.size) > 1) {
+          const upload = await this.env.IMAGES.createMultipartUpload(
+            stagingKey(id, slot),
+          );
+          multipartUploadId = upload.uploadId;
+        }
+        return {
+          sessionId: id,
+          slot,
+          originalName: file.name,
+          size: file.size,
+          multipartUploadId,
+        };
+      }),
+    );
+
+    const inserted = await this.db
+      .insert(uploadSessionFiles)
+      .values(rows)
+      .returning();
+
+    return {
+      session,
+      files: inserted.map((file) => ({ ...file, parts: [] })),
+    };
+  }
+
+  /**
+   * Get a listing's upload session with its files and received parts
+   *
+   * @returns null if it doesn't exist, was committed or has expired
+   */
+  async getSession(
+    listingId: number,
+    sessionId: string,
+  ): Promise<UploadSessionDetails | null> {
+    const [session] = await this.db
+      .select()
+      .from(uploadSessions)
+      .where(
+        and(
+          eq(uploadSessions.id, sessionId),
+          eq(uploadSessions.listingId, listingId),
+          gt(uploadSessions.expiresAt, Date.now()),
+        ),
+      )
+      .limit(1);
+
+    if (!session) {
+      return null;
+    }
+
+    const files = await this.db
+      .select()
+      .from(uploadSessionFiles)
+      .where(eq(uploadSessionFiles.sessionId, sessionId))
+      .orderBy(asc(uploadSessionFiles.slot));
+
+    const parts = files.length
+      ? await this.db
+          .select()
+          .from(uploadSessionParts)
+          .where(
+            inArray(
+              uploadSessionParts.fileId,
+              files.map((file) => file.id),
+            ),
+          )
+          .orderBy(asc(uploadSessionParts.partNumber))
+      : [];
+
+    return {
+      session,
+      files: files.map((file) => ({
+        ...file,
+        parts: parts.filter((part) => part.fileId === file.id),
+      })),
+    };
+  }
+
+  /**
+   * Stage a whole file. Sending it again replaces what was staged.
+   */
+  async putFile(
+    details: UploadSessionDetails,
+    file: UploadSessionFileDetails,
+    body: ArrayBuffer,
+  ): Promise<void> {
+    await this.env.IMAGES.put(stagingKey(details.session.id, file.slot), body);
+
+    const now = Date.now();
+    await this.db
+      .update(uploadSessionFiles)
+      .set({ uploadedAt: now })
+      .where(eq(uploadSessionFiles.id, file.id));
+    await this.extendSession(details.session.id, now);
+  }
+
+  /**
+   * Stage one part of a multipart file. Sending a part again replaces it;
+   * the file counts as uploaded once every part is in.
+   */
+  async putPart(
+    details: UploadSessionDetails,
+    file: UploadSessionFileDetails,
+    partNumber: number,
+    body: ArrayBuffer,
+  ): Promise<void> {
+    const upload = this.env.IMAGES.resumeMultipartUpload(
+      stagingKey(details.session.id, file.slot),
+      file.multipartUploadId!,
+    );
+    const part = await upload.uploadPart(partNumber, body);
+
+    await this.db
+      .insert(uploadSessionParts)
+      .values({ fileId: file.id, partNumber, etag: part.etag })
+      .onConflictDoUpdate({
+        target: [uploadSessionParts.fileId, uploadSessionParts.partNumber],
+        set: { etag: part.etag },
+      });
+
+    // Counted after the write, so parts arriving side by side can't both
+    // miss the last one
+    const [received] = await this.db
+      .select({ total: count() })
+      .from(uploadSessionParts)
+      .where(eq(uploadSessionParts.fileId, file.id));
+
+    const now = Date.now();
+    if (received.total === uploadPartCount(file.size)) {
+      await this.db
+        .update(uploadSessionFiles)
+        .set({ uploadedAt: now })
+        .where(eq(uploadSessionFiles.id, file.id));
+    }
+    await this.extendSession(details.session.id, now);
+  }
+
+  /**
+   * Turn every staged file into a listing image, after the images the
+   * listing already has. A file that isn't a usable image, or no longer fits
+   * under MAX_LISTING_IMAGES, is reported back rather than failing the rest.
+   *
+   * @returns null if the session was already committed or aborted
+   */
+  async commitSession(
+    details: UploadSessionDetails,
+  ): Promise<UploadCommitResult | null> {
+    // Deleting the row claims the session, so a repeated commit can't
+    // process the same files twice
+    if (!(await this.claimSession(details.session.id))) {
+      return null;
+    }
+
+    const { listingId } = details.session;
+    const imageService = new ImageService(
+      this.db,
+      this.env.IMAGES,
+      this.env.IMAGE_TRANSFORMER,
+    );
+    const existing = await imageService.getListingImages(listingId);
+    let imageCount = existing.length;
+    let uploadOrder = Math.max(
+      0,
+      ...existing.map((image) => image.uploadOrder),
+    );
+
+    const result: UploadCommitResult = { images: [], failed: [] };
+    const fail = (file: UploadSessionFileDetails, error: string) =>
+      result.failed.push({ slot: file.slot, name: file.originalName, error });
+
+    try {
+      for (const file of details.files) {
+        if (imageCount >= MAX_LISTING_IMAGES) {
+          fail(
+            file,
+            `Maximum ${MAX_LISTING_IMAGES} images allowed per listing`,
+          );
+          continue;
+        }
+
+        try {
+          const buffer = await this.readStagedFile(details.session.id, file);
+          const info = buffer && inspectImage(buffer);
+          if (!buffer || !info) {
+            fail(file, "Not a supported image");
+            continue;
+          }
+
+          const image = await imageService.uploadListingImage(listingId, {
+            originalName: file.originalName,
+            uploadOrder: ++uploadOrder,
+            imageBuffer: buffer,
+            info,
+          });
+          result.images.push(image);
+          imageCount++;
+        } catch (error) {
+          console.error(
+            `Failed to process upload ${details.session.id}/${file.slot}:`,
+            error,
+          );
+          fail(file, "Failed to process image");
+        }
+      }
+    } finally {
+      await this.deleteStagedFiles(details);
+    }
+
+    return result;
+  }
+
+  /**
+   * Drop a session and everything staged for it
+   *
+   * @returns false if it was already committed or aborted
+   */
+  async abortSession(details: UploadSessionDetails): Promise<boolean> {
+    if (!(await this.claimSession(details.session.id))) {
+      return false;
+    }
+
+    await this.deleteStagedFiles(details);
+    return true;
+  }
+
+  /**
+   * Remove sessions that expired without a commit, then any staged objects
+   * no live session owns (left behind by a commit or purge that didn't
+   * finish)
+   */
+  async purgeExpiredSessions(
+    now = Date.now(),
+  ): Promise<{ sessionIds: string[]; strayObjects: number; hasMore: boolean }> {
+    const expired = await this.db
+      .select()
+      .from(uploadSessions)
+      .where(lte(uploadSessions.expiresAt, now))
+      .orderBy(asc(uploadSessions.expiresAt))
+      .limit(PURGE_BATCH_SIZE);
+
+    const sessionIds: string[] = [];
+    for (const session of expired) {
+      const files = await this.db
+        .select()
+        .from(uploadSessionFiles)
+        .where(eq(uploadSessionFiles.sessionId, session.id));
+
+      if (await this.claimSession(session.id)) {
+        await this.deleteStagedFiles({
+          session,
+          files: files.map((file) => ({ ...file, parts: [] })),
+        });
+        sessionIds.push(session.id);
+      }
+    }
+
+    const strayObjects = await this.deleteStrayObjects(now);
+
+    return {
+      sessionIds,
+      strayObjects,
+      hasMore: expired.length === PURGE_BATCH_SIZE,
+    };
+  }
+
+  private async claimSession(sessionId: string): Promise<boolean> {
+    // Files and parts go with it (ON DELETE CASCADE)
+    const [claimed] = await this.db
+      .delete(uploadSessions)
+      .where(eq(uploadSessions.id, sessionId))
+      .returning({ id: uploadSessions.id });
+
+    return !!claimed;
+  }
+
+  private async extendSession(sessionId: string, now: number): Promise<void> {
+    await this.db
+      .update(uploadSessions)
+      .set({ expiresAt: now + UPLOAD_SESSION_TTL_MS })
+      .where(eq(uploadSessions.id, sessionId));
+  }
+
+  private async readStagedFile(
+    sessionId: string,
+    file: UploadSessionFileDetails,
+  ): Promise<ArrayBuffer | null> {
+    const key = stagingKey(sessionId, file.slot);
+
+    if (file.multipartUploadId) {
+      const upload = this.env.IMAGES.resumeMultipartUpload(
+        key,
+        file.multipartUploadId,
+      );
+      await upload.complete(
+        file.parts.map((part) => ({
+          partNumber: part.partNumber,
+          etag: part.etag,
+        })),
+      );
+    }
+
+    const object = await this.env.IMAGES.get(key);
+    if (!object || object.size !== file.size) {
+      return null;
+    }
+    return object.arrayBuffer();
+  }
+
+  private async deleteStagedFiles(
+    details: UploadSessionDetails,
+  ): Promise<void> {
+    // Multipart uploads that were never completed hold their parts until
+    // aborted; aborting a completed one fails, which is fine
+    await Promise.all(
+      details.files
+        .filter((file) => file.multipartUploadId)
+        .map((file) =>
+          this.env.IMAGES.resumeMultipartUpload(
+            stagingKey(details.session.id, file.slot),
+            file.multipartUploadId!,
+          )
+            .abort()
+            .catch(() => undefined),
+        ),
+    );
+
+    try {
+      await this.env.IMAGES.delete(
+        details.files.map((file) => stagingKey(details.session.id, file.slot)),
+      );
+    } catch (error) {
+      console.error(
+        `Failed to delete staged uploads for ${details.session.id}:`,
+        error,
+      );
+    }
+  }
+
+  private async deleteStrayObjects(now: number): Promise<number> {
+    const listed = await this.env.IMAGES.list({
+      prefix: STAGING_PREFIX,
+      limit: PURGE_BATCH_SIZE,
+    });
+
+    // A live session's files can be older than the TTL when later uploads
+    // kept the session open, so only objects with no session are strays
+    const sessionIdOf = (key: string) =>
+      key.slice(STAGING_PREFIX.length).split("/")[0];
+    const stale = listed.objects.filter(
+      (object) => object.uploaded.getTime() <= now - UPLOAD_SESSION_TTL_MS,
+    );
+    if (stale.length === 0) {
+      return 0;
+    }
+
+    const live = await this.db
+      .select({ id: uploadSessions.id })
+      .from(uploadSessions)
+      .where(
+        inArray(uploadSessions.id, [
+          ...new Set(stale.map((object) => sessionIdOf(object.key))),
+        ]),
+      );
+    const liveIds = new Set(live.map((session) => session.id));
+
+    const strays = stale
+      .filter((object) => !liveIds.has(sessionIdOf(object.key)))
+      .map((object) => object.key);
+    if (strays.length > 0) {
+      await this.env.IMAGES.delete(strays);
+    }
+    return strays.length;
+  }
+}
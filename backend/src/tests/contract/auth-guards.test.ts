@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  TEST_SESSION_ID,
+  makeRequest,
+  mockSessionEnv,
+} from "../../../tests/utils/test-helpers";
+
+const authHeaders = { Authorization: `Bearer ${TEST_SESSION_ID}` };
+
+describe("Auth guards", () => {
+  it("should require a session on write routes", async () => {
+    const response = await makeRequest("/api/listings", {
+      method: "POST",
+      body: JSON.stringify({}),
+    });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({
+      error: "Authentication required",
+    });
+  });
+
+  it("should reject unknown sessions", async () => {
+    const response = await makeRequest(
+      "/api/favorites",
+      { headers: { Authorization: "Bearer expired-session" } },
+      mockSessionEnv(),
+    );
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({
+      error: "Invalid or expired session",
+    });
+  });
+
+  it("should accept the session from x-session-id", async () => {
+    const response = await makeRequest(
+      "/api/admin/cron-runs",
+      { headers: { "x-session-id": TEST_SESSION_ID } },
+      mockSessionEnv(),
+    );
+
+    expect(response.status).toBe(403);
+  });
+
+  it("should reject users without the route's permission", async () => {
+    const response = await makeRequest(
+      "/api/payments/balance",
+      { headers: authHeaders },
+      mockSessionEnv({}, { TELEGRAM_ADMIN_ID: "2" }),
+    );
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({
+      error: "You don't have permission to do this",
+    });
+  });
+
+  it("should treat TELEGRAM_ADMIN_ID as the owner", async () => {
+    const response = await makeRequest(
+      "/api/admin/roles/2",
+      {
+        method: "PUT",
+        headers: authHeaders,
+        body: JSON.stringify({ role: "superuser" }),
+      },
+      mockSessionEnv({}, { TELEGRAM_ADMIN_ID: "1" }),
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ message: "Invalid role" });
+  });
+
+  it("should not let staff change their own role", async () => {
+    const response = await makeRequest(
+      "/api/admin/roles/1",
+      { method: "DELETE", headers: authHeaders },
+      mockSessionEnv({}, { TELEGRAM_ADMIN_ID: "1" }),
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "Cannot change your own role",
+    });
+  });
+
+  it("should return 404 before checking ownership of missing listings", async () => {
+    const response = await makeRequest(
+      "/api/listings/1/stats",
+      { headers: authHeaders },
+      mockSessionEnv(),
+    );
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: "Listing not found" });
+  });
+
+  it("should not let users report themselves", async () => {
+    const response = await makeRequest(
+      "/api/reports",
+      {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify({
+          targetType: "user",
+          targetId: 1,
+          reason: "spam",
+        }),
+      },
+      mockSessionEnv(),
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "You can't report yourself",
+    });
+  });
+
+  it("should keep listings under review out of public feeds", async () => {
+    const response = await makeRequest(
+      "/api/listings?status=active,under_review",
+    );
+
+    expect(response.status).toBe(403);
+  });
+
+  it("should keep listings held by the content filter out of public feeds", async () => {
+    const response = await makeRequest("/api/listings?status=pending_review");
+
+    expect(response.status).toBe(403);
+  });
+});
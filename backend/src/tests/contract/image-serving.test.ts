@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import { makeRequest, mockSessionEnv } from "../../../tests/utils/test-helpers";
+
+const AVATAR_KEY = "profiles/1/1700000000000-avatar.jpg";
+const AVATAR = new TextEncoder().encode("0123456789");
+const uploaded = new Date("2025-01-01T12:00:00Z");
+
+// D1 that only knows one avatar, and an R2 bucket that has an object under
+// every key, so only the database decides what gets served
+const imageEnv = () => {
+  const env = mockSessionEnv();
+  const statement = (sql: string, params: unknown[] = []) => ({
+    bind: (...values: unknown[]) => statement(sql, values),
+    all: async () => ({ results: [] }),
+    raw: async () =>
+      sql.includes("profile_image_key") && params.includes(AVATAR_KEY)
+        ? [[1]]
+        : [],
+    first: async () => null,
+    run: async () => ({ success: true, meta: {} }),
+  });
+
+  const object = {
+    etag: "abc123",
+    httpEtag: '"abc123"',
+    uploaded,
+    size: AVATAR.length,
+    httpMetadata: { contentType: "image/jpeg" },
+  };
+  const r2Calls: string[] = [];
+
+  return {
+    r2Calls,
+    env: {
+      ...env,
+      DB: { prepare: (sql: string) => statement(sql) },
+      IMAGES: {
+        head: async (key: string) => {
+          r2Calls.push(key);
+          return object;
+        },
+        get: async (
+          key: string,
+          options?: { range?: { offset: number; length: number } },
+        ) => {
+          r2Calls.push(key);
+          const { offset = 0, length = AVATAR.length } = options?.range ?? {};
+          return { ...object, body: AVATAR.slice(offset, offset + length) };
+        },
+      },
+    },
+  };
+};
+
+describe("Image serving", () => {
+  it("should serve stored avatars with validators", async () => {
+    const { env } = imageEnv();
+
+    const response = await makeRequest(`/r2/${AVATAR_KEY}`, {}, env);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("ETag")).toBe('"abc123"');
+    expect(response.headers.get("Last-Modified")).toBe(uploaded.toUTCString());
+    expect(response.headers.get("Cache-Control")).toContain("immutable");
+    expect(await response.text()).toBe("0123456789");
+  });
+
+  it("should answer conditional requests with 304", async () => {
+    const { env } = imageEnv();
+
+    const response = await makeRequest(
+      `/r2/${AVATAR_KEY}`,
+      { headers: { "If-None-Match": '"abc123"' } },
+      env,
+    );
+
+    expect(response.status).toBe(304);
+    expect(await response.text()).toBe("");
+  });
+
+  it("should serve byte ranges", async () => {
+    const { env } = imageEnv();
+
+    const response = await makeRequest(
+      `/r2/${AVATAR_KEY}`,
+      { headers: { Range: "bytes=2-5" } },
+      env,
+    );
+
+    expect(response.status).toBe(206);
+    expect(response.headers.get("Content-Range")).toBe("bytes 2-5/10");
+    expect(await response.text()).toBe("2345");
+
+    const outOfRange = await makeRequest(
+      `/r2/${AVATAR_KEY}`,
+      { headers: { Range: "bytes=50-" } },
+      env,
+    );
+    expect(outOfRange.status).toBe(416);
+  });
+
+  it("should not serve keys the database doesn't know", async () => {
+    const { env, r2Calls } = imageEnv();
+
+    const response = await makeRequest("/r2/backups/db.sqlite", {}, env);
+
+    expect(response.status).toBe(404);
+    expect(r2Calls).toEqual([]);
+  });
+
+  it("should only resize to allow-listed widths and formats", async () => {
+    const { env } = imageEnv();
+
+    const width = await makeRequest(`/r2/${AVATAR_KEY}?w=123`, {}, env);
+    const format = await makeRequest(`/r2/${AVATAR_KEY}?fmt=gif`, {}, env);
+
+    expect(width.status).toBe(400);
+    expect(format.status).toBe(400);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import {
+  TEST_SESSION_ID,
+  makeRequest,
+  mockSessionEnv,
+} from "../../../tests/utils/test-helpers";
+
+const authHeaders = { Authorization: `Bearer ${TEST_SESSION_ID}` };
+
+const listing = {
+  title: "Desk lamp",
+  description: "Works fine",
+  price: 1500,
+  category: "home",
+};
+
+// Session env whose KV also stores counters, with listing creation limited
+// to one per hour
+const limitedEnv = (envOverrides: Record<string, unknown> = {}) => {
+  const env = mockSessionEnv({}, envOverrides);
+  const store = new Map<string, string>([
+    [
+      "rate_limits:overrides",
+      JSON.stringify({ create_listing: { limit: 1, windowSeconds: 3600 } }),
+    ],
+  ]);
+
+  return {
+    ...env,
+    SESSIONS: {
+      get: async (key: string, options?: unknown) => {
+        const value = key.startsWith("session:")
+          ? await env.SESSIONS.get(key)
+          : (store.get(key) ?? null);
+        const asJson =
+          options === "json" ||
+          (options as { type?: string } | undefined)?.type === "json";
+        return value && asJson ? JSON.parse(value) : value;
+      },
+      put: async (key: string, value: string) => {
+        store.set(key, value);
+      },
+    },
+  };
+};
+
+const createListing = (env: ReturnType<typeof limitedEnv>) =>
+  makeRequest(
+    "/api/listings",
+    {
+      method: "POST",
+      headers: authHeaders,
+      body: JSON.stringify(listing),
+    },
+    env,
+  );
+
+describe("Rate limiting", () => {
+  it("should reject requests over the limit with Retry-After", async () => {
+    const env = limitedEnv();
+
+    const first = await createListing(env);
+    expect(first.status).not.toBe(429);
+
+    const second = await createListing(env);
+    expect(second.status).toBe(429);
+
+    const retryAfter = Number(second.headers.get("Retry-After"));
+    expect(retryAfter).toBeGreaterThan(0);
+    expect(retryAfter).toBeLessThanOrEqual(3600);
+    expect(await second.json()).toMatchObject({
+      error: "RATE_LIMITED",
+      details: { retryAfter },
+    });
+  });
+
+  it("should not limit admins", async () => {
+    const env = limitedEnv({ TELEGRAM_ADMIN_ID: "1" });
+
+    await createListing(env);
+    const second = await createListing(env);
+
+    expect(second.status).not.toBe(429);
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect } from "vitest";
+import {
+  TEST_SESSION_ID,
+  makeRequest,
+  mockSessionEnv,
+} from "../../../tests/utils/test-helpers";
+import type { ErrorResponse } from "../../models/error-response";
+
+const readError = async (response: Response) =>
+  (await response.json()) as ErrorResponse;
+
+const authHeaders = { Authorization: `Bearer ${TEST_SESSION_ID}` };
+
+describe("Request validation", () => {
+  it("should reject unknown listing statuses in the feed query", async () => {
+    const response = await makeRequest("/api/listings?status=active,foo");
+
+    expect(response.status).toBe(400);
+
+    const data = await readError(response);
+    expect(data.error).toBe("VALIDATION_ERROR");
+    expect(data.details).toHaveProperty("status");
+  });
+
+  it("should reject unknown sort fields", async () => {
+    const response = await makeRequest("/api/listings?sortBy=views");
+
+    expect(response.status).toBe(400);
+    expect((await readError(response)).details).toHaveProperty("sortBy");
+  });
+
+  it("should report every invalid listing field", async () => {
+    const response = await makeRequest(
+      "/api/listings",
+      {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify({
+          title: "   ",
+          description: "Barely used",
+          price: -100,
+          category: "weapons",
+        }),
+      },
+      mockSessionEnv(),
+    );
+
+    expect(response.status).toBe(400);
+
+    const data = await readError(response);
+    expect(data).toMatchObject({
+      error: "VALIDATION_ERROR",
+      message: "Title is required",
+    });
+    expect(Object.keys(data.details ?? {}).sort()).toEqual([
+      "category",
+      "price",
+      "title",
+    ]);
+  });
+
+  it("should reject non-numeric route ids", async () => {
+    const response = await makeRequest("/api/listings/abc");
+
+    expect(response.status).toBe(400);
+    expect((await readError(response)).message).toBe("Invalid listing ID");
+  });
+
+  it("should return 400 for malformed JSON bodies", async () => {
+    const response = await makeRequest(
+      "/api/listings/1/status",
+      { method: "POST", headers: authHeaders, body: "{status:" },
+      mockSessionEnv(),
+    );
+
+    expect(response.status).toBe(400);
+    expect((await readError(response)).error).toBe("BAD_REQUEST");
+  });
+
+  it("should reject image orders that repeat an image or miss the cover", async () => {
+    const reorder = (body: unknown) =>
+      makeRequest(
+        "/api/listings/1/images/order",
+        { method: "PATCH", headers: authHeaders, body: JSON.stringify(body) },
+        mockSessionEnv(),
+      );
+
+    const repeated = await reorder({ imageIds: [3, 1, 3] });
+    expect(repeated.status).toBe(400);
+    expect((await readError(repeated)).message).toBe(
+      "Each image can only appear once",
+    );
+
+    const cover = await reorder({ imageIds: [1, 2], coverImageId: 5 });
+    expect(cover.status).toBe(400);
+    expect((await readError(cover)).details).toHaveProperty("coverImageId");
+  });
+
+  it("should validate payment and admin requests", async () => {
+    const premium = await makeRequest(
+      "/api/posts/1/make-premium",
+      {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify({ star_count: 11 }),
+      },
+      mockSessionEnv(),
+    );
+    expect(premium.status).toBe(400);
+    expect((await readError(premium)).details).toHaveProperty("star_count");
+
+    const cronRuns = await makeRequest(
+      "/api/admin/cron-runs?job=nope",
+      { headers: authHeaders },
+      mockSessionEnv({}, { TELEGRAM_ADMIN_ID: "1" }),
+    );
+    expect(cronRuns.status).toBe(400);
+    expect((await readError(cronRuns)).message).toBe("Invalid job");
+  });
+
+  it("should require a reason for refunds", async () => {
+    const response = await makeRequest(
+      "/api/payments/pay_1/refund",
+      { method: "POST", headers: authHeaders, body: JSON.stringify({}) },
+      mockSessionEnv({}, { TELEGRAM_ADMIN_ID: "1" }),
+    );
+
+    expect(response.status).toBe(400);
+    expect((await readError(response)).message).toBe("Reason is required");
+  });
+
+  it("should validate audit log filters", async () => {
+    const response = await makeRequest(
+      "/api/admin/audit?action=delete_everything&from=yesterday",
+      { headers: authHeaders },
+      mockSessionEnv({}, { TELEGRAM_ADMIN_ID: "1" }),
+    );
+
+    expect(response.status).toBe(400);
+    expect(Object.keys((await readError(response)).details ?? {})).toEqual([
+      "action",
+      "from",
+    ]);
+  });
+
+  it("should validate report requests", async () => {
+    const response = await makeRequest(
+      "/api/reports",
+      {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify({
+          targetType: "listing",
+          targetId: 5,
+          reason: "ugly",
+        }),
+      },
+      mockSessionEnv(),
+    );
+
+    expect(response.status).toBe(400);
+    expect((await readError(response)).message).toBe("Choose a reason");
+  });
+
+  it("should require a reason and a valid duration for bans", async () => {
+    const response = await makeRequest(
+      "/api/admin/ban/2",
+      {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify({ durationDays: 0 }),
+      },
+      mockSessionEnv({}, { TELEGRAM_ADMIN_ID: "1" }),
+    );
+
+    expect(response.status).toBe(400);
+    expect(Object.keys((await readError(response)).details ?? {})).toEqual([
+      "reason",
+      "durationDays",
+    ]);
+  });
+
+  it("should reject moderation rules with an invalid regex", async () => {
+    const response = await makeRequest(
+      "/api/admin/moderation/rules",
+      {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify({ kind: "regex", pattern: "(", action: "hold" }),
+      },
+      mockSessionEnv({}, { TELEGRAM_ADMIN_ID: "1" }),
+    );
+
+    expect(response.status).toBe(400);
+    expect(Object.keys((await readError(response)).details ?? {})).toEqual([
+      "pattern",
+    ]);
+  });
+
+  it("should validate messages, saved searches and reviews", async () => {
+    const message = await makeRequest(
+      "/api/conversations/1/messages",
+      {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify({ body: "   " }),
+      },
+      mockSessionEnv(),
+    );
+    expect(message.status).toBe(400);
+    expect((await readError(message)).message).toBe("Message cannot be empty");
+
+    const savedSearch = await makeRequest(
+      "/api/saved-searches/abc",
+      { method: "DELETE", headers: authHeaders },
+      mockSessionEnv(),
+    );
+    expect(savedSearch.status).toBe(400);
+    expect((await readError(savedSearch)).message).toBe(
+      "Invalid saved search ID",
+    );
+
+    const review = await makeRequest(
+      "/api/profile/2/reviews",
+      {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify({ listingId: 5, rating: 6 }),
+      },
+      mockSessionEnv(),
+    );
+    expect(review.status).toBe(400);
+    expect((await readError(review)).details).toHaveProperty("rating");
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect } from "vitest";
+import {
+  makeRequest,
+  mockEnv,
+  mockSessionEnv,
+} from "../../../tests/utils/test-helpers";
+import { SessionManager } from "../../services/session-manager";
+import type { Env } from "../../types/env";
+import type { TelegramUser } from "../../models/telegram-user";
+
+const user: TelegramUser = { id: 7, first_name: "Test", language_code: "en" };
+
+// Session env backed by an in-memory KV with the prefix listing the session
+// index relies on
+const kvEnv = () => {
+  const store = new Map<string, { value: string; metadata?: unknown }>();
+  const env = mockSessionEnv();
+
+  return {
+    ...env,
+    SESSIONS: {
+      get: async (key: string) => store.get(key)?.value ?? null,
+      put: async (
+        key: string,
+        value: string,
+        options?: { metadata?: unknown },
+      ) => {
+        store.set(key, { value, metadata: options?.metadata });
+      },
+      delete: async (key: string) => {
+        store.delete(key);
+      },
+      list: async ({ prefix }: { prefix: string }) => ({
+        keys: [...store.entries()]
+          .filter(([name]) => name.startsWith(prefix))
+          .map(([name, { metadata }]) => ({ name, metadata })),
+        list_complete: true,
+      }),
+    },
+  };
+};
+
+const signIn = (env: ReturnType<typeof kvEnv>, userAgent: string) =>
+  SessionManager.create(env as unknown as Env).createSession(user, userAgent);
+
+// initData signed the way Telegram signs it, issued `ageSeconds` ago
+const signInitData = async (ageSeconds: number) => {
+  const params = new URLSearchParams({
+    auth_date: String(Math.floor(Date.now() / 1000) - ageSeconds),
+    user: JSON.stringify(user),
+  });
+  const dataToCheck = [...params.entries()]
+    .sort()
+    .map(([key, value]) => `${key}=${value}`)
+    .join("\n");
+
+  const hmac = async (key: string | ArrayBuffer, data: string) =>
+    crypto.subtle.sign(
+      "HMAC",
+      await crypto.subtle.importKey(
+        "raw",
+        typeof key === "string" ? new TextEncoder().encode(key) : key,
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign"],
+      ),
+      new TextEncoder().encode(data),
+    );
+  const secret = await hmac("WebAppData", mockEnv.TELEGRAM_BOT_TOKEN);
+  const hash = Array.from(new Uint8Array(await hmac(secret, dataToCheck)))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+  params.set("hash", hash);
+  return params.toString();
+};
+
+const renew = async (
+  env: ReturnType<typeof kvEnv>,
+  sessionId: string,
+  initData: string,
+) =>
+  makeRequest(
+    "/api/auth",
+    {
+      method: "POST",
+      body: JSON.stringify({ initData, sessionId, renew: true }),
+    },
+    env,
+  );
+
+const withSession = (sessionId: string, init: RequestInit = {}) => ({
+  ...init,
+  headers: { Authorization: `Bearer ${sessionId}` },
+});
+
+describe("Sessions", () => {
+  it("should list the user's sessions without their tokens", async () => {
+    const env = kvEnv();
+    const phone = await signIn(env, "Phone");
+    const laptop = await signIn(env, "Laptop");
+
+    const response = await makeRequest(
+      "/api/auth/sessions",
+      withSession(laptop.sessionId),
+      env,
+    );
+
+    expect(response.status).toBe(200);
+    const { sessions } = (await response.json()) as {
+      sessions: { id: string; userAgent?: string; current: boolean }[];
+    };
+    expect(sessions).toHaveLength(2);
+    expect(sessions).toContainEqual(
+      expect.objectContaining({
+        id: phone.publicId,
+        userAgent: "Phone",
+        current: false,
+      }),
+    );
+    expect(sessions).toContainEqual(
+      expect.objectContaining({ id: laptop.publicId, current: true }),
+    );
+    expect(JSON.stringify(sessions)).not.toContain(phone.sessionId);
+  });
+
+  it("should revoke another session", async () => {
+    const env = kvEnv();
+    const phone = await signIn(env, "Phone");
+    const laptop = await signIn(env, "Laptop");
+
+    const response = await makeRequest(
+      `/api/auth/sessions/${phone.publicId}`,
+      withSession(laptop.sessionId, { method: "DELETE" }),
+      env,
+    );
+    expect(response.status).toBe(200);
+
+    const revoked = await makeRequest(
+      "/api/auth/sessions",
+      withSession(phone.sessionId),
+      env,
+    );
+    expect(revoked.status).toBe(401);
+
+    const missing = await makeRequest(
+      `/api/auth/sessions/${phone.publicId}`,
+      withSession(laptop.sessionId, { method: "DELETE" }),
+      env,
+    );
+    expect(missing.status).toBe(404);
+  });
+
+  it("should end the current session on logout", async () => {
+    const env = kvEnv();
+    const laptop = await signIn(env, "Laptop");
+
+    const response = await makeRequest(
+      "/api/auth/logout",
+      withSession(laptop.sessionId, { method: "POST" }),
+      env,
+    );
+    expect(response.status).toBe(200);
+
+    const after = await makeRequest(
+      "/api/auth/sessions",
+      withSession(laptop.sessionId),
+      env,
+    );
+    expect(after.status).toBe(401);
+  });
+
+  it("should extend sessions that are close to expiring", async () => {
+    const env = kvEnv();
+    const laptop = await signIn(env, "Laptop");
+    const expiresAt = Date.now() + 60 * 1000;
+    await env.SESSIONS.put(
+      `session:${laptop.sessionId}`,
+      JSON.stringify({ ...laptop, expiresAt }),
+    );
+
+    const response = await makeRequest(
+      "/api/auth/sessions",
+      withSession(laptop.sessionId),
+      env,
+    );
+
+    expect(response.status).toBe(200);
+    const extendedTo = Number(response.headers.get("X-Session-Expires-At"));
+    expect(extendedTo).toBeGreaterThan(expiresAt);
+    expect(extendedTo).toBeGreaterThan(Date.now() + 3000 * 1000);
+  });
+
+  it("should renew a session that expired while the app stayed open", async () => {
+    const env = kvEnv();
+    const phone = await signIn(env, "Phone");
+    await env.SESSIONS.delete(`session:${phone.sessionId}`);
+    // The app opened two hours ago, past the usual initData max age
+    const initData = await signInitData(2 * 60 * 60);
+
+    const response = await renew(env, phone.sessionId, initData);
+    expect(response.status).toBe(200);
+    const renewed = (await response.json()) as { sessionId: string };
+    expect(renewed.sessionId).not.toBe(phone.sessionId);
+
+    const sessions = await makeRequest(
+      "/api/auth/sessions",
+      withSession(renewed.sessionId),
+      env,
+    );
+    expect(sessions.status).toBe(200);
+
+    const again = await renew(env, phone.sessionId, initData);
+    expect(again.status).toBe(401);
+  });
+
+  it("should not renew a revoked session", async () => {
+    const env = kvEnv();
+    const phone = await signIn(env, "Phone");
+    const laptop = await signIn(env, "Laptop");
+    await makeRequest(
+      `/api/auth/sessions/${phone.publicId}`,
+      withSession(laptop.sessionId, { method: "DELETE" }),
+      env,
+    );
+
+    const response = await renew(
+      env,
+      phone.sessionId,
+      await signInitData(2 * 60 * 60),
+    );
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ reason: "session_revoked" });
+  });
+
+  it("should only accept old initData to renew a session", async () => {
+    const env = kvEnv();
+
+    const response = await makeRequest(
+      "/api/auth",
+      {
+        method: "POST",
+        body: JSON.stringify({ initData: await signInitData(2 * 60 * 60) }),
+      },
+      env,
+    );
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -1,5 +1,10 @@
 import { describe, it, expect } from "vitest";
-import { isAdmin, getAdminRole } from "../../services/admin-auth";
+import {
+  canAssignRole,
+  getAdminRole,
+  hasPermission,
+  isBootstrapOwner,
+} from "../../services/admin-auth";
 import type { Env } from "../../types/env";
 
 describe("Admin Authorization Service", () => {
@@ -7,47 +12,72 @@ describe("Admin Authorization Service", () => {
     TELEGRAM_ADMIN_ID: String(adminId),
   });
 
-  describe("isAdmin", () => {
+  describe("isBootstrapOwner", () => {
     it("should return true when telegram ID matches admin ID (number)", () => {
       const env = createMockEnv(12345) as Env;
-      expect(isAdmin(12345, env)).toBe(true);
+      expect(isBootstrapOwner(12345, env)).toBe(true);
     });
 
     it("should return true when telegram ID matches admin ID (string)", () => {
       const env = createMockEnv("12345") as Env;
-      expect(isAdmin(12345, env)).toBe(true);
+      expect(isBootstrapOwner(12345, env)).toBe(true);
     });
 
     it("should return false when telegram ID does not match admin ID", () => {
       const env = createMockEnv(12345) as Env;
-      expect(isAdmin(54321, env)).toBe(false);
+      expect(isBootstrapOwner(54321, env)).toBe(false);
     });
 
     it("should return false when admin ID is not configured", () => {
       const env = { TELEGRAM_ADMIN_ID: "" } as Env;
-      expect(isAdmin(12345, env)).toBe(false);
+      expect(isBootstrapOwner(12345, env)).toBe(false);
     });
 
     it("should return false when admin ID is invalid", () => {
       const env = { TELEGRAM_ADMIN_ID: "invalid" } as Env;
-      expect(isAdmin(12345, env)).toBe(false);
+      expect(isBootstrapOwner(12345, env)).toBe(false);
     });
   });
 
   describe("getAdminRole", () => {
-    it('should return "admin" for admin user', () => {
+    it('should return "owner" for the bootstrap owner', async () => {
       const env = createMockEnv(12345) as Env;
-      expect(getAdminRole(12345, env)).toBe("admin");
+      expect(await getAdminRole(12345, env)).toBe("owner");
     });
+  });
 
-    it('should return "user" for non-admin user', () => {
-      const env = createMockEnv(12345) as Env;
-      expect(getAdminRole(54321, env)).toBe("user");
+  describe("hasPermission", () => {
+    it("should grant every permission to owners and admins", () => {
+      expect(hasPermission("owner", "manage_roles")).toBe(true);
+      expect(hasPermission("admin", "refund_payment")).toBe(true);
     });
 
-    it('should return "user" when admin ID is not configured', () => {
-      const env = { TELEGRAM_ADMIN_ID: "" } as Env;
-      expect(getAdminRole(12345, env)).toBe("user");
+    it("should limit moderators to content moderation", () => {
+      expect(hasPermission("moderator", "ban_user")).toBe(true);
+      expect(hasPermission("moderator", "archive_listing")).toBe(true);
+      expect(hasPermission("moderator", "view_payments")).toBe(false);
+      expect(hasPermission("moderator", "manage_roles")).toBe(false);
+    });
+
+    it("should grant nothing to regular users", () => {
+      expect(hasPermission("user", "hide_review")).toBe(false);
+    });
+  });
+
+  describe("canAssignRole", () => {
+    it("should let owners assign any role", () => {
+      expect(canAssignRole("owner", "owner")).toBe(true);
+      expect(canAssignRole("owner", "admin")).toBe(true);
+    });
+
+    it("should only let admins assign moderators", () => {
+      expect(canAssignRole("admin", "moderator")).toBe(true);
+      expect(canAssignRole("admin", "admin")).toBe(false);
+      expect(canAssignRole("admin", "owner")).toBe(false);
+    });
+
+    it("should not let moderators assign roles", () => {
+      expect(canAssignRole("moderator", "moderator")).toBe(false);
     });
   });
 });
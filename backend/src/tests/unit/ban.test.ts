@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { createDatabase } from "../../db";
+import { BanService } from "../../services/ban-service";
+import type { Env } from "../../types/env";
+
+// D1 that only knows staff roles; user 1 is the bootstrap owner
+const roles: Record<number, string> = {
+  2: "owner",
+  3: "admin",
+  4: "moderator",
+};
+const banEnv = () => {
+  const statement = (sql: string, params: unknown[] = []) => ({
+    bind: (...values: unknown[]) => statement(sql, values),
+    all: async () => ({ results: [] }),
+    raw: async () => {
+      const role = roles[params[0] as number];
+      return sql.includes("user_roles") && role ? [[role]] : [];
+    },
+    first: async () => null,
+    run: async () => ({ success: true, meta: {} }),
+  });
+
+  return {
+    TELEGRAM_ADMIN_ID: "1",
+    DB: { prepare: (sql: string) => statement(sql) },
+  } as unknown as Env;
+};
+
+const checkBan = (telegramId: number, role: string) => {
+  const env = banEnv();
+  return new BanService(createDatabase(env.DB), env).checkBan(telegramId, {
+    telegramId: 99,
+    role: role as "owner" | "admin" | "moderator",
+  });
+};
+
+describe("BanService.checkBan", () => {
+  it("should never ban the bootstrap owner", async () => {
+    expect(await checkBan(1, "owner")).toBe(
+      "The bootstrap owner can't be banned",
+    );
+  });
+
+  it("should not let moderators ban staff", async () => {
+    expect(await checkBan(3, "moderator")).toBe(
+      "You can't ban staff with the admin role",
+    );
+    expect(await checkBan(4, "moderator")).toBe(
+      "You can't ban staff with the moderator role",
+    );
+    expect(await checkBan(5, "moderator")).toBeNull();
+  });
+
+  it("should only let staff ban roles below their own", async () => {
+    expect(await checkBan(4, "admin")).toBeNull();
+    expect(await checkBan(3, "admin")).toBe(
+      "You can't ban staff with the admin role",
+    );
+    expect(await checkBan(2, "admin")).toBe(
+      "You can't ban staff with the owner role",
+    );
+    expect(await checkBan(3, "owner")).toBeNull();
+    expect(await checkBan(2, "owner")).toBe(
+      "You can't ban staff with the owner role",
+    );
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import {
+  IMAGE_TOKEN_WINDOW_MS,
+  isNotModified,
+  isPrivateListingImage,
+  parseByteRange,
+  signImageToken,
+  verifyImageToken,
+} from "../../services/image-delivery";
+
+const env = { TELEGRAM_BOT_TOKEN: "test-token" };
+
+describe("Image delivery", () => {
+  describe("image tokens", () => {
+    const now = Date.UTC(2025, 0, 1, 12, 30);
+
+    it("should accept a token for the listing it was signed for", async () => {
+      const token = await signImageToken(env, 42, now);
+
+      const expiresAt = await verifyImageToken(env, 42, token, now);
+      expect(expiresAt).toBe(Date.UTC(2025, 0, 1, 14));
+      expect(expiresAt! - now).toBeGreaterThanOrEqual(IMAGE_TOKEN_WINDOW_MS);
+    });
+
+    it("should hand out the same token within the hour", async () => {
+      expect(await signImageToken(env, 42, now)).toBe(
+        await signImageToken(env, 42, now + 20 * 60 * 1000),
+      );
+    });
+
+    it("should reject tokens for other listings, expired or tampered", async () => {
+      const token = await signImageToken(env, 42, now);
+      const [expiresAt, signature] = token.split(".");
+
+      expect(await verifyImageToken(env, 43, token, now)).toBeNull();
+      expect(
+        await verifyImageToken(env, 42, token, Number(expiresAt)),
+      ).toBeNull();
+      expect(
+        await verifyImageToken(
+          env,
+          42,
+          `${Number(expiresAt) + IMAGE_TOKEN_WINDOW_MS}.${signature}`,
+          now,
+        ),
+      ).toBeNull();
+      expect(
+        await verifyImageToken(
+          { TELEGRAM_BOT_TOKEN: "test-token", IMAGE_URL_SECRET: "other" },
+          42,
+          token,
+          now,
+        ),
+      ).toBeNull();
+      expect(await verifyImageToken(env, 42, "garbage", now)).toBeNull();
+    });
+  });
+
+  describe("isPrivateListingImage", () => {
+    it("should keep archived, held and banned sellers' images private", () => {
+      expect(isPrivateListingImage("active", false)).toBe(false);
+      expect(isPrivateListingImage("sold", false)).toBe(false);
+      expect(isPrivateListingImage("archived", false)).toBe(true);
+      expect(isPrivateListingImage("pending_review", false)).toBe(true);
+      expect(isPrivateListingImage("active", true)).toBe(true);
+    });
+  });
+
+  describe("isNotModified", () => {
+    const etag = '"abc123"';
+    const uploaded = new Date("2025-01-01T12:00:00.500Z");
+
+    it("should match If-None-Match, weak or strong", () => {
+      const check = (value: string) =>
+        isNotModified(new Headers({ "If-None-Match": value }), etag, uploaded);
+
+      expect(check('"abc123"')).toBe(true);
+      expect(check('W/"abc123"')).toBe(true);
+      expect(check('"other", "abc123"')).toBe(true);
+      expect(check("*")).toBe(true);
+      expect(check('"other"')).toBe(false);
+    });
+
+    it("should compare If-Modified-Since to the second", () => {
+      const check = (value: string) =>
+        isNotModified(
+          new Headers({ "If-Modified-Since": value }),
+          etag,
+          uploaded,
+        );
+
+      expect(check(uploaded.toUTCString())).toBe(true);
+      expect(check("Wed, 01 Jan 2025 11:59:59 GMT")).toBe(false);
+      expect(check("not a date")).toBe(false);
+    });
+
+    it("should ignore If-Modified-Since when If-None-Match is sent", () => {
+      const headers = new Headers({
+        "If-None-Match": '"other"',
+        "If-Modified-Since": uploaded.toUTCString(),
+      });
+
+      expect(isNotModified(headers, etag, uploaded)).toBe(false);
+    });
+  });
+
+  describe("parseByteRange", () => {
+    it("should read open, closed and suffix ranges", () => {
+      expect(parseByteRange("bytes=0-99", 1000)).toEqual({
+        offset: 0,
+        length: 100,
+      });
+      expect(parseByteRange("bytes=900-", 1000)).toEqual({
+        offset: 900,
+        length: 100,
+      });
+      expect(parseByteRange("bytes=-100", 1000)).toEqual({
+        offset: 900,
+        length: 100,
+      });
+      expect(parseByteRange("bytes=500-5000", 1000)).toEqual({
+        offset: 500,
+        length: 500,
+      });
+    });
+
+    it("should send the whole file for ranges it doesn't handle", () => {
+      expect(parseByteRange(undefined, 1000)).toBeUndefined();
+      expect(parseByteRange("bytes=0-9, 20-29", 1000)).toBeUndefined();
+      expect(parseByteRange("items=0-9", 1000)).toBeUndefined();
+      expect(parseByteRange("bytes=50-10", 1000)).toBeUndefined();
+    });
+
+    it("should refuse ranges past the end of the file", () => {
+      expect(parseByteRange("bytes=1000-", 1000)).toBeNull();
+      expect(parseByteRange("bytes=-0", 1000)).toBeNull();
+    });
+  });
+});
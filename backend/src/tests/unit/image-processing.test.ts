@@ -0,0 +1,244 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectImageType,
+  inspectImage,
+  renderImageVariants,
+  stripImageMetadata,
+  variantSize,
+} from "../../services/image-processing";
+
+const bytes = (...parts: (number[] | string)[]) =>
+  new Uint8Array(
+    parts.flatMap((part) =>
+      typeof part === "string"
+        ? [...part].map((char) => char.charCodeAt(0))
+        : part,
+    ),
+  );
+
+const u16be = (value: number) => [value >> 8, value & 0xff];
+const u32be = (value: number) => [
+  (value >>> 24) & 0xff,
+  (value >> 16) & 0xff,
+  (value >> 8) & 0xff,
+  value & 0xff,
+];
+const u32le = (value: number) => u32be(value).reverse();
+
+// A JPEG header: EXIF with the given orientation (big-endian TIFF), then a
+// baseline frame of width x height, then the start of the scan
+const jpeg = (width: number, height: number, orientation: number) => {
+  const tiff = [
+    ..."MM".split("").map((c) => c.charCodeAt(0)),
+    ...u16be(42),
+    ...u32be(8), // IFD0 right after the header
+    ...u16be(1), // One entry
+    ...u16be(0x0112),
+    ...u16be(3), // SHORT
+    ...u32be(1),
+    ...u16be(orientation),
+    0,
+    0,
+    ...u32be(0), // No next IFD
+  ];
+  const exif = [...bytes("Exif\0\0"), ...tiff];
+  const frame = [8, ...u16be(height), ...u16be(width), 1, 1, 0x11, 0];
+
+  return bytes(
+    [0xff, 0xd8],
+    [0xff, 0xe0, ...u16be(16)],
+    "JFIF\0",
+    [1, 1, 0, 0, 1, 0, 1, 0, 0],
+    [0xff, 0xe1, ...u16be(exif.length + 2), ...exif],
+    [0xff, 0xc0, ...u16be(frame.length + 2), ...frame],
+    [0xff, 0xda, 0, 2, 0xaa, 0xbb, 0xff, 0xd9],
+  );
+};
+
+const pngChunk = (type: string, data: number[]) => [
+  ...u32be(data.length),
+  ...bytes(type),
+  ...data,
+  0,
+  0,
+  0,
+  0, // CRC isn't checked here
+];
+
+const png = (width: number, height: number) =>
+  bytes(
+    [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+    pngChunk("IHDR", [...u32be(width), ...u32be(height), 8, 6, 0, 0, 0]),
+    pngChunk("tEXt", [...bytes("Comment\0secret")]),
+    pngChunk("IDAT", [1, 2, 3, 4]),
+    pngChunk("IEND", []),
+  );
+
+const webpChunk = (type: string, data: number[]) => [
+  ...bytes(type),
+  ...u32le(data.length),
+  ...data,
+  ...(data.length % 2 ? [0] : []),
+];
+
+const webp = (width: number, height: number) => {
+  const uint24 = (value: number) => [
+    value & 0xff,
+    (value >> 8) & 0xff,
+    (value >> 16) & 0xff,
+  ];
+  const chunks = [
+    ...webpChunk("VP8X", [
+      0x08,
+      0,
+      0,
+      0,
+      ...uint24(width - 1),
+      ...uint24(height - 1),
+    ]),
+    ...webpChunk("VP8L", [0x2f, 1, 2, 3, 4]),
+    ...webpChunk("EXIF", [...bytes("GPS data")]),
+  ];
+  return bytes("RIFF", u32le(chunks.length + 4), "WEBP", chunks);
+};
+
+const contains = (haystack: Uint8Array, needle: string) =>
+  new TextDecoder("latin1").decode(haystack).includes(needle);
+
+describe("Image processing", () => {
+  describe("detectImageType", () => {
+    it("should identify images by their signature", () => {
+      expect(detectImageType(jpeg(10, 10, 1))).toBe("image/jpeg");
+      expect(detectImageType(png(10, 10))).toBe("image/png");
+      expect(detectImageType(webp(10, 10))).toBe("image/webp");
+      expect(detectImageType(bytes("GIF89a"))).toBeNull();
+      expect(detectImageType(bytes("<svg></svg>"))).toBeNull();
+    });
+  });
+
+  describe("inspectImage", () => {
+    it("should read the real dimensions", () => {
+      expect(inspectImage(jpeg(640, 480, 1).buffer)).toEqual({
+        mimeType: "image/jpeg",
+        width: 640,
+        height: 480,
+        orientation: 1,
+      });
+      expect(inspectImage(png(300, 200).buffer)).toMatchObject({
+        width: 300,
+        height: 200,
+      });
+      expect(inspectImage(webp(1024, 768).buffer)).toMatchObject({
+        width: 1024,
+        height: 768,
+      });
+    });
+
+    it("should swap the sides of images taken sideways", () => {
+      expect(inspectImage(jpeg(640, 480, 6).buffer)).toMatchObject({
+        width: 480,
+        height: 640,
+        orientation: 6,
+      });
+    });
+
+    it("should reject files that aren't supported images", () => {
+      expect(inspectImage(bytes("not an image at all").buffer)).toBeNull();
+      expect(inspectImage(jpeg(100_000, 100_000, 1).buffer)).toBeNull();
+    });
+  });
+
+  describe("stripImageMetadata", () => {
+    it("should drop EXIF from JPEGs but keep the image data", () => {
+      const original = jpeg(640, 480, 6);
+      const stripped = stripImageMetadata(original.buffer, "image/jpeg");
+
+      expect(contains(original, "Exif")).toBe(true);
+      expect(contains(stripped, "Exif")).toBe(false);
+      expect(contains(stripped, "JFIF")).toBe(true);
+      expect(inspectImage(stripped.buffer)).toMatchObject({
+        width: 640,
+        height: 480,
+        orientation: 1,
+      });
+      expect([...stripped.slice(-4)]).toEqual([0xaa, 0xbb, 0xff, 0xd9]);
+    });
+
+    it("should drop text chunks from PNGs", () => {
+      const stripped = stripImageMetadata(png(10, 10).buffer, "image/png");
+
+      expect(contains(stripped, "secret")).toBe(false);
+      expect(contains(stripped, "IDAT")).toBe(true);
+      expect(contains(stripped, "IEND")).toBe(true);
+    });
+
+    it("should drop EXIF from WebPs and fix up the header", () => {
+      const stripped = stripImageMetadata(webp(10, 10).buffer, "image/webp");
+      const view = new DataView(stripped.buffer);
+
+      expect(contains(stripped, "GPS data")).toBe(false);
+      expect(view.getUint32(4, true)).toBe(stripped.length - 8);
+      expect(stripped[20] & 0x08).toBe(0);
+      expect(inspectImage(stripped.buffer)).toMatchObject({
+        width: 10,
+        height: 10,
+      });
+    });
+  });
+
+  describe("renderImageVariants", () => {
+    it("should render every size upright", async () => {
+      const calls: unknown[][] = [];
+      const transformer = {
+        input: () => {
+          const steps: unknown[] = [];
+          const handle = {
+            transform: (transform: unknown) => {
+              steps.push(transform);
+              return handle;
+            },
+            output: async (options: unknown) => {
+              calls.push([...steps, options]);
+              return { response: () => new Response("rendered") };
+            },
+          };
+          return handle;
+        },
+      } as unknown as ImagesBinding;
+
+      const info = inspectImage(jpeg(4000, 3000, 6).buffer)!;
+      const variants = await renderImageVariants(
+        transformer,
+        stripImageMetadata(jpeg(4000, 3000, 6).buffer, "image/jpeg"),
+        info,
+      );
+
+      expect(variants.map((variant) => variant.name)).toEqual([
+        "thumb",
+        "medium",
+        "full",
+        "fallback",
+      ]);
+      expect(variants[0]).toMatchObject({
+        mimeType: "image/webp",
+        width: 300,
+        height: 400,
+      });
+      expect(variants[3].mimeType).toBe("image/jpeg");
+      expect(calls[0][0]).toEqual({ rotate: 90 });
+    });
+  });
+
+  describe("variantSize", () => {
+    it("should never enlarge small images", () => {
+      expect(variantSize({ width: 200, height: 100 }, 400)).toEqual({
+        width: 200,
+        height: 100,
+      });
+      expect(variantSize({ width: 1000, height: 500 }, 400)).toEqual({
+        width: 400,
+        height: 200,
+      });
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateBumpLift,
+  fillAnalyticsDays,
+  listAnalyticsDays,
+  toAnalyticsDay,
+  type DailyListingStats,
+} from "../../services/listing-analytics";
+
+const at = (day: string, hour = 12) =>
+  Date.parse(`${day}T${String(hour).padStart(2, "0")}:00:00Z`);
+
+const row = (day: string, views: number): DailyListingStats => ({
+  day,
+  views,
+  uniqueViewers: views,
+  contactClicks: 0,
+  shares: 0,
+});
+
+describe("listing analytics days", () => {
+  it("should group timestamps by UTC day", () => {
+    expect(toAnalyticsDay(at("2026-03-01", 0))).toBe("2026-03-01");
+    expect(toAnalyticsDay(at("2026-03-01", 23))).toBe("2026-03-01");
+  });
+
+  it("should list days inclusively across month boundaries", () => {
+    expect(listAnalyticsDays(at("2026-02-27"), at("2026-03-02", 1))).toEqual([
+      "2026-02-27",
+      "2026-02-28",
+      "2026-03-01",
+      "2026-03-02",
+    ]);
+  });
+
+  it("should zero-fill days without a rollup row", () => {
+    const days = fillAnalyticsDays(
+      [row("2026-03-02", 5)],
+      ["2026-03-01", "2026-03-02"],
+    );
+
+    expect(days.map((day) => day.views)).toEqual([0, 5]);
+    expect(days[0].day).toBe("2026-03-01");
+  });
+});
+
+describe("calculateBumpLift", () => {
+  const listedAt = at("2026-03-01");
+
+  it("should return null for listings that were never bumped", () => {
+    expect(calculateBumpLift([], listedAt, null, at("2026-03-10"))).toBeNull();
+  });
+
+  it("should compare daily views before and after the bump", () => {
+    const rows = [
+      row("2026-03-02", 2),
+      row("2026-03-03", 4),
+      row("2026-03-04", 0),
+      row("2026-03-05", 9),
+      row("2026-03-06", 3),
+      row("2026-03-07", 6),
+    ];
+
+    expect(
+      calculateBumpLift(rows, listedAt, at("2026-03-05"), at("2026-03-10")),
+    ).toEqual({
+      bumpedAt: at("2026-03-05"),
+      viewsPerDayBefore: 2,
+      viewsPerDayAfter: 6,
+      liftPercent: 200,
+    });
+  });
+
+  it("should only count days that have already happened", () => {
+    const lift = calculateBumpLift(
+      [row("2026-03-04", 4), row("2026-03-05", 10)],
+      listedAt,
+      at("2026-03-05", 8),
+      at("2026-03-05", 20),
+    );
+
+    expect(lift?.viewsPerDayAfter).toBe(10);
+  });
+
+  it("should ignore days before the listing was created", () => {
+    const lift = calculateBumpLift(
+      [row("2026-03-01", 3)],
+      listedAt,
+      at("2026-03-02"),
+      at("2026-03-03"),
+    );
+
+    expect(lift?.viewsPerDayBefore).toBe(3);
+  });
+
+  it("should not report a lift without earlier views or history", () => {
+    expect(
+      calculateBumpLift(
+        [row("2026-03-03", 5)],
+        listedAt,
+        at("2026-03-03"),
+        at("2026-03-04"),
+      )?.liftPercent,
+    ).toBeNull();
+    expect(
+      calculateBumpLift([], listedAt, at("2026-03-01", 18), at("2026-03-02")),
+    ).toBeNull();
+  });
+});
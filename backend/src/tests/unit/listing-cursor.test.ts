@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import {
+  decodeListingCursor,
+  encodeListingCursor,
+  getCursorSortKey,
+} from "../../services/listing-cursor";
+
+describe("listing cursors", () => {
+  const dateDesc = getCursorSortKey("date", "desc");
+
+  it("should round-trip keyset positions", () => {
+    const cursor = { value: "2026-03-01T12:00:00.000Z", id: 42 };
+    const encoded = encodeListingCursor(dateDesc, cursor);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeListingCursor(encoded, dateDesc)).toEqual(cursor);
+  });
+
+  it("should round-trip numeric sort values", () => {
+    const sortKey = getCursorSortKey("price", "asc");
+    const encoded = encodeListingCursor(sortKey, { value: 1999, id: 7 });
+
+    expect(decodeListingCursor(encoded, sortKey)).toEqual({
+      value: 1999,
+      id: 7,
+    });
+  });
+
+  it("should page relevance results by offset", () => {
+    const sortKey = getCursorSortKey("relevance", "desc");
+    const encoded = encodeListingCursor(sortKey, { offset: 40 });
+
+    expect(sortKey).toBe(getCursorSortKey("relevance", "asc"));
+    expect(decodeListingCursor(encoded, sortKey)).toEqual({ offset: 40 });
+  });
+
+  it("should reject cursors issued for a different sort", () => {
+    const encoded = encodeListingCursor(dateDesc, { value: "x", id: 1 });
+
+    expect(
+      decodeListingCursor(encoded, getCursorSortKey("date", "asc")),
+    ).toBeNull();
+    expect(
+      decodeListingCursor(encoded, getCursorSortKey("bumped", "desc")),
+    ).toBeNull();
+  });
+
+  it("should reject malformed cursors", () => {
+    expect(decodeListingCursor("not-a-cursor", dateDesc)).toBeNull();
+    expect(
+      decodeListingCursor(btoa(JSON.stringify({ s: dateDesc })), dateDesc),
+    ).toBeNull();
+    expect(
+      decodeListingCursor(
+        btoa(JSON.stringify({ s: dateDesc, v: "x", id: "1" })),
+        dateDesc,
+      ),
+    ).toBeNull();
+    expect(
+      decodeListingCursor(
+        btoa(JSON.stringify({ s: dateDesc, o: -5 })),
+        dateDesc,
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  isCompleteImageOrder,
+  storedKeys,
+  toImageUrlData,
+} from "../../services/image-service";
+import type { ListingImage } from "../../db/schema";
+
+const image = (overrides: Partial<ListingImage> = {}): ListingImage => ({
+  id: 2,
+  listingId: 5,
+  originalName: "2.jpg",
+  imageKey: "images/5/abc/full.webp",
+  thumbnailKey: "images/5/abc/thumb.webp",
+  variantPrefix: "images/5/abc",
+  mimeType: "image/webp",
+  fileSize: 100,
+  storedBytes: 300,
+  width: 800,
+  height: 600,
+  uploadOrder: 2,
+  isCover: 0,
+  createdAt: "2025-01-01T00:00:00Z",
+  ...overrides,
+});
+
+describe("Listing images", () => {
+  describe("isCompleteImageOrder", () => {
+    it("should accept every image exactly once, with or without a cover", () => {
+      expect(isCompleteImageOrder([1, 2, 3], [3, 1, 2])).toBe(true);
+      expect(isCompleteImageOrder([1, 2, 3], [3, 1, 2], 2)).toBe(true);
+    });
+
+    it("should refuse an incomplete, repeated or foreign set of images", () => {
+      expect(isCompleteImageOrder([1, 2, 3], [2, 1])).toBe(false);
+      expect(isCompleteImageOrder([1, 2, 3], [3, 2, 2])).toBe(false);
+      expect(isCompleteImageOrder([1, 2, 3], [3, 2, 9])).toBe(false);
+      expect(isCompleteImageOrder([1, 2, 3], [3, 2, 1, 9])).toBe(false);
+    });
+
+    it("should refuse a cover that isn't one of the listing's images", () => {
+      expect(isCompleteImageOrder([1, 2, 3], [3, 2, 1], 9)).toBe(false);
+    });
+  });
+
+  describe("storedKeys", () => {
+    it("should list every rendered size once, all under the image's prefix", () => {
+      const keys = storedKeys(image());
+
+      expect(keys).toContain("images/5/abc/full.webp");
+      expect(keys).toContain("images/5/abc/thumb.webp");
+      expect(keys).toContain("images/5/abc/fallback.jpg");
+      expect(new Set(keys).size).toBe(keys.length);
+      expect(keys.every((key) => key.startsWith("images/5/abc/"))).toBe(true);
+    });
+
+    it("should only list the original files of images uploaded before variants", () => {
+      expect(
+        storedKeys(
+          image({
+            imageKey: "images/5/old.jpg",
+            thumbnailKey: "images/5/old_thumb.jpg",
+            variantPrefix: null,
+          }),
+        ),
+      ).toEqual(["images/5/old.jpg", "images/5/old_thumb.jpg"]);
+    });
+  });
+
+  describe("toImageUrlData", () => {
+    it("should expose the cover flag as a boolean", () => {
+      expect(toImageUrlData(image({ isCover: 1 })).isCover).toBe(true);
+      expect(toImageUrlData(image()).isCover).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { createDatabase } from "../../db";
+import { ListingService } from "../../services/listing-service";
+import type { Env } from "../../types/env";
+import {
+  buildFtsExclusionQuery,
+  buildFtsMatchQuery,
+  parseSnippet,
+  HIGHLIGHT_START,
+  HIGHLIGHT_END,
+} from "../../services/listing-search";
+
+describe("Listing Search", () => {
+  describe("buildFtsMatchQuery", () => {
+    it("should prefix-match bare terms", () => {
+      expect(buildFtsMatchQuery("iph")).toBe('"iph"*');
+      expect(buildFtsMatchQuery("red bike")).toBe('("red"* "bike"*)');
+    });
+
+    it("should match quoted phrases exactly", () => {
+      expect(buildFtsMatchQuery('"barely used" phone')).toBe(
+        '("barely used" "phone"*)',
+      );
+    });
+
+    it("should exclude negated terms and phrases", () => {
+      expect(buildFtsMatchQuery("phone -case")).toBe('"phone"* NOT "case"');
+      expect(buildFtsMatchQuery('bike -red -"flat tire"')).toBe(
+        '"bike"* NOT ("red" OR "flat tire")',
+      );
+    });
+
+    it("should strip FTS5 syntax from user input", () => {
+      expect(buildFtsMatchQuery("title:sofa OR NEAR(")).toBe(
+        '("title sofa"* "OR"* "NEAR"*)',
+      );
+      expect(buildFtsMatchQuery('"unterminated phrase')).toBe(
+        '"unterminated phrase"',
+      );
+    });
+
+    it("should return null when nothing searchable remains", () => {
+      expect(buildFtsMatchQuery("")).toBeNull();
+      expect(buildFtsMatchQuery("*** ---")).toBeNull();
+      expect(buildFtsMatchQuery("-case")).toBeNull();
+    });
+  });
+
+  describe("buildFtsExclusionQuery", () => {
+    it("should exclude the terms of an exclusion-only search", () => {
+      expect(buildFtsExclusionQuery("-case")).toBe('"case"');
+      expect(buildFtsExclusionQuery('-red -"flat tire"')).toBe(
+        '("red" OR "flat tire")',
+      );
+    });
+
+    it("should leave searches with terms to include to the match query", () => {
+      expect(buildFtsExclusionQuery("phone -case")).toBeNull();
+      expect(buildFtsExclusionQuery("phone")).toBeNull();
+      expect(buildFtsExclusionQuery("")).toBeNull();
+    });
+  });
+
+  describe("ListingService.getListingsWithImages", () => {
+    it("should filter out listings matching an exclusion-only search", async () => {
+      const queries: { sql: string; params: unknown[] }[] = [];
+      const statement = (sql: string, params: unknown[] = []) => ({
+        bind: (...values: unknown[]) => statement(sql, values),
+        all: async () => ({ results: [] }),
+        raw: async () => {
+          queries.push({ sql, params });
+          return [];
+        },
+        first: async () => null,
+        run: async () => ({ success: true, meta: {} }),
+      });
+      const env = {
+        DB: { prepare: (sql: string) => statement(sql) },
+      } as unknown as Env;
+
+      await new ListingService(
+        createDatabase(env.DB),
+        env,
+      ).getListingsWithImages({ limit: 20, offset: 0, search: "-case" });
+
+      const [query] = queries;
+      expect(query.sql).toContain(
+        `"listings"."id" NOT IN (SELECT rowid FROM listings_fts WHERE listings_fts MATCH ?)`,
+      );
+      expect(query.params).toContain('"case"');
+    });
+  });
+
+  describe("parseSnippet", () => {
+    it("should split a snippet into highlighted segments", () => {
+      const snippet = `Great ${HIGHLIGHT_START}phone${HIGHLIGHT_END}, barely used`;
+      expect(parseSnippet(snippet)).toEqual([
+        { text: "Great ", highlight: false },
+        { text: "phone", highlight: true },
+        { text: ", barely used", highlight: false },
+      ]);
+    });
+
+    it("should return no segments for an empty snippet", () => {
+      expect(parseSnippet(null)).toEqual([]);
+      expect(parseSnippet("")).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { ListingStatusService } from "../../services/listing-status-service";
+import type { Database } from "../../db";
+import type { Listing } from "../../db/schema";
+import type { Env } from "../../types/env";
+
+describe("ListingStatusService.canChangeStatus", () => {
+  const service = new ListingStatusService({} as Database, {} as Env);
+  const createListing = (status: string): Listing =>
+    ({ id: 1, userId: 100, status }) as Listing;
+
+  it("should let the owner reserve and sell an active listing", () => {
+    expect(
+      service.canChangeStatus(createListing("active"), 100, "reserved"),
+    ).toEqual({ allowed: true });
+    expect(
+      service.canChangeStatus(createListing("active"), 100, "sold"),
+    ).toEqual({ allowed: true });
+  });
+
+  it("should let the owner release or sell a reserved listing", () => {
+    expect(
+      service.canChangeStatus(createListing("reserved"), 100, "active").allowed,
+    ).toBe(true);
+    expect(
+      service.canChangeStatus(createListing("reserved"), 100, "sold").allowed,
+    ).toBe(true);
+  });
+
+  it("should allow marking an expired listing as sold", () => {
+    expect(
+      service.canChangeStatus(createListing("expired"), 100, "sold").allowed,
+    ).toBe(true);
+    expect(
+      service.canChangeStatus(createListing("expired"), 100, "reserved")
+        .allowed,
+    ).toBe(false);
+  });
+
+  it("should treat sold and archived listings as final", () => {
+    for (const target of ["active", "reserved", "sold"] as const) {
+      expect(
+        service.canChangeStatus(createListing("sold"), 100, target).allowed,
+      ).toBe(false);
+      expect(
+        service.canChangeStatus(createListing("archived"), 100, target).allowed,
+      ).toBe(false);
+    }
+  });
+
+  it("should reject changes by anyone but the owner", () => {
+    const result = service.canChangeStatus(
+      createListing("active"),
+      200,
+      "sold",
+    );
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toBe("You don't own this listing");
+  });
+});
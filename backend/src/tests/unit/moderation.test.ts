@@ -0,0 +1,167 @@
+import { describe, it, expect } from "vitest";
+import {
+  ModerationService,
+  compileModerationRule,
+  contactDetailsCheck,
+  toListingModeration,
+  type ModerationCheck,
+  type ModerationFinding,
+} from "../../services/moderation-service";
+import type { Database } from "../../db";
+import type { Env } from "../../types/env";
+
+// A service running only the given findings; none of these touch the database
+const serviceWith = (...findings: ModerationFinding[]) => {
+  const checks: ModerationCheck[] = findings.map((finding) => async () => [
+    finding,
+  ]);
+  return new ModerationService({} as Database, {} as Env, checks);
+};
+
+describe("Moderation", () => {
+  describe("compileModerationRule", () => {
+    it("should only match words and phrases as whole words", () => {
+      const matcher = compileModerationRule({ kind: "word", pattern: "scam" });
+
+      expect(matcher.test("Total SCAM, avoid")).toBe(true);
+      expect(matcher.test("scammer")).toBe(false);
+      expect(matcher.test("antiscam")).toBe(false);
+    });
+
+    it("should find word boundaries in non-Latin scripts", () => {
+      const matcher = compileModerationRule({
+        kind: "word",
+        pattern: "подделка",
+      });
+
+      expect(matcher.test("Это ПОДДЕЛКА!")).toBe(true);
+      expect(matcher.test("подделками")).toBe(false);
+    });
+
+    it("should treat word patterns literally", () => {
+      const matcher = compileModerationRule({ kind: "word", pattern: "a.b" });
+
+      expect(matcher.test("see a.b here")).toBe(true);
+      expect(matcher.test("see axb here")).toBe(false);
+    });
+
+    it("should compile regex rules case-insensitively", () => {
+      const matcher = compileModerationRule({
+        kind: "regex",
+        pattern: "free\\s+money",
+      });
+
+      expect(matcher.test("FREE   Money inside")).toBe(true);
+    });
+  });
+
+  describe("contactDetailsCheck", () => {
+    const labels = async (description: string) =>
+      (await contactDetailsCheck({ userId: 1, description })).map(
+        (finding) => `${finding.action}: ${finding.label}`,
+      );
+
+    it("should flag phone numbers", async () => {
+      expect(await labels("Call me on +1 (555) 123-4567")).toEqual([
+        "flag: Phone number in description",
+      ]);
+    });
+
+    it("should hold links and bare domains", async () => {
+      expect(await labels("Details at https://example.org/lamp")).toEqual([
+        "hold: Link in description",
+      ]);
+      expect(await labels("Message me on shop.ru")).toEqual([
+        "hold: Link in description",
+      ]);
+    });
+
+    it("should leave prices, years and plain text alone", async () => {
+      expect(await labels("Bought in 2021 for 15000, works fine")).toEqual([]);
+      expect(await contactDetailsCheck({ userId: 1 })).toEqual([]);
+    });
+  });
+
+  describe("checkListing", () => {
+    it("should allow text nothing objects to", async () => {
+      const verdict = await serviceWith().checkListing({ userId: 1 });
+
+      expect(verdict).toEqual({
+        action: "allow",
+        findings: [],
+        message: undefined,
+      });
+    });
+
+    it("should take the most severe finding and keep them all", async () => {
+      const verdict = await serviceWith(
+        { action: "flag", label: "Phone number in description" },
+        { action: "hold", label: "Link in description" },
+      ).checkListing({ userId: 1 });
+
+      expect(verdict.action).toBe("hold");
+      expect(toListingModeration(verdict)).toEqual({
+        hold: true,
+        flags: ["Phone number in description", "Link in description"],
+      });
+    });
+
+    it("should explain a rejection with the rejecting finding's message", async () => {
+      const verdict = await serviceWith(
+        { action: "hold", label: "Link in description" },
+        {
+          action: "reject",
+          label: "Duplicate of another listing by the seller",
+          message: "You already have a listing with this title and description",
+        },
+      ).checkListing({ userId: 1 });
+
+      expect(verdict.action).toBe("reject");
+      expect(verdict.message).toBe(
+        "You already have a listing with this title and description",
+      );
+    });
+
+    it("should fall back to a generic message for rule rejections", async () => {
+      const verdict = await serviceWith({
+        action: "reject",
+        label: 'Matched word rule "scam"',
+      }).checkListing({ userId: 1 });
+
+      expect(verdict.message).toBe("This contains content that isn't allowed");
+    });
+
+    it("should record flags without holding the listing", async () => {
+      const verdict = await serviceWith({
+        action: "flag",
+        label: "Phone number in description",
+      }).checkListing({ userId: 1 });
+
+      expect(toListingModeration(verdict)).toEqual({
+        hold: false,
+        flags: ["Phone number in description"],
+      });
+    });
+  });
+
+  describe("checkProfile", () => {
+    it("should reject profile text a listing would be held for", async () => {
+      const verdict = await serviceWith({
+        action: "hold",
+        label: "Link in description",
+      }).checkProfile({ userId: 1, bio: "shop.ru" });
+
+      expect(verdict.action).toBe("reject");
+      expect(verdict.message).toBe("This contains content that isn't allowed");
+    });
+
+    it("should let flagged profile text through", async () => {
+      const verdict = await serviceWith({
+        action: "flag",
+        label: 'Matched word rule "deal"',
+      }).checkProfile({ userId: 1, bio: "Good deal" });
+
+      expect(verdict.action).toBe("flag");
+    });
+  });
+});
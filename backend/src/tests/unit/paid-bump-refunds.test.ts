@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { getTableColumns } from "drizzle-orm";
+import { createDatabase } from "../../db";
+import { payments } from "../../db/schema";
+import type { Payment } from "../../db/schema";
+import {
+  BumpService,
+  parseBumpSnapshot,
+  revertedBumpFields,
+  toBumpSnapshotMeta,
+  type PaidBumpSnapshot,
+} from "../../services/bump-service";
+import { PaymentService } from "../../services/payment-service";
+import type { Env } from "../../types/env";
+
+const HOUR = 60 * 60 * 1000;
+const now = Date.UTC(2025, 0, 10, 12);
+
+const snapshot: PaidBumpSnapshot = {
+  previousExpiresAt: now + 2 * HOUR,
+  previousLastBumpedAt: now - 48 * HOUR,
+  previousStatus: "reserved",
+  bumpedAt: now - HOUR,
+};
+
+const payment = (overrides: Partial<Payment> = {}): Payment => ({
+  id: "pay_1",
+  invoicePayload: "payload_1",
+  telegramPaymentChargeId: null,
+  providerPaymentChargeId: null,
+  userId: 7,
+  listingId: 5,
+  paymentType: "bump",
+  starAmount: 50,
+  status: "refunded",
+  rawUpdate: null,
+  meta: null,
+  createdAt: "2025-01-10T11:00:00Z",
+  updatedAt: "2025-01-10T11:00:00Z",
+  ...overrides,
+});
+
+// D1 that records every statement; updates returning a payment answer with
+// the given row
+const recordingEnv = (returned: Payment | null = null) => {
+  const statements: { sql: string; params: unknown[] }[] = [];
+  const columns = Object.keys(getTableColumns(payments)) as (keyof Payment)[];
+
+  const statement = (sql: string, params: unknown[] = []) => ({
+    bind: (...values: unknown[]) => statement(sql, values),
+    all: async () => ({ results: [] }),
+    raw: async () => {
+      statements.push({ sql, params });
+      return sql.includes(`update "payments"`) && returned
+        ? [columns.map((column) => returned[column])]
+        : [];
+    },
+    first: async () => null,
+    run: async () => {
+      statements.push({ sql, params });
+      return { success: true, meta: {} };
+    },
+  });
+
+  const env = {
+    DB: { prepare: (sql: string) => statement(sql) },
+  } as unknown as Env;
+  return { env, statements, db: createDatabase(env.DB) };
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("Paid bump refunds", () => {
+  describe("bump snapshots", () => {
+    it("should read back the snapshot stored in a payment's meta", () => {
+      expect(parseBumpSnapshot(toBumpSnapshotMeta(snapshot))).toEqual(snapshot);
+    });
+
+    it("should have no snapshot for bumps that never applied", () => {
+      expect(parseBumpSnapshot(null)).toBeNull();
+      expect(parseBumpSnapshot(JSON.stringify({ bumpError: "Nope" }))).toBe(
+        null,
+      );
+      expect(parseBumpSnapshot("{not json")).toBeNull();
+    });
+  });
+
+  describe("revertedBumpFields", () => {
+    it("should put the listing back as it was before the bump", () => {
+      expect(
+        revertedBumpFields(
+          { bumpCount: 3, lastBumpedAt: snapshot.bumpedAt, status: "reserved" },
+          snapshot,
+          now,
+        ),
+      ).toEqual({
+        expiresAt: snapshot.previousExpiresAt,
+        lastBumpedAt: snapshot.previousLastBumpedAt,
+        bumpCount: 2,
+        status: "reserved",
+      });
+    });
+
+    it("should expire a listing the bump reactivated once its old expiry has passed", () => {
+      const expiredSnapshot = {
+        ...snapshot,
+        previousExpiresAt: now - 24 * HOUR,
+        previousStatus: "expired",
+      };
+
+      expect(
+        revertedBumpFields(
+          { bumpCount: 1, lastBumpedAt: snapshot.bumpedAt, status: "active" },
+          expiredSnapshot,
+          now,
+        ).status,
+      ).toBe("expired");
+    });
+
+    it("should only correct the bump count when the listing was bumped again", () => {
+      expect(
+        revertedBumpFields(
+          { bumpCount: 0, lastBumpedAt: now, status: "active" },
+          snapshot,
+          now,
+        ),
+      ).toEqual({ bumpCount: 0 });
+    });
+  });
+
+  describe("revertListingForPayment", () => {
+    it("should roll back a refunded bump with its snapshot", async () => {
+      const { env, db } = recordingEnv();
+      const revert = vi
+        .spyOn(BumpService.prototype, "revertPaidBump")
+        .mockResolvedValue(null);
+
+      await new PaymentService(db, env).revertListingForPayment(
+        payment({ meta: toBumpSnapshotMeta(snapshot) }),
+      );
+
+      expect(revert).toHaveBeenCalledWith(5, snapshot);
+    });
+
+    it("should leave the listing alone when the bump never applied", async () => {
+      const { env, db, statements } = recordingEnv();
+      const revert = vi.spyOn(BumpService.prototype, "revertPaidBump");
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      await new PaymentService(db, env).revertListingForPayment(
+        payment({ meta: JSON.stringify({ bumpError: "Listing not found" }) }),
+      );
+
+      expect(revert).not.toHaveBeenCalled();
+      expect(statements).toEqual([]);
+    });
+  });
+
+  describe("refundUnappliedBump", () => {
+    const charge = {
+      telegramPaymentChargeId: "tg_charge",
+      providerPaymentChargeId: "provider_charge",
+    };
+
+    it("should record the charge, clear the pending flag and mark the refund", async () => {
+      const { env, db, statements } = recordingEnv(
+        payment({ status: "succeeded", ...charge }),
+      );
+      const service = new PaymentService(db, env);
+      const refund = vi
+        .spyOn(service, "refundPayment")
+        .mockResolvedValue({ success: true });
+
+      const result = await service.refundUnappliedBump(
+        "pay_1",
+        charge,
+        "Listing not found",
+      );
+
+      expect(result).toEqual({ success: true });
+      expect(refund).toHaveBeenCalledWith("pay_1");
+
+      const [settle, listing, refunded] = statements;
+      expect(settle.params).toEqual(
+        expect.arrayContaining([
+          "succeeded",
+          "tg_charge",
+          "provider_charge",
+          JSON.stringify({ bumpError: "Listing not found" }),
+        ]),
+      );
+      expect(listing.sql).toContain(`update "listings"`);
+      expect(listing.params).toEqual(expect.arrayContaining([0, 5]));
+      expect(refunded.params).toContain("refunded");
+      expect(statements).toHaveLength(3);
+    });
+
+    it("should leave the payment succeeded for an admin when the refund fails", async () => {
+      const { env, db, statements } = recordingEnv(
+        payment({ status: "succeeded", ...charge }),
+      );
+      const service = new PaymentService(db, env);
+      vi.spyOn(service, "refundPayment").mockResolvedValue({
+        success: false,
+        error: "Bad Request: CHARGE_NOT_FOUND",
+      });
+
+      const result = await service.refundUnappliedBump(
+        "pay_1",
+        charge,
+        "Listing not found",
+      );
+
+      expect(result.success).toBe(false);
+      expect(statements).toHaveLength(2);
+      expect(statements.some(({ params }) => params.includes("refunded"))).toBe(
+        false,
+      );
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import {
+  exceedsStorageQuota,
+  findOrphanedObjects,
+  type StorageUsage,
+} from "../../services/storage-service";
+import { ORPHANED_IMAGE_GRACE_HOURS } from "../../../../shared/constants";
+
+const MiB = 1024 * 1024;
+const now = Date.parse("2025-01-02T12:00:00Z");
+const graceMs = ORPHANED_IMAGE_GRACE_HOURS * 60 * 60 * 1000;
+
+const object = (key: string, ageMs = graceMs) => ({
+  key,
+  uploaded: new Date(now - ageMs),
+});
+
+describe("Storage", () => {
+  describe("findOrphanedObjects", () => {
+    it("should pick old objects nothing refers to", () => {
+      const objects = [
+        object("images/7/a1b2/full.webp"),
+        object("images/7/c3d4/full.webp"),
+        object("profiles/123/1700000000000-avatar.jpg"),
+      ];
+      const referenced = new Set(["images/7/a1b2/full.webp"]);
+
+      expect(
+        findOrphanedObjects(objects, referenced, now).map((o) => o.key),
+      ).toEqual([
+        "images/7/c3d4/full.webp",
+        "profiles/123/1700000000000-avatar.jpg",
+      ]);
+    });
+
+    it("should keep objects within the grace period", () => {
+      const objects = [object("images/7/a1b2/full.webp", graceMs - 1000)];
+
+      expect(findOrphanedObjects(objects, new Set(), now)).toEqual([]);
+    });
+
+    it("should leave staged uploads and unknown prefixes alone", () => {
+      const objects = [
+        object("uploads/0b6f6c1e-6f1c-4a43-9a3b-4c1b7f0f6d3a/0"),
+        object("backups/listings.sql"),
+      ];
+
+      expect(findOrphanedObjects(objects, new Set(), now)).toEqual([]);
+    });
+  });
+
+  describe("exceedsStorageQuota", () => {
+    const usage: StorageUsage = {
+      telegramId: 123,
+      imageCount: 4,
+      listingImageBytes: 90 * MiB,
+      avatarBytes: 2 * MiB,
+      reservedBytes: 0,
+      totalBytes: 92 * MiB,
+      quotaBytes: 100 * MiB,
+    };
+
+    it("should allow uploads up to the quota", () => {
+      expect(exceedsStorageQuota(usage, 8 * MiB)).toBe(false);
+      expect(exceedsStorageQuota(usage, 8 * MiB + 1)).toBe(true);
+    });
+
+    it("should not count bytes the upload replaces", () => {
+      expect(exceedsStorageQuota(usage, 10 * MiB, usage.avatarBytes)).toBe(
+        false,
+      );
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import {
+  UPLOAD_PART_SIZE,
+  toUploadSessionState,
+  uploadPartCount,
+  uploadPartLength,
+} from "../../services/upload-session-service";
+import {
+  createUploadSessionSchema,
+  uploadPartParamSchema,
+} from "../../../../shared/schemas";
+
+const MiB = 1024 * 1024;
+
+describe("Upload sessions", () => {
+  describe("uploadPartCount", () => {
+    it("should send small files in one request", () => {
+      expect(uploadPartCount(1)).toBe(1);
+      expect(uploadPartCount(UPLOAD_PART_SIZE)).toBe(1);
+    });
+
+    it("should split large files into part-sized pieces", () => {
+      expect(uploadPartCount(UPLOAD_PART_SIZE + 1)).toBe(2);
+      expect(uploadPartCount(10 * MiB)).toBe(2);
+      expect(uploadPartCount(10 * MiB + 1)).toBe(3);
+    });
+  });
+
+  describe("uploadPartLength", () => {
+    it("should make every part full-sized but the last", () => {
+      const size = 2 * UPLOAD_PART_SIZE + 123;
+
+      expect(uploadPartLength(size, 1)).toBe(UPLOAD_PART_SIZE);
+      expect(uploadPartLength(size, 2)).toBe(UPLOAD_PART_SIZE);
+      expect(uploadPartLength(size, 3)).toBe(123);
+    });
+  });
+
+  describe("toUploadSessionState", () => {
+    it("should tell the client what is still missing", () => {
+      const state = toUploadSessionState({
+        session: {
+          id: "0b6f6c1e-6f1c-4a43-9a3b-4c1b7f0f6d3a",
+          listingId: 7,
+          userId: 123,
+          expiresAt: 1_700_000_000_000,
+          createdAt: "2025-01-01 12:00:00",
+        },
+        files: [
+          {
+            id: 1,
+            sessionId: "0b6f6c1e-6f1c-4a43-9a3b-4c1b7f0f6d3a",
+            slot: 0,
+            originalName: "small.jpg",
+            size: 1000,
+            multipartUploadId: null,
+            uploadedAt: 1_699_999_000_000,
+            parts: [],
+          },
+          {
+            id: 2,
+            sessionId: "0b6f6c1e-6f1c-4a43-9a3b-4c1b7f0f6d3a",
+            slot: 1,
+            originalName: "large.jpg",
+            size: 8 * MiB,
+            multipartUploadId: "multipart-1",
+            uploadedAt: null,
+            parts: [{ id: 1, fileId: 2, partNumber: 1, etag: "etag-1" }],
+          },
+        ],
+      });
+
+      expect(state.partSize).toBe(UPLOAD_PART_SIZE);
+      expect(state.files).toEqual([
+        {
+          slot: 0,
+          name: "small.jpg",
+          size: 1000,
+          parts: 1,
+          receivedParts: [],
+          uploaded: true,
+        },
+        {
+          slot: 1,
+          name: "large.jpg",
+          size: 8 * MiB,
+          parts: 2,
+          receivedParts: [1],
+          uploaded: false,
+        },
+      ]);
+    });
+  });
+
+  describe("schemas", () => {
+    it("should reserve between 1 and 10 files of up to 10MB", () => {
+      const file = { name: "photo.jpg", size: 1000 };
+
+      expect(
+        createUploadSessionSchema.safeParse({ files: [file] }).success,
+      ).toBe(true);
+      expect(createUploadSessionSchema.safeParse({ files: [] }).success).toBe(
+        false,
+      );
+      expect(
+        createUploadSessionSchema.safeParse({ files: Array(11).fill(file) })
+          .success,
+      ).toBe(false);
+      expect(
+        createUploadSessionSchema.safeParse({
+          files: [{ name: "huge.jpg", size: 10 * MiB + 1 }],
+        }).success,
+      ).toBe(false);
+    });
+
+    it("should only accept slots within the image limit", () => {
+      const param = {
+        listingId: "7",
+        uploadId: "0b6f6c1e-6f1c-4a43-9a3b-4c1b7f0f6d3a",
+        partNumber: "1",
+      };
+
+      expect(
+        uploadPartParamSchema.safeParse({ ...param, slot: "9" }).success,
+      ).toBe(true);
+      expect(
+        uploadPartParamSchema.safeParse({ ...param, slot: "10" }).success,
+      ).toBe(false);
+      expect(
+        uploadPartParamSchema.safeParse({
+          ...param,
+          uploadId: "nope",
+          slot: "0",
+        }).success,
+      ).toBe(false);
+    });
+  });
+});
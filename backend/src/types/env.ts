@@ -4,6 +4,7 @@
  */
 
 import type { D1Database, R2Bucket } from "@cloudflare/workers-types";
+import type { UserRole } from "../../../shared/constants";
 
 export interface Env {
   // KV Namespaces
@@ -15,11 +16,15 @@ export interface Env {
   // R2 Buckets
   IMAGES: R2Bucket;
 
+  // Cloudflare Images, renders the size variants of uploaded images
+  IMAGE_TRANSFORMER: ImagesBinding;
+
   // Environment Variables
   ENVIRONMENT: string;
   TELEGRAM_BOT_TOKEN: string;
   TELEGRAM_ADMIN_ID: string;
   PAGES_URL?: string; // Optional: Frontend URL for CORS validation (defaults to wildcard *)
+  IMAGE_URL_SECRET?: string; // Optional: key for signed image URLs (defaults to one derived from TELEGRAM_BOT_TOKEN)
   DEV_AUTH_BYPASS_ENABLED?: string;
 }
 
@@ -28,6 +33,7 @@ export interface Env {
  */
 export interface SessionData {
   sessionId: string;
+  publicId?: string; // Names the session in device lists without exposing its token
   userId: number;
   username?: string;
   displayName: string;
@@ -35,7 +41,8 @@ export interface SessionData {
   createdAt: number;
   expiresAt: number;
   isActive: boolean;
-  role: "admin" | "user";
+  role: UserRole; // Refreshed from user_roles whenever the session is validated
   telegramId: number;
   isPremium?: boolean;
+  userAgent?: string; // Browser that signed in, shown in the device list
 }
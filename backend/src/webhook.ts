@@ -2,13 +2,29 @@ import { Context } from "hono";
 import { Bot, webhookCallback, Context as GrammyContext } from "grammy";
 import { createDatabase } from "./db";
 import { PaymentService } from "./services/payment-service";
+import { BumpService, toBumpSnapshotMeta } from "./services/bump-service";
+import {
+  SavedSearchService,
+  queueMatchesInBackground,
+} from "./services/saved-search-service";
+import { ConversationService } from "./services/conversation-service";
+import { BanService } from "./services/ban-service";
+import { ProfileService } from "./services/profile-service";
 import {
   sendPaymentSuccessNotification,
+  sendBumpPaymentSuccessNotification,
   sendAdminPaymentAlert,
   sendPaymentRefundNotification,
+  sendBumpRefundNotification,
   sendAdminRefundAlert,
+  sendAdminBumpFailureAlert,
+  sendPaymentFailureNotification,
 } from "./services/notification-service";
 import { posts, payments } from "./db/schema";
+import {
+  BAN_APPEAL_MAX_LENGTH,
+  MESSAGE_MAX_LENGTH,
+} from "../../shared/constants";
 import { eq } from "drizzle-orm";
 
 export async function handleWebhook(c: Context) {
@@ -54,6 +70,41 @@ export async function handleWebhook(c: Context) {
     );
   });
 
+  // Banned users can't open the web app, so appeals come in through the bot:
+  // /appeal <why the ban should be lifted>
+  bot.command("appeal", async (ctx: GrammyContext) => {
+    try {
+      const message = ctx.match?.toString().trim() ?? "";
+      if (!message) {
+        await ctx.reply(
+          "Send /appeal followed by why your ban should be lifted, e.g.\n\n/appeal I was reported by mistake, the item is legal.",
+        );
+        return;
+      }
+      if (message.length > BAN_APPEAL_MAX_LENGTH) {
+        await ctx.reply(
+          `❌ Appeals must be ${BAN_APPEAL_MAX_LENGTH} characters or less.`,
+        );
+        return;
+      }
+
+      const db = createDatabase(c.env.DB);
+      const banService = new BanService(db, c.env);
+      const result = await banService.createAppeal(ctx.from!.id, message);
+      if (result.error) {
+        await ctx.reply(`❌ ${result.error}`);
+        return;
+      }
+
+      await ctx.reply(
+        "✅ Your appeal was sent. A moderator will review it and you'll get a message with the decision.",
+      );
+    } catch (error) {
+      console.error("❌ Error submitting ban appeal:", error);
+      await ctx.reply("❌ Failed to send your appeal. Please try again.");
+    }
+  });
+
   // Payment webhook handlers (MUST be before generic message handler)
   bot.on("pre_checkout_query", async (ctx: GrammyContext) => {
     console.log("📋 Received pre_checkout_query");
@@ -63,9 +114,10 @@ export async function handleWebhook(c: Context) {
       }
       const { invoice_payload } = ctx.preCheckoutQuery;
 
-      // Parse payload
+      // Parse payload (older invoices carry postId instead of listingId)
       const payload = JSON.parse(invoice_payload);
-      const { postId, userId } = payload;
+      const { userId } = payload;
+      const postId = payload.listingId ?? payload.postId;
 
       const db = createDatabase(c.env.DB);
       const paymentService = new PaymentService(db, c.env);
@@ -80,6 +132,13 @@ export async function handleWebhook(c: Context) {
         return;
       }
 
+      if (payment.status !== "created") {
+        await ctx.answerPreCheckoutQuery(false, {
+          error_message: "Payment already processed",
+        });
+        return;
+      }
+
       // Get the post
       const [post] = await db
         .select()
@@ -96,18 +155,29 @@ export async function handleWebhook(c: Context) {
         return;
       }
 
-      // 2. Post not already premium (star_count === 0)
-      if (post.starCount && post.starCount > 0) {
+      // 2. User owns the post
+      if (post.userId !== userId) {
         await ctx.answerPreCheckoutQuery(false, {
-          error_message: "Post is already premium",
+          error_message: "Unauthorized",
         });
         return;
       }
 
-      // 3. User owns the post
-      if (post.userId !== userId) {
+      // 3. Type-specific checks
+      if (payment.paymentType === "bump") {
+        // Bump must still be allowed (cooldown may have changed since invoice)
+        const bumpService = new BumpService(db, c.env);
+        const eligibility = await bumpService.canBumpListing(postId, userId);
+        if (!eligibility.canBump) {
+          await ctx.answerPreCheckoutQuery(false, {
+            error_message: eligibility.reason || "Listing cannot be bumped",
+          });
+          return;
+        }
+      } else if (post.starCount && post.starCount > 0) {
+        // Post not already premium (star_count === 0)
         await ctx.answerPreCheckoutQuery(false, {
-          error_message: "Unauthorized",
+          error_message: "Post is already premium",
         });
         return;
       }
@@ -151,15 +221,108 @@ export async function handleWebhook(c: Context) {
         const existing = await paymentService.getPaymentByChargeId(
           telegram_payment_charge_id,
         );
-        if (existing && existing.status === "succeeded") {
+        // A refunded charge was processed too, and must not be applied again
+        if (
+          existing &&
+          (existing.status === "succeeded" || existing.status === "refunded")
+        ) {
           console.log("Payment already processed:", telegram_payment_charge_id);
           return;
         }
       }
 
-      // Parse payload
+      // Parse payload (older invoices carry postId instead of listingId)
       const payload = JSON.parse(invoice_payload);
-      const { postId, userId, paymentId } = payload;
+      const { userId, paymentId } = payload;
+      const postId = payload.listingId ?? payload.postId;
+
+      const paymentRecord = await paymentService.getPaymentById(paymentId);
+
+      // Paid bump: extend the listing, keep a snapshot so refunds can undo it
+      if (paymentRecord?.paymentType === "bump") {
+        const bumpService = new BumpService(db, c.env);
+        let bump: Awaited<ReturnType<BumpService["applyPaidBump"]>>;
+        try {
+          bump = await bumpService.applyPaidBump(postId, userId, paymentId);
+        } catch (error) {
+          // Never keep the stars for a bump that didn't happen
+          console.error(`❌ Paid bump ${paymentId} failed, refunding:`, error);
+          const reason = error instanceof Error ? error.message : String(error);
+          const refund = await paymentService.refundUnappliedBump(
+            paymentId,
+            {
+              telegramPaymentChargeId: telegram_payment_charge_id,
+              providerPaymentChargeId: provider_payment_charge_id,
+              rawUpdate: ctx.message,
+            },
+            reason,
+          );
+
+          await sendPaymentFailureNotification(
+            c.env,
+            userId,
+            refund.success
+              ? `your listing couldn't be bumped, so your ${total_amount} ⭐️ were refunded.`
+              : `your listing couldn't be bumped. Your ${total_amount} ⭐️ will be refunded shortly.`,
+          );
+          await sendAdminBumpFailureAlert(c.env, {
+            paymentId,
+            userId,
+            postId,
+            starAmount: total_amount,
+            refunded: refund.success,
+            error: refund.success
+              ? reason
+              : `${reason}; refund: ${refund.error}`,
+          });
+          return;
+        }
+        const { listing, snapshot } = bump;
+
+        const now = new Date().toISOString();
+        await db.batch([
+          db
+            .update(payments)
+            .set({
+              status: "succeeded",
+              telegramPaymentChargeId: telegram_payment_charge_id,
+              providerPaymentChargeId: provider_payment_charge_id,
+              rawUpdate: JSON.stringify(ctx.message),
+              meta: toBumpSnapshotMeta(snapshot),
+              updatedAt: now,
+            })
+            .where(eq(payments.id, paymentId)),
+
+          db
+            .update(posts)
+            .set({
+              isPaymentPending: 0, // Clear pending flag
+              updatedAt: now,
+            })
+            .where(eq(posts.id, postId)),
+        ]);
+
+        await sendBumpPaymentSuccessNotification(
+          c.env,
+          userId,
+          postId,
+          listing.expiresAt,
+        );
+
+        queueMatchesInBackground(c.executionCtx, db, c.env, listing);
+
+        await sendAdminPaymentAlert(c.env, {
+          userId,
+          postId,
+          starAmount: total_amount,
+          chargeId: telegram_payment_charge_id || "unknown",
+        });
+
+        console.log(
+          `✅ Paid bump succeeded: user=${userId}, listing=${postId}, stars=${total_amount}`,
+        );
+        return;
+      }
 
       // Atomic update with db.batch()
       const now = new Date().toISOString();
@@ -258,20 +421,15 @@ export async function handleWebhook(c: Context) {
         })
         .where(eq(payments.id, payment.id));
 
-      // Revert listing if it exists
-      if (payment.listingId !== null) {
-        await db
-          .update(posts)
-          .set({
-            starCount: 0,
-            paymentId: null,
-            updatedAt: now,
-          })
-          .where(eq(posts.id, payment.listingId));
-      }
+      // Revert listing (premium stars or paid bump)
+      await paymentService.revertListingForPayment(payment);
 
       // Send notifications
-      await sendPaymentRefundNotification(
+      const sendRefundNotification =
+        payment.paymentType === "bump"
+          ? sendBumpRefundNotification
+          : sendPaymentRefundNotification;
+      await sendRefundNotification(
         c.env,
         payment.userId,
         payment.listingId ?? 0,
@@ -292,6 +450,114 @@ export async function handleWebhook(c: Context) {
     }
   });
 
+  // Mute button on saved search digests
+  bot.callbackQuery("mute_saved_searches", async (ctx: GrammyContext) => {
+    try {
+      const db = createDatabase(c.env.DB);
+      const savedSearchService = new SavedSearchService(db, c.env);
+      await savedSearchService.muteAllForUser(ctx.from!.id);
+
+      await ctx.answerCallbackQuery({
+        text: "Alerts muted. Unmute saved searches in the app anytime.",
+      });
+    } catch (error) {
+      console.error("❌ Error muting saved searches:", error);
+      await ctx.answerCallbackQuery({ text: "Failed to mute alerts" });
+    }
+  });
+
+  // Reply button on relayed conversation messages: prompt for a reply that
+  // the message handler below routes back into the thread
+  bot.callbackQuery(
+    /^reply_conversation:(\d+)$/,
+    async (ctx: GrammyContext) => {
+      try {
+        const conversationId = parseInt(ctx.match![1], 10);
+        const userId = ctx.from!.id;
+
+        const db = createDatabase(c.env.DB);
+        const conversationService = new ConversationService(db, c.env);
+        const conversation =
+          await conversationService.getConversationById(conversationId);
+        if (
+          !conversation ||
+          !conversationService.isParticipant(conversation, userId)
+        ) {
+          await ctx.answerCallbackQuery({ text: "Conversation not found" });
+          return;
+        }
+
+        const prompt = await ctx.reply("✍️ Type your reply:", {
+          reply_markup: { force_reply: true, input_field_placeholder: "Reply" },
+        });
+        await conversationService.rememberRelay(
+          userId,
+          prompt.message_id,
+          conversationId,
+        );
+        await ctx.answerCallbackQuery();
+      } catch (error) {
+        console.error("❌ Error starting conversation reply:", error);
+        await ctx.answerCallbackQuery({ text: "Failed to start reply" });
+      }
+    },
+  );
+
+  // Replies to relayed conversation messages (MUST be before generic message handler)
+  bot.on("message:text", async (ctx: GrammyContext, next) => {
+    const replyTo = ctx.message?.reply_to_message;
+    if (!replyTo || !ctx.from) {
+      return next();
+    }
+
+    try {
+      const db = createDatabase(c.env.DB);
+      const conversationService = new ConversationService(db, c.env);
+      const conversationId = await conversationService.findConversationByRelay(
+        ctx.from.id,
+        replyTo.message_id,
+      );
+      if (conversationId === null) {
+        return next();
+      }
+
+      const conversation =
+        await conversationService.getConversationById(conversationId);
+      if (
+        !conversation ||
+        !conversationService.isParticipant(conversation, ctx.from.id)
+      ) {
+        return next();
+      }
+
+      // Same rules as the message API, which banned users can't post to
+      const profileService = new ProfileService(c.env.DB);
+      const profile = await profileService.getProfile(ctx.from.id);
+      if (profile?.isBanned === 1) {
+        await ctx.reply("❌ Your account has been banned.");
+        return;
+      }
+
+      const body = ctx.message!.text!.trim();
+      if (body.length === 0) {
+        await ctx.reply("❌ Message cannot be empty.");
+        return;
+      }
+      if (body.length > MESSAGE_MAX_LENGTH) {
+        await ctx.reply(
+          `❌ Message must be ${MESSAGE_MAX_LENGTH} characters or less.`,
+        );
+        return;
+      }
+
+      await conversationService.sendMessage(conversation, ctx.from.id, body);
+      await ctx.reply("✅ Sent");
+    } catch (error) {
+      console.error("❌ Error relaying conversation reply:", error);
+      await ctx.reply("❌ Failed to send your message. Please try again.");
+    }
+  });
+
   // Generic message handler (MUST be after payment handlers to avoid interfering)
   bot.on("message:text", async (ctx: GrammyContext) => {
     if (ctx.message && !ctx.message.text?.startsWith("/")) {
@@ -1,5 +1,6 @@
 import { expect } from "vitest";
-import app from "../../src/index";
+import { app } from "../../src/index";
+import type { SessionData } from "../../src/types/env";
 
 export const mockEnv = {
   TELEGRAM_BOT_TOKEN: "test-token",
@@ -8,6 +9,49 @@ export const mockEnv = {
   TELEGRAM_ADMIN_ID: "test_admin_id",
 };
 
+export const TEST_SESSION_ID = "test-session";
+
+/**
+ * Env with a single valid session (`TEST_SESSION_ID`) in the SESSIONS KV and
+ * an empty D1, for exercising routes behind the auth guards
+ */
+export const mockSessionEnv = (
+  session: Partial<SessionData> = {},
+  env: Record<string, unknown> = {},
+) => {
+  const sessionData: SessionData = {
+    sessionId: TEST_SESSION_ID,
+    userId: 1,
+    telegramId: 1,
+    displayName: "Test User",
+    createdAt: Date.now(),
+    expiresAt: Date.now() + 3600 * 1000,
+    isActive: true,
+    role: "user",
+    ...session,
+  };
+
+  const statement = {
+    bind: () => statement,
+    all: async () => ({ results: [] }),
+    raw: async () => [],
+    first: async () => null,
+    run: async () => ({ success: true, meta: {} }),
+  };
+
+  return {
+    ...mockEnv,
+    SESSIONS: {
+      get: async (key: string) =>
+        key === `session:${TEST_SESSION_ID}`
+          ? JSON.stringify(sessionData)
+          : null,
+    },
+    DB: { prepare: () => statement },
+    ...env,
+  };
+};
+
 export const makeRequest = async (
   path: string,
   options: RequestInit = {},
@@ -19,12 +19,20 @@ function App() {
         document.documentElement.classList.remove("dark");
       }
 
-      // Handle deep link via start_param
-      const startParam = webApp.initDataUnsafe?.start_param;
+      // Handle deep link via start_param (or ?startParam= on web_app buttons)
+      const startParam =
+        webApp.initDataUnsafe?.start_param ||
+        new URLSearchParams(window.location.search).get("startParam");
       if (startParam && startParam.startsWith("listing_")) {
         const listingId = startParam.replace("listing_", "");
         // Store the redirect path in sessionStorage for the router to pick up
         sessionStorage.setItem("deepLinkRedirect", `/listings/${listingId}`);
+      } else if (startParam && startParam.startsWith("conversation_")) {
+        const conversationId = startParam.replace("conversation_", "");
+        sessionStorage.setItem(
+          "deepLinkRedirect",
+          `/messages/${conversationId}`,
+        );
       }
     }
   }, [webApp, isWebAppReady]);
@@ -7,6 +7,13 @@ import CreateListing from "./pages/CreateListing";
 import UnifiedProfile from "./pages/UnifiedProfile";
 import EditProfile from "./pages/EditProfile";
 import Payments from "./pages/Payments";
+import AuditLog from "./pages/AuditLog";
+import ReportQueue from "./pages/ReportQueue";
+import BanAppeals from "./pages/BanAppeals";
+import ModerationQueue from "./pages/ModerationQueue";
+import SavedListings from "./pages/SavedListings";
+import Conversations from "./pages/Conversations";
+import Conversation from "./pages/Conversation";
 
 const router = createBrowserRouter([
   {
@@ -25,6 +32,18 @@ const router = createBrowserRouter([
         path: "listings/:id",
         element: <ListingDetail />,
       },
+      {
+        path: "saved",
+        element: <SavedListings />,
+      },
+      {
+        path: "messages",
+        element: <Conversations />,
+      },
+      {
+        path: "messages/:conversationId",
+        element: <Conversation />,
+      },
       {
         path: "create-listing",
         element: <CreateListing />,
@@ -41,6 +60,22 @@ const router = createBrowserRouter([
         path: "payments",
         element: <Payments />,
       },
+      {
+        path: "reports",
+        element: <ReportQueue />,
+      },
+      {
+        path: "moderation",
+        element: <ModerationQueue />,
+      },
+      {
+        path: "appeals",
+        element: <BanAppeals />,
+      },
+      {
+        path: "audit",
+        element: <AuditLog />,
+      },
     ],
   },
 ]);
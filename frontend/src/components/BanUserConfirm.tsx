@@ -1,5 +1,25 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useToast } from "../hooks/use-toast";
+import {
+  AUDIT_REASON_MAX_LENGTH,
+  BAN_DURATION_OPTIONS_DAYS,
+} from "../constants";
+import { apiFetch } from "../services/apiFetch";
+
+// null is a permanent ban
+const BAN_DURATIONS: { label: string; days: number | null }[] = [
+  ...BAN_DURATION_OPTIONS_DAYS.map((days) => ({
+    label: `${days} day${days === 1 ? "" : "s"}`,
+    days,
+  })),
+  { label: "Permanent", days: null },
+];
+
+interface ActiveBan {
+  reason: string;
+  expiresAt: number | null;
+  createdAt: string;
+}
 
 interface BanUserConfirmProps {
   telegramId: number;
@@ -18,13 +38,35 @@ export default function BanUserConfirm({
 }: BanUserConfirmProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [reason, setReason] = useState("");
+  const [durationDays, setDurationDays] = useState<number | null>(7);
+  const [activeBan, setActiveBan] = useState<ActiveBan | null>(null);
   const { showToast } = useToast();
 
+  // Show why and until when the user is banned before lifting it
+  useEffect(() => {
+    if (!isBanned) return;
+    const sessionId = localStorage.getItem("telegram_session_id");
+    if (!sessionId) return;
+
+    apiFetch(`/api/admin/bans/${telegramId}`, {
+      headers: { Authorization: `Bearer ${sessionId}` },
+    })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setActiveBan(data?.activeBan ?? null))
+      .catch(() => setActiveBan(null));
+  }, [isBanned, telegramId]);
+
   const action = isBanned ? "unban" : "ban";
   const actionTitle = isBanned ? "Unban User" : "Ban User";
   const actionVerb = isBanned ? "Unban" : "Ban";
 
   const handleAction = async () => {
+    if (!isBanned && !reason.trim()) {
+      setError("Reason is required");
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
 
@@ -35,11 +77,18 @@ export default function BanUserConfirm({
       }
 
       const endpoint = `/api/admin/${action}/${telegramId}`;
-      const response = await fetch(endpoint, {
+      const response = await apiFetch(endpoint, {
         method: "POST",
         headers: {
           Authorization: `Bearer ${sessionId}`,
+          ...(isBanned ? {} : { "Content-Type": "application/json" }),
         },
+        body: isBanned
+          ? undefined
+          : JSON.stringify({
+              reason: reason.trim(),
+              durationDays: durationDays ?? undefined,
+            }),
       });
 
       if (!response.ok) {
@@ -113,12 +162,72 @@ export default function BanUserConfirm({
                   <>
                     <li>• Prevent login/authentication</li>
                     <li>• Hide all their posts from feed</li>
+                    <li>• Let them appeal once through the bot</li>
                   </>
                 )}
               </ul>
             </div>
           </div>
 
+          {isBanned && activeBan && (
+            <div className="mb-4 text-sm text-gray-700 dark:text-gray-300 space-y-1">
+              <p>
+                <span className="font-medium">Reason:</span> {activeBan.reason}
+              </p>
+              <p>
+                <span className="font-medium">Until:</span>{" "}
+                {activeBan.expiresAt
+                  ? new Date(activeBan.expiresAt).toLocaleString()
+                  : "Permanent"}
+              </p>
+            </div>
+          )}
+
+          {!isBanned && (
+            <div className="mb-4 space-y-3">
+              <div>
+                <label
+                  htmlFor="ban-reason"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  Reason (sent to the user)
+                </label>
+                <textarea
+                  id="ban-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  rows={3}
+                  maxLength={AUDIT_REASON_MAX_LENGTH}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                  placeholder="e.g. Repeated scam listings"
+                  disabled={isLoading}
+                />
+              </div>
+              <div>
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Duration
+                </span>
+                <div className="flex flex-wrap gap-2">
+                  {BAN_DURATIONS.map((option) => (
+                    <button
+                      key={option.label}
+                      type="button"
+                      onClick={() => setDurationDays(option.days)}
+                      disabled={isLoading}
+                      className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                        durationDays === option.days
+                          ? "bg-red-600 border-red-600 text-white"
+                          : "border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300"
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
           {error && (
             <div className="mb-4 p-3 bg-red-100 dark:bg-red-900 border border-red-200 dark:border-red-800 rounded-lg">
               <p className="text-sm text-red-600 dark:text-red-200">{error}</p>
@@ -1,10 +1,16 @@
+import type { ReactNode } from "react";
 import { NavLink } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
 
 export default function BottomNavigation() {
-  const { user, isAdmin } = useAuth();
+  const { user, permissions } = useAuth();
 
-  const navItems = [
+  const navItems: {
+    path: string;
+    name: string;
+    staff?: boolean;
+    icon: ReactNode;
+  }[] = [
     {
       path: "/",
       name: "Feed",
@@ -24,6 +30,44 @@ export default function BottomNavigation() {
         </svg>
       ),
     },
+    {
+      path: "/saved",
+      name: "Saved",
+      icon: (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z"
+          />
+        </svg>
+      ),
+    },
+    {
+      path: "/messages",
+      name: "Messages",
+      icon: (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z"
+          />
+        </svg>
+      ),
+    },
     {
       path: user?.id ? `/profile/${user.id}` : "/profile/0",
       name: "Profile",
@@ -45,11 +89,36 @@ export default function BottomNavigation() {
     },
   ];
 
-  // Add Payments tab for admins
-  if (isAdmin) {
+  // Add Reports tab for staff who work the moderation queue
+  if (permissions.includes("review_reports")) {
+    navItems.push({
+      path: "/reports",
+      name: "Reports",
+      staff: true,
+      icon: (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2zm9-13.5V9"
+          />
+        </svg>
+      ),
+    });
+  }
+
+  // Add Payments tab for staff who can see payments
+  if (permissions.includes("view_payments")) {
     navItems.push({
       path: "/payments",
       name: "Payments",
+      staff: true,
       icon: (
         <svg
           className="w-5 h-5"
@@ -68,6 +137,30 @@ export default function BottomNavigation() {
     });
   }
 
+  // Add Audit tab for staff who can read the audit log
+  if (permissions.includes("view_audit_log")) {
+    navItems.push({
+      path: "/audit",
+      name: "Audit",
+      staff: true,
+      icon: (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01"
+          />
+        </svg>
+      ),
+    });
+  }
+
   return (
     <nav className="fixed bottom-0 left-0 right-0 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 pb-safe">
       <div
@@ -80,8 +173,8 @@ export default function BottomNavigation() {
             to={item.path}
             end={item.path === "/"}
             className={({ isActive }) => {
-              // Special red styling for Payments tab
-              if (item.path === "/payments") {
+              // Special red styling for staff-only tabs
+              if (item.staff) {
                 return `flex flex-col items-center py-2 px-3 text-xs font-medium transition-colors duration-200 ${
                   isActive
                     ? "text-red-600 dark:text-red-400"
@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useToast } from "../hooks/use-toast";
 import { config } from "../config";
+import { apiFetch } from "../services/apiFetch";
 
 interface DeletePostConfirmProps {
   postId: number;
@@ -27,13 +28,16 @@ export default function DeletePostConfirm({
         throw new Error("Not authenticated");
       }
 
-      const response = await fetch(`${config.apiBaseUrl}/api/posts/${postId}`, {
-        method: "DELETE",
-        headers: {
-          Authorization: `Bearer ${sessionId}`,
+      const response = await apiFetch(
+        `${config.apiBaseUrl}/api/posts/${postId}`,
+        {
+          method: "DELETE",
+          headers: {
+            Authorization: `Bearer ${sessionId}`,
+          },
+          credentials: "include",
         },
-        credentials: "include",
-      });
+      );
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -0,0 +1,39 @@
+interface FavoriteButtonProps {
+  isFavorited: boolean;
+  onToggle: () => void;
+  className?: string;
+}
+
+export function FavoriteButton({
+  isFavorited,
+  onToggle,
+  className = "",
+}: FavoriteButtonProps) {
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        // Cards navigate on click; the heart shouldn't
+        e.stopPropagation();
+        onToggle();
+      }}
+      aria-label={isFavorited ? "Remove from saved" : "Save listing"}
+      aria-pressed={isFavorited}
+      className={`flex items-center justify-center rounded-full bg-white/90 shadow-sm hover:bg-white transition-colors ${className}`}
+    >
+      <svg
+        className={`w-5 h-5 ${isFavorited ? "text-red-500" : "text-gray-500"}`}
+        fill={isFavorited ? "currentColor" : "none"}
+        stroke="currentColor"
+        viewBox="0 0 24 24"
+      >
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z"
+        />
+      </svg>
+    </button>
+  );
+}
@@ -1,6 +1,10 @@
 import { useImageCache } from "../hooks/use-image-cache";
 import { formatFileSize } from "../utils/format";
-import { getImageUrl } from "../utils/image-url";
+import {
+  getImageSrcSet,
+  getImageUrl,
+  type ImageVariant,
+} from "../utils/image-url";
 
 interface ImageUrlData {
   id: number;
@@ -11,6 +15,9 @@ interface ImageUrlData {
   originalName: string;
   fileSize: number;
   uploadOrder: number;
+  isCover?: boolean;
+  variants: ImageVariant[];
+  token?: string;
 }
 
 interface GalleryImageItemProps {
@@ -18,6 +25,7 @@ interface GalleryImageItemProps {
   imageClasses: string;
   remainingCount: number;
   isLast: boolean;
+  sizes: string; // How wide the tile is drawn, for picking from srcset
   canDelete: boolean;
   showInfo: boolean;
   onClick: () => void;
@@ -29,12 +37,18 @@ export default function GalleryImageItem({
   imageClasses,
   remainingCount,
   isLast,
+  sizes,
   canDelete,
   showInfo,
   onClick,
   onDelete,
 }: GalleryImageItemProps) {
-  const thumbnailUrl = getImageUrl(image.thumbnailKey);
+  const { token } = image;
+  const thumbnailUrl = getImageUrl(image.thumbnailKey, { token });
+  const srcSet = getImageSrcSet(image.variants, "image/webp", token);
+  const fallback = image.variants.find(
+    (variant) => variant.name === "fallback",
+  );
   const { isLoaded, hasError, onLoad, onError } = useImageCache({
     src: thumbnailUrl,
   });
@@ -83,14 +97,18 @@ export default function GalleryImageItem({
         </div>
       )}
 
-      {/* Image - displays the thumbnail URL from backend */}
-      <img
-        src={thumbnailUrl}
-        alt={image.originalName}
-        className="w-full h-full object-cover transition-transform group-hover:scale-105"
-        onLoad={onLoad}
-        onError={onError}
-      />
+      {/* Image - the browser picks a WebP size from srcset; the JPEG is for
+          browsers without WebP, and older uploads only have the thumbnail */}
+      <picture>
+        {srcSet && <source type="image/webp" srcSet={srcSet} sizes={sizes} />}
+        <img
+          src={fallback ? getImageUrl(fallback.key, { token }) : thumbnailUrl}
+          alt={image.originalName}
+          className="w-full h-full object-cover transition-transform group-hover:scale-105"
+          onLoad={onLoad}
+          onError={onError}
+        />
+      </picture>
 
       {/* Overlay for remaining images count */}
       {isLast && remainingCount > 0 && (
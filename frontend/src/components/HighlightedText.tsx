@@ -0,0 +1,25 @@
+import type { SnippetSegment } from "../services/listingsApi";
+
+interface HighlightedTextProps {
+  segments: SnippetSegment[];
+  className?: string;
+}
+
+export function HighlightedText({ segments, className }: HighlightedTextProps) {
+  return (
+    <span className={className}>
+      {segments.map((segment, index) =>
+        segment.highlight ? (
+          <mark
+            key={index}
+            className="bg-yellow-200 text-inherit rounded-sm px-0.5"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        ),
+      )}
+    </span>
+  );
+}
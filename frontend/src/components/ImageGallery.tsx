@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import Lightbox from "yet-another-react-lightbox";
 import "yet-another-react-lightbox/styles.css";
 import GalleryImageItem, { type ImageUrlData } from "./GalleryImageItem";
@@ -11,6 +11,10 @@ interface ImageGalleryProps {
   onImageDelete?: (imageId: number) => void;
   canDelete?: boolean;
   showInfo?: boolean;
+  editable?: boolean; // Every image in gallery order, with drag-to-reorder, cover and replace controls
+  onReorder?: (imageIds: number[]) => void;
+  onSetCover?: (imageId: number) => void;
+  onReplace?: (imageId: number, file: File) => void;
 }
 
 export default function ImageGallery({
@@ -20,13 +24,25 @@ export default function ImageGallery({
   onImageDelete,
   canDelete = false,
   showInfo = false,
+  editable = false,
+  onReorder,
+  onSetCover,
+  onReplace,
 }: ImageGalleryProps) {
   const [lightboxOpen, setLightboxOpen] = useState(false);
   const [lightboxIndex, setLightboxIndex] = useState(0);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [replacingId, setReplacingId] = useState<number | null>(null);
+  const replaceInputRef = useRef<HTMLInputElement>(null);
 
-  const sortedImages = [...images].sort(
+  // Gallery order; outside edit mode the cover leads
+  const galleryOrder = [...images].sort(
     (a, b) => a.uploadOrder - b.uploadOrder,
   );
+  const sortedImages = [...galleryOrder].sort(
+    (a, b) => Number(b.isCover ?? false) - Number(a.isCover ?? false),
+  );
   const displayImages = sortedImages.slice(0, maxThumbnails);
   const remainingCount = Math.max(0, sortedImages.length - maxThumbnails);
 
@@ -36,16 +52,161 @@ export default function ImageGallery({
   };
 
   const lightboxSlides = sortedImages.map((image) => ({
-    src: getImageUrl(image.imageKey),
+    src: getImageUrl(image.imageKey, { token: image.token }),
     alt: image.originalName,
     width: image.width,
     height: image.height,
+    srcSet: image.variants
+      .filter((variant) => variant.mimeType === "image/webp")
+      .map((variant) => ({
+        src: getImageUrl(variant.key, { token: image.token }),
+        width: variant.width,
+        height: variant.height,
+      })),
   }));
 
   if (images.length === 0) {
     return null;
   }
 
+  const moveImage = (fromIndex: number, toIndex: number) => {
+    const imageIds = galleryOrder.map((image) => image.id);
+    const [moved] = imageIds.splice(fromIndex, 1);
+    imageIds.splice(toIndex, 0, moved);
+    onReorder?.(imageIds);
+  };
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  if (editable) {
+    return (
+      <div className={`w-full ${className}`}>
+        <input
+          ref={replaceInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file && replacingId !== null) {
+              onReplace?.(replacingId, file);
+            }
+            setReplacingId(null);
+            e.target.value = "";
+          }}
+        />
+        <div className="grid grid-cols-3 gap-2">
+          {galleryOrder.map((image, index) => (
+            <div
+              key={image.id}
+              draggable={!!onReorder}
+              onDragStart={(e) => {
+                setDragIndex(index);
+                e.dataTransfer.effectAllowed = "move";
+              }}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropIndex(index);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                if (dragIndex !== null && dragIndex !== index) {
+                  moveImage(dragIndex, index);
+                }
+                endDrag();
+              }}
+              onDragEnd={endDrag}
+              className={`relative rounded-lg ${onReorder ? "cursor-move" : ""} ${
+                dragIndex === index ? "opacity-50" : ""
+              } ${
+                dropIndex === index && dragIndex !== index
+                  ? "ring-2 ring-blue-500"
+                  : ""
+              }`}
+            >
+              <GalleryImageItem
+                image={image}
+                imageClasses="aspect-square"
+                remainingCount={0}
+                isLast={false}
+                sizes="33vw"
+                canDelete={canDelete}
+                showInfo={showInfo}
+                onClick={() => {}}
+                onDelete={onImageDelete}
+              />
+
+              {image.isCover && (
+                <div className="absolute top-1 left-1 bg-blue-500 text-white text-xs px-1.5 py-0.5 rounded">
+                  Cover
+                </div>
+              )}
+
+              {/* Touch screens can't drag, so there are buttons too */}
+              <div className="absolute bottom-1 left-1 right-1 flex justify-between">
+                <div className="flex gap-1">
+                  {onReorder && index > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => moveImage(index, index - 1)}
+                      className="w-6 h-6 bg-white/90 text-gray-800 text-xs rounded-full shadow"
+                      title="Move left"
+                    >
+                      ←
+                    </button>
+                  )}
+                  {onReorder && index < galleryOrder.length - 1 && (
+                    <button
+                      type="button"
+                      onClick={() => moveImage(index, index + 1)}
+                      className="w-6 h-6 bg-white/90 text-gray-800 text-xs rounded-full shadow"
+                      title="Move right"
+                    >
+                      →
+                    </button>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  {onSetCover && !image.isCover && (
+                    <button
+                      type="button"
+                      onClick={() => onSetCover(image.id)}
+                      className="w-6 h-6 bg-white/90 text-xs rounded-full shadow"
+                      title="Make cover"
+                    >
+                      ⭐
+                    </button>
+                  )}
+                  {onReplace && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setReplacingId(image.id);
+                        replaceInputRef.current?.click();
+                      }}
+                      className="w-6 h-6 bg-white/90 text-xs rounded-full shadow"
+                      title="Replace photo"
+                    >
+                      🔄
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+        {onReorder && galleryOrder.length > 1 && (
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 text-center">
+            Drag photos to change their order
+          </p>
+        )}
+      </div>
+    );
+  }
+
   const getGridClasses = () => {
     const count = Math.min(displayImages.length, maxThumbnails);
     if (count === 1) return "grid-cols-1";
@@ -54,6 +215,15 @@ export default function ImageGallery({
     return "grid-cols-2";
   };
 
+  // Single images span the gallery, the rest share a row
+  const getImageSizes = (index: number) => {
+    const count = Math.min(displayImages.length, maxThumbnails);
+    if (count === 1) return "100vw";
+    if (count === 3) return index === 0 ? "100vw" : "33vw";
+    if (count === 4 && index === 0) return "100vw";
+    return "50vw";
+  };
+
   const getImageClasses = (index: number) => {
     const count = Math.min(displayImages.length, maxThumbnails);
     if (count === 1) return "aspect-video";
@@ -74,6 +244,7 @@ export default function ImageGallery({
             imageClasses={getImageClasses(index)}
             remainingCount={remainingCount}
             isLast={index === displayImages.length - 1}
+            sizes={getImageSizes(index)}
             canDelete={canDelete}
             showInfo={showInfo}
             onClick={() => handleImageClick(index)}
@@ -106,6 +277,14 @@ export default function ImageGallery({
             <div className="flex items-center justify-center w-full h-full">
               <img
                 src={slide.src}
+                srcSet={
+                  "srcSet" in slide
+                    ? slide.srcSet
+                        ?.map((source) => `${source.src} ${source.width}w`)
+                        .join(", ")
+                    : undefined
+                }
+                sizes="90vw"
                 alt={slide.alt}
                 className="max-w-full max-h-full object-contain"
                 style={{
@@ -2,13 +2,13 @@ import React, { useState, useRef, useCallback } from "react";
 import imageCompression from "browser-image-compression";
 import { useToast } from "../hooks/use-toast";
 import ImageCropQueue from "./ImageCropQueue";
+import type { ImageUploadState } from "../hooks/use-listing-image-upload";
 
 interface ImageData {
   id: string;
   file: File;
   preview: string;
   compressedFile?: File;
-  thumbnailFile?: File;
   width: number;
   height: number;
   uploadOrder: number;
@@ -19,6 +19,8 @@ interface ImageUploadProps {
   existingImages?: ImageData[];
   maxImages?: number;
   disabled?: boolean;
+  uploadStates?: Record<string, ImageUploadState>; // By image id, while and after uploading
+  onRetryUpload?: () => void;
 }
 
 export default function ImageUpload({
@@ -26,6 +28,8 @@ export default function ImageUpload({
   existingImages = [],
   maxImages = 10,
   disabled = false,
+  uploadStates = {},
+  onRetryUpload,
 }: ImageUploadProps) {
   const [images, setImages] = useState<ImageData[]>(existingImages);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -61,58 +65,34 @@ export default function ImageUpload({
     });
   };
 
-  const compressImage = useCallback(
-    async (file: File): Promise<{ compressed: File; thumbnail: File }> => {
-      // Get original dimensions
-      const dimensions = await getImageDimensions(file);
-
-      // Calculate target so minimum side becomes target size
-      // For full size: min side = 1280px
-      const fullSizeScale =
-        1280 / Math.min(dimensions.width, dimensions.height);
-      const fullSizeMax = Math.max(
-        Math.round(dimensions.width * fullSizeScale),
-        Math.round(dimensions.height * fullSizeScale),
-      );
-
-      // For thumbnail: min side = 500px
-      const thumbScale = 500 / Math.min(dimensions.width, dimensions.height);
-      const thumbMax = Math.max(
-        Math.round(dimensions.width * thumbScale),
-        Math.round(dimensions.height * thumbScale),
-      );
-
-      const options = {
-        maxSizeMB: 1,
-        maxWidthOrHeight: fullSizeMax,
-        useWebWorker: true,
-        fileType: "image/jpeg",
-      };
-
-      const thumbnailOptions = {
-        maxSizeMB: 0.095, // Set to 95KB to ensure we stay under 100KB limit
-        maxWidthOrHeight: thumbMax,
-        useWebWorker: true,
-        fileType: "image/jpeg",
-        initialQuality: 0.8, // Start with lower quality for thumbnails
-      };
-
-      try {
-        const [compressed, thumbnail] = await Promise.all([
-          imageCompression(file, options),
-          imageCompression(file, thumbnailOptions),
-        ]);
-
-        return { compressed, thumbnail };
-      } catch (error) {
-        console.error("Image compression failed:", error);
-        throw new Error(
-          "Failed to compress image. Please try a different file.",
-        );
-      }
-    },
-    [],
-  );
+  // Shrinks the upload only; the server checks the file, strips its metadata
+  // and renders every display size (thumbnails included) itself
+  const compressImage = useCallback(async (file: File): Promise<File> => {
+    // Get original dimensions
+    const dimensions = await getImageDimensions(file);
+
+    // Calculate target so minimum side becomes target size
+    // For full size: min side = 1280px
+    const fullSizeScale = 1280 / Math.min(dimensions.width, dimensions.height);
+    const fullSizeMax = Math.max(
+      Math.round(dimensions.width * fullSizeScale),
+      Math.round(dimensions.height * fullSizeScale),
+    );
+
+    const options = {
+      maxSizeMB: 1,
+      maxWidthOrHeight: fullSizeMax,
+      useWebWorker: true,
+      fileType: "image/jpeg",
+    };
+
+    try {
+      return await imageCompression(file, options);
+    } catch (error) {
+      console.error("Image compression failed:", error);
+      throw new Error("Failed to compress image. Please try a different file.");
+    }
+  }, []);
 
   const validateAndPrepareFiles = (files: FileList | File[]): File[] => {
     const fileArray = Array.from(files);
@@ -166,19 +146,17 @@ export default function ImageUpload({
           const file = croppedFiles[i];
 
           try {
-            const [preview, dimensions, { compressed, thumbnail }] =
-              await Promise.all([
-                createImagePreview(file),
-                getImageDimensions(file),
-                compressImage(file),
-              ]);
+            const [preview, dimensions, compressed] = await Promise.all([
+              createImagePreview(file),
+              getImageDimensions(file),
+              compressImage(file),
+            ]);
 
             const imageData: ImageData = {
               id: `${Date.now()}-${i}`,
               file,
               preview,
               compressedFile: compressed,
-              thumbnailFile: thumbnail,
               width: dimensions.width,
               height: dimensions.height,
               uploadOrder: images.length + newImages.length + 1,
@@ -483,6 +461,45 @@ export default function ImageUpload({
                   <div className="absolute bottom-1 right-1 bg-black bg-opacity-70 text-white text-xs px-1 rounded">
                     {image.width}×{image.height}
                   </div>
+
+                  {/* Upload progress */}
+                  {(uploadStates[image.id]?.status === "pending" ||
+                    uploadStates[image.id]?.status === "uploading") && (
+                    <div className="absolute bottom-0 left-0 right-0 h-1 bg-black bg-opacity-40">
+                      <div
+                        className="h-full bg-blue-500 transition-all"
+                        style={{
+                          width: `${Math.round(uploadStates[image.id].progress * 100)}%`,
+                        }}
+                      />
+                    </div>
+                  )}
+
+                  {uploadStates[image.id]?.status === "uploaded" && (
+                    <div className="absolute top-1 right-1 bg-green-500 text-white text-xs rounded-full w-5 h-5 flex items-center justify-center">
+                      ✓
+                    </div>
+                  )}
+
+                  {uploadStates[image.id]?.status === "failed" && (
+                    <div
+                      className="absolute inset-0 bg-red-900 bg-opacity-70 flex flex-col items-center justify-center p-1 text-center"
+                      title={uploadStates[image.id].error}
+                    >
+                      <span className="text-xs text-white mb-1">
+                        Upload failed
+                      </span>
+                      {onRetryUpload && (
+                        <button
+                          type="button"
+                          onClick={onRetryUpload}
+                          className="px-2 py-0.5 text-xs bg-white text-red-700 rounded hover:bg-gray-100"
+                        >
+                          Retry
+                        </button>
+                      )}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
@@ -490,8 +507,8 @@ export default function ImageUpload({
 
           {/* Summary */}
           <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
-            Images will be compressed to 1280px minimum side with 500px
-            thumbnails
+            Images are compressed to 1280px on the shortest side before upload;
+            display sizes are made on the server
           </div>
         </div>
       )}
@@ -0,0 +1,105 @@
+import type { Listing } from "../services/listingsApi";
+import { ListingTimer } from "./ListingTimer";
+import { HighlightedText } from "./HighlightedText";
+import { FavoriteButton } from "./FavoriteButton";
+import { ListingStatusBadge } from "./ListingStatusBadge";
+import { formatPrice, getCategoryById, LISTING_STATUS } from "../constants";
+import { getImageUrl } from "../utils/image-url";
+
+interface ListingCardProps {
+  listing: Listing;
+  onClick: () => void;
+  isFavorited?: boolean;
+  onToggleFavorite?: () => void; // Heart is hidden when not provided
+}
+
+export function ListingCard({
+  listing,
+  onClick,
+  isFavorited = false,
+  onToggleFavorite,
+}: ListingCardProps) {
+  const category = getCategoryById(listing.category);
+  const image = listing.images?.[0];
+
+  return (
+    <div
+      onClick={onClick}
+      className="bg-white rounded-lg shadow-sm overflow-hidden cursor-pointer hover:shadow-md transition-shadow"
+    >
+      {/* Image */}
+      <div className="relative">
+        {image ? (
+          <img
+            src={getImageUrl(image.thumbnailKey, { token: image.token })}
+            alt={listing.title}
+            className="w-full h-40 object-cover"
+          />
+        ) : (
+          <div className="w-full h-40 bg-gray-200 flex items-center justify-center text-4xl">
+            {category?.emoji || "📦"}
+          </div>
+        )}
+
+        {onToggleFavorite && (
+          <FavoriteButton
+            isFavorited={isFavorited}
+            onToggle={onToggleFavorite}
+            className="absolute top-2 right-2 w-8 h-8"
+          />
+        )}
+      </div>
+
+      {/* Content */}
+      <div className="p-3">
+        <div className="flex items-start justify-between gap-2 mb-1">
+          <h3 className="font-semibold text-gray-900 text-sm line-clamp-2 flex-1">
+            {listing.highlights?.title.length ? (
+              <HighlightedText segments={listing.highlights.title} />
+            ) : (
+              listing.title
+            )}
+          </h3>
+          {category && (
+            <span className="text-lg flex-shrink-0">{category.emoji}</span>
+          )}
+        </div>
+
+        {listing.highlights?.description && (
+          <p className="text-xs text-gray-500 line-clamp-2 mb-1">
+            <HighlightedText segments={listing.highlights.description} />
+          </p>
+        )}
+
+        <div className="text-lg font-bold text-blue-600 mb-2">
+          {formatPrice(listing.price)}
+        </div>
+
+        {listing.status === LISTING_STATUS.ACTIVE ? (
+          <ListingTimer
+            expiresAt={listing.expiresAt}
+            className="text-xs"
+            showIcon={false}
+          />
+        ) : (
+          <ListingStatusBadge status={listing.status} />
+        )}
+
+        {listing.profile && (
+          <div className="mt-2 flex items-center gap-1 text-xs text-gray-500">
+            {listing.profile.profileImageKey && (
+              <img
+                src={getImageUrl(listing.profile.profileImageKey, {
+                  width: 160,
+                })}
+                alt=""
+                className="w-4 h-4 rounded-full object-cover"
+              />
+            )}
+            <span className="truncate">{listing.displayName}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import { listingsApi, type ListingStats } from "../services/listingsApi";
+
+interface ListingStatsPanelProps {
+  listingId: number;
+  sessionId: string;
+}
+
+function formatDay(day: string): string {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export function ListingStatsPanel({
+  listingId,
+  sessionId,
+}: ListingStatsPanelProps) {
+  const [stats, setStats] = useState<ListingStats | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    listingsApi
+      .getListingStats(listingId, sessionId)
+      .then((response) => setStats(response.stats))
+      .catch((err) => console.error("Failed to load listing stats:", err))
+      .finally(() => setLoading(false));
+  }, [listingId, sessionId]);
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg p-4 shadow-sm">
+        <div className="animate-pulse h-24 bg-gray-100 rounded" />
+      </div>
+    );
+  }
+
+  if (!stats) return null;
+
+  const maxViews = Math.max(1, ...stats.days.map((day) => day.views));
+  const today = stats.days[stats.days.length - 1];
+  const { bumpLift } = stats;
+
+  return (
+    <div className="bg-white rounded-lg p-4 shadow-sm space-y-4">
+      <div className="flex items-baseline justify-between">
+        <h2 className="font-semibold text-gray-900">Stats</h2>
+        <span className="text-xs text-gray-400">
+          Last {stats.days.length} days · updates every 15 min
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div>
+          <p className="text-2xl font-bold text-gray-900">
+            {stats.totals.views}
+          </p>
+          <p className="text-xs text-gray-500">👁️ Views</p>
+        </div>
+        <div>
+          <p className="text-2xl font-bold text-gray-900">
+            {stats.totals.contactClicks}
+          </p>
+          <p className="text-xs text-gray-500">💬 Contacts</p>
+        </div>
+        <div>
+          <p className="text-2xl font-bold text-gray-900">
+            {stats.totals.shares}
+          </p>
+          <p className="text-xs text-gray-500">📤 Shares</p>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-end gap-1 h-20">
+          {stats.days.map((day) => (
+            <div
+              key={day.day}
+              title={`${formatDay(day.day)}: ${day.views} views, ${day.uniqueViewers} unique viewers`}
+              className="flex-1 bg-blue-400 rounded-t"
+              style={{
+                height: `${Math.max(2, (day.views / maxViews) * 100)}%`,
+              }}
+            />
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-gray-400 mt-1">
+          <span>{formatDay(stats.days[0].day)}</span>
+          <span>{formatDay(today.day)}</span>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600">
+        Today: {today.views} views from {today.uniqueViewers} unique viewers
+      </p>
+
+      {bumpLift && (
+        <p className="text-sm text-gray-600">
+          🚀 Last bump: {bumpLift.viewsPerDayBefore} →{" "}
+          {bumpLift.viewsPerDayAfter} views/day
+          {bumpLift.liftPercent !== null && (
+            <span
+              className={
+                bumpLift.liftPercent >= 0 ? "text-green-600" : "text-red-600"
+              }
+            >
+              {" "}
+              ({bumpLift.liftPercent >= 0 ? "+" : ""}
+              {bumpLift.liftPercent}%)
+            </span>
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
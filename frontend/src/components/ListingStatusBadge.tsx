@@ -0,0 +1,55 @@
+import { LISTING_STATUS, type ListingStatus } from "../constants";
+
+const STATUS_STYLES: Record<
+  ListingStatus,
+  { label: string; className: string }
+> = {
+  [LISTING_STATUS.ACTIVE]: {
+    label: "Active",
+    className: "bg-blue-100 text-blue-700",
+  },
+  [LISTING_STATUS.RESERVED]: {
+    label: "Reserved",
+    className: "bg-amber-100 text-amber-700",
+  },
+  [LISTING_STATUS.SOLD]: {
+    label: "Sold",
+    className: "bg-green-100 text-green-700",
+  },
+  [LISTING_STATUS.EXPIRED]: {
+    label: "Expired",
+    className: "bg-gray-100 text-gray-600",
+  },
+  [LISTING_STATUS.ARCHIVED]: {
+    label: "Archived",
+    className: "bg-gray-100 text-gray-600",
+  },
+  [LISTING_STATUS.UNDER_REVIEW]: {
+    label: "Under review",
+    className: "bg-red-100 text-red-700",
+  },
+  [LISTING_STATUS.PENDING_REVIEW]: {
+    label: "Pending review",
+    className: "bg-purple-100 text-purple-700",
+  },
+};
+
+interface ListingStatusBadgeProps {
+  status: ListingStatus;
+  className?: string;
+}
+
+export function ListingStatusBadge({
+  status,
+  className = "",
+}: ListingStatusBadgeProps) {
+  const style = STATUS_STYLES[status] ?? STATUS_STYLES[LISTING_STATUS.EXPIRED];
+
+  return (
+    <span
+      className={`inline-block px-2 py-0.5 rounded text-xs font-semibold ${style.className} ${className}`}
+    >
+      {style.label}
+    </span>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from "react";
 import { useToast } from "../hooks/use-toast";
 import { config } from "../config";
+import { apiFetch } from "../services/apiFetch";
 
 interface MakePremiumModalProps {
   postId: number;
@@ -44,7 +45,7 @@ export default function MakePremiumModal({
     if (!sessionId) return false;
 
     try {
-      const response = await fetch(`${config.apiBaseUrl}/api/posts`, {
+      const response = await apiFetch(`${config.apiBaseUrl}/api/posts`, {
         headers: { Authorization: `Bearer ${sessionId}` },
         credentials: "include",
       });
@@ -126,7 +127,7 @@ export default function MakePremiumModal({
       }
 
       // Create payment and get invoice URL
-      const response = await fetch(
+      const response = await apiFetch(
         `${config.apiBaseUrl}/api/posts/${postId}/make-premium`,
         {
           method: "POST",
@@ -156,7 +157,7 @@ export default function MakePremiumModal({
             startWaitingForUpdate();
           } else if (status === "cancelled") {
             // Clear pending flag
-            await fetch(
+            await apiFetch(
               `${config.apiBaseUrl}/api/posts/${postId}/clear-pending`,
               {
                 method: "POST",
@@ -168,7 +169,7 @@ export default function MakePremiumModal({
             onSuccess?.(); // Refresh to clear loading state
           } else if (status === "failed") {
             // Clear pending flag
-            await fetch(
+            await apiFetch(
               `${config.apiBaseUrl}/api/posts/${postId}/clear-pending`,
               {
                 method: "POST",
@@ -1,9 +1,15 @@
 import { useState, useEffect } from "react";
 import type { FormEvent } from "react";
 import { useCreatePost } from "../hooks/use-create-post";
+import {
+  useListingImageUpload,
+  type ImageUploadOutcome,
+} from "../hooks/use-listing-image-upload";
 import ImageUpload, { ImageData } from "./ImageUpload";
 import { useToast } from "../hooks/use-toast";
+import { useAuth } from "../contexts/AuthContext";
 import { config } from "../config";
+import { apiFetch } from "../services/apiFetch";
 
 interface Post {
   id: number;
@@ -32,11 +38,20 @@ export default function PostFormModal({
     mode === "edit" && post ? post.content : "",
   );
   const [images, setImages] = useState<ImageData[]>([]);
-  const [isUploading, setIsUploading] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Set when the post was created but some images didn't make it, so
+  // submitting again retries them instead of creating another post
+  const [createdPostId, setCreatedPostId] = useState<number | null>(null);
   const { createPost } = useCreatePost();
   const { showToast } = useToast();
+  const { sessionId } = useAuth();
+  const {
+    states: uploadStates,
+    uploading: isUploading,
+    upload,
+    retry,
+  } = useListingImageUpload(sessionId);
 
   const maxLength = 280;
   const charactersLeft = maxLength - content.length;
@@ -49,67 +64,32 @@ export default function PostFormModal({
     }
   }, [mode, post]);
 
-  const uploadImages = async (
-    postId: number,
-    images: ImageData[],
-  ): Promise<boolean> => {
-    if (images.length === 0) return true;
-
-    setIsUploading(true);
-    try {
-      const formData = new FormData();
-
-      images.forEach((image, index) => {
-        if (image.compressedFile && image.thumbnailFile) {
-          formData.append(
-            `image_${index}`,
-            image.compressedFile,
-            image.file.name,
-          );
-          formData.append(
-            `thumbnail_${index}`,
-            image.thumbnailFile,
-            `thumb_${image.file.name}`,
-          );
-          formData.append(`order_${index}`, image.uploadOrder.toString());
-          formData.append(`width_${index}`, image.width.toString());
-          formData.append(`height_${index}`, image.height.toString());
-        }
-      });
-
-      const sessionId = localStorage.getItem("telegram_session_id");
-      if (!sessionId) {
-        throw new Error("Not authenticated");
-      }
-
-      const response = await fetch(
-        `${config.apiBaseUrl}/api/posts/${postId}/images`,
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${sessionId}`,
-          },
-          body: formData,
-          credentials: "include",
-        },
+  const finishCreate = (outcome: ImageUploadOutcome) => {
+    if (outcome.failed > 0) {
+      setError(
+        `Post created, but ${outcome.failed} image(s) didn't upload. Retry, or close to post without them.`,
       );
+      return;
+    }
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Failed to upload images");
-      }
+    showToast("Post created successfully!", "success");
+    setContent("");
+    setImages([]);
+    onSuccess?.();
+    onClose();
+  };
 
-      return true;
-    } catch (error) {
-      console.error("Image upload failed:", error);
-      showToast(
-        error instanceof Error ? error.message : "Failed to upload images",
-        "error",
-      );
-      return false;
-    } finally {
-      setIsUploading(false);
+  const retryUpload = async () => {
+    setError(null);
+    finishCreate(await retry());
+  };
+
+  const handleClose = () => {
+    // The post exists even though some images failed
+    if (createdPostId !== null) {
+      onSuccess?.();
     }
+    onClose();
   };
 
   const handleUpdatePost = async (
@@ -125,15 +105,18 @@ export default function PostFormModal({
         throw new Error("Not authenticated");
       }
 
-      const response = await fetch(`${config.apiBaseUrl}/api/posts/${postId}`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${sessionId}`,
+      const response = await apiFetch(
+        `${config.apiBaseUrl}/api/posts/${postId}`,
+        {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${sessionId}`,
+          },
+          body: JSON.stringify({ content }),
+          credentials: "include",
         },
-        body: JSON.stringify({ content }),
-        credentials: "include",
-      });
+      );
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -153,28 +136,34 @@ export default function PostFormModal({
     e.preventDefault();
 
     if (mode === "create") {
+      if (createdPostId !== null) {
+        await retryUpload();
+        return;
+      }
+
       // Allow posts with only images (empty content) or content with images
       const postContent = content.trim() || " "; // Use space if no content but has images
 
       // Create post first
       const postResult = await createPost({ content: postContent });
       if (postResult && postResult.post) {
-        // Upload images if any
-        if (images.length > 0) {
-          const imageUploadSuccess = await uploadImages(
-            postResult.post.id,
-            images,
-          );
-          if (!imageUploadSuccess) {
-            showToast("Post created but some images failed to upload", "info");
-          }
+        if (images.length === 0) {
+          finishCreate({ images: [], failed: 0 });
+          return;
         }
+        setCreatedPostId(postResult.post.id);
 
-        showToast("Post created successfully!", "success");
-        setContent("");
-        setImages([]);
-        onSuccess?.();
-        onClose();
+        // Posts are listings, so their images go through upload sessions
+        finishCreate(
+          await upload(
+            postResult.post.id,
+            images.map((image) => ({
+              id: image.id,
+              file: image.compressedFile ?? image.file,
+              name: image.file.name,
+            })),
+          ),
+        );
       }
     } else if (mode === "edit" && post) {
       // Edit mode
@@ -199,16 +188,15 @@ export default function PostFormModal({
 
   const getButtonText = () => {
     if (mode === "create") {
-      return isLoading ? "Creating..." : isUploading ? "Uploading..." : "Post";
+      if (isLoading) return "Creating...";
+      if (isUploading) return "Uploading...";
+      return createdPostId !== null ? "Retry upload" : "Post";
     }
     return isLoading ? "Updating..." : "Update";
   };
 
   const getLoadingMessage = () => {
-    if (mode === "create") {
-      return isLoading ? "Creating post..." : "Uploading images...";
-    }
-    return "Updating post...";
+    return mode === "create" ? "Creating post..." : "Updating post...";
   };
 
   return (
@@ -216,8 +204,8 @@ export default function PostFormModal({
       <div
         className={`bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full ${mode === "create" ? "max-w-2xl" : "max-w-md"} max-h-[90vh] overflow-y-auto relative`}
       >
-        {/* Loading Overlay */}
-        {isProcessing && (
+        {/* Loading Overlay; image uploads show their progress on each image */}
+        {isLoading && (
           <div className="absolute inset-0 bg-white/90 dark:bg-gray-800/90 z-10 flex flex-col items-center justify-center rounded-lg">
             <div className="flex flex-col items-center space-y-4">
               <div className="relative">
@@ -251,7 +239,7 @@ export default function PostFormModal({
               {getButtonText()}
             </button>
             <button
-              onClick={onClose}
+              onClick={handleClose}
               disabled={isProcessing}
               className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed"
             >
@@ -299,7 +287,9 @@ export default function PostFormModal({
                 onImagesChange={setImages}
                 existingImages={images}
                 maxImages={10}
-                disabled={isProcessing}
+                disabled={isProcessing || createdPostId !== null}
+                uploadStates={uploadStates}
+                onRetryUpload={isUploading ? undefined : retryUpload}
               />
             </div>
           )}
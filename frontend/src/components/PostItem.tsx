@@ -1,6 +1,8 @@
 import { useNavigate } from "react-router-dom";
 import ImageGallery, { ImageUrlData } from "./ImageGallery";
 import { ProfileAvatar } from "./profile/ProfileAvatar";
+import { ListingStatusBadge } from "./ListingStatusBadge";
+import { LISTING_STATUS, type ListingStatus } from "../constants";
 
 interface PostProfile {
   displayName?: string;
@@ -19,6 +21,7 @@ interface Post {
   starCount?: number;
   paymentId?: string | null;
   isPaymentPending?: number;
+  status?: ListingStatus;
   images?: ImageUrlData[];
   profile?: PostProfile | null;
 }
@@ -145,6 +148,10 @@ export default function PostItem({
             <p className="text-sm text-gray-500 dark:text-gray-400">
               {formatTimeAgo(post.createdAt)}
             </p>
+            {(post.status === LISTING_STATUS.SOLD ||
+              post.status === LISTING_STATUS.RESERVED) && (
+              <ListingStatusBadge status={post.status} />
+            )}
           </div>
         </div>
 
@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { listingsApi } from "../services/listingsApi";
+import { useToast } from "../hooks/use-toast";
+import {
+  REPORT_DETAILS_MAX_LENGTH,
+  REPORT_REASONS,
+  type ReportReason,
+  type ReportTargetType,
+} from "../constants";
+
+const REASON_LABELS: Record<ReportReason, string> = {
+  scam: "Scam or fraud",
+  prohibited_item: "Prohibited item",
+  spam: "Spam",
+  offensive: "Offensive content",
+};
+
+interface ReportModalProps {
+  targetType: ReportTargetType;
+  targetId: number;
+  sessionId: string;
+  onClose: () => void;
+}
+
+export function ReportModal({
+  targetType,
+  targetId,
+  sessionId,
+  onClose,
+}: ReportModalProps) {
+  const { showToast } = useToast();
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!reason) return;
+
+    try {
+      setSubmitting(true);
+      await listingsApi.createReport(
+        { targetType, targetId, reason, details },
+        sessionId,
+      );
+      showToast("Thanks, a moderator will take a look", "success");
+      onClose();
+    } catch (err) {
+      showToast(
+        err instanceof Error ? err.message : "Failed to submit report",
+        "error",
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full">
+        <h3 className="text-xl font-bold mb-2">
+          Report {targetType === "listing" ? "Listing" : "User"}
+        </h3>
+        <p className="text-gray-600 mb-4">
+          Reports are anonymous. We&apos;ll message you once a moderator has
+          reviewed it.
+        </p>
+
+        <div className="space-y-2 mb-4">
+          {REPORT_REASONS.map((value) => (
+            <label
+              key={value}
+              className="flex items-center gap-2 text-gray-900 cursor-pointer"
+            >
+              <input
+                type="radio"
+                name="report-reason"
+                checked={reason === value}
+                onChange={() => setReason(value)}
+              />
+              {REASON_LABELS[value]}
+            </label>
+          ))}
+        </div>
+
+        <textarea
+          value={details}
+          onChange={(e) => setDetails(e.target.value)}
+          className="w-full border border-gray-300 rounded-lg p-3 mb-4"
+          rows={3}
+          maxLength={REPORT_DETAILS_MAX_LENGTH}
+          placeholder="Anything the moderators should know (optional)"
+        />
+
+        <div className="flex gap-2">
+          <button
+            onClick={onClose}
+            className="flex-1 bg-gray-200 text-gray-900 py-2 rounded-lg hover:bg-gray-300"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!reason || submitting}
+            className="flex-1 bg-red-500 text-white py-2 rounded-lg hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? "Submitting..." : "Submit Report"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
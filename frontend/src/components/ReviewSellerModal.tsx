@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { listingsApi } from "../services/listingsApi";
+import { useToast } from "../hooks/use-toast";
+import { REVIEW_MAX_LENGTH } from "../constants";
+
+interface ReviewSellerModalProps {
+  listingId: number;
+  sellerId: number;
+  sessionId: string;
+  onClose: () => void;
+}
+
+export function ReviewSellerModal({
+  listingId,
+  sellerId,
+  sessionId,
+  onClose,
+}: ReviewSellerModalProps) {
+  const { showToast } = useToast();
+  const [rating, setRating] = useState(0);
+  const [body, setBody] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (rating === 0) return;
+
+    try {
+      setSubmitting(true);
+      // Marking as bought is idempotent, so a retry after a failed review is fine
+      const { review } = await listingsApi.markPurchased(listingId, sessionId);
+      if (review) {
+        showToast("You already reviewed this listing", "error");
+        onClose();
+        return;
+      }
+
+      await listingsApi.createReview(
+        sellerId,
+        { listingId, rating, body: body.trim() || undefined },
+        sessionId,
+      );
+      showToast("Thanks for your review!", "success");
+      onClose();
+    } catch (err) {
+      showToast(
+        err instanceof Error ? err.message : "Failed to submit review",
+        "error",
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full">
+        <h3 className="text-xl font-bold mb-2">Review the Seller</h3>
+        <p className="text-gray-600 mb-4">
+          Bought this item? Rate how the deal went. You can review each listing
+          once.
+        </p>
+
+        <div className="flex justify-center gap-2 mb-4">
+          {[1, 2, 3, 4, 5].map((value) => (
+            <button
+              key={value}
+              onClick={() => setRating(value)}
+              title={`${value} star${value === 1 ? "" : "s"}`}
+              className={`text-3xl ${
+                value <= rating ? "text-yellow-500" : "text-gray-300"
+              }`}
+            >
+              ★
+            </button>
+          ))}
+        </div>
+
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          className="w-full border border-gray-300 rounded-lg p-3 mb-4"
+          rows={4}
+          maxLength={REVIEW_MAX_LENGTH}
+          placeholder="Tell other buyers about the deal (optional)"
+        />
+
+        <div className="flex gap-2">
+          <button
+            onClick={onClose}
+            className="flex-1 bg-gray-200 text-gray-900 py-2 rounded-lg hover:bg-gray-300"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={rating === 0 || submitting}
+            className="flex-1 bg-blue-500 text-white py-2 rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? "Submitting..." : "Submit Review"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
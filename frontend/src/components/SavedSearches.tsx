@@ -0,0 +1,184 @@
+import { useState, useEffect } from "react";
+import {
+  listingsApi,
+  type SavedSearch,
+  type SavedSearchFilters,
+} from "../services/listingsApi";
+import { useToast } from "../hooks/use-toast";
+import { getCategoryById, formatPrice } from "../constants";
+
+interface SavedSearchesProps {
+  sessionId: string;
+  currentFilters: SavedSearchFilters;
+  onApply: (filters: SavedSearchFilters) => void;
+}
+
+// Short human-readable summary of a saved search's filters
+function describeFilters(filters: SavedSearchFilters): string {
+  const parts: string[] = [];
+  if (filters.search) parts.push(`"${filters.search}"`);
+  if (filters.category) {
+    parts.push(getCategoryById(filters.category)?.name || filters.category);
+  }
+  if (filters.priceMin !== undefined || filters.priceMax !== undefined) {
+    const min =
+      filters.priceMin !== undefined ? formatPrice(filters.priceMin) : "any";
+    const max =
+      filters.priceMax !== undefined ? formatPrice(filters.priceMax) : "any";
+    parts.push(`${min} – ${max}`);
+  }
+  return parts.join(" · ");
+}
+
+export function SavedSearches({
+  sessionId,
+  currentFilters,
+  onApply,
+}: SavedSearchesProps) {
+  const { showToast } = useToast();
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const hasFilters = Boolean(
+    currentFilters.search ||
+      currentFilters.category ||
+      currentFilters.priceMin !== undefined ||
+      currentFilters.priceMax !== undefined,
+  );
+
+  useEffect(() => {
+    listingsApi
+      .getSavedSearches(sessionId)
+      .then((response) => setSavedSearches(response.savedSearches))
+      .catch((err) => console.error("Failed to load saved searches:", err));
+  }, [sessionId]);
+
+  const handleSave = async () => {
+    const trimmedName = name.trim() || describeFilters(currentFilters);
+    try {
+      setSaving(true);
+      const { savedSearch } = await listingsApi.createSavedSearch(
+        trimmedName.slice(0, 50),
+        currentFilters,
+        sessionId,
+      );
+      setSavedSearches((prev) => [...prev, savedSearch]);
+      setName("");
+      showToast(
+        "Search saved. We'll message you about new matches.",
+        "success",
+      );
+    } catch (err) {
+      showToast(
+        err instanceof Error ? err.message : "Failed to save search",
+        "error",
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleMute = async (savedSearch: SavedSearch) => {
+    try {
+      const { savedSearch: updated } = await listingsApi.updateSavedSearch(
+        savedSearch.id,
+        { isMuted: !savedSearch.isMuted },
+        sessionId,
+      );
+      setSavedSearches((prev) =>
+        prev.map((item) => (item.id === updated.id ? updated : item)),
+      );
+    } catch (err) {
+      showToast(
+        err instanceof Error ? err.message : "Failed to update alerts",
+        "error",
+      );
+    }
+  };
+
+  const handleDelete = async (savedSearch: SavedSearch) => {
+    try {
+      await listingsApi.deleteSavedSearch(savedSearch.id, sessionId);
+      setSavedSearches((prev) =>
+        prev.filter((item) => item.id !== savedSearch.id),
+      );
+    } catch (err) {
+      showToast(
+        err instanceof Error ? err.message : "Failed to delete search",
+        "error",
+      );
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        Saved Searches
+      </label>
+
+      {savedSearches.length > 0 && (
+        <ul className="space-y-1 mb-2">
+          {savedSearches.map((savedSearch) => (
+            <li
+              key={savedSearch.id}
+              className="flex items-center gap-2 bg-white border border-gray-200 rounded px-2 py-1.5"
+            >
+              <button
+                onClick={() => onApply(savedSearch.filters)}
+                className="flex-1 min-w-0 text-left"
+              >
+                <div className="text-sm font-medium text-gray-900 truncate">
+                  {savedSearch.name}
+                </div>
+                <div className="text-xs text-gray-500 truncate">
+                  {describeFilters(savedSearch.filters)}
+                </div>
+              </button>
+              <button
+                onClick={() => handleToggleMute(savedSearch)}
+                title={savedSearch.isMuted ? "Unmute alerts" : "Mute alerts"}
+                className="text-lg flex-shrink-0"
+              >
+                {savedSearch.isMuted ? "🔕" : "🔔"}
+              </button>
+              <button
+                onClick={() => handleDelete(savedSearch)}
+                title="Delete saved search"
+                className="text-sm text-red-500 hover:text-red-600 flex-shrink-0"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {hasFilters && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name this search"
+            maxLength={50}
+            className="flex-1 px-3 py-1.5 border border-gray-300 rounded text-sm"
+          />
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-blue-500 text-white px-3 py-1.5 rounded text-sm font-medium hover:bg-blue-600 disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save"}
+          </button>
+        </div>
+      )}
+
+      {!hasFilters && savedSearches.length === 0 && (
+        <p className="text-xs text-gray-500">
+          Set a search, category or price range to save it and get alerts.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import { useState } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { listingsApi } from "../services/listingsApi";
 
 interface ShareButtonProps {
   listingId: number;
@@ -6,6 +8,7 @@ interface ShareButtonProps {
 }
 
 export function ShareButton({ listingId, title }: ShareButtonProps) {
+  const { sessionId } = useAuth();
   const [copied, setCopied] = useState(false);
 
   const handleShare = async () => {
@@ -20,6 +23,7 @@ export function ShareButton({ listingId, title }: ShareButtonProps) {
           title: `Check out: ${title}`,
           text: shareText,
         });
+        listingsApi.trackListingEvent(listingId, "share", sessionId);
         return;
       } catch (err) {
         // User cancelled or share failed, fall back to clipboard
@@ -32,6 +36,7 @@ export function ShareButton({ listingId, title }: ShareButtonProps) {
     // Fallback: copy to clipboard
     try {
       await navigator.clipboard.writeText(shareText);
+      listingsApi.trackListingEvent(listingId, "share", sessionId);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (err) {
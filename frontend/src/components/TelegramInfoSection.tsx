@@ -1,3 +1,5 @@
+import type { UserRole } from "../constants";
+
 interface TelegramUser {
   id: number;
   first_name: string;
@@ -9,12 +11,12 @@ interface TelegramUser {
 
 interface TelegramInfoSectionProps {
   user: TelegramUser | null;
-  isAdmin?: boolean;
+  role?: UserRole;
 }
 
 export function TelegramInfoSection({
   user,
-  isAdmin,
+  role = "user",
 }: TelegramInfoSectionProps) {
   if (!user) return null;
 
@@ -63,9 +65,9 @@ export function TelegramInfoSection({
               ⭐ Premium User
             </span>
           )}
-          {isAdmin && (
+          {role !== "user" && (
             <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">
-              🔴 ADMIN
+              🔴 {role.toUpperCase()}
             </span>
           )}
         </div>
@@ -1,3 +1,6 @@
+import { useAuth } from "../../contexts/AuthContext";
+import { listingsApi } from "../../services/listingsApi";
+
 interface ContactLinksData {
   website?: string;
   telegram?: string;
@@ -7,6 +10,7 @@ interface ContactLinksProps {
   contactLinks?: ContactLinksData;
   editable?: boolean;
   onChange?: (links: ContactLinksData) => void;
+  listingId?: number; // Set on listing pages so clicks count toward the seller's stats
 }
 
 const linkIcons = {
@@ -41,7 +45,10 @@ export function ContactLinks({
   contactLinks = {},
   editable = false,
   onChange,
+  listingId,
 }: ContactLinksProps) {
+  const { sessionId } = useAuth();
+
   const handleInputChange = (
     platform: keyof ContactLinksData,
     value: string,
@@ -106,6 +113,15 @@ export function ContactLinks({
               href={formatUrl(platform as keyof ContactLinksData, value)}
               target="_blank"
               rel="noopener noreferrer"
+              onClick={() => {
+                if (listingId !== undefined) {
+                  listingsApi.trackListingEvent(
+                    listingId,
+                    "contact_click",
+                    sessionId,
+                  );
+                }
+              }}
               className="flex items-center space-x-2 text-sm text-blue-500 hover:text-blue-600 dark:text-blue-400"
             >
               {linkIcons[platform as keyof typeof linkIcons]}
@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { listingsApi, type ActiveSession } from "../../services/listingsApi";
+import { useAuth } from "../../contexts/AuthContext";
+import { useToast } from "../../hooks/use-toast";
+
+// Checked in order, so "Android" wins over the "Linux" in its user agent
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+const BROWSERS: [RegExp, string][] = [
+  [/Telegram/, "Telegram"],
+  [/Edg\//, "Edge"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+function describeDevice(userAgent?: string): string {
+  if (!userAgent) return "Unknown device";
+
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (!platform && !browser) return "Unknown device";
+
+  return [browser, platform].filter(Boolean).join(" on ");
+}
+
+export function DevicesSection() {
+  const { sessionId, logout } = useAuth();
+  const { showToast } = useToast();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    listingsApi
+      .getSessions(sessionId)
+      .then((response) => setSessions(response.sessions))
+      .catch((err) => console.error("Failed to load sessions:", err))
+      .finally(() => setLoading(false));
+  }, [sessionId]);
+
+  const handleRevoke = async (session: ActiveSession) => {
+    if (!sessionId) return;
+
+    setRevokingId(session.id);
+    try {
+      await listingsApi.revokeSession(session.id, sessionId);
+      setSessions((prev) => prev.filter((item) => item.id !== session.id));
+      showToast("Device signed out", "success");
+    } catch (err) {
+      showToast(
+        err instanceof Error ? err.message : "Failed to sign out device",
+        "error",
+      );
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <p className="pt-4 text-sm text-gray-500 dark:text-gray-400">
+        Loading devices...
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3 pt-4">
+      {sessions.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No active sessions found.
+        </p>
+      )}
+
+      {sessions.map((session) => (
+        <div
+          key={session.id}
+          className="flex items-center justify-between gap-3 border-b border-gray-100 dark:border-gray-700 pb-3 last:border-0 last:pb-0"
+        >
+          <div className="min-w-0">
+            <p className="text-gray-900 dark:text-white font-medium">
+              {describeDevice(session.userAgent)}
+              {session.current && (
+                <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                  This device
+                </span>
+              )}
+            </p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Signed in {new Date(session.createdAt).toLocaleString()}
+            </p>
+          </div>
+
+          {session.current ? (
+            <button
+              onClick={logout}
+              className="shrink-0 px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Log out
+            </button>
+          ) : (
+            <button
+              onClick={() => handleRevoke(session)}
+              disabled={revokingId === session.id}
+              className="shrink-0 px-3 py-1.5 text-sm rounded-lg text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+            >
+              {revokingId === session.id ? "Signing out..." : "Sign out"}
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { ProfileAvatar } from "./ProfileAvatar";
 import { ContactLinks } from "./ContactLinks";
 import { useToast } from "../../hooks/use-toast";
 import { config } from "../../config";
+import { apiFetch } from "../../services/apiFetch";
 
 interface ContactLinksData {
   website?: string;
@@ -71,7 +72,7 @@ export function ProfileEditor({
         throw new Error("No session found");
       }
 
-      const response = await fetch(
+      const response = await apiFetch(
         `${config.apiBaseUrl}/api/profile/me/avatar`,
         {
           method: "POST",
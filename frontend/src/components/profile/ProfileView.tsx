@@ -18,6 +18,10 @@ interface ProfileData {
   created_at?: string;
   updated_at?: string;
   is_banned?: boolean;
+  rating?: {
+    average: number | null;
+    count: number;
+  };
 }
 
 interface ProfileViewProps {
@@ -25,6 +29,7 @@ interface ProfileViewProps {
   isOwnProfile?: boolean;
   onEditClick?: () => void;
   onBanClick?: () => void;
+  onReportClick?: () => void;
   postCount?: number;
   isAdmin?: boolean;
 }
@@ -34,6 +39,7 @@ export function ProfileView({
   isOwnProfile = false,
   onEditClick,
   onBanClick,
+  onReportClick,
   postCount,
   isAdmin = false,
 }: ProfileViewProps) {
@@ -94,6 +100,13 @@ export function ProfileView({
                 {postCount} {postCount === 1 ? "post" : "posts"}
               </span>
             )}
+            {!isBanned && profile.rating && profile.rating.count > 0 && (
+              <span>
+                <span className="text-yellow-500">★</span>{" "}
+                {profile.rating.average} ({profile.rating.count}{" "}
+                {profile.rating.count === 1 ? "review" : "reviews"})
+              </span>
+            )}
             {!isBanned && profile.created_at && (
               <span>
                 Joined {new Date(profile.created_at).toLocaleDateString()}
@@ -114,6 +127,15 @@ export function ProfileView({
               {isBanned ? "Unban User" : "Ban User"}
             </button>
           )}
+
+          {!isOwnProfile && !isBanned && onReportClick && (
+            <button
+              onClick={onReportClick}
+              className="mt-3 ml-2 px-3 py-1.5 text-xs font-medium text-gray-500 dark:text-gray-400 hover:text-red-600"
+            >
+              🚩 Report
+            </button>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,193 @@
+import { useEffect, useState } from "react";
+import {
+  listingsApi,
+  type SellerRating,
+  type SellerReview,
+} from "../../services/listingsApi";
+import { useToast } from "../../hooks/use-toast";
+import { REVIEW_REPLY_MAX_LENGTH } from "../../constants";
+
+interface ReviewsSectionProps {
+  sellerId: number;
+  sessionId: string | null;
+  isOwnProfile: boolean;
+  isAdmin: boolean;
+}
+
+function formatStars(rating: number): string {
+  return "★".repeat(rating) + "☆".repeat(5 - rating);
+}
+
+export function ReviewsSection({
+  sellerId,
+  sessionId,
+  isOwnProfile,
+  isAdmin,
+}: ReviewsSectionProps) {
+  const { showToast } = useToast();
+  const [reviews, setReviews] = useState<SellerReview[]>([]);
+  const [rating, setRating] = useState<SellerRating | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [replyDrafts, setReplyDrafts] = useState<Record<number, string>>({});
+
+  useEffect(() => {
+    listingsApi
+      .getSellerReviews(sellerId, sessionId)
+      .then((response) => {
+        setReviews(response.reviews);
+        setRating(response.rating);
+      })
+      .catch((err) => console.error("Failed to load reviews:", err))
+      .finally(() => setLoading(false));
+  }, [sellerId, sessionId]);
+
+  const updateReview = (updated: Partial<SellerReview> & { id: number }) => {
+    setReviews((prev) =>
+      prev.map((review) =>
+        review.id === updated.id ? { ...review, ...updated } : review,
+      ),
+    );
+  };
+
+  const handleReply = async (review: SellerReview) => {
+    const reply = replyDrafts[review.id]?.trim();
+    if (!sessionId || !reply) return;
+
+    try {
+      const { review: updated } = await listingsApi.replyToReview(
+        sellerId,
+        review.id,
+        reply,
+        sessionId,
+      );
+      updateReview(updated);
+      showToast("Reply posted", "success");
+    } catch (err) {
+      showToast(
+        err instanceof Error ? err.message : "Failed to post reply",
+        "error",
+      );
+    }
+  };
+
+  const handleToggleHidden = async (review: SellerReview) => {
+    if (!sessionId) return;
+
+    try {
+      const { review: updated } = await listingsApi.setReviewHidden(
+        review.id,
+        !review.isHidden,
+        sessionId,
+      );
+      updateReview(updated);
+    } catch (err) {
+      showToast(
+        err instanceof Error ? err.message : "Failed to update review",
+        "error",
+      );
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Reviews
+        </h3>
+        {rating && rating.average !== null && (
+          <span className="text-sm text-gray-600 dark:text-gray-400">
+            <span className="text-yellow-500">★</span> {rating.average} (
+            {rating.count})
+          </span>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="p-8 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto"></div>
+        </div>
+      ) : reviews.length === 0 ? (
+        <div className="p-8 text-center">
+          <p className="text-gray-500 dark:text-gray-400">No reviews yet.</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {reviews.map((review) => (
+            <li
+              key={review.id}
+              className={`p-4 space-y-2 ${review.isHidden ? "opacity-60" : ""}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-yellow-500">
+                  {formatStars(review.rating)}
+                </span>
+                <span className="text-xs text-gray-400">
+                  {new Date(review.createdAt).toLocaleDateString()}
+                </span>
+              </div>
+
+              {review.body && (
+                <p className="text-gray-800 dark:text-gray-200 whitespace-pre-wrap">
+                  {review.body}
+                </p>
+              )}
+
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {review.reviewer.displayName} · bought “{review.listing.title}”
+              </p>
+
+              {review.sellerReply && (
+                <div className="ml-3 pl-3 border-l-2 border-gray-200 dark:border-gray-600">
+                  <p className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                    Seller reply
+                  </p>
+                  <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                    {review.sellerReply}
+                  </p>
+                </div>
+              )}
+
+              {isOwnProfile && !review.sellerReply && (
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={replyDrafts[review.id] ?? ""}
+                    onChange={(e) =>
+                      setReplyDrafts((prev) => ({
+                        ...prev,
+                        [review.id]: e.target.value,
+                      }))
+                    }
+                    placeholder="Reply publicly (once)"
+                    maxLength={REVIEW_REPLY_MAX_LENGTH}
+                    className="flex-1 px-3 py-1.5 border border-gray-300 rounded text-sm"
+                  />
+                  <button
+                    onClick={() => handleReply(review)}
+                    disabled={!replyDrafts[review.id]?.trim()}
+                    className="bg-blue-500 text-white px-3 py-1.5 rounded text-sm font-medium hover:bg-blue-600 disabled:opacity-50"
+                  >
+                    Reply
+                  </button>
+                </div>
+              )}
+
+              {isAdmin && (
+                <button
+                  onClick={() => handleToggleHidden(review)}
+                  className={`px-3 py-1 text-xs font-medium text-white rounded-lg ${
+                    review.isHidden
+                      ? "bg-green-600 hover:bg-green-700"
+                      : "bg-red-600 hover:bg-red-700"
+                  }`}
+                >
+                  {review.isHidden ? "Unhide Review" : "Hide Review"}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -3,11 +3,15 @@ import {
   useContext,
   useState,
   useEffect,
+  useCallback,
   ReactNode,
 } from "react";
 import { AuthStorage } from "../utils/auth-storage";
+import { listingsApi } from "../services/listingsApi";
+import { onSessionRenewed } from "../services/apiFetch";
 import { useTelegram } from "../utils/telegram";
 import { config } from "../config";
+import type { Permission, UserRole } from "../constants";
 
 interface TelegramUser {
   id: number;
@@ -25,10 +29,16 @@ interface AuthState {
   user: TelegramUser | null;
   sessionId: string | null;
   expiresAt: number | null;
-  isAdmin: boolean;
+  isAdmin: boolean; // Any staff role; check permissions for specific actions
+  role: UserRole;
+  permissions: Permission[];
 }
 
-const AuthContext = createContext<AuthState | null>(null);
+interface AuthContextValue extends AuthState {
+  logout: () => Promise<void>; // End this device's session and clear stored auth
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
 
 interface AuthProviderProps {
   children: ReactNode;
@@ -46,6 +56,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
     sessionId: null,
     expiresAt: null,
     isAdmin: false,
+    role: "user",
+    permissions: [],
   });
 
   const { webApp, isWebAppReady } = useTelegram();
@@ -106,6 +118,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
                 sessionId: authData.sessionId,
                 expiresAt: authData.expiresAt,
                 isAdmin: authData.isAdmin || false,
+                role: authData.role || "user",
+                permissions: authData.permissions || [],
               });
             }
             return;
@@ -122,6 +136,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
             sessionId: null,
             expiresAt: null,
             isAdmin: false,
+            role: "user",
+            permissions: [],
           });
         }
       } catch (error) {
@@ -135,6 +151,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
             sessionId: null,
             expiresAt: null,
             isAdmin: false,
+            role: "user",
+            permissions: [],
           });
         }
       }
@@ -150,8 +168,46 @@ export function AuthProvider({ children }: AuthProviderProps) {
     };
   }, [isWebAppReady, webApp]);
 
+  // apiFetch signs in again when a request finds the session expired
+  useEffect(
+    () =>
+      onSessionRenewed((session) =>
+        setAuthState({
+          isAuthenticated: true,
+          isLoading: false,
+          ...session,
+        }),
+      ),
+    [],
+  );
+
+  const logout = useCallback(async () => {
+    const { sessionId } = authState;
+    if (sessionId) {
+      // Signed out locally even if the server can't be reached; the session
+      // then just runs out
+      await listingsApi
+        .logout(sessionId)
+        .catch((error) => console.error("Logout failed:", error));
+    }
+
+    AuthStorage.clearSession();
+    setAuthState({
+      isAuthenticated: false,
+      isLoading: false,
+      user: null,
+      sessionId: null,
+      expiresAt: null,
+      isAdmin: false,
+      role: "user",
+      permissions: [],
+    });
+  }, [authState]);
+
   return (
-    <AuthContext.Provider value={authState}>{children}</AuthContext.Provider>
+    <AuthContext.Provider value={{ ...authState, logout }}>
+      {children}
+    </AuthContext.Provider>
   );
 }
 
@@ -160,7 +216,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
  * Replaces the old useSimpleAuth hook
  */
 // eslint-disable-next-line react-refresh/only-export-components
-export function useAuth(): AuthState {
+export function useAuth(): AuthContextValue {
   const context = useContext(AuthContext);
   if (context === null) {
     throw new Error("useAuth must be used within an AuthProvider");
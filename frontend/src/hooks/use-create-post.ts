@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useAuth } from "../contexts/AuthContext";
 import { config } from "../config";
+import { apiFetch } from "../services/apiFetch";
 
 interface CreatePostData {
   content: string;
@@ -50,7 +51,7 @@ export function useCreatePost(): CreatePostResult {
     setError(null);
 
     try {
-      const response = await fetch(`${config.apiBaseUrl}/api/posts`, {
+      const response = await apiFetch(`${config.apiBaseUrl}/api/posts`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback } from "react";
+import { listingsApi, type Listing } from "../services/listingsApi";
+
+interface UseFavoritesResult {
+  favorites: Listing[];
+  loading: boolean;
+  isFavorite: (listingId: number) => boolean;
+  toggleFavorite: (listingId: number) => Promise<void>;
+  refetch: () => void;
+}
+
+export function useFavorites(sessionId: string | null): UseFavoritesResult {
+  const [favorites, setFavorites] = useState<Listing[]>([]);
+  const [favoriteIds, setFavoriteIds] = useState<Set<number>>(new Set());
+  const [loading, setLoading] = useState(true);
+
+  const fetchFavorites = useCallback(async () => {
+    if (!sessionId) {
+      setFavorites([]);
+      setFavoriteIds(new Set());
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { listings } = await listingsApi.getFavorites(sessionId);
+      setFavorites(listings);
+      setFavoriteIds(new Set(listings.map((listing) => listing.id)));
+    } catch (err) {
+      console.error("Failed to load favorites:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    fetchFavorites();
+  }, [fetchFavorites]);
+
+  const isFavorite = useCallback(
+    (listingId: number) => favoriteIds.has(listingId),
+    [favoriteIds],
+  );
+
+  // Optimistic toggle, rolled back if the request fails
+  const toggleFavorite = useCallback(
+    async (listingId: number) => {
+      if (!sessionId) return;
+
+      const wasFavorite = favoriteIds.has(listingId);
+      const update = (favorite: boolean) =>
+        setFavoriteIds((prev) => {
+          const next = new Set(prev);
+          if (favorite) {
+            next.add(listingId);
+          } else {
+            next.delete(listingId);
+          }
+          return next;
+        });
+
+      update(!wasFavorite);
+      try {
+        if (wasFavorite) {
+          await listingsApi.removeFavorite(listingId, sessionId);
+          setFavorites((prev) =>
+            prev.filter((listing) => listing.id !== listingId),
+          );
+        } else {
+          await listingsApi.addFavorite(listingId, sessionId);
+        }
+      } catch (err) {
+        console.error("Failed to update favorite:", err);
+        update(wasFavorite);
+      }
+    },
+    [sessionId, favoriteIds],
+  );
+
+  return {
+    favorites,
+    loading,
+    isFavorite,
+    toggleFavorite,
+    refetch: fetchFavorites,
+  };
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { config } from "../config";
+import { apiFetch } from "../services/apiFetch";
 
 interface HealthData {
   status: string;
@@ -18,7 +19,7 @@ export function useHealthCheck() {
   const [kvStatus, setKvStatus] = useState("Checking...");
 
   useEffect(() => {
-    fetch(`${config.apiBaseUrl}/api/health`, {
+    apiFetch(`${config.apiBaseUrl}/api/health`, {
       credentials: "include",
     })
       .then((r) => r.json())
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { config } from "../config";
+import { apiFetch } from "../services/apiFetch";
 
 interface Post {
   id: number;
@@ -57,7 +58,7 @@ export function useInfinitePosts(userId?: number): UseInfinitePostsResult {
           ? `${config.apiBaseUrl}/api/posts/user/${userId}?limit=${POSTS_PER_PAGE}&offset=${currentOffset}`
           : `${config.apiBaseUrl}/api/posts?limit=${POSTS_PER_PAGE}&offset=${currentOffset}`;
 
-        const response = await fetch(url, {
+        const response = await apiFetch(url, {
           credentials: "include",
           headers: {
             "Cache-Control": "no-cache, no-store, must-revalidate",
@@ -0,0 +1,273 @@
+import { useState, useCallback, useRef } from "react";
+import {
+  ApiError,
+  listingsApi,
+  type ImageData,
+  type UploadSession,
+} from "../services/listingsApi";
+
+export type ImageUploadStatus = "pending" | "uploading" | "uploaded" | "failed";
+
+export interface ImageUploadState {
+  status: ImageUploadStatus;
+  progress: number; // 0 to 1, by parts the server has acknowledged
+  error?: string;
+}
+
+export interface ImageUploadItem {
+  id: string; // The caller's key for the image; states are reported under it
+  file: Blob;
+  name: string;
+}
+
+export interface ImageUploadOutcome {
+  images: ImageData[];
+  failed: number; // Images still not added; retry() picks them up
+}
+
+// Files sent side by side
+const CONCURRENT_FILES = 3;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+// Network errors, timeouts, rate limits and server errors are worth another
+// try; anything else the server refused will be refused again
+const isRetryable = (error: unknown) =>
+  !(error instanceof ApiError) ||
+  error.status === 408 ||
+  error.status === 429 ||
+  error.status >= 500;
+
+async function withRetries<T>(request: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS || !isRetryable(error)) {
+        throw error;
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, RETRY_DELAY_MS * 2 ** (attempt - 1)),
+      );
+    }
+  }
+}
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : "Upload failed";
+
+const fileProgress = (file: UploadSession["files"][number]) =>
+  file.uploaded ? 1 : file.receivedParts.length / file.parts;
+
+interface PendingUpload {
+  listingId: number;
+  uploadId: string | null; // null once the session is gone, e.g. committed
+  items: ImageUploadItem[]; // By slot
+}
+
+/**
+ * Upload a listing's images through an upload session: every file is sent
+ * on its own (in parts when large), requests are retried, and a failed
+ * upload can be resumed with retry(), which only resends what the server
+ * doesn't have yet
+ */
+export function useListingImageUpload(sessionId: string | null) {
+  const [states, setStates] = useState<Record<string, ImageUploadState>>({});
+  const [uploading, setUploading] = useState(false);
+  const pendingRef = useRef<PendingUpload | null>(null);
+
+  const setState = useCallback(
+    (id: string, state: ImageUploadState) =>
+      setStates((prev) => ({ ...prev, [id]: state })),
+    [],
+  );
+
+  const sendFile = useCallback(
+    async (
+      pending: PendingUpload & { uploadId: string },
+      upload: UploadSession,
+      slot: number,
+    ) => {
+      const item = pending.items[slot];
+      let file = upload.files[slot];
+      if (file.uploaded) {
+        setState(item.id, { status: "uploading", progress: 1 });
+        return;
+      }
+
+      setState(item.id, { status: "uploading", progress: fileProgress(file) });
+      try {
+        for (let part = 1; part <= file.parts; part++) {
+          if (file.receivedParts.includes(part)) continue;
+
+          const body =
+            file.parts === 1
+              ? item.file
+              : item.file.slice(
+                  (part - 1) * upload.partSize,
+                  part * upload.partSize,
+                );
+          const { upload: updated } = await withRetries(() =>
+            listingsApi.uploadSessionFile(
+              pending.listingId,
+              pending.uploadId,
+              slot,
+              body,
+              sessionId!,
+              file.parts === 1 ? undefined : part,
+            ),
+          );
+          file = updated.files[slot];
+          setState(item.id, {
+            status: "uploading",
+            progress: fileProgress(file),
+          });
+        }
+      } catch (error) {
+        setState(item.id, {
+          status: "failed",
+          progress: fileProgress(file),
+          error: errorMessage(error),
+        });
+        throw error;
+      }
+    },
+    [sessionId, setState],
+  );
+
+  const run = useCallback(
+    async (pending: PendingUpload): Promise<ImageUploadOutcome> => {
+      if (!sessionId) {
+        throw new Error("Not authenticated");
+      }
+      pendingRef.current = pending;
+      setUploading(true);
+
+      try {
+        // Resume the session if it's still open, otherwise start a new one
+        let upload: UploadSession | null = null;
+        if (pending.uploadId) {
+          try {
+            ({ upload } = await withRetries(() =>
+              listingsApi.getUploadSession(
+                pending.listingId,
+                pending.uploadId!,
+                sessionId,
+              ),
+            ));
+          } catch (error) {
+            if (!(error instanceof ApiError && error.status === 404)) {
+              throw error;
+            }
+          }
+        }
+        if (!upload) {
+          ({ upload } = await withRetries(() =>
+            listingsApi.createUploadSession(
+              pending.listingId,
+              pending.items.map((item) => ({
+                name: item.name,
+                size: item.file.size,
+              })),
+              sessionId,
+            ),
+          ));
+        }
+        const session = { ...pending, uploadId: upload.id };
+        pendingRef.current = session;
+
+        // A small pool of workers, each taking the next file in turn
+        const slots = pending.items.map((_, slot) => slot);
+        let failed = 0;
+        await Promise.all(
+          Array.from({ length: CONCURRENT_FILES }, async () => {
+            while (slots.length > 0) {
+              const slot = slots.shift()!;
+              await sendFile(session, upload, slot).catch(() => failed++);
+            }
+          }),
+        );
+        if (failed > 0) {
+          return { images: [], failed };
+        }
+
+        const result = await withRetries(() =>
+          listingsApi.commitUploadSession(
+            pending.listingId,
+            session.uploadId,
+            sessionId,
+          ),
+        );
+
+        // Files the server turned down can only go again in a new session
+        const rejected = new Map(result.failed.map((f) => [f.slot, f.error]));
+        session.items.forEach((item, slot) =>
+          setState(
+            item.id,
+            rejected.has(slot)
+              ? { status: "failed", progress: 1, error: rejected.get(slot) }
+              : { status: "uploaded", progress: 1 },
+          ),
+        );
+        pendingRef.current = rejected.size
+          ? {
+              listingId: pending.listingId,
+              uploadId: null,
+              items: session.items.filter((_, slot) => rejected.has(slot)),
+            }
+          : null;
+
+        return { images: result.images, failed: rejected.size };
+      } catch (error) {
+        // The session couldn't be opened or committed; every file not yet
+        // added is still pending
+        const message = errorMessage(error);
+        setStates((prev) => {
+          const next = { ...prev };
+          for (const item of pending.items) {
+            next[item.id] = {
+              progress: prev[item.id]?.progress ?? 0,
+              status: "failed",
+              error: prev[item.id]?.error ?? message,
+            };
+          }
+          return next;
+        });
+        return { images: [], failed: pending.items.length };
+      } finally {
+        setUploading(false);
+      }
+    },
+    [sessionId, sendFile, setState],
+  );
+
+  const upload = useCallback(
+    (listingId: number, items: ImageUploadItem[]) => {
+      setStates(
+        Object.fromEntries(
+          items.map((item) => [item.id, { status: "pending", progress: 0 }]),
+        ),
+      );
+      return run({ listingId, uploadId: null, items });
+    },
+    [run],
+  );
+
+  // Send whatever the last upload didn't get through
+  const retry = useCallback(async (): Promise<ImageUploadOutcome> => {
+    const pending = pendingRef.current;
+    if (!pending) {
+      return { images: [], failed: 0 };
+    }
+    setStates((prev) => {
+      const next = { ...prev };
+      for (const item of pending.items) {
+        next[item.id] = { status: "pending", progress: 0 };
+      }
+      return next;
+    });
+    return run(pending);
+  }, [run]);
+
+  return { states, uploading, upload, retry };
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
+import { apiFetch } from "../services/apiFetch";
 
 interface Post {
   id: number;
@@ -36,7 +37,7 @@ export function usePosts(userId?: number): UsePostsResult {
 
       const url = userId ? `/api/posts/user/${userId}` : "/api/posts";
 
-      const response = await fetch(url, {
+      const response = await apiFetch(url, {
         headers: {
           "Cache-Control": "no-cache, no-store, must-revalidate",
           Pragma: "no-cache",
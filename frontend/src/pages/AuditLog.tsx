@@ -0,0 +1,332 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { useToast } from "../hooks/use-toast";
+import { useNavigate, Link } from "react-router-dom";
+import { config } from "../config";
+import {
+  ADMIN_ACTIONS,
+  AUDIT_TARGET_TYPES,
+  type AdminAction,
+  type AuditTargetType,
+} from "../constants";
+import { apiFetch } from "../services/apiFetch";
+
+interface AdminActionEntry {
+  id: number;
+  actorId: number;
+  actorRole: string;
+  action: AdminAction;
+  targetType: AuditTargetType;
+  targetId: string | null;
+  reason: string | null;
+  before: unknown;
+  after: unknown;
+  createdAt: string;
+}
+
+interface AuditFilters {
+  action: AdminAction | "";
+  targetType: AuditTargetType | "";
+  actorId: string;
+  targetId: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = {
+  action: "",
+  targetType: "",
+  actorId: "",
+  targetId: "",
+  from: "",
+  to: "",
+};
+
+const PAGE_SIZE = 50;
+
+const formatAction = (action: string) => action.replace(/_/g, " ");
+
+// Where an audit target lives in the app, if it has a page
+const getTargetLink = (entry: AdminActionEntry) => {
+  if (!entry.targetId) return null;
+  if (entry.targetType === "user") return `/profile/${entry.targetId}`;
+  if (entry.targetType === "listing" && entry.action !== "delete_listing") {
+    return `/listings/${entry.targetId}`;
+  }
+  return null;
+};
+
+export default function AuditLog() {
+  const { permissions, isLoading: authLoading } = useAuth();
+  const { showToast } = useToast();
+  const navigate = useNavigate();
+  const canViewAuditLog = permissions.includes("view_audit_log");
+  const [entries, setEntries] = useState<AdminActionEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  // Redirect if not allowed to read the audit log (but wait for auth to load first)
+  useEffect(() => {
+    if (!authLoading && !canViewAuditLog) {
+      navigate("/");
+    }
+  }, [authLoading, canViewAuditLog, navigate]);
+
+  useEffect(() => {
+    if (!canViewAuditLog) return;
+
+    const fetchEntries = async () => {
+      setIsLoading(true);
+      try {
+        const sessionId = localStorage.getItem("telegram_session_id");
+        if (!sessionId) {
+          throw new Error("Not authenticated");
+        }
+
+        const params = new URLSearchParams({
+          limit: String(PAGE_SIZE),
+          offset: String(offset),
+        });
+        for (const [key, value] of Object.entries(filters)) {
+          if (value.trim()) params.set(key, value.trim());
+        }
+
+        const response = await apiFetch(
+          `${config.apiBaseUrl}/api/admin/audit?${params}`,
+          {
+            headers: { Authorization: `Bearer ${sessionId}` },
+            credentials: "include",
+          },
+        );
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(
+            data.message || data.error || "Failed to load audit log",
+          );
+        }
+
+        setEntries(data.actions);
+        setTotal(data.total);
+      } catch (error) {
+        showToast(
+          error instanceof Error ? error.message : "Failed to load audit log",
+          "error",
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchEntries();
+  }, [canViewAuditLog, filters, offset, showToast]);
+
+  const updateFilter = <K extends keyof AuditFilters>(
+    key: K,
+    value: AuditFilters[K],
+  ) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+    setOffset(0);
+  };
+
+  const formatDate = (dateString: string) =>
+    new Intl.DateTimeFormat("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    }).format(new Date(dateString));
+
+  if (authLoading || !canViewAuditLog) {
+    return null; // Will be redirected
+  }
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm";
+
+  return (
+    <div className="max-w-6xl mx-auto p-4">
+      {/* Header */}
+      <div className="sticky top-0 z-10 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700 px-4 py-3 -mx-4 mb-4">
+        <h1 className="text-xl font-bold text-gray-900 dark:text-white">
+          Audit Log
+        </h1>
+      </div>
+
+      {/* Filters */}
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mb-4">
+        <select
+          aria-label="Action"
+          value={filters.action}
+          onChange={(e) =>
+            updateFilter("action", e.target.value as AuditFilters["action"])
+          }
+          className={inputClass}
+        >
+          <option value="">All actions</option>
+          {ADMIN_ACTIONS.map((action) => (
+            <option key={action} value={action}>
+              {formatAction(action)}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Target type"
+          value={filters.targetType}
+          onChange={(e) =>
+            updateFilter(
+              "targetType",
+              e.target.value as AuditFilters["targetType"],
+            )
+          }
+          className={inputClass}
+        >
+          <option value="">All targets</option>
+          {AUDIT_TARGET_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
+        </select>
+        <input
+          aria-label="Target ID"
+          placeholder="Target ID"
+          value={filters.targetId}
+          onChange={(e) => updateFilter("targetId", e.target.value)}
+          className={inputClass}
+        />
+        <input
+          aria-label="Actor Telegram ID"
+          placeholder="Actor Telegram ID"
+          inputMode="numeric"
+          value={filters.actorId}
+          onChange={(e) =>
+            updateFilter("actorId", e.target.value.replace(/\D/g, ""))
+          }
+          className={inputClass}
+        />
+        <input
+          aria-label="From"
+          type="date"
+          value={filters.from}
+          onChange={(e) => updateFilter("from", e.target.value)}
+          className={inputClass}
+        />
+        <input
+          aria-label="To"
+          type="date"
+          value={filters.to}
+          onChange={(e) => updateFilter("to", e.target.value)}
+          className={inputClass}
+        />
+      </div>
+
+      {/* Entries */}
+      <div className="space-y-2">
+        {isLoading ? (
+          <div className="animate-pulse space-y-2">
+            {[...Array(5)].map((_, i) => (
+              <div
+                key={i}
+                className="h-16 bg-gray-200 dark:bg-gray-700 rounded"
+              ></div>
+            ))}
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-center text-gray-500 dark:text-gray-400 py-8">
+            No actions match these filters
+          </p>
+        ) : (
+          entries.map((entry) => {
+            const targetLink = getTargetLink(entry);
+            const isExpanded = expandedId === entry.id;
+
+            return (
+              <div
+                key={entry.id}
+                className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-3"
+              >
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                  className="w-full text-left"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-gray-900 dark:text-white capitalize">
+                      {formatAction(entry.action)}
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400 shrink-0">
+                      {formatDate(entry.createdAt)}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {entry.actorRole} {entry.actorId} → {entry.targetType}
+                    {entry.targetId ? ` ${entry.targetId}` : ""}
+                  </div>
+                  {entry.reason && (
+                    <p className="text-sm text-gray-700 dark:text-gray-300 mt-1">
+                      “{entry.reason}”
+                    </p>
+                  )}
+                </button>
+
+                {isExpanded && (
+                  <div className="mt-3 space-y-2">
+                    {targetLink && (
+                      <Link
+                        to={targetLink}
+                        className="text-sm text-blue-600 dark:text-blue-400"
+                      >
+                        Open {entry.targetType}
+                      </Link>
+                    )}
+                    <div className="grid sm:grid-cols-2 gap-2">
+                      {(["before", "after"] as const).map((key) => (
+                        <div key={key}>
+                          <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1 capitalize">
+                            {key}
+                          </div>
+                          <pre className="text-xs bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded p-2 overflow-x-auto">
+                            {entry[key] === null
+                              ? "—"
+                              : JSON.stringify(entry[key], null, 2)}
+                          </pre>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {/* Pagination */}
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between mt-4 text-sm">
+          <button
+            onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            disabled={offset === 0}
+            className="px-3 py-1 rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-50"
+          >
+            Newer
+          </button>
+          <span className="text-gray-500 dark:text-gray-400">
+            {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+          </span>
+          <button
+            onClick={() => setOffset(offset + PAGE_SIZE)}
+            disabled={offset + PAGE_SIZE >= total}
+            className="px-3 py-1 rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-50"
+          >
+            Older
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
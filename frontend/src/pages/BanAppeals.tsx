@@ -0,0 +1,250 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { useToast } from "../hooks/use-toast";
+import { useNavigate, Link } from "react-router-dom";
+import { listingsApi, type BanAppeal } from "../services/listingsApi";
+import { BAN_APPEAL_STATUSES, type BanAppealStatus } from "../constants";
+
+const PAGE_SIZE = 20;
+
+export default function BanAppeals() {
+  const { sessionId, permissions, isLoading: authLoading } = useAuth();
+  const { showToast } = useToast();
+  const navigate = useNavigate();
+  const canBan = permissions.includes("ban_user");
+  const [appeals, setAppeals] = useState<BanAppeal[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [status, setStatus] = useState<BanAppealStatus>("pending");
+  const [isLoading, setIsLoading] = useState(true);
+  const [responses, setResponses] = useState<Record<number, string>>({});
+  const [resolvingId, setResolvingId] = useState<number | null>(null);
+
+  // Redirect if not allowed to decide appeals (but wait for auth to load first)
+  useEffect(() => {
+    if (!authLoading && !canBan) {
+      navigate("/");
+    }
+  }, [authLoading, canBan, navigate]);
+
+  const fetchAppeals = useCallback(async () => {
+    if (!sessionId) return;
+
+    setIsLoading(true);
+    try {
+      const data = await listingsApi.getAppeals(
+        { status, limit: PAGE_SIZE, offset },
+        sessionId,
+      );
+      setAppeals(data.appeals);
+      setTotal(data.total);
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : "Failed to load appeals",
+        "error",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId, status, offset, showToast]);
+
+  useEffect(() => {
+    if (canBan) fetchAppeals();
+  }, [canBan, fetchAppeals]);
+
+  const handleResolve = async (
+    appeal: BanAppeal,
+    decision: "accepted" | "rejected",
+  ) => {
+    if (!sessionId) return;
+
+    setResolvingId(appeal.id);
+    try {
+      await listingsApi.resolveAppeal(
+        appeal.id,
+        { decision, response: responses[appeal.id]?.trim() || undefined },
+        sessionId,
+      );
+      showToast(
+        decision === "accepted" ? "Ban lifted" : "Appeal rejected",
+        "success",
+      );
+      await fetchAppeals();
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : "Failed to resolve appeal",
+        "error",
+      );
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const formatDate = (value: string | number) =>
+    new Intl.DateTimeFormat("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    }).format(new Date(value));
+
+  if (authLoading || !canBan) {
+    return null; // Will be redirected
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-4">
+      {/* Header */}
+      <div className="sticky top-0 z-10 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700 px-4 py-3 -mx-4 mb-4 flex items-center justify-between">
+        <h1 className="text-xl font-bold text-gray-900 dark:text-white">
+          Ban Appeals
+        </h1>
+        <select
+          aria-label="Status"
+          value={status}
+          onChange={(e) => {
+            setStatus(e.target.value as BanAppealStatus);
+            setOffset(0);
+          }}
+          className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm capitalize"
+        >
+          {BAN_APPEAL_STATUSES.map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Appeals */}
+      <div className="space-y-3">
+        {isLoading ? (
+          <div className="animate-pulse space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div
+                key={i}
+                className="h-28 bg-gray-200 dark:bg-gray-700 rounded"
+              ></div>
+            ))}
+          </div>
+        ) : appeals.length === 0 ? (
+          <p className="text-center text-gray-500 dark:text-gray-400 py-8">
+            No {status} appeals
+          </p>
+        ) : (
+          appeals.map((appeal) => {
+            const isResolving = resolvingId === appeal.id;
+            const name =
+              appeal.displayName ||
+              (appeal.username
+                ? `@${appeal.username}`
+                : `User ${appeal.telegramId}`);
+
+            return (
+              <div
+                key={appeal.id}
+                className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3"
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <Link
+                    to={`/profile/${appeal.telegramId}`}
+                    className="font-medium text-blue-600 dark:text-blue-400"
+                  >
+                    {name}
+                  </Link>
+                  <span className="text-xs text-gray-500 dark:text-gray-400 shrink-0">
+                    {formatDate(appeal.createdAt)}
+                  </span>
+                </div>
+
+                <div className="text-sm bg-gray-50 dark:bg-gray-900 rounded p-2 space-y-1">
+                  <p className="text-gray-700 dark:text-gray-300">
+                    <span className="font-medium">Banned for:</span>{" "}
+                    {appeal.ban.reason}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {formatDate(appeal.ban.createdAt)} →{" "}
+                    {appeal.ban.expiresAt
+                      ? formatDate(appeal.ban.expiresAt)
+                      : "permanent"}
+                    {appeal.ban.liftedAt ? " (lifted)" : ""}
+                  </p>
+                </div>
+
+                <p className="text-sm text-gray-900 dark:text-white whitespace-pre-wrap">
+                  “{appeal.message}”
+                </p>
+
+                {appeal.status === "pending" ? (
+                  <>
+                    <textarea
+                      aria-label="Response"
+                      placeholder="Message to the user (optional)"
+                      value={responses[appeal.id] ?? ""}
+                      onChange={(e) =>
+                        setResponses((current) => ({
+                          ...current,
+                          [appeal.id]: e.target.value,
+                        }))
+                      }
+                      rows={2}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                    />
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleResolve(appeal, "rejected")}
+                        disabled={isResolving}
+                        className="flex-1 py-2 rounded-lg text-sm font-medium bg-gray-200 text-gray-900 hover:bg-gray-300 disabled:opacity-50"
+                      >
+                        Reject
+                      </button>
+                      <button
+                        onClick={() => handleResolve(appeal, "accepted")}
+                        disabled={isResolving}
+                        className="flex-1 py-2 rounded-lg text-sm font-medium bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+                      >
+                        Lift ban
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 capitalize">
+                    {appeal.status}
+                    {appeal.reviewedAt
+                      ? ` ${formatDate(appeal.reviewedAt)}`
+                      : ""}
+                    {appeal.response ? ` — ${appeal.response}` : ""}
+                  </p>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {/* Pagination */}
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between mt-4 text-sm">
+          <button
+            onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            disabled={offset === 0}
+            className="px-3 py-1 rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-gray-500 dark:text-gray-400">
+            {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+          </span>
+          <button
+            onClick={() => setOffset(offset + PAGE_SIZE)}
+            disabled={offset + PAGE_SIZE >= total}
+            className="px-3 py-1 rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import { useToast } from "../hooks/use-toast";
+import { listingsApi, type ConversationThread } from "../services/listingsApi";
+import { formatPrice, MESSAGE_MAX_LENGTH } from "../constants";
+
+export default function Conversation() {
+  const { conversationId } = useParams<{ conversationId: string }>();
+  const navigate = useNavigate();
+  const { sessionId } = useAuth();
+  const { showToast } = useToast();
+  const [thread, setThread] = useState<ConversationThread | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    listingsApi
+      .getConversation(Number(conversationId), sessionId)
+      .then(setThread)
+      .catch((err) =>
+        setError(
+          err instanceof Error ? err.message : "Failed to load conversation",
+        ),
+      )
+      .finally(() => setLoading(false));
+  }, [conversationId, sessionId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView();
+  }, [thread?.messages.length]);
+
+  const handleLoadOlder = async () => {
+    if (!sessionId || !thread || thread.messages.length === 0) return;
+
+    try {
+      const older = await listingsApi.getConversation(
+        Number(conversationId),
+        sessionId,
+        thread.messages[0].id,
+      );
+      setThread({
+        ...thread,
+        messages: [...older.messages, ...thread.messages],
+        hasMore: older.hasMore,
+      });
+    } catch (err) {
+      showToast(
+        err instanceof Error ? err.message : "Failed to load messages",
+        "error",
+      );
+    }
+  };
+
+  const handleSend = async () => {
+    const body = draft.trim();
+    if (!sessionId || !thread || !body) return;
+
+    try {
+      setSending(true);
+      const { message } = await listingsApi.sendMessage(
+        thread.conversation.id,
+        body,
+        sessionId,
+      );
+      setThread({ ...thread, messages: [...thread.messages, message] });
+      setDraft("");
+    } catch (err) {
+      showToast(
+        err instanceof Error ? err.message : "Failed to send message",
+        "error",
+      );
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading conversation...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !thread) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Error</h2>
+          <p className="text-gray-600 mb-4">
+            {error || "Conversation not found"}
+          </p>
+          <button
+            onClick={() => navigate("/messages")}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600"
+          >
+            Back to Messages
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto flex flex-col min-h-screen pb-20">
+      {/* Header */}
+      <div className="sticky top-0 z-20 bg-white border-b border-gray-200 px-4 py-3 flex items-center gap-3">
+        <button
+          onClick={() => navigate("/messages")}
+          className="text-blue-500 text-sm"
+        >
+          ← Back
+        </button>
+        {thread.listing && (
+          <button
+            onClick={() => navigate(`/listings/${thread.listing!.id}`)}
+            className="flex-1 min-w-0 text-left"
+          >
+            <p className="font-semibold text-gray-900 truncate">
+              {thread.listing.title}
+            </p>
+            <p className="text-xs text-gray-500">
+              {formatPrice(thread.listing.price)} · You are the{" "}
+              {thread.conversation.role}
+            </p>
+          </button>
+        )}
+      </div>
+
+      {/* Messages */}
+      <div className="flex-1 p-4 space-y-2">
+        {thread.hasMore && (
+          <button
+            onClick={handleLoadOlder}
+            className="w-full text-sm text-blue-500 py-2"
+          >
+            Load older messages
+          </button>
+        )}
+        {thread.messages.length === 0 && (
+          <p className="text-center text-gray-500 text-sm py-8">
+            Say hello! Your message is delivered through the bot, so your
+            Telegram username stays private.
+          </p>
+        )}
+        {thread.messages.map((message) => (
+          <div
+            key={message.id}
+            className={`flex ${message.isMine ? "justify-end" : "justify-start"}`}
+          >
+            <div
+              className={`max-w-[80%] rounded-lg px-3 py-2 whitespace-pre-wrap break-words ${
+                message.isMine
+                  ? "bg-blue-500 text-white"
+                  : "bg-white text-gray-900 shadow-sm"
+              }`}
+            >
+              <p className="text-sm">{message.body}</p>
+              <p
+                className={`text-[10px] mt-1 ${
+                  message.isMine ? "text-blue-100" : "text-gray-400"
+                }`}
+              >
+                {new Date(message.createdAt).toLocaleString()}
+              </p>
+            </div>
+          </div>
+        ))}
+        <div ref={bottomRef} />
+      </div>
+
+      {/* Composer */}
+      <div className="sticky bottom-16 bg-white border-t border-gray-200 p-3 flex gap-2">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Write a message..."
+          maxLength={MESSAGE_MAX_LENGTH}
+          rows={1}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm resize-none"
+        />
+        <button
+          onClick={handleSend}
+          disabled={sending || !draft.trim()}
+          className="bg-blue-500 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-600 disabled:opacity-50"
+        >
+          {sending ? "Sending..." : "Send"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import { listingsApi, type ConversationSummary } from "../services/listingsApi";
+import { formatPrice } from "../constants";
+
+export default function Conversations() {
+  const navigate = useNavigate();
+  const { sessionId, isLoading: authLoading } = useAuth();
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    listingsApi
+      .getConversations(sessionId)
+      .then((response) => setConversations(response.conversations))
+      .catch((err) =>
+        setError(
+          err instanceof Error ? err.message : "Failed to load messages",
+        ),
+      )
+      .finally(() => setLoading(false));
+  }, [sessionId]);
+
+  return (
+    <div className="max-w-4xl mx-auto pb-20">
+      {/* Header */}
+      <div className="sticky top-0 z-20 bg-white border-b border-gray-200 px-4 py-3">
+        <h1 className="text-xl font-bold text-gray-900">Messages</h1>
+      </div>
+
+      <div className="p-4">
+        {authLoading || loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading messages...</p>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <p className="text-red-600">{error}</p>
+          </div>
+        ) : conversations.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-600 text-lg mb-2">No messages yet</p>
+            <p className="text-gray-500 text-sm">
+              Tap “Message seller” on a listing to start a conversation
+            </p>
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {conversations.map((conversation) => (
+              <li key={conversation.id}>
+                <button
+                  onClick={() => navigate(`/messages/${conversation.id}`)}
+                  className="w-full text-left bg-white rounded-lg shadow-sm p-3 flex items-start gap-3 hover:bg-gray-50"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-medium text-gray-900 truncate">
+                        {conversation.otherParty.displayName}
+                      </p>
+                      {conversation.lastMessage && (
+                        <span className="text-xs text-gray-400 flex-shrink-0">
+                          {new Date(
+                            conversation.lastMessage.createdAt,
+                          ).toLocaleString()}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 truncate">
+                      {conversation.listing.title} ·{" "}
+                      {formatPrice(conversation.listing.price)}
+                    </p>
+                    {conversation.lastMessage && (
+                      <p className="text-sm text-gray-700 truncate mt-1">
+                        {conversation.lastMessage.isMine && "You: "}
+                        {conversation.lastMessage.body}
+                      </p>
+                    )}
+                  </div>
+                  {conversation.unreadCount > 0 && (
+                    <span className="bg-blue-500 text-white text-xs font-semibold rounded-full px-2 py-0.5 flex-shrink-0">
+                      {conversation.unreadCount}
+                    </span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
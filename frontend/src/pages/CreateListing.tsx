@@ -1,13 +1,28 @@
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { listingsApi, type CreateListingData } from "../services/listingsApi";
+import { z } from "zod";
+import { ApiError, listingsApi } from "../services/listingsApi";
 import { useAuth } from "../contexts/AuthContext";
+import {
+  useListingImageUpload,
+  type ImageUploadOutcome,
+} from "../hooks/use-listing-image-upload";
 import {
   CATEGORIES,
+  LISTING_DESCRIPTION_MAX_LENGTH,
+  LISTING_TITLE_MAX_LENGTH,
+  MAX_LISTING_IMAGES,
   parsePriceInput,
-  PRICE_MAX,
   type CategoryId,
 } from "../constants";
+import { createListingSchema } from "../../../shared/schemas";
+
+type FieldErrors = Partial<Record<string, string[]>>;
+
+function FieldError({ messages }: { messages?: string[] }) {
+  if (!messages?.length) return null;
+  return <p className="text-xs text-red-600 mt-1">{messages[0]}</p>;
+}
 
 export default function CreateListing() {
   const navigate = useNavigate();
@@ -16,23 +31,46 @@ export default function CreateListing() {
   const [description, setDescription] = useState("");
   const [price, setPrice] = useState("");
   const [category, setCategory] = useState<CategoryId>("other");
-  const [images, setImages] = useState<File[]>([]);
+  const [images, setImages] = useState<{ id: string; file: File }[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  // Set when the listing was created but some images didn't make it, so
+  // submitting again retries them instead of creating another listing
+  const [createdListingId, setCreatedListingId] = useState<number | null>(null);
+  const {
+    states: uploadStates,
+    uploading,
+    upload,
+    retry,
+  } = useListingImageUpload(sessionId);
 
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       const files = Array.from(e.target.files);
-      if (images.length + files.length > 10) {
-        setError("Maximum 10 images allowed");
+      if (images.length + files.length > MAX_LISTING_IMAGES) {
+        setError(`Maximum ${MAX_LISTING_IMAGES} images allowed`);
         return;
       }
-      setImages((prev) => [...prev, ...files]);
+      setImages((prev) => [
+        ...prev,
+        ...files.map((file, i) => ({ id: `${Date.now()}-${i}`, file })),
+      ]);
     }
   };
 
-  const removeImage = (index: number) => {
-    setImages((prev) => prev.filter((_, i) => i !== index));
+  const removeImage = (id: string) => {
+    setImages((prev) => prev.filter((image) => image.id !== id));
+  };
+
+  const finishUpload = (listingId: number, outcome: ImageUploadOutcome) => {
+    if (outcome.failed > 0) {
+      setError(
+        `Listing created, but ${outcome.failed} image(s) didn't upload. Retry, or continue without them.`,
+      );
+      return;
+    }
+    navigate(`/listings/${listingId}`);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -43,61 +81,64 @@ export default function CreateListing() {
       return;
     }
 
-    if (!title.trim()) {
-      setError("Title is required");
-      return;
-    }
-
-    if (!description.trim()) {
-      setError("Description is required");
+    if (createdListingId !== null) {
+      setError(null);
+      finishUpload(createdListingId, await retry());
       return;
     }
 
-    const priceInCents = parsePriceInput(price);
-    if (priceInCents < 0 || priceInCents > PRICE_MAX) {
-      setError("Invalid price");
+    // Same schema the API validates against
+    const result = createListingSchema.safeParse({
+      title,
+      description,
+      price: parsePriceInput(price),
+      category,
+    });
+    if (!result.success) {
+      setError(result.error.issues[0].message);
+      setFieldErrors(z.flattenError(result.error).fieldErrors);
       return;
     }
 
+    let listingId: number;
     try {
       setLoading(true);
       setError(null);
+      setFieldErrors({});
 
-      // Create listing
-      const data: CreateListingData = {
-        title: title.trim(),
-        description: description.trim(),
-        price: priceInCents,
-        category,
-      };
-
-      const { listing } = await listingsApi.createListing(data, sessionId);
-
-      // Upload images if any
-      if (images.length > 0) {
-        const formData = new FormData();
-
-        for (let i = 0; i < images.length; i++) {
-          const image = images[i];
-
-          // For simplicity, we'll upload original images without client-side processing
-          // In production, you'd want to compress/resize on the client
-          formData.append(`image_${i}`, image);
-          formData.append(`thumbnail_${i}`, image); // Same for now
-          formData.append(`order_${i}`, i.toString());
-          formData.append(`width_${i}`, "800");
-          formData.append(`height_${i}`, "600");
-        }
-
-        await listingsApi.uploadImages(listing.id, formData, sessionId);
-      }
-
-      navigate(`/listings/${listing.id}`);
+      const { listing } = await listingsApi.createListing(
+        result.data,
+        sessionId,
+      );
+      listingId = listing.id;
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to create listing");
+      if (err instanceof ApiError && err.details) {
+        setFieldErrors(err.details);
+      }
+      return;
     } finally {
       setLoading(false);
     }
+
+    if (images.length === 0) {
+      navigate(`/listings/${listingId}`);
+      return;
+    }
+
+    // Sent as picked; the server checks, strips and resizes each image
+    setCreatedListingId(listingId);
+    finishUpload(
+      listingId,
+      await upload(
+        listingId,
+        images.map((image) => ({
+          id: image.id,
+          file: image.file,
+          name: image.file.name,
+        })),
+      ),
+    );
   };
 
   return (
@@ -132,10 +173,13 @@ export default function CreateListing() {
               onChange={(e) => setTitle(e.target.value)}
               placeholder="What are you selling?"
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-              maxLength={100}
+              maxLength={LISTING_TITLE_MAX_LENGTH}
               required
             />
-            <p className="text-xs text-gray-500 mt-1">{title.length}/100</p>
+            <FieldError messages={fieldErrors.title} />
+            <p className="text-xs text-gray-500 mt-1">
+              {title.length}/{LISTING_TITLE_MAX_LENGTH}
+            </p>
           </div>
 
           {/* Category */}
@@ -155,6 +199,7 @@ export default function CreateListing() {
                 </option>
               ))}
             </select>
+            <FieldError messages={fieldErrors.category} />
           </div>
 
           {/* Price */}
@@ -178,6 +223,7 @@ export default function CreateListing() {
                 required
               />
             </div>
+            <FieldError messages={fieldErrors.price} />
             <p className="text-xs text-gray-500 mt-1">Enter 0 for free items</p>
           </div>
 
@@ -192,18 +238,19 @@ export default function CreateListing() {
               placeholder="Describe your item in detail..."
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
               rows={6}
-              maxLength={2000}
+              maxLength={LISTING_DESCRIPTION_MAX_LENGTH}
               required
             />
+            <FieldError messages={fieldErrors.description} />
             <p className="text-xs text-gray-500 mt-1">
-              {description.length}/2000
+              {description.length}/{LISTING_DESCRIPTION_MAX_LENGTH}
             </p>
           </div>
 
           {/* Images */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Images (up to 10)
+              Images (up to {MAX_LISTING_IMAGES})
             </label>
             <input
               type="file"
@@ -212,6 +259,7 @@ export default function CreateListing() {
               onChange={handleImageChange}
               className="hidden"
               id="image-upload"
+              disabled={createdListingId !== null}
             />
             <label
               htmlFor="image-upload"
@@ -222,22 +270,51 @@ export default function CreateListing() {
 
             {images.length > 0 && (
               <div className="mt-3 grid grid-cols-3 gap-2">
-                {images.map((image, index) => (
-                  <div key={index} className="relative">
-                    <img
-                      src={URL.createObjectURL(image)}
-                      alt={`Preview ${index + 1}`}
-                      className="w-full h-24 object-cover rounded-lg"
-                    />
-                    <button
-                      type="button"
-                      onClick={() => removeImage(index)}
-                      className="absolute top-1 right-1 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center text-xs hover:bg-red-600"
-                    >
-                      ✕
-                    </button>
-                  </div>
-                ))}
+                {images.map((image, index) => {
+                  const state = uploadStates[image.id];
+                  return (
+                    <div key={image.id} className="relative">
+                      <img
+                        src={URL.createObjectURL(image.file)}
+                        alt={`Preview ${index + 1}`}
+                        className="w-full h-24 object-cover rounded-lg"
+                      />
+                      {createdListingId === null && (
+                        <button
+                          type="button"
+                          onClick={() => removeImage(image.id)}
+                          className="absolute top-1 right-1 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center text-xs hover:bg-red-600"
+                        >
+                          ✕
+                        </button>
+                      )}
+                      {(state?.status === "pending" ||
+                        state?.status === "uploading") && (
+                        <div className="absolute bottom-0 left-0 right-0 h-1.5 bg-black/40 rounded-b-lg overflow-hidden">
+                          <div
+                            className="h-full bg-blue-500 transition-all"
+                            style={{
+                              width: `${Math.round(state.progress * 100)}%`,
+                            }}
+                          />
+                        </div>
+                      )}
+                      {state?.status === "uploaded" && (
+                        <div className="absolute top-1 right-1 bg-green-500 text-white rounded-full w-6 h-6 flex items-center justify-center text-xs">
+                          ✓
+                        </div>
+                      )}
+                      {state?.status === "failed" && (
+                        <div
+                          className="absolute inset-0 bg-red-900/70 rounded-lg flex items-center justify-center text-xs text-white text-center p-1"
+                          title={state.error}
+                        >
+                          Upload failed
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
               </div>
             )}
           </div>
@@ -256,11 +333,32 @@ export default function CreateListing() {
           {/* Submit */}
           <button
             type="submit"
-            disabled={loading || !title.trim() || !description.trim() || !price}
+            disabled={
+              loading ||
+              uploading ||
+              !title.trim() ||
+              !description.trim() ||
+              !price
+            }
             className="w-full bg-blue-500 text-white py-4 rounded-lg font-medium hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {loading ? "Creating..." : "Create Listing"}
+            {loading
+              ? "Creating..."
+              : uploading
+                ? "Uploading images..."
+                : createdListingId !== null
+                  ? "Retry upload"
+                  : "Create Listing"}
           </button>
+          {createdListingId !== null && !uploading && (
+            <button
+              type="button"
+              onClick={() => navigate(`/listings/${createdListingId}`)}
+              className="w-full text-gray-600 py-2 hover:text-gray-900"
+            >
+              Continue without the failed images
+            </button>
+          )}
         </form>
       </div>
     </div>
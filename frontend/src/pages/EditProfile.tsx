@@ -5,6 +5,7 @@ import { ProfileSkeleton } from "../components/profile/ProfileSkeleton";
 import { useToast } from "../hooks/use-toast";
 import { useAuth } from "../contexts/AuthContext";
 import { config } from "../config";
+import { apiFetch } from "../services/apiFetch";
 
 interface ProfileData {
   telegram_id: number;
@@ -38,7 +39,7 @@ export default function EditProfile() {
       }
 
       setLoading(true);
-      const response = await fetch(`${config.apiBaseUrl}/api/profile/me`, {
+      const response = await apiFetch(`${config.apiBaseUrl}/api/profile/me`, {
         headers: {
           "x-session-id": sessionId,
         },
@@ -81,7 +82,7 @@ export default function EditProfile() {
         throw new Error("No session found");
       }
 
-      const response = await fetch(`${config.apiBaseUrl}/api/profile/me`, {
+      const response = await apiFetch(`${config.apiBaseUrl}/api/profile/me`, {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -93,7 +94,9 @@ export default function EditProfile() {
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || "Failed to update profile");
+        throw new Error(
+          errorData.message || errorData.error || "Failed to update profile",
+        );
       }
 
       const data = await response.json();
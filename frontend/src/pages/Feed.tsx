@@ -28,7 +28,7 @@ export default function Feed() {
     null,
   );
   const refetchRef = useRef<(() => void) | null>(null);
-  const { user, isAdmin } = useAuth();
+  const { user, permissions } = useAuth();
 
   const handlePostCreated = () => {
     if (refetchRef.current) {
@@ -119,7 +119,7 @@ export default function Feed() {
       <PostList
         currentUserId={user?.id}
         showActions={true}
-        isAdmin={isAdmin}
+        isAdmin={permissions.includes("delete_content")}
         onEdit={handleEdit}
         onDelete={handleDelete}
         onMakePremium={handleMakePremium}
@@ -1,35 +1,65 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { listingsApi, type Listing } from "../services/listingsApi";
+import {
+  listingsApi,
+  type ImageData,
+  type Listing,
+} from "../services/listingsApi";
 import { useAuth } from "../contexts/AuthContext";
 import { ListingTimer } from "../components/ListingTimer";
 import { ShareButton } from "../components/ShareButton";
+import { FavoriteButton } from "../components/FavoriteButton";
+import { ReviewSellerModal } from "../components/ReviewSellerModal";
+import { ReportModal } from "../components/ReportModal";
+import { ListingStatusBadge } from "../components/ListingStatusBadge";
+import { ListingStatsPanel } from "../components/ListingStatsPanel";
+import { ContactLinks } from "../components/profile/ContactLinks";
+import ImageGallery from "../components/ImageGallery";
 import {
   formatPrice,
   getCategoryById,
   BUMP_COOLDOWN_HOURS,
+  EXPIRY_PAID_BUMP_DAYS,
+  LISTING_STATUS,
+  LISTING_STATUS_TRANSITIONS,
 } from "../constants";
-import { config } from "../config";
+import { getImageUrl } from "../utils/image-url";
 
 export default function ListingDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { sessionId, user, isAdmin } = useAuth();
+  const { sessionId, user, permissions } = useAuth();
   const [listing, setListing] = useState<Listing | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [archiveReason, setArchiveReason] = useState("");
   const [showArchiveModal, setShowArchiveModal] = useState(false);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
+  const [isPaidBumpPending, setIsPaidBumpPending] = useState(false);
+  const [isStartingConversation, setIsStartingConversation] = useState(false);
+  const [showReviewModal, setShowReviewModal] = useState(false);
+  const [showReportModal, setShowReportModal] = useState(false);
+  const [isEditingImages, setIsEditingImages] = useState(false);
+  const pollIntervalRef = useRef<number | null>(null);
 
   useEffect(() => {
     loadListing();
-  }, [id]);
+  }, [id, sessionId]);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      if (pollIntervalRef.current) clearInterval(pollIntervalRef.current);
+    };
+  }, []);
 
   const loadListing = async () => {
     try {
       setLoading(true);
-      const { listing: data } = await listingsApi.getListingById(Number(id));
+      const { listing: data } = await listingsApi.getListingById(
+        Number(id),
+        sessionId,
+      );
       setListing(data);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load listing");
@@ -38,6 +68,42 @@ export default function ListingDetail() {
     }
   };
 
+  const handleToggleFavorite = async () => {
+    if (!sessionId || !listing) return;
+
+    const wasFavorited = listing.isFavorited === true;
+    setListing({ ...listing, isFavorited: !wasFavorited });
+    try {
+      if (wasFavorited) {
+        await listingsApi.removeFavorite(listing.id, sessionId);
+      } else {
+        await listingsApi.addFavorite(listing.id, sessionId);
+      }
+    } catch (err) {
+      setListing({ ...listing, isFavorited: wasFavorited });
+      alert(err instanceof Error ? err.message : "Failed to update saved");
+    }
+  };
+
+  const handleMessageSeller = async () => {
+    if (!sessionId || !listing) return;
+
+    listingsApi.trackListingEvent(listing.id, "contact_click", sessionId);
+
+    try {
+      setIsStartingConversation(true);
+      const { conversation } = await listingsApi.startConversation(
+        listing.id,
+        sessionId,
+      );
+      navigate(`/messages/${conversation.id}`);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to open conversation");
+    } finally {
+      setIsStartingConversation(false);
+    }
+  };
+
   const handleDelete = async () => {
     if (!sessionId || !listing) return;
 
@@ -51,6 +117,93 @@ export default function ListingDetail() {
     }
   };
 
+  // Images come back cover first, so the carousel starts over on the cover
+  const setImages = (images: ImageData[]) => {
+    setListing((prev) => (prev ? { ...prev, images } : prev));
+    setCurrentImageIndex(0);
+  };
+
+  const handleReorderImages = async (
+    imageIds: number[],
+    coverImageId?: number,
+  ) => {
+    if (!sessionId || !listing) return;
+
+    // Show the new order straight away, and put it back if the save fails
+    const previous = listing.images ?? [];
+    setImages(
+      imageIds.map((imageId, index) => {
+        const image = previous.find((image) => image.id === imageId)!;
+        return {
+          ...image,
+          uploadOrder: index + 1,
+          isCover:
+            coverImageId === undefined
+              ? image.isCover
+              : image.id === coverImageId,
+        };
+      }),
+    );
+
+    try {
+      const { images } = await listingsApi.reorderImages(
+        listing.id,
+        imageIds,
+        sessionId,
+        coverImageId,
+      );
+      setImages(images);
+    } catch (err) {
+      setImages(previous);
+      alert(err instanceof Error ? err.message : "Failed to reorder images");
+    }
+  };
+
+  const handleSetCover = (imageId: number) => {
+    const imageIds = [...(listing?.images ?? [])]
+      .sort((a, b) => a.uploadOrder - b.uploadOrder)
+      .map((image) => image.id);
+    handleReorderImages(imageIds, imageId);
+  };
+
+  const handleReplaceImage = async (imageId: number, file: File) => {
+    if (!sessionId || !listing) return;
+
+    try {
+      const { image } = await listingsApi.replaceImage(
+        listing.id,
+        imageId,
+        file,
+        sessionId,
+      );
+      setImages(
+        (listing.images ?? []).map((existing) =>
+          existing.id === imageId ? image : existing,
+        ),
+      );
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to replace image");
+    }
+  };
+
+  const handleDeleteImage = async (imageId: number) => {
+    if (!sessionId || !listing) return;
+
+    if (!confirm("Delete this photo?")) return;
+
+    try {
+      await listingsApi.deleteImage(listing.id, imageId, sessionId);
+      // The server hands the cover on if this was it
+      const { listing: data } = await listingsApi.getListingById(
+        listing.id,
+        sessionId,
+      );
+      setImages(data.images ?? []);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to delete image");
+    }
+  };
+
   const handleFreeBump = async () => {
     if (!sessionId || !listing) return;
 
@@ -69,21 +222,89 @@ export default function ListingDetail() {
     }
   };
 
+  // Poll until the webhook has applied the paid bump (max ~10s)
+  const waitForPaidBump = (previousBumpedAt: number | null) => {
+    let attempts = 0;
+    pollIntervalRef.current = window.setInterval(async () => {
+      attempts++;
+      try {
+        const { listing: data } = await listingsApi.getListingById(
+          Number(id),
+          sessionId,
+        );
+        if (data.lastBumpedAt !== previousBumpedAt || attempts >= 10) {
+          if (pollIntervalRef.current) clearInterval(pollIntervalRef.current);
+          setListing(data);
+          setIsPaidBumpPending(false);
+        }
+      } catch (err) {
+        console.error("Error polling listing update:", err);
+      }
+    }, 1000);
+  };
+
   const handlePaidBump = async () => {
     if (!sessionId || !listing) return;
 
     try {
+      setIsPaidBumpPending(true);
       const result = await listingsApi.bumpListing(listing.id, true, sessionId);
-      if ("message" in result) {
-        alert(result.message);
+      if (!("invoice_url" in result)) {
+        setIsPaidBumpPending(false);
+        return;
+      }
+
+      if (!window.Telegram?.WebApp?.openInvoice) {
+        throw new Error("Telegram WebApp API not available");
       }
+
+      const previousBumpedAt = listing.lastBumpedAt;
+      window.Telegram.WebApp.openInvoice(result.invoice_url, async (status) => {
+        if (status === "paid") {
+          waitForPaidBump(previousBumpedAt);
+          return;
+        }
+
+        setIsPaidBumpPending(false);
+        if (status === "cancelled" || status === "failed") {
+          await listingsApi
+            .clearPendingPayment(listing.id, sessionId)
+            .catch((err) => console.error("Failed to clear pending:", err));
+          if (status === "failed") {
+            alert("Payment failed");
+          }
+        }
+      });
     } catch (err) {
+      setIsPaidBumpPending(false);
       alert(
         err instanceof Error ? err.message : "Failed to create bump payment",
       );
     }
   };
 
+  const handleStatusChange = async (status: "active" | "reserved" | "sold") => {
+    if (!sessionId || !listing) return;
+
+    if (
+      status === LISTING_STATUS.SOLD &&
+      !confirm("Mark this listing as sold? This can't be undone.")
+    ) {
+      return;
+    }
+
+    try {
+      const { listing: updated } = await listingsApi.updateListingStatus(
+        listing.id,
+        status,
+        sessionId,
+      );
+      setListing({ ...listing, ...updated });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to update status");
+    }
+  };
+
   const handleArchive = async () => {
     if (!sessionId || !listing || !archiveReason.trim()) return;
 
@@ -152,7 +373,9 @@ export default function ListingDetail() {
       {images.length > 0 && (
         <div className="relative bg-black">
           <img
-            src={`${config.apiBaseUrl}/r2/${images[currentImageIndex].imageKey}`}
+            src={getImageUrl(images[currentImageIndex].imageKey, {
+              token: images[currentImageIndex].token,
+            })}
             alt={listing.title}
             className="w-full h-96 object-contain"
           />
@@ -210,12 +433,33 @@ export default function ListingDetail() {
               <div className="text-3xl font-bold text-blue-600">
                 {formatPrice(listing.price)}
               </div>
-              <ListingTimer
-                expiresAt={listing.expiresAt}
-                className="text-sm justify-end"
-              />
+              {listing.status === LISTING_STATUS.SOLD ? (
+                <ListingStatusBadge status={listing.status} className="mt-1" />
+              ) : (
+                <ListingTimer
+                  expiresAt={listing.expiresAt}
+                  className="text-sm justify-end"
+                />
+              )}
+              {listing.status === LISTING_STATUS.RESERVED && (
+                <ListingStatusBadge status={listing.status} className="mt-1" />
+              )}
+              {!isOwner && sessionId && (
+                <FavoriteButton
+                  isFavorited={listing.isFavorited === true}
+                  onToggle={handleToggleFavorite}
+                  className="w-9 h-9 mt-2 ml-auto border border-gray-200"
+                />
+              )}
             </div>
           </div>
+          {isOwner && listing.watcherCount !== undefined && (
+            <p className="text-sm text-gray-500">
+              ❤️ {listing.watcherCount}{" "}
+              {listing.watcherCount === 1 ? "person is" : "people are"} watching
+              this listing
+            </p>
+          )}
         </div>
 
         {/* Description */}
@@ -232,7 +476,9 @@ export default function ListingDetail() {
           <div className="flex items-center gap-3">
             {listing.profile?.profileImageKey && (
               <img
-                src={`${config.apiBaseUrl}/r2/${listing.profile.profileImageKey}`}
+                src={getImageUrl(listing.profile.profileImageKey, {
+                  width: 160,
+                })}
                 alt={listing.displayName}
                 className="w-12 h-12 rounded-full object-cover"
               />
@@ -246,24 +492,52 @@ export default function ListingDetail() {
               )}
             </div>
           </div>
+          {!isOwner && listing.profile?.contactLinks && (
+            <div className="mt-3">
+              <ContactLinks
+                contactLinks={listing.profile.contactLinks}
+                listingId={listing.id}
+              />
+            </div>
+          )}
         </div>
 
+        {/* Owner Stats */}
+        {isOwner && sessionId && (
+          <ListingStatsPanel listingId={listing.id} sessionId={sessionId} />
+        )}
+
         {/* Actions */}
         <div className="space-y-2">
           {/* Contact & Share Buttons for non-owners */}
           {!isOwner && (
             <div className="grid grid-cols-2 gap-2">
-              {listing.profile?.username && (
-                <a
-                  href={`https://t.me/${listing.profile.username}`}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="bg-blue-500 text-white text-center py-3 rounded-lg font-medium hover:bg-blue-600"
+              {sessionId && (
+                <button
+                  onClick={handleMessageSeller}
+                  disabled={isStartingConversation}
+                  className="bg-blue-500 text-white py-3 rounded-lg font-medium hover:bg-blue-600 disabled:opacity-50"
                 >
-                  💬 Contact
-                </a>
+                  💬 Message seller
+                </button>
               )}
               <ShareButton listingId={listing.id} title={listing.title} />
+              {sessionId && (
+                <button
+                  onClick={() => setShowReviewModal(true)}
+                  className="col-span-2 bg-gray-200 text-gray-900 py-3 rounded-lg font-medium hover:bg-gray-300"
+                >
+                  ⭐ Bought this? Review the seller
+                </button>
+              )}
+              {sessionId && (
+                <button
+                  onClick={() => setShowReportModal(true)}
+                  className="col-span-2 text-sm text-gray-500 hover:text-red-600 py-1"
+                >
+                  🚩 Report this listing
+                </button>
+              )}
             </div>
           )}
 
@@ -272,28 +546,105 @@ export default function ListingDetail() {
             <ShareButton listingId={listing.id} title={listing.title} />
           )}
 
+          {/* Held after reports; only the owner and staff can open it */}
+          {isOwner && listing.status === LISTING_STATUS.UNDER_REVIEW && (
+            <p className="bg-red-50 text-red-700 text-sm rounded-lg p-3">
+              This listing was reported by several users and is hidden from the
+              feed until a moderator reviews it.
+            </p>
+          )}
+          {isOwner && listing.status === LISTING_STATUS.PENDING_REVIEW && (
+            <p className="bg-purple-50 text-purple-700 text-sm rounded-lg p-3">
+              This listing will appear in the feed once a moderator has approved
+              it. We&apos;ll message you when that happens.
+            </p>
+          )}
+
           {/* Owner Actions */}
           {isOwner && (
             <>
-              {canBump() ? (
+              {LISTING_STATUS_TRANSITIONS[listing.status].length > 0 && (
                 <div className="grid grid-cols-2 gap-2">
+                  {LISTING_STATUS_TRANSITIONS[listing.status].includes(
+                    LISTING_STATUS.RESERVED,
+                  ) && (
+                    <button
+                      onClick={() =>
+                        handleStatusChange(LISTING_STATUS.RESERVED)
+                      }
+                      className="bg-amber-500 text-white py-3 rounded-lg font-medium hover:bg-amber-600"
+                    >
+                      🔒 Mark Reserved
+                    </button>
+                  )}
+                  {LISTING_STATUS_TRANSITIONS[listing.status].includes(
+                    LISTING_STATUS.ACTIVE,
+                  ) && (
+                    <button
+                      onClick={() => handleStatusChange(LISTING_STATUS.ACTIVE)}
+                      className="bg-gray-200 text-gray-900 py-3 rounded-lg font-medium hover:bg-gray-300"
+                    >
+                      ✅ Mark Available
+                    </button>
+                  )}
                   <button
-                    onClick={handleFreeBump}
-                    className="bg-green-500 text-white py-3 rounded-lg font-medium hover:bg-green-600"
-                  >
-                    🆓 Free Bump (+3d)
-                  </button>
-                  <button
-                    onClick={handlePaidBump}
-                    className="bg-yellow-500 text-white py-3 rounded-lg font-medium hover:bg-yellow-600"
+                    onClick={() => handleStatusChange(LISTING_STATUS.SOLD)}
+                    className={`bg-purple-600 text-white py-3 rounded-lg font-medium hover:bg-purple-700 ${
+                      listing.status === LISTING_STATUS.EXPIRED
+                        ? "col-span-2"
+                        : ""
+                    }`}
                   >
-                    ⭐ Paid Bump (+7d)
+                    🤝 Mark Sold
                   </button>
                 </div>
-              ) : (
-                <div className="bg-gray-100 text-gray-600 py-3 rounded-lg text-center">
-                  Next bump available in {getTimeUntilNextBump()}h
-                </div>
+              )}
+
+              {listing.status !== LISTING_STATUS.SOLD &&
+                (canBump() ? (
+                  <div className="grid grid-cols-2 gap-2">
+                    <button
+                      onClick={handleFreeBump}
+                      className="bg-green-500 text-white py-3 rounded-lg font-medium hover:bg-green-600"
+                    >
+                      🆓 Free Bump (+3d)
+                    </button>
+                    <button
+                      onClick={handlePaidBump}
+                      disabled={isPaidBumpPending}
+                      className="bg-yellow-500 text-white py-3 rounded-lg font-medium hover:bg-yellow-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isPaidBumpPending
+                        ? "⏳ Processing..."
+                        : `⭐ Paid Bump (+${EXPIRY_PAID_BUMP_DAYS}d)`}
+                    </button>
+                  </div>
+                ) : (
+                  <div className="bg-gray-100 text-gray-600 py-3 rounded-lg text-center">
+                    Next bump available in {getTimeUntilNextBump()}h
+                  </div>
+                ))}
+
+              {images.length > 0 && (
+                <button
+                  onClick={() => setIsEditingImages((editing) => !editing)}
+                  className="w-full bg-gray-200 text-gray-900 py-3 rounded-lg font-medium hover:bg-gray-300"
+                >
+                  {isEditingImages
+                    ? "✅ Done Editing Photos"
+                    : "🖼️ Edit Photos"}
+                </button>
+              )}
+              {isEditingImages && (
+                <ImageGallery
+                  images={images}
+                  editable
+                  canDelete
+                  onReorder={handleReorderImages}
+                  onSetCover={handleSetCover}
+                  onReplace={handleReplaceImage}
+                  onImageDelete={handleDeleteImage}
+                />
               )}
 
               <button
@@ -312,22 +663,22 @@ export default function ListingDetail() {
             </>
           )}
 
-          {/* Admin Actions */}
-          {isAdmin && !isOwner && (
-            <>
-              <button
-                onClick={() => setShowArchiveModal(true)}
-                className="w-full bg-orange-500 text-white py-3 rounded-lg font-medium hover:bg-orange-600"
-              >
-                📦 Archive Listing
-              </button>
-              <button
-                onClick={handleDelete}
-                className="w-full bg-red-500 text-white py-3 rounded-lg font-medium hover:bg-red-600"
-              >
-                🗑️ Delete Listing
-              </button>
-            </>
+          {/* Staff Actions */}
+          {!isOwner && permissions.includes("archive_listing") && (
+            <button
+              onClick={() => setShowArchiveModal(true)}
+              className="w-full bg-orange-500 text-white py-3 rounded-lg font-medium hover:bg-orange-600"
+            >
+              📦 Archive Listing
+            </button>
+          )}
+          {!isOwner && permissions.includes("delete_content") && (
+            <button
+              onClick={handleDelete}
+              className="w-full bg-red-500 text-white py-3 rounded-lg font-medium hover:bg-red-600"
+            >
+              🗑️ Delete Listing
+            </button>
           )}
         </div>
 
@@ -341,6 +692,24 @@ export default function ListingDetail() {
       </div>
 
       {/* Archive Modal */}
+      {showReviewModal && sessionId && (
+        <ReviewSellerModal
+          listingId={listing.id}
+          sellerId={listing.userId}
+          sessionId={sessionId}
+          onClose={() => setShowReviewModal(false)}
+        />
+      )}
+
+      {showReportModal && sessionId && (
+        <ReportModal
+          targetType="listing"
+          targetId={listing.id}
+          sessionId={sessionId}
+          onClose={() => setShowReportModal(false)}
+        />
+      )}
+
       {showArchiveModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-lg p-6 max-w-md w-full">
@@ -1,37 +1,45 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import {
   listingsApi,
   type Listing,
   type ListingFilters,
+  type ListingSortBy,
+  type SavedSearchFilters,
 } from "../services/listingsApi";
-import { ListingTimer } from "../components/ListingTimer";
-import { CATEGORIES, formatPrice, getCategoryById } from "../constants";
-import { config } from "../config";
+import { useAuth } from "../contexts/AuthContext";
+import { ListingCard } from "../components/ListingCard";
+import { SavedSearches } from "../components/SavedSearches";
+import { useFavorites } from "../hooks/use-favorites";
+import { CATEGORIES } from "../constants";
 
 export default function ListingsFeed() {
   const navigate = useNavigate();
+  const { sessionId, user } = useAuth();
+  const { isFavorite, toggleFavorite } = useFavorites(sessionId);
   const [listings, setListings] = useState<Listing[]>([]);
   const [loading, setLoading] = useState(true);
-  const [hasMore, setHasMore] = useState(true);
-  const [page, setPage] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  // Filter changes start a new request; responses from older ones are dropped
+  const requestIdRef = useRef(0);
 
   // Filters
   const [selectedCategory, setSelectedCategory] = useState<string>("");
   const [searchQuery, setSearchQuery] = useState("");
   const [priceMin, setPriceMin] = useState("");
   const [priceMax, setPriceMax] = useState("");
-  const [sortBy, setSortBy] = useState<"price" | "date">("date");
+  const [sortBy, setSortBy] = useState<ListingSortBy>("date");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
   const [showFilters, setShowFilters] = useState(false);
 
   const limit = 20;
 
   const loadListings = useCallback(
-    async (reset = false) => {
+    async (cursor: string | null = null) => {
+      const requestId = ++requestIdRef.current;
+
       try {
         setLoading(true);
-        const offset = reset ? 0 : page * limit;
 
         const filters: ListingFilters = {
           category: selectedCategory || undefined,
@@ -45,47 +53,37 @@ export default function ListingsFeed() {
         const response = await listingsApi.getAllListings(
           filters,
           limit,
-          offset,
+          cursor,
         );
+        if (requestId !== requestIdRef.current) return;
 
-        if (reset) {
-          setListings(response.listings);
-          setPage(0);
-        } else {
+        if (cursor) {
           setListings((prev) => [...prev, ...response.listings]);
+        } else {
+          setListings(response.listings);
         }
 
-        setHasMore(response.pagination.hasMore);
+        setNextCursor(response.pagination.nextCursor);
       } catch (err) {
         console.error("Failed to load listings:", err);
       } finally {
-        setLoading(false);
+        if (requestId === requestIdRef.current) {
+          setLoading(false);
+        }
       }
     },
-    [
-      page,
-      selectedCategory,
-      searchQuery,
-      priceMin,
-      priceMax,
-      sortBy,
-      sortOrder,
-    ],
+    [selectedCategory, searchQuery, priceMin, priceMax, sortBy, sortOrder],
   );
 
   useEffect(() => {
-    loadListings(true);
-  }, [selectedCategory, searchQuery, priceMin, priceMax, sortBy, sortOrder]);
+    loadListings();
+  }, [loadListings]);
 
   const handleLoadMore = () => {
-    setPage((prev) => prev + 1);
-  };
-
-  useEffect(() => {
-    if (page > 0) {
-      loadListings(false);
+    if (nextCursor) {
+      loadListings(nextCursor);
     }
-  }, [page]);
+  };
 
   const handleCategorySelect = (categoryId: string) => {
     setSelectedCategory(categoryId === selectedCategory ? "" : categoryId);
@@ -95,6 +93,17 @@ export default function ListingsFeed() {
     e.preventDefault();
   };
 
+  const applySavedSearch = (filters: SavedSearchFilters) => {
+    setSelectedCategory(filters.category || "");
+    setSearchQuery(filters.search || "");
+    setPriceMin(
+      filters.priceMin !== undefined ? String(filters.priceMin / 100) : "",
+    );
+    setPriceMax(
+      filters.priceMax !== undefined ? String(filters.priceMax / 100) : "",
+    );
+  };
+
   const clearFilters = () => {
     setSelectedCategory("");
     setSearchQuery("");
@@ -124,8 +133,14 @@ export default function ListingsFeed() {
             <input
               type="text"
               value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              placeholder="Search listings..."
+              onChange={(e) => {
+                setSearchQuery(e.target.value);
+                // Relevance needs a search to rank against
+                if (!e.target.value && sortBy === "relevance") {
+                  setSortBy("date");
+                }
+              }}
+              placeholder='Search listings... ("exact phrase", -exclude)'
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
             />
           </form>
@@ -200,31 +215,48 @@ export default function ListingsFeed() {
                 <div className="flex gap-2">
                   <select
                     value={sortBy}
-                    onChange={(e) =>
-                      setSortBy(e.target.value as "price" | "date")
-                    }
+                    onChange={(e) => setSortBy(e.target.value as ListingSortBy)}
                     className="flex-1 px-3 py-1.5 border border-gray-300 rounded text-sm"
                   >
                     <option value="date">Date</option>
                     <option value="price">Price</option>
+                    <option value="bumped">Recently bumped</option>
+                    {searchQuery && (
+                      <option value="relevance">Relevance</option>
+                    )}
                   </select>
-                  <select
-                    value={sortOrder}
-                    onChange={(e) =>
-                      setSortOrder(e.target.value as "asc" | "desc")
-                    }
-                    className="flex-1 px-3 py-1.5 border border-gray-300 rounded text-sm"
-                  >
-                    <option value="desc">
-                      {sortBy === "price" ? "High to Low" : "Newest"}
-                    </option>
-                    <option value="asc">
-                      {sortBy === "price" ? "Low to High" : "Oldest"}
-                    </option>
-                  </select>
+                  {sortBy !== "relevance" && (
+                    <select
+                      value={sortOrder}
+                      onChange={(e) =>
+                        setSortOrder(e.target.value as "asc" | "desc")
+                      }
+                      className="flex-1 px-3 py-1.5 border border-gray-300 rounded text-sm"
+                    >
+                      <option value="desc">
+                        {sortBy === "price" ? "High to Low" : "Newest"}
+                      </option>
+                      <option value="asc">
+                        {sortBy === "price" ? "Low to High" : "Oldest"}
+                      </option>
+                    </select>
+                  )}
                 </div>
               </div>
 
+              {sessionId && (
+                <SavedSearches
+                  sessionId={sessionId}
+                  currentFilters={{
+                    category: selectedCategory || undefined,
+                    search: searchQuery.trim() || undefined,
+                    priceMin: priceMin ? parseInt(priceMin) * 100 : undefined,
+                    priceMax: priceMax ? parseInt(priceMax) * 100 : undefined,
+                  }}
+                  onApply={applySavedSearch}
+                />
+              )}
+
               <button
                 onClick={clearFilters}
                 className="w-full bg-gray-200 text-gray-700 py-1.5 rounded text-sm font-medium hover:bg-gray-300"
@@ -252,73 +284,24 @@ export default function ListingsFeed() {
           </div>
         ) : (
           <div className="grid grid-cols-2 gap-3">
-            {listings.map((listing) => {
-              const category = getCategoryById(listing.category);
-              const image = listing.images?.[0];
-
-              return (
-                <div
-                  key={listing.id}
-                  onClick={() => navigate(`/listings/${listing.id}`)}
-                  className="bg-white rounded-lg shadow-sm overflow-hidden cursor-pointer hover:shadow-md transition-shadow"
-                >
-                  {/* Image */}
-                  {image ? (
-                    <img
-                      src={`${config.apiBaseUrl}/r2/${image.thumbnailKey}`}
-                      alt={listing.title}
-                      className="w-full h-40 object-cover"
-                    />
-                  ) : (
-                    <div className="w-full h-40 bg-gray-200 flex items-center justify-center text-4xl">
-                      {category?.emoji || "📦"}
-                    </div>
-                  )}
-
-                  {/* Content */}
-                  <div className="p-3">
-                    <div className="flex items-start justify-between gap-2 mb-1">
-                      <h3 className="font-semibold text-gray-900 text-sm line-clamp-2 flex-1">
-                        {listing.title}
-                      </h3>
-                      {category && (
-                        <span className="text-lg flex-shrink-0">
-                          {category.emoji}
-                        </span>
-                      )}
-                    </div>
-
-                    <div className="text-lg font-bold text-blue-600 mb-2">
-                      {formatPrice(listing.price)}
-                    </div>
-
-                    <ListingTimer
-                      expiresAt={listing.expiresAt}
-                      className="text-xs"
-                      showIcon={false}
-                    />
-
-                    {listing.profile && (
-                      <div className="mt-2 flex items-center gap-1 text-xs text-gray-500">
-                        {listing.profile.profileImageKey && (
-                          <img
-                            src={`${config.apiBaseUrl}/r2/${listing.profile.profileImageKey}`}
-                            alt=""
-                            className="w-4 h-4 rounded-full object-cover"
-                          />
-                        )}
-                        <span className="truncate">{listing.displayName}</span>
-                      </div>
-                    )}
-                  </div>
-                </div>
-              );
-            })}
+            {listings.map((listing) => (
+              <ListingCard
+                key={listing.id}
+                listing={listing}
+                onClick={() => navigate(`/listings/${listing.id}`)}
+                isFavorited={isFavorite(listing.id)}
+                onToggleFavorite={
+                  sessionId && listing.userId !== user?.id
+                    ? () => toggleFavorite(listing.id)
+                    : undefined
+                }
+              />
+            ))}
           </div>
         )}
 
         {/* Load More */}
-        {hasMore && !loading && listings.length > 0 && (
+        {nextCursor && !loading && listings.length > 0 && (
           <button
             onClick={handleLoadMore}
             className="w-full mt-4 bg-gray-100 text-gray-700 py-3 rounded-lg font-medium hover:bg-gray-200"
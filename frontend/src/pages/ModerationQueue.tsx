@@ -0,0 +1,450 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { useToast } from "../hooks/use-toast";
+import { useNavigate, Link } from "react-router-dom";
+import {
+  listingsApi,
+  type ModerationListing,
+  type ModerationRule,
+} from "../services/listingsApi";
+import { ListingStatusBadge } from "../components/ListingStatusBadge";
+import {
+  MODERATION_ACTIONS,
+  MODERATION_PATTERN_MAX_LENGTH,
+  MODERATION_QUEUE_VIEWS,
+  MODERATION_RULE_KINDS,
+  formatPrice,
+  type ModerationAction,
+  type ModerationQueueView,
+  type ModerationRuleKind,
+} from "../constants";
+
+const PAGE_SIZE = 20;
+
+const VIEW_LABELS: Record<ModerationQueueView | "rules", string> = {
+  held: "Held",
+  flagged: "Flagged",
+  rules: "Rules",
+};
+
+const ACTION_LABELS: Record<ModerationAction, string> = {
+  reject: "Reject the text",
+  hold: "Hold for review",
+  flag: "Allow with a flag",
+};
+
+export default function ModerationQueue() {
+  const { sessionId, permissions, isLoading: authLoading } = useAuth();
+  const { showToast } = useToast();
+  const navigate = useNavigate();
+  const canReviewReports = permissions.includes("review_reports");
+  const canManageRules = permissions.includes("manage_moderation_rules");
+  const [view, setView] = useState<ModerationQueueView | "rules">("held");
+  const [listings, setListings] = useState<ModerationListing[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reasons, setReasons] = useState<Record<number, string>>({});
+  const [resolvingId, setResolvingId] = useState<number | null>(null);
+  const [rules, setRules] = useState<ModerationRule[]>([]);
+  const [ruleKind, setRuleKind] = useState<ModerationRuleKind>("word");
+  const [rulePattern, setRulePattern] = useState("");
+  const [ruleAction, setRuleAction] = useState<ModerationAction>("hold");
+  const [ruleNote, setRuleNote] = useState("");
+  const [isSavingRule, setIsSavingRule] = useState(false);
+
+  // Redirect if not allowed to review listings (but wait for auth to load first)
+  useEffect(() => {
+    if (!authLoading && !canReviewReports) {
+      navigate("/");
+    }
+  }, [authLoading, canReviewReports, navigate]);
+
+  const fetchQueue = useCallback(async () => {
+    if (!sessionId || view === "rules") return;
+
+    setIsLoading(true);
+    try {
+      const data = await listingsApi.getModerationQueue(
+        { view, limit: PAGE_SIZE, offset },
+        sessionId,
+      );
+      setListings(data.listings);
+      setTotal(data.total);
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : "Failed to load listings",
+        "error",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId, view, offset, showToast]);
+
+  const fetchRules = useCallback(async () => {
+    if (!sessionId || view !== "rules") return;
+
+    setIsLoading(true);
+    try {
+      const data = await listingsApi.getModerationRules(sessionId);
+      setRules(data.rules);
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : "Failed to load rules",
+        "error",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId, view, showToast]);
+
+  useEffect(() => {
+    if (!canReviewReports) return;
+    if (view === "rules") {
+      fetchRules();
+    } else {
+      fetchQueue();
+    }
+  }, [canReviewReports, view, fetchQueue, fetchRules]);
+
+  const handleResolve = async (
+    listing: ModerationListing,
+    decision: "approve" | "reject",
+  ) => {
+    if (!sessionId) return;
+    if (decision === "reject" && !confirm(`Archive "${listing.title}"?`)) {
+      return;
+    }
+
+    setResolvingId(listing.id);
+    try {
+      await listingsApi.resolveModeration(
+        listing.id,
+        { decision, reason: reasons[listing.id]?.trim() || undefined },
+        sessionId,
+      );
+      showToast(
+        decision === "approve" ? "Listing approved" : "Listing archived",
+        "success",
+      );
+      await fetchQueue();
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : "Failed to resolve listing",
+        "error",
+      );
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const handleAddRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sessionId) return;
+
+    setIsSavingRule(true);
+    try {
+      await listingsApi.createModerationRule(
+        {
+          kind: ruleKind,
+          pattern: rulePattern,
+          action: ruleAction,
+          note: ruleNote,
+        },
+        sessionId,
+      );
+      setRulePattern("");
+      setRuleNote("");
+      showToast("Rule added", "success");
+      await fetchRules();
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : "Failed to add rule",
+        "error",
+      );
+    } finally {
+      setIsSavingRule(false);
+    }
+  };
+
+  const handleDeleteRule = async (rule: ModerationRule) => {
+    if (!sessionId || !confirm(`Remove the rule "${rule.pattern}"?`)) return;
+
+    try {
+      await listingsApi.deleteModerationRule(rule.id, sessionId);
+      showToast("Rule removed", "success");
+      await fetchRules();
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : "Failed to remove rule",
+        "error",
+      );
+    }
+  };
+
+  const formatDate = (dateString: string) =>
+    new Intl.DateTimeFormat("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    }).format(new Date(dateString));
+
+  if (authLoading || !canReviewReports) {
+    return null; // Will be redirected
+  }
+
+  const views: (ModerationQueueView | "rules")[] = canManageRules
+    ? [...MODERATION_QUEUE_VIEWS, "rules"]
+    : [...MODERATION_QUEUE_VIEWS];
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm";
+  const actionButtonClass =
+    "flex-1 py-2 rounded-lg text-sm font-medium disabled:opacity-50";
+
+  return (
+    <div className="max-w-4xl mx-auto p-4">
+      {/* Header */}
+      <div className="sticky top-0 z-10 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700 px-4 py-3 -mx-4 mb-4 flex items-center justify-between">
+        <h1 className="text-xl font-bold text-gray-900 dark:text-white">
+          Moderation
+        </h1>
+        <div className="flex gap-1">
+          {views.map((value) => (
+            <button
+              key={value}
+              onClick={() => {
+                setView(value);
+                setOffset(0);
+              }}
+              className={`px-3 py-1 rounded-full text-sm ${
+                view === value
+                  ? "bg-blue-500 text-white"
+                  : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+              }`}
+            >
+              {VIEW_LABELS[value]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {view === "rules" ? (
+        <div className="space-y-4">
+          {/* New rule */}
+          <form
+            onSubmit={handleAddRule}
+            className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-2"
+          >
+            <div className="flex gap-2">
+              <select
+                aria-label="Rule type"
+                value={ruleKind}
+                onChange={(e) =>
+                  setRuleKind(e.target.value as ModerationRuleKind)
+                }
+                className={inputClass}
+              >
+                {MODERATION_RULE_KINDS.map((kind) => (
+                  <option key={kind} value={kind}>
+                    {kind === "word" ? "Word or phrase" : "Regular expression"}
+                  </option>
+                ))}
+              </select>
+              <select
+                aria-label="Action"
+                value={ruleAction}
+                onChange={(e) =>
+                  setRuleAction(e.target.value as ModerationAction)
+                }
+                className={inputClass}
+              >
+                {MODERATION_ACTIONS.map((action) => (
+                  <option key={action} value={action}>
+                    {ACTION_LABELS[action]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <input
+              aria-label="Pattern"
+              placeholder={ruleKind === "word" ? "Word or phrase" : "Pattern"}
+              value={rulePattern}
+              onChange={(e) => setRulePattern(e.target.value)}
+              maxLength={MODERATION_PATTERN_MAX_LENGTH}
+              className={inputClass}
+            />
+            <input
+              aria-label="Note"
+              placeholder="Why this rule exists (optional)"
+              value={ruleNote}
+              onChange={(e) => setRuleNote(e.target.value)}
+              className={inputClass}
+            />
+            <button
+              type="submit"
+              disabled={!rulePattern.trim() || isSavingRule}
+              className="w-full py-2 rounded-lg text-sm font-medium bg-blue-500 text-white hover:bg-blue-600 disabled:opacity-50"
+            >
+              {isSavingRule ? "Adding..." : "Add rule"}
+            </button>
+          </form>
+
+          {/* Rules */}
+          {isLoading ? (
+            <div className="animate-pulse h-28 bg-gray-200 dark:bg-gray-700 rounded"></div>
+          ) : rules.length === 0 ? (
+            <p className="text-center text-gray-500 dark:text-gray-400 py-8">
+              No rules yet
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+              {rules.map((rule) => (
+                <li
+                  key={rule.id}
+                  className="flex items-start justify-between gap-2 p-3"
+                >
+                  <div className="min-w-0">
+                    <code className="text-sm text-gray-900 dark:text-white break-all">
+                      {rule.pattern}
+                    </code>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {rule.kind} · {ACTION_LABELS[rule.action]}
+                      {rule.note ? ` · ${rule.note}` : ""}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleDeleteRule(rule)}
+                    className="text-sm text-red-600 dark:text-red-400 shrink-0"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : (
+        <>
+          {/* Queue */}
+          <div className="space-y-3">
+            {isLoading ? (
+              <div className="animate-pulse space-y-3">
+                {[...Array(3)].map((_, i) => (
+                  <div
+                    key={i}
+                    className="h-28 bg-gray-200 dark:bg-gray-700 rounded"
+                  ></div>
+                ))}
+              </div>
+            ) : listings.length === 0 ? (
+              <p className="text-center text-gray-500 dark:text-gray-400 py-8">
+                No {view} listings
+              </p>
+            ) : (
+              listings.map((listing) => {
+                const isResolving = resolvingId === listing.id;
+
+                return (
+                  <div
+                    key={listing.id}
+                    className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3"
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <Link
+                          to={`/listings/${listing.id}`}
+                          className="font-medium text-blue-600 dark:text-blue-400 break-words"
+                        >
+                          {listing.title}
+                        </Link>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {formatPrice(listing.price)} ·{" "}
+                          <Link to={`/profile/${listing.userId}`}>
+                            {listing.displayName || `@${listing.username}`}
+                          </Link>{" "}
+                          · {formatDate(listing.updatedAt)}
+                        </div>
+                      </div>
+                      <ListingStatusBadge status={listing.status} />
+                    </div>
+
+                    <div className="flex flex-wrap gap-1">
+                      {listing.moderationFlags.map((flag) => (
+                        <span
+                          key={flag}
+                          className="px-2 py-0.5 rounded bg-purple-100 text-purple-700 text-xs"
+                        >
+                          {flag}
+                        </span>
+                      ))}
+                    </div>
+
+                    <p className="text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap break-words">
+                      {listing.content}
+                    </p>
+
+                    <input
+                      aria-label="Reason"
+                      placeholder="Reason, sent to the seller if rejected (optional)"
+                      value={reasons[listing.id] ?? ""}
+                      onChange={(e) =>
+                        setReasons((current) => ({
+                          ...current,
+                          [listing.id]: e.target.value,
+                        }))
+                      }
+                      className={inputClass}
+                    />
+
+                    <div className="flex gap-2">
+                      {permissions.includes("archive_listing") && (
+                        <button
+                          onClick={() => handleResolve(listing, "reject")}
+                          disabled={isResolving}
+                          className={`${actionButtonClass} bg-red-500 text-white hover:bg-red-600`}
+                        >
+                          Reject
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleResolve(listing, "approve")}
+                        disabled={isResolving}
+                        className={`${actionButtonClass} bg-green-600 text-white hover:bg-green-700`}
+                      >
+                        Approve
+                      </button>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+
+          {/* Pagination */}
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-between mt-4 text-sm">
+              <button
+                onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                disabled={offset === 0}
+                className="px-3 py-1 rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-gray-500 dark:text-gray-400">
+                {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+              </span>
+              <button
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+                disabled={offset + PAGE_SIZE >= total}
+                className="px-3 py-1 rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,8 @@ import { useAuth } from "../contexts/AuthContext";
 import { useToast } from "../hooks/use-toast";
 import { useNavigate } from "react-router-dom";
 import { config } from "../config";
+import { AUDIT_REASON_MAX_LENGTH } from "../constants";
+import { apiFetch } from "../services/apiFetch";
 
 interface Payment {
   id: string;
@@ -22,7 +24,8 @@ interface BalanceData {
 }
 
 export default function Payments() {
-  const { isAdmin, isLoading: authLoading } = useAuth();
+  const { permissions, isLoading: authLoading } = useAuth();
+  const canViewPayments = permissions.includes("view_payments");
   const { showToast } = useToast();
   const navigate = useNavigate();
   const [payments, setPayments] = useState<Payment[]>([]);
@@ -38,6 +41,7 @@ export default function Payments() {
     starAmount: number;
     userId: number;
   } | null>(null);
+  const [refundReason, setRefundReason] = useState("");
   const [limit] = useState(50);
   const [offset] = useState(0);
   const pollIntervalRef = useRef<number | null>(null);
@@ -49,16 +53,16 @@ export default function Payments() {
     };
   }, []);
 
-  // Redirect if not admin (but wait for auth to load first)
+  // Redirect if not allowed to see payments (but wait for auth to load first)
   useEffect(() => {
-    if (!authLoading && !isAdmin) {
+    if (!authLoading && !canViewPayments) {
       navigate("/");
     }
-  }, [authLoading, isAdmin, navigate]);
+  }, [authLoading, canViewPayments, navigate]);
 
   // Fetch payments and balance
   useEffect(() => {
-    if (!isAdmin) return;
+    if (!canViewPayments) return;
 
     const fetchData = async () => {
       try {
@@ -68,7 +72,7 @@ export default function Payments() {
         }
 
         // Fetch payments
-        const paymentsResponse = await fetch(
+        const paymentsResponse = await apiFetch(
           `${config.apiBaseUrl}/api/payments?limit=${limit}&offset=${offset}`,
           {
             headers: { Authorization: `Bearer ${sessionId}` },
@@ -84,7 +88,7 @@ export default function Payments() {
         setPayments(paymentsData.payments);
 
         // Fetch balance
-        const balanceResponse = await fetch(
+        const balanceResponse = await apiFetch(
           `${config.apiBaseUrl}/api/payments/balance`,
           {
             headers: { Authorization: `Bearer ${sessionId}` },
@@ -107,7 +111,7 @@ export default function Payments() {
     };
 
     fetchData();
-  }, [isAdmin, limit, offset, showToast]);
+  }, [canViewPayments, limit, offset, showToast]);
 
   const handleRefreshBalance = async () => {
     setIsRefreshingBalance(true);
@@ -117,7 +121,7 @@ export default function Payments() {
         throw new Error("Not authenticated");
       }
 
-      const response = await fetch(
+      const response = await apiFetch(
         `${config.apiBaseUrl}/api/payments/refresh-balance`,
         {
           method: "POST",
@@ -151,7 +155,7 @@ export default function Payments() {
         throw new Error("Not authenticated");
       }
 
-      const response = await fetch(
+      const response = await apiFetch(
         `${config.apiBaseUrl}/api/payments/reconcile`,
         {
           method: "POST",
@@ -207,7 +211,7 @@ export default function Payments() {
     if (!sessionId) return null;
 
     try {
-      const response = await fetch(
+      const response = await apiFetch(
         `${config.apiBaseUrl}/api/payments?limit=${limit}&offset=${offset}`,
         {
           headers: { Authorization: `Bearer ${sessionId}` },
@@ -244,6 +248,7 @@ export default function Payments() {
           setPayments(updatedPayments);
           setRefundingPaymentId(null);
           setConfirmRefund(null);
+          setRefundReason("");
           showToast("Refund completed successfully", "success");
           return;
         }
@@ -257,6 +262,7 @@ export default function Payments() {
         if (finalPayments) setPayments(finalPayments);
         setRefundingPaymentId(null);
         setConfirmRefund(null);
+        setRefundReason("");
       }
     }, 500);
   };
@@ -269,18 +275,24 @@ export default function Payments() {
         throw new Error("Not authenticated");
       }
 
-      const response = await fetch(
+      const response = await apiFetch(
         `${config.apiBaseUrl}/api/payments/${paymentId}/refund`,
         {
           method: "POST",
-          headers: { Authorization: `Bearer ${sessionId}` },
+          headers: {
+            Authorization: `Bearer ${sessionId}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ reason: refundReason.trim() }),
           credentials: "include",
         },
       );
 
       if (!response.ok) {
         const data = await response.json();
-        throw new Error(data.error || "Failed to refund payment");
+        throw new Error(
+          data.message || data.error || "Failed to refund payment",
+        );
       }
 
       showToast("Refund initiated, waiting for confirmation...", "success");
@@ -294,10 +306,13 @@ export default function Payments() {
       );
       setRefundingPaymentId(null);
       setConfirmRefund(null);
+      setRefundReason("");
     }
   };
 
   const canRefund = (payment: Payment) => {
+    if (!permissions.includes("refund_payment")) return false;
+
     // Can only refund succeeded payments
     if (payment.status !== "succeeded") return false;
 
@@ -353,7 +368,7 @@ export default function Payments() {
     );
   }
 
-  if (!isAdmin) {
+  if (!canViewPayments) {
     return null; // Will be redirected
   }
 
@@ -576,16 +591,34 @@ export default function Payments() {
               This action will revert the post to a regular (not-starred) post
               and return the stars to the user.
             </p>
+            <label
+              htmlFor="refund-reason"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+            >
+              Reason (kept in the audit log)
+            </label>
+            <textarea
+              id="refund-reason"
+              value={refundReason}
+              onChange={(e) => setRefundReason(e.target.value)}
+              maxLength={AUDIT_REASON_MAX_LENGTH}
+              rows={3}
+              placeholder="e.g. Buyer was charged twice"
+              className="w-full px-3 py-2 mb-6 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+            />
             <div className="flex space-x-3">
               <button
-                onClick={() => setConfirmRefund(null)}
+                onClick={() => {
+                  setConfirmRefund(null);
+                  setRefundReason("");
+                }}
                 className="flex-1 px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
               >
                 Cancel
               </button>
               <button
                 onClick={() => handleRefund(confirmRefund.id)}
-                disabled={refundingPaymentId !== null}
+                disabled={refundingPaymentId !== null || !refundReason.trim()}
                 className="flex-1 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {refundingPaymentId ? "Refunding..." : "Confirm Refund"}
@@ -0,0 +1,380 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "../contexts/AuthContext";
+import { useToast } from "../hooks/use-toast";
+import { useNavigate, Link } from "react-router-dom";
+import { listingsApi, type ReportGroup } from "../services/listingsApi";
+import { ListingStatusBadge } from "../components/ListingStatusBadge";
+import {
+  BAN_DURATION_OPTIONS_DAYS,
+  REPORT_TARGET_TYPES,
+  type ReportAction,
+  type ReportTargetType,
+} from "../constants";
+
+const PAGE_SIZE = 20;
+
+const formatReason = (reason: string) => reason.replace(/_/g, " ");
+
+const groupKey = (group: ReportGroup) =>
+  `${group.targetType}:${group.targetId}`;
+
+// Heading and link for a reported listing or user
+const describeTarget = (group: ReportGroup) => {
+  const target = group.target;
+  if (!target) {
+    return { title: `Deleted ${group.targetType} #${group.targetId}` };
+  }
+  if ("title" in target) {
+    return { title: target.title, link: `/listings/${target.id}` };
+  }
+  return {
+    title:
+      target.displayName ||
+      (target.username ? `@${target.username}` : `User ${target.telegramId}`),
+    link: `/profile/${target.telegramId}`,
+  };
+};
+
+export default function ReportQueue() {
+  const { sessionId, permissions, isLoading: authLoading } = useAuth();
+  const { showToast } = useToast();
+  const navigate = useNavigate();
+  const canReviewReports = permissions.includes("review_reports");
+  const [groups, setGroups] = useState<ReportGroup[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [targetType, setTargetType] = useState<ReportTargetType | "">("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [banDays, setBanDays] = useState<Record<string, number | null>>({});
+  const [resolvingKey, setResolvingKey] = useState<string | null>(null);
+
+  // Redirect if not allowed to review reports (but wait for auth to load first)
+  useEffect(() => {
+    if (!authLoading && !canReviewReports) {
+      navigate("/");
+    }
+  }, [authLoading, canReviewReports, navigate]);
+
+  const fetchQueue = useCallback(async () => {
+    if (!sessionId) return;
+
+    setIsLoading(true);
+    try {
+      const data = await listingsApi.getReportQueue(
+        { targetType: targetType || undefined, limit: PAGE_SIZE, offset },
+        sessionId,
+      );
+      setGroups(data.groups);
+      setTotal(data.total);
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : "Failed to load reports",
+        "error",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId, targetType, offset, showToast]);
+
+  useEffect(() => {
+    if (canReviewReports) fetchQueue();
+  }, [canReviewReports, fetchQueue]);
+
+  const handleResolve = async (group: ReportGroup, action: ReportAction) => {
+    if (!sessionId) return;
+
+    const key = groupKey(group);
+    const { title } = describeTarget(group);
+    if (
+      action !== "dismiss" &&
+      !confirm(
+        action === "ban"
+          ? group.targetType === "listing"
+            ? `Ban the seller of "${title}" and archive it?`
+            : `Ban ${title}?`
+          : `Archive "${title}"?`,
+      )
+    ) {
+      return;
+    }
+
+    setResolvingKey(key);
+    try {
+      const result = await listingsApi.resolveReports(
+        group.targetType,
+        group.targetId,
+        {
+          action,
+          note: notes[key]?.trim() || undefined,
+          durationDays:
+            action === "ban" ? (banDays[key] ?? undefined) : undefined,
+        },
+        sessionId,
+      );
+      showToast(
+        `Closed ${result.resolved} report${result.resolved === 1 ? "" : "s"}`,
+        "success",
+      );
+      await fetchQueue();
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : "Failed to resolve reports",
+        "error",
+      );
+    } finally {
+      setResolvingKey(null);
+    }
+  };
+
+  const formatDate = (dateString: string) =>
+    new Intl.DateTimeFormat("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    }).format(new Date(dateString));
+
+  if (authLoading || !canReviewReports) {
+    return null; // Will be redirected
+  }
+
+  const actionButtonClass =
+    "flex-1 py-2 rounded-lg text-sm font-medium disabled:opacity-50";
+
+  return (
+    <div className="max-w-4xl mx-auto p-4">
+      {/* Header */}
+      <div className="sticky top-0 z-10 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700 px-4 py-3 -mx-4 mb-4 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <h1 className="text-xl font-bold text-gray-900 dark:text-white">
+            Reports
+          </h1>
+          <Link
+            to="/moderation"
+            className="text-sm text-blue-600 dark:text-blue-400"
+          >
+            Held listings
+          </Link>
+          {permissions.includes("ban_user") && (
+            <Link
+              to="/appeals"
+              className="text-sm text-blue-600 dark:text-blue-400"
+            >
+              Ban appeals
+            </Link>
+          )}
+        </div>
+        <select
+          aria-label="Target type"
+          value={targetType}
+          onChange={(e) => {
+            setTargetType(e.target.value as ReportTargetType | "");
+            setOffset(0);
+          }}
+          className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+        >
+          <option value="">Listings and users</option>
+          {REPORT_TARGET_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {type === "listing" ? "Listings" : "Users"}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Queue */}
+      <div className="space-y-3">
+        {isLoading ? (
+          <div className="animate-pulse space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <div
+                key={i}
+                className="h-28 bg-gray-200 dark:bg-gray-700 rounded"
+              ></div>
+            ))}
+          </div>
+        ) : groups.length === 0 ? (
+          <p className="text-center text-gray-500 dark:text-gray-400 py-8">
+            No open reports
+          </p>
+        ) : (
+          groups.map((group) => {
+            const key = groupKey(group);
+            const { title, link } = describeTarget(group);
+            const isExpanded = expandedKey === key;
+            const isResolving = resolvingKey === key;
+            const listingStatus =
+              group.target && "status" in group.target
+                ? group.target.status
+                : null;
+
+            return (
+              <div
+                key={key}
+                className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3"
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="text-xs uppercase text-gray-500 dark:text-gray-400">
+                      {group.targetType}
+                    </div>
+                    {link ? (
+                      <Link
+                        to={link}
+                        className="font-medium text-blue-600 dark:text-blue-400 break-words"
+                      >
+                        {title}
+                      </Link>
+                    ) : (
+                      <span className="font-medium text-gray-900 dark:text-white">
+                        {title}
+                      </span>
+                    )}
+                  </div>
+                  {listingStatus && (
+                    <ListingStatusBadge status={listingStatus} />
+                  )}
+                </div>
+
+                <div className="flex flex-wrap gap-1">
+                  {group.reasons.map((reason) => (
+                    <span
+                      key={reason}
+                      className="px-2 py-0.5 rounded bg-red-100 text-red-700 text-xs capitalize"
+                    >
+                      {formatReason(reason)}
+                    </span>
+                  ))}
+                </div>
+
+                <button
+                  onClick={() => setExpandedKey(isExpanded ? null : key)}
+                  className="text-sm text-gray-600 dark:text-gray-300"
+                >
+                  {group.reportCount} report
+                  {group.reportCount === 1 ? "" : "s"} from{" "}
+                  {group.reporterCount} user
+                  {group.reporterCount === 1 ? "" : "s"} · latest{" "}
+                  {formatDate(group.lastReportedAt)} {isExpanded ? "▲" : "▼"}
+                </button>
+
+                {isExpanded && (
+                  <ul className="space-y-2">
+                    {group.reports.map((report) => (
+                      <li
+                        key={report.id}
+                        className="text-sm bg-gray-50 dark:bg-gray-900 rounded p-2"
+                      >
+                        <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+                          <span className="capitalize">
+                            {formatReason(report.reason)} · by{" "}
+                            {report.reporterId}
+                          </span>
+                          <span>{formatDate(report.createdAt)}</span>
+                        </div>
+                        {report.details && (
+                          <p className="text-gray-800 dark:text-gray-200 mt-1">
+                            {report.details}
+                          </p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <input
+                  aria-label="Note"
+                  placeholder="Note for the audit log (optional)"
+                  value={notes[key] ?? ""}
+                  onChange={(e) =>
+                    setNotes((current) => ({
+                      ...current,
+                      [key]: e.target.value,
+                    }))
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                />
+
+                {group.target && permissions.includes("ban_user") && (
+                  <select
+                    aria-label="Ban duration"
+                    value={banDays[key] ?? ""}
+                    onChange={(e) =>
+                      setBanDays((current) => ({
+                        ...current,
+                        [key]: e.target.value ? Number(e.target.value) : null,
+                      }))
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                  >
+                    <option value="">Ban permanently</option>
+                    {BAN_DURATION_OPTIONS_DAYS.map((days) => (
+                      <option key={days} value={days}>
+                        Ban for {days} day{days === 1 ? "" : "s"}
+                      </option>
+                    ))}
+                  </select>
+                )}
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleResolve(group, "dismiss")}
+                    disabled={isResolving}
+                    className={`${actionButtonClass} bg-gray-200 text-gray-900 hover:bg-gray-300`}
+                  >
+                    Dismiss
+                  </button>
+                  {group.targetType === "listing" &&
+                    group.target &&
+                    permissions.includes("archive_listing") && (
+                      <button
+                        onClick={() => handleResolve(group, "archive")}
+                        disabled={isResolving}
+                        className={`${actionButtonClass} bg-orange-500 text-white hover:bg-orange-600`}
+                      >
+                        Archive
+                      </button>
+                    )}
+                  {group.target && permissions.includes("ban_user") && (
+                    <button
+                      onClick={() => handleResolve(group, "ban")}
+                      disabled={isResolving}
+                      className={`${actionButtonClass} bg-red-500 text-white hover:bg-red-600`}
+                    >
+                      {group.targetType === "listing" ? "Ban seller" : "Ban"}
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {/* Pagination */}
+      {total > PAGE_SIZE && (
+        <div className="flex items-center justify-between mt-4 text-sm">
+          <button
+            onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            disabled={offset === 0}
+            className="px-3 py-1 rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-gray-500 dark:text-gray-400">
+            {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+          </span>
+          <button
+            onClick={() => setOffset(offset + PAGE_SIZE)}
+            disabled={offset + PAGE_SIZE >= total}
+            className="px-3 py-1 rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
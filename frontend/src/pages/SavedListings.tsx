@@ -0,0 +1,48 @@
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import { useFavorites } from "../hooks/use-favorites";
+import { ListingCard } from "../components/ListingCard";
+
+export default function SavedListings() {
+  const navigate = useNavigate();
+  const { sessionId, isLoading: authLoading } = useAuth();
+  const { favorites, loading, isFavorite, toggleFavorite } =
+    useFavorites(sessionId);
+
+  return (
+    <div className="max-w-4xl mx-auto pb-20">
+      {/* Header */}
+      <div className="sticky top-0 z-20 bg-white border-b border-gray-200 px-4 py-3">
+        <h1 className="text-xl font-bold text-gray-900">Saved</h1>
+      </div>
+
+      <div className="p-4">
+        {authLoading || loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading saved listings...</p>
+          </div>
+        ) : favorites.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-600 text-lg mb-2">No saved listings</p>
+            <p className="text-gray-500 text-sm">
+              Tap the heart on a listing to get notified about price drops
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            {favorites.map((listing) => (
+              <ListingCard
+                key={listing.id}
+                listing={listing}
+                onClick={() => navigate(`/listings/${listing.id}`)}
+                isFavorited={isFavorite(listing.id)}
+                onToggleFavorite={() => toggleFavorite(listing.id)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { useAuth } from "../contexts/AuthContext";
 import { useTelegram } from "../utils/telegram";
 import { ProfileView } from "../components/profile/ProfileView";
 import { ProfileSkeleton } from "../components/profile/ProfileSkeleton";
+import { ReviewsSection } from "../components/profile/ReviewsSection";
+import { DevicesSection } from "../components/profile/DevicesSection";
 import { TelegramInfoSection } from "../components/TelegramInfoSection";
 import { CollapsibleSection } from "../components/CollapsibleSection";
 import PostList from "../components/PostList";
@@ -11,9 +13,11 @@ import StaticPostList from "../components/StaticPostList";
 import EditPost from "../components/EditPost";
 import DeletePostConfirm from "../components/DeletePostConfirm";
 import BanUserConfirm from "../components/BanUserConfirm";
+import { ReportModal } from "../components/ReportModal";
 import MakePremiumModal from "../components/MakePremiumModal";
 import { ImageUrlData } from "../components/ImageGallery";
 import { config } from "../config";
+import { apiFetch } from "../services/apiFetch";
 
 interface ProfileData {
   telegram_id: number;
@@ -28,6 +32,10 @@ interface ProfileData {
   created_at?: string;
   updated_at?: string;
   is_banned?: boolean;
+  rating?: {
+    average: number | null;
+    count: number;
+  };
 }
 
 interface PostProfile {
@@ -54,7 +62,8 @@ interface PostData {
 export default function UnifiedProfile() {
   const { telegramId } = useParams<{ telegramId: string }>();
   const navigate = useNavigate();
-  const { user, sessionId, expiresAt, isLoading, isAdmin } = useAuth();
+  const { user, sessionId, expiresAt, isLoading, role, permissions } =
+    useAuth();
   const { webApp } = useTelegram();
 
   const [profile, setProfile] = useState<ProfileData | null>(null);
@@ -69,6 +78,7 @@ export default function UnifiedProfile() {
     null,
   );
   const [showBanConfirm, setShowBanConfirm] = useState(false);
+  const [showReportModal, setShowReportModal] = useState(false);
   const refetchRef = useRef<(() => void) | null>(null);
 
   // Parse telegram ID and determine if own profile
@@ -101,7 +111,7 @@ export default function UnifiedProfile() {
           fetchOptions.headers = { "x-session-id": sessionId };
         }
 
-        const response = await fetch(
+        const response = await apiFetch(
           `${config.apiBaseUrl}${endpoint}`,
           fetchOptions,
         );
@@ -134,7 +144,7 @@ export default function UnifiedProfile() {
       if (!actualUserId) return;
 
       try {
-        const response = await fetch(
+        const response = await apiFetch(
           `${config.apiBaseUrl}/api/posts/user/${actualUserId}`,
           {
             credentials: "include",
@@ -205,7 +215,7 @@ export default function UnifiedProfile() {
       if (!actualUserId) return;
 
       try {
-        const response = await fetch(
+        const response = await apiFetch(
           `${config.apiBaseUrl}/api/profile/${actualUserId}`,
           {
             credentials: "include",
@@ -296,19 +306,38 @@ export default function UnifiedProfile() {
         />
       )}
 
+      {/* Report User */}
+      {showReportModal && profile && sessionId && (
+        <ReportModal
+          targetType="user"
+          targetId={profile.telegram_id}
+          sessionId={sessionId}
+          onClose={() => setShowReportModal(false)}
+        />
+      )}
+
       <div className="p-4 space-y-6">
         {/* Profile Section - Always visible */}
         <ProfileView
           profile={profile}
           isOwnProfile={isOwnProfile}
           onEditClick={isOwnProfile ? handleEditProfile : undefined}
-          onBanClick={!isOwnProfile && isAdmin ? handleBanClick : undefined}
+          onBanClick={
+            !isOwnProfile && permissions.includes("ban_user")
+              ? handleBanClick
+              : undefined
+          }
+          onReportClick={
+            !isOwnProfile && sessionId
+              ? () => setShowReportModal(true)
+              : undefined
+          }
           postCount={posts.length}
-          isAdmin={isAdmin}
+          isAdmin={permissions.includes("ban_user")}
         />
 
         {/* Telegram Info - Only for own profile */}
-        {isOwnProfile && <TelegramInfoSection user={user} isAdmin={isAdmin} />}
+        {isOwnProfile && <TelegramInfoSection user={user} role={role} />}
 
         {/* Session Info - Only for own profile, collapsible */}
         {isOwnProfile && (
@@ -338,6 +367,13 @@ export default function UnifiedProfile() {
           </CollapsibleSection>
         )}
 
+        {/* Devices - Only for own profile, collapsible */}
+        {isOwnProfile && (
+          <CollapsibleSection title="Devices" defaultExpanded={false}>
+            <DevicesSection />
+          </CollapsibleSection>
+        )}
+
         {/* App Info - Only for own profile, collapsible */}
         {isOwnProfile && webApp && (
           <CollapsibleSection title="App Information" defaultExpanded={false}>
@@ -372,6 +408,16 @@ export default function UnifiedProfile() {
           </CollapsibleSection>
         )}
 
+        {/* Reviews Section */}
+        {!profile.is_banned && (
+          <ReviewsSection
+            sellerId={profile.telegram_id}
+            sessionId={sessionId}
+            isOwnProfile={isOwnProfile}
+            isAdmin={permissions.includes("hide_review")}
+          />
+        )}
+
         {/* Posts Section */}
         <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
           <div className="p-4 border-b border-gray-200 dark:border-gray-700">
@@ -404,8 +450,8 @@ export default function UnifiedProfile() {
               <StaticPostList
                 posts={posts}
                 currentUserId={user?.id}
-                showActions={isAdmin}
-                isAdmin={isAdmin}
+                showActions={permissions.includes("delete_content")}
+                isAdmin={permissions.includes("delete_content")}
                 onDelete={handleDelete}
               />
             )
@@ -1,4 +1,5 @@
 import { config } from "../config";
+import { apiFetch } from "./apiFetch";
 
 interface Post {
   id: number;
@@ -51,9 +52,12 @@ export const api = {
       offset: offset.toString(),
     });
 
-    const response = await fetch(`${config.apiBaseUrl}/api/posts?${params}`, {
-      credentials: "include",
-    });
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/posts?${params}`,
+      {
+        credentials: "include",
+      },
+    );
     return handleResponse(response);
   },
 
@@ -68,7 +72,7 @@ export const api = {
       offset: offset.toString(),
     });
 
-    const response = await fetch(
+    const response = await apiFetch(
       `${config.apiBaseUrl}/api/posts/user/${userId}?${params}`,
       {
         credentials: "include",
@@ -82,7 +86,7 @@ export const api = {
     data: CreatePostData,
     sessionId: string,
   ): Promise<{ post: Post }> {
-    const response = await fetch(`${config.apiBaseUrl}/api/posts`, {
+    const response = await apiFetch(`${config.apiBaseUrl}/api/posts`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -0,0 +1,154 @@
+import { config } from "../config";
+import { AuthStorage, type StoredUserData } from "../utils/auth-storage";
+import type { Permission, UserRole } from "../constants";
+
+// Sent by the API with every response to a request that carried a session
+const SESSION_EXPIRES_HEADER = "X-Session-Expires-At";
+
+export interface RenewedSession {
+  sessionId: string;
+  expiresAt: number;
+  user: StoredUserData;
+  isAdmin: boolean;
+  role: UserRole;
+  permissions: Permission[];
+}
+
+type SessionListener = (session: RenewedSession) => void;
+
+const listeners = new Set<SessionListener>();
+
+// Requests that fail together share one re-auth instead of racing
+let renewal: Promise<RenewedSession | null> | null = null;
+
+/**
+ * Be told when a request renews the session, so state holding the old
+ * session ID can switch over
+ *
+ * @returns Unsubscribe function
+ */
+export function onSessionRenewed(listener: SessionListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Swap the expired session for a new one with the mini app's initData; null
+// outside Telegram or when the API refuses (e.g. the session was revoked or
+// the user was banned)
+function renewSession(
+  expiredSessionId: string,
+): Promise<RenewedSession | null> {
+  const initData = window.Telegram?.WebApp?.initData;
+  if (!initData) return Promise.resolve(null);
+
+  renewal ??= fetch(`${config.apiBaseUrl}/api/auth`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      initData,
+      sessionId: expiredSessionId,
+      renew: true,
+    }),
+    credentials: "include",
+  })
+    .then(async (response) => {
+      if (!response.ok) return null;
+
+      const authData = await response.json();
+      if (!authData.authenticated) return null;
+
+      const session: RenewedSession = {
+        sessionId: authData.sessionId,
+        expiresAt: authData.expiresAt,
+        user: authData.user,
+        isAdmin: authData.isAdmin || false,
+        role: authData.role || "user",
+        permissions: authData.permissions || [],
+      };
+      AuthStorage.setAuthState(
+        session.sessionId,
+        session.expiresAt,
+        session.user,
+      );
+      listeners.forEach((listener) => listener(session));
+      return session;
+    })
+    .catch((error) => {
+      console.error("Session renewal failed:", error);
+      return null;
+    })
+    .finally(() => {
+      renewal = null;
+    });
+
+  return renewal;
+}
+
+// The session a request was sent with, from either header the API accepts
+function sentSessionId(headers: Headers): string | null {
+  const authorization = headers.get("Authorization");
+  if (authorization) return authorization.replace(/^(Bearer|Session) /, "");
+  return headers.get("x-session-id");
+}
+
+// Send the request with another session, through whichever header it used
+function withSession(headers: Headers, sessionId: string): Headers {
+  if (headers.has("Authorization")) {
+    headers.set("Authorization", `Bearer ${sessionId}`);
+  } else {
+    headers.set("x-session-id", sessionId);
+  }
+  return headers;
+}
+
+// The API slides sessions while they're used; keep the stored expiry in step
+function trackExpiry(response: Response, sessionId: string) {
+  const expiresAt = Number(response.headers.get(SESSION_EXPIRES_HEADER));
+  if (expiresAt && AuthStorage.getSessionId() === sessionId) {
+    AuthStorage.setSession(sessionId, expiresAt);
+  }
+}
+
+/**
+ * fetch for API calls. A request sent with a session that comes back 401
+ * (the session expired) is retried with the stored session if another
+ * request has renewed it meanwhile, otherwise once with a new session from
+ * initData, which every later request then uses. Revoked sessions aren't
+ * renewed.
+ */
+export async function apiFetch(
+  input: string,
+  init: RequestInit = {},
+): Promise<Response> {
+  const headers = new Headers(init.headers);
+  let sessionId = sentSessionId(headers);
+
+  let response = await fetch(input, init);
+  if (!sessionId) return response;
+
+  trackExpiry(response, sessionId);
+  if (response.status !== 401) return response;
+
+  // Another request may have renewed the session while this one was in
+  // flight; try the stored session before renewing it again
+  const storedSessionId = AuthStorage.getSessionId();
+  if (storedSessionId && storedSessionId !== sessionId) {
+    sessionId = storedSessionId;
+    response = await fetch(input, {
+      ...init,
+      headers: withSession(headers, sessionId),
+    });
+    trackExpiry(response, sessionId);
+    if (response.status !== 401) return response;
+  }
+
+  const renewed = await renewSession(sessionId);
+  if (!renewed) return response;
+
+  return fetch(input, {
+    ...init,
+    headers: withSession(headers, renewed.sessionId),
+  });
+}
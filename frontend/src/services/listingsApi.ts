@@ -1,5 +1,28 @@
+import { z } from "zod";
 import { config } from "../config";
-import type { CategoryId, ListingStatus } from "../constants";
+import type {
+  BanAppealStatus,
+  CategoryId,
+  ListingStatus,
+  ModerationAction,
+  ModerationQueueView,
+  ModerationRuleKind,
+  ReportAction,
+  ReportReason,
+  ReportTargetType,
+} from "../constants";
+import {
+  createListingSchema,
+  createReportSchema,
+  moderationRuleSchema,
+  updateListingSchema,
+  type CreateListingInput,
+  type CreateReportInput,
+  type ModerationRuleInput,
+  type UpdateListingInput,
+} from "../../../shared/schemas";
+import { apiFetch } from "./apiFetch";
+import type { ImageVariant } from "../utils/image-url";
 
 export interface Listing {
   id: number;
@@ -24,8 +47,41 @@ export interface Listing {
     bio: string | null;
     profileImageKey: string | null;
     username: string | null;
+    contactLinks?: { website?: string; telegram?: string }; // Only set on the detail endpoint
   } | null;
   images?: ImageData[];
+  highlights?: ListingHighlights | null; // Only set for search results
+  isFavorited?: boolean; // Only set for signed-in non-owners on the detail endpoint
+  watcherCount?: number; // Only set for the owner on the detail endpoint
+}
+
+export interface DailyListingStats {
+  day: string; // UTC date, YYYY-MM-DD
+  views: number;
+  uniqueViewers: number;
+  contactClicks: number;
+  shares: number;
+}
+
+export interface ListingStats {
+  days: DailyListingStats[]; // Oldest first
+  totals: { views: number; contactClicks: number; shares: number };
+  bumpLift: {
+    bumpedAt: number;
+    viewsPerDayBefore: number;
+    viewsPerDayAfter: number;
+    liftPercent: number | null;
+  } | null;
+}
+
+export interface SnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface ListingHighlights {
+  title: SnippetSegment[];
+  description: SnippetSegment[] | null; // null when the match is not in the description
 }
 
 export interface ImageData {
@@ -36,46 +92,235 @@ export interface ImageData {
   height: number;
   originalName: string;
   fileSize: number;
-  uploadOrder: number;
+  uploadOrder: number; // Gallery position
+  isCover: boolean; // Shown first and on cards
+  variants: ImageVariant[];
+  token?: string; // Needed in the URLs of images of listings that aren't public
 }
 
-export interface CreateListingData {
-  title: string;
-  description: string;
-  price: number; // in cents
-  category: CategoryId;
+// A resumable image upload: one slot per file, each sent in `parts` requests
+// of partSize bytes (the last one shorter)
+export interface UploadSession {
+  id: string;
+  listingId: number;
+  expiresAt: number; // Unix timestamp in milliseconds, pushed back by every upload
+  partSize: number;
+  files: {
+    slot: number;
+    name: string;
+    size: number;
+    parts: number;
+    receivedParts: number[];
+    uploaded: boolean;
+  }[];
 }
 
-export interface UpdateListingData {
-  title?: string;
-  description?: string;
-  price?: number;
-  category?: CategoryId;
+export interface UploadCommitResult {
+  message: string;
+  images: ImageData[];
+  failed: { slot: number; name: string; error: string }[]; // Files that arrived but couldn't be added
 }
 
+// Validated with the same schemas as the API (price in cents)
+export type CreateListingData = CreateListingInput;
+export type UpdateListingData = UpdateListingInput;
+
 export interface ListingsResponse {
   listings: Listing[];
   pagination: {
     limit: number;
     offset: number;
     hasMore: boolean;
+    nextCursor: string | null; // Pass back as `cursor` for the next page
   };
 }
 
+export interface BumpInvoiceResponse {
+  success: boolean;
+  invoice_url: string;
+  payment_id: string;
+}
+
+export type ListingSortBy = "price" | "date" | "bumped" | "relevance";
+
 export interface ListingFilters {
   category?: string;
   priceMin?: number;
   priceMax?: number;
-  search?: string;
-  sortBy?: "price" | "date";
+  search?: string; // Supports "exact phrases", prefixes and -exclusions
+  sortBy?: ListingSortBy;
   sortOrder?: "asc" | "desc";
   status?: ListingStatus[];
 }
 
+// Filters a saved search matches on (sorting is not saved)
+export type SavedSearchFilters = Pick<
+  ListingFilters,
+  "category" | "priceMin" | "priceMax" | "search"
+>;
+
+export interface SavedSearch {
+  id: number;
+  name: string;
+  filters: SavedSearchFilters;
+  isMuted: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConversationMessage {
+  id: number;
+  body: string;
+  isMine: boolean;
+  readAt: number | null;
+  createdAt: number; // Unix timestamp in milliseconds
+}
+
+export interface ConversationListing {
+  id: number;
+  title: string;
+  price: number;
+  status: ListingStatus;
+}
+
+export interface Conversation {
+  id: number;
+  listingId: number;
+  role: "buyer" | "seller";
+  lastMessageAt: number | null;
+  createdAt: string;
+}
+
+export interface ConversationSummary extends Conversation {
+  listing: ConversationListing;
+  otherParty: { displayName: string };
+  lastMessage: ConversationMessage | null;
+  unreadCount: number;
+}
+
+export interface ConversationThread {
+  conversation: Conversation;
+  listing: ConversationListing | null;
+  messages: ConversationMessage[];
+  hasMore: boolean;
+}
+
+export interface SellerRating {
+  average: number | null; // null until the seller has a visible review
+  count: number;
+}
+
+export interface Review {
+  id: number;
+  sellerId: number;
+  rating: number; // 1-5
+  body: string | null;
+  sellerReply: string | null;
+  sellerRepliedAt: string | null;
+  isHidden: boolean; // Only hidden reviews returned to admins are true
+  createdAt: string;
+}
+
+export interface SellerReview extends Review {
+  reviewer: { telegramId: number; displayName: string };
+  listing: { id: number | null; title: string };
+}
+
+export interface Report {
+  id: number;
+  reporterId: number;
+  targetType: ReportTargetType;
+  targetId: number;
+  reason: ReportReason;
+  details: string | null;
+  createdAt: string;
+}
+
+// Open reports about one listing or user, as shown in the moderation queue
+export interface ReportGroup {
+  targetType: ReportTargetType;
+  targetId: number;
+  reportCount: number;
+  reporterCount: number;
+  reasons: ReportReason[];
+  firstReportedAt: string;
+  lastReportedAt: string;
+  target:
+    | { id: number; title: string; status: ListingStatus; userId: number }
+    | {
+        telegramId: number;
+        username: string | null;
+        displayName: string | null;
+        isBanned: number;
+      }
+    | null; // null once the listing or profile is gone
+  reports: Report[];
+}
+
+export interface Ban {
+  id: number;
+  telegramId: number;
+  reason: string;
+  bannedBy: number | null;
+  expiresAt: number | null; // Unix ms, null if permanent
+  liftedAt: string | null;
+  createdAt: string;
+}
+
+export interface BanAppeal {
+  id: number;
+  banId: number;
+  telegramId: number;
+  message: string;
+  status: BanAppealStatus;
+  response: string | null;
+  reviewedBy: number | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  ban: Ban;
+  username: string | null;
+  displayName: string | null;
+}
+
+// A listing in the moderation queue, as stored (its description is `content`)
+export interface ModerationListing {
+  id: number;
+  userId: number;
+  username: string;
+  displayName: string;
+  title: string;
+  content: string;
+  price: number;
+  status: ListingStatus;
+  moderationFlags: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ModerationRule {
+  id: number;
+  kind: ModerationRuleKind;
+  pattern: string;
+  action: ModerationAction;
+  note: string | null;
+  createdBy: number;
+  createdAt: string;
+}
+
+// A signed-in device; id is the session's public id, not its token
+export interface ActiveSession {
+  id: string;
+  createdAt: number;
+  expiresAt: number;
+  userAgent?: string;
+  current: boolean;
+}
+
 class ApiError extends Error {
   constructor(
     public status: number,
     message: string,
+    public details?: Record<string, string[] | undefined>, // Per-field validation errors
   ) {
     super(message);
     this.name = "ApiError";
@@ -87,23 +332,45 @@ const handleResponse = async (response: Response) => {
     const errorData = await response
       .json()
       .catch(() => ({ error: "Unknown error" }));
-    throw new ApiError(response.status, errorData.error || "Request failed");
+    throw new ApiError(
+      response.status,
+      errorData.message || errorData.error || "Request failed",
+      errorData.details,
+    );
   }
   return response.json();
 };
 
+// Reject invalid input before sending it, with the error the API would return
+const validateRequest = <T extends z.ZodType>(
+  schema: T,
+  data: unknown,
+): z.output<T> => {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ApiError(
+      400,
+      result.error.issues[0]?.message ?? "Invalid request",
+      z.flattenError(result.error).fieldErrors,
+    );
+  }
+  return result.data;
+};
+
 export const listingsApi = {
-  // Fetch all listings with filters
+  // Fetch a page of listings with filters; pass the previous page's
+  // nextCursor to continue where it ended
   async getAllListings(
     filters: ListingFilters = {},
     limit = 50,
-    offset = 0,
+    cursor?: string | null,
   ): Promise<ListingsResponse> {
     const params = new URLSearchParams({
       limit: limit.toString(),
-      offset: offset.toString(),
     });
 
+    if (cursor) params.append("cursor", cursor);
+
     if (filters.category) params.append("category", filters.category);
     if (filters.priceMin !== undefined)
       params.append("priceMin", filters.priceMin.toString());
@@ -116,7 +383,7 @@ export const listingsApi = {
       params.append("status", filters.status.join(","));
     }
 
-    const response = await fetch(
+    const response = await apiFetch(
       `${config.apiBaseUrl}/api/listings?${params}`,
       {
         credentials: "include",
@@ -125,11 +392,15 @@ export const listingsApi = {
     return handleResponse(response);
   },
 
-  // Fetch single listing by ID
-  async getListingById(listingId: number): Promise<{ listing: Listing }> {
-    const response = await fetch(
+  // Fetch single listing by ID (pass sessionId for favorite state / watcher count)
+  async getListingById(
+    listingId: number,
+    sessionId?: string | null,
+  ): Promise<{ listing: Listing }> {
+    const response = await apiFetch(
       `${config.apiBaseUrl}/api/listings/${listingId}`,
       {
+        headers: sessionId ? { Authorization: `Bearer ${sessionId}` } : {},
         credentials: "include",
       },
     );
@@ -152,7 +423,7 @@ export const listingsApi = {
       params.append("status", filters.status.join(","));
     }
 
-    const response = await fetch(
+    const response = await apiFetch(
       `${config.apiBaseUrl}/api/listings/user/${userId}?${params}`,
       {
         credentials: "include",
@@ -166,13 +437,14 @@ export const listingsApi = {
     data: CreateListingData,
     sessionId: string,
   ): Promise<{ listing: Listing }> {
-    const response = await fetch(`${config.apiBaseUrl}/api/listings`, {
+    const body = validateRequest(createListingSchema, data);
+    const response = await apiFetch(`${config.apiBaseUrl}/api/listings`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         Authorization: `Bearer ${sessionId}`,
       },
-      body: JSON.stringify(data),
+      body: JSON.stringify(body),
       credentials: "include",
     });
 
@@ -185,7 +457,8 @@ export const listingsApi = {
     data: UpdateListingData,
     sessionId: string,
   ): Promise<{ listing: Listing }> {
-    const response = await fetch(
+    const body = validateRequest(updateListingSchema, data);
+    const response = await apiFetch(
       `${config.apiBaseUrl}/api/listings/${listingId}`,
       {
         method: "PUT",
@@ -193,7 +466,7 @@ export const listingsApi = {
           "Content-Type": "application/json",
           Authorization: `Bearer ${sessionId}`,
         },
-        body: JSON.stringify(data),
+        body: JSON.stringify(body),
         credentials: "include",
       },
     );
@@ -206,7 +479,7 @@ export const listingsApi = {
     listingId: number,
     sessionId: string,
   ): Promise<{ message: string }> {
-    const response = await fetch(
+    const response = await apiFetch(
       `${config.apiBaseUrl}/api/listings/${listingId}`,
       {
         method: "DELETE",
@@ -220,13 +493,13 @@ export const listingsApi = {
     return handleResponse(response);
   },
 
-  // Bump a listing (free or paid)
+  // Bump a listing (free bumps return the listing, paid bumps an invoice)
   async bumpListing(
     listingId: number,
     isPaid: boolean,
     sessionId: string,
-  ): Promise<{ listing: Listing } | { message: string }> {
-    const response = await fetch(
+  ): Promise<{ listing: Listing } | BumpInvoiceResponse> {
+    const response = await apiFetch(
       `${config.apiBaseUrl}/api/listings/${listingId}/bump`,
       {
         method: "POST",
@@ -242,13 +515,32 @@ export const listingsApi = {
     return handleResponse(response);
   },
 
+  // Clear the pending payment flag after a cancelled or failed invoice
+  async clearPendingPayment(
+    listingId: number,
+    sessionId: string,
+  ): Promise<{ success: boolean }> {
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/posts/${listingId}/clear-pending`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${sessionId}`,
+        },
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
   // Archive a listing (admin only)
   async archiveListing(
     listingId: number,
     reason: string,
     sessionId: string,
   ): Promise<{ message: string; listing: Listing }> {
-    const response = await fetch(
+    const response = await apiFetch(
       `${config.apiBaseUrl}/api/admin/listings/${listingId}/archive`,
       {
         method: "POST",
@@ -264,19 +556,133 @@ export const listingsApi = {
     return handleResponse(response);
   },
 
-  // Upload images to a listing
-  async uploadImages(
+  // Open an upload session with a slot per file
+  async createUploadSession(
     listingId: number,
-    formData: FormData,
+    files: { name: string; size: number }[],
     sessionId: string,
-  ): Promise<{ message: string; images: ImageData[] }> {
-    const response = await fetch(
-      `${config.apiBaseUrl}/api/listings/${listingId}/images`,
+  ): Promise<{ upload: UploadSession }> {
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/listings/${listingId}/uploads`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${sessionId}`,
+        },
+        body: JSON.stringify({ files }),
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Fetch an upload session, to see which files and parts still need sending
+  async getUploadSession(
+    listingId: number,
+    uploadId: string,
+    sessionId: string,
+  ): Promise<{ upload: UploadSession }> {
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/listings/${listingId}/uploads/${uploadId}`,
+      {
+        headers: {
+          Authorization: `Bearer ${sessionId}`,
+        },
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Send a whole file, or one part of a file when partNumber is given
+  async uploadSessionFile(
+    listingId: number,
+    uploadId: string,
+    slot: number,
+    body: Blob,
+    sessionId: string,
+    partNumber?: number,
+  ): Promise<{ upload: UploadSession }> {
+    const part = partNumber === undefined ? "" : `/parts/${partNumber}`;
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/listings/${listingId}/uploads/${uploadId}/files/${slot}${part}`,
+      {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/octet-stream",
+          Authorization: `Bearer ${sessionId}`,
+        },
+        body,
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Add every file of an upload session to the listing
+  async commitUploadSession(
+    listingId: number,
+    uploadId: string,
+    sessionId: string,
+  ): Promise<UploadCommitResult> {
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/listings/${listingId}/uploads/${uploadId}/commit`,
       {
         method: "POST",
         headers: {
           Authorization: `Bearer ${sessionId}`,
         },
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Put a listing's images in a new gallery order, optionally picking the cover
+  async reorderImages(
+    listingId: number,
+    imageIds: number[],
+    sessionId: string,
+    coverImageId?: number,
+  ): Promise<{ message: string; images: ImageData[] }> {
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/listings/${listingId}/images/order`,
+      {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${sessionId}`,
+        },
+        body: JSON.stringify({ imageIds, coverImageId }),
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Replace an image's file, keeping its position and cover flag
+  async replaceImage(
+    listingId: number,
+    imageId: number,
+    file: File,
+    sessionId: string,
+  ): Promise<{ message: string; image: ImageData }> {
+    const formData = new FormData();
+    formData.append("image", file);
+
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/listings/${listingId}/images/${imageId}`,
+      {
+        method: "PUT",
+        headers: {
+          Authorization: `Bearer ${sessionId}`,
+        },
         body: formData,
         credentials: "include",
       },
@@ -291,7 +697,7 @@ export const listingsApi = {
     imageId: number,
     sessionId: string,
   ): Promise<{ message: string }> {
-    const response = await fetch(
+    const response = await apiFetch(
       `${config.apiBaseUrl}/api/listings/${listingId}/images/${imageId}`,
       {
         method: "DELETE",
@@ -304,6 +710,628 @@ export const listingsApi = {
 
     return handleResponse(response);
   },
+
+  // Fetch the current user's favorited listings
+  async getFavorites(sessionId: string): Promise<{ listings: Listing[] }> {
+    const response = await apiFetch(`${config.apiBaseUrl}/api/favorites`, {
+      headers: {
+        Authorization: `Bearer ${sessionId}`,
+      },
+      credentials: "include",
+    });
+
+    return handleResponse(response);
+  },
+
+  // Add a listing to favorites
+  async addFavorite(
+    listingId: number,
+    sessionId: string,
+  ): Promise<{ success: boolean; listingId: number }> {
+    const response = await apiFetch(`${config.apiBaseUrl}/api/favorites`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${sessionId}`,
+      },
+      body: JSON.stringify({ listingId }),
+      credentials: "include",
+    });
+
+    return handleResponse(response);
+  },
+
+  // Remove a listing from favorites
+  async removeFavorite(
+    listingId: number,
+    sessionId: string,
+  ): Promise<{ success: boolean; listingId: number }> {
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/favorites/${listingId}`,
+      {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${sessionId}`,
+        },
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Fetch the current user's saved searches
+  async getSavedSearches(
+    sessionId: string,
+  ): Promise<{ savedSearches: SavedSearch[] }> {
+    const response = await apiFetch(`${config.apiBaseUrl}/api/saved-searches`, {
+      headers: {
+        Authorization: `Bearer ${sessionId}`,
+      },
+      credentials: "include",
+    });
+
+    return handleResponse(response);
+  },
+
+  // Save the current feed filters as a named search
+  async createSavedSearch(
+    name: string,
+    filters: SavedSearchFilters,
+    sessionId: string,
+  ): Promise<{ savedSearch: SavedSearch }> {
+    const response = await apiFetch(`${config.apiBaseUrl}/api/saved-searches`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${sessionId}`,
+      },
+      body: JSON.stringify({ name, filters }),
+      credentials: "include",
+    });
+
+    return handleResponse(response);
+  },
+
+  // Rename, change filters or mute/unmute a saved search
+  async updateSavedSearch(
+    savedSearchId: number,
+    data: Partial<Pick<SavedSearch, "name" | "filters" | "isMuted">>,
+    sessionId: string,
+  ): Promise<{ savedSearch: SavedSearch }> {
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/saved-searches/${savedSearchId}`,
+      {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${sessionId}`,
+        },
+        body: JSON.stringify(data),
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Delete a saved search
+  async deleteSavedSearch(
+    savedSearchId: number,
+    sessionId: string,
+  ): Promise<{ success: boolean }> {
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/saved-searches/${savedSearchId}`,
+      {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${sessionId}`,
+        },
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Report a contact click or share for the seller's stats. Best effort:
+  // tracking failures are logged and never surface to the user.
+  async trackListingEvent(
+    listingId: number,
+    type: "contact_click" | "share",
+    sessionId?: string | null,
+  ): Promise<void> {
+    try {
+      await apiFetch(`${config.apiBaseUrl}/api/listings/${listingId}/events`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(sessionId ? { Authorization: `Bearer ${sessionId}` } : {}),
+        },
+        body: JSON.stringify({ type }),
+        credentials: "include",
+        keepalive: true, // Contact links navigate away right after the click
+      });
+    } catch (err) {
+      console.error("Failed to track listing event:", err);
+    }
+  },
+
+  // Fetch daily views, contact clicks and shares (owner only)
+  async getListingStats(
+    listingId: number,
+    sessionId: string,
+  ): Promise<{ stats: ListingStats }> {
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/listings/${listingId}/stats`,
+      {
+        headers: { Authorization: `Bearer ${sessionId}` },
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Mark a listing as reserved, sold or available again (owner only)
+  async updateListingStatus(
+    listingId: number,
+    status: "active" | "reserved" | "sold",
+    sessionId: string,
+  ): Promise<{ listing: Listing }> {
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/listings/${listingId}/status`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${sessionId}`,
+        },
+        body: JSON.stringify({ status }),
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Fetch the current user's conversations
+  async getConversations(
+    sessionId: string,
+  ): Promise<{ conversations: ConversationSummary[] }> {
+    const response = await apiFetch(`${config.apiBaseUrl}/api/conversations`, {
+      headers: {
+        Authorization: `Bearer ${sessionId}`,
+      },
+      credentials: "include",
+    });
+
+    return handleResponse(response);
+  },
+
+  // Open (or reuse) the conversation with a listing's seller
+  async startConversation(
+    listingId: number,
+    sessionId: string,
+    message?: string,
+  ): Promise<{
+    conversation: Conversation;
+    message: ConversationMessage | null;
+  }> {
+    const response = await apiFetch(`${config.apiBaseUrl}/api/conversations`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${sessionId}`,
+      },
+      body: JSON.stringify({ listingId, message }),
+      credentials: "include",
+    });
+
+    return handleResponse(response);
+  },
+
+  // Fetch a conversation's messages (marks incoming messages as read)
+  async getConversation(
+    conversationId: number,
+    sessionId: string,
+    before?: number,
+  ): Promise<ConversationThread> {
+    const params = new URLSearchParams();
+    if (before !== undefined) params.append("before", before.toString());
+
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/conversations/${conversationId}?${params}`,
+      {
+        headers: {
+          Authorization: `Bearer ${sessionId}`,
+        },
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Send a message in a conversation
+  async sendMessage(
+    conversationId: number,
+    body: string,
+    sessionId: string,
+  ): Promise<{ message: ConversationMessage }> {
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/conversations/${conversationId}/messages`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${sessionId}`,
+        },
+        body: JSON.stringify({ body }),
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Fetch a seller's reviews and aggregate rating
+  async getSellerReviews(
+    sellerId: number,
+    sessionId?: string | null,
+  ): Promise<{ reviews: SellerReview[]; rating: SellerRating }> {
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/profile/${sellerId}/reviews`,
+      {
+        headers: sessionId ? { Authorization: `Bearer ${sessionId}` } : {},
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Mark a listing as bought from its seller
+  async markPurchased(
+    listingId: number,
+    sessionId: string,
+  ): Promise<{ purchase: { id: number }; review: Review | null }> {
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/listings/${listingId}/purchase`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${sessionId}`,
+        },
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Review the seller of a bought listing
+  async createReview(
+    sellerId: number,
+    data: { listingId: number; rating: number; body?: string },
+    sessionId: string,
+  ): Promise<{ review: Review }> {
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/profile/${sellerId}/reviews`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${sessionId}`,
+        },
+        body: JSON.stringify(data),
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Post the seller's public reply to a review
+  async replyToReview(
+    sellerId: number,
+    reviewId: number,
+    reply: string,
+    sessionId: string,
+  ): Promise<{ review: Review }> {
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/profile/${sellerId}/reviews/${reviewId}/reply`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${sessionId}`,
+        },
+        body: JSON.stringify({ reply }),
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Hide or restore a review (admin only)
+  async setReviewHidden(
+    reviewId: number,
+    hidden: boolean,
+    sessionId: string,
+  ): Promise<{ success: boolean; review: Review }> {
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/admin/reviews/${reviewId}/${hidden ? "hide" : "unhide"}`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${sessionId}`,
+        },
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Report a listing or user to the moderators
+  async createReport(
+    data: CreateReportInput,
+    sessionId: string,
+  ): Promise<{ success: boolean; report: Report }> {
+    const body = validateRequest(createReportSchema, data);
+    const response = await apiFetch(`${config.apiBaseUrl}/api/reports`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${sessionId}`,
+      },
+      body: JSON.stringify(body),
+      credentials: "include",
+    });
+
+    return handleResponse(response);
+  },
+
+  // Open reports grouped by target (staff only)
+  async getReportQueue(
+    filters: { targetType?: ReportTargetType; limit: number; offset: number },
+    sessionId: string,
+  ): Promise<{ groups: ReportGroup[]; total: number }> {
+    const params = new URLSearchParams({
+      limit: String(filters.limit),
+      offset: String(filters.offset),
+    });
+    if (filters.targetType) params.set("targetType", filters.targetType);
+
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/admin/reports?${params}`,
+      {
+        headers: {
+          Authorization: `Bearer ${sessionId}`,
+        },
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Act on and close every open report about a target (staff only)
+  async resolveReports(
+    targetType: ReportTargetType,
+    targetId: number,
+    data: { action: ReportAction; note?: string; durationDays?: number },
+    sessionId: string,
+  ): Promise<{ success: boolean; resolved: number }> {
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/admin/reports/${targetType}/${targetId}/resolve`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${sessionId}`,
+        },
+        body: JSON.stringify(data),
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Ban appeals filed through the bot (staff only)
+  async getAppeals(
+    filters: { status: BanAppealStatus; limit: number; offset: number },
+    sessionId: string,
+  ): Promise<{ appeals: BanAppeal[]; total: number }> {
+    const params = new URLSearchParams({
+      status: filters.status,
+      limit: String(filters.limit),
+      offset: String(filters.offset),
+    });
+
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/admin/appeals?${params}`,
+      {
+        headers: {
+          Authorization: `Bearer ${sessionId}`,
+        },
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Accept (lifting the ban) or reject an appeal (staff only)
+  async resolveAppeal(
+    appealId: number,
+    data: { decision: "accepted" | "rejected"; response?: string },
+    sessionId: string,
+  ): Promise<{ success: boolean; appeal: BanAppeal }> {
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/admin/appeals/${appealId}/resolve`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${sessionId}`,
+        },
+        body: JSON.stringify(data),
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Listings held or flagged by the content filter (staff only)
+  async getModerationQueue(
+    filters: { view: ModerationQueueView; limit: number; offset: number },
+    sessionId: string,
+  ): Promise<{ listings: ModerationListing[]; total: number }> {
+    const params = new URLSearchParams({
+      view: filters.view,
+      limit: String(filters.limit),
+      offset: String(filters.offset),
+    });
+
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/admin/moderation/queue?${params}`,
+      {
+        headers: {
+          Authorization: `Bearer ${sessionId}`,
+        },
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Approve a held or flagged listing, or reject it by archiving it (staff only)
+  async resolveModeration(
+    listingId: number,
+    data: { decision: "approve" | "reject"; reason?: string },
+    sessionId: string,
+  ): Promise<{ success: boolean; listing: ModerationListing }> {
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/admin/moderation/listings/${listingId}/resolve`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${sessionId}`,
+        },
+        body: JSON.stringify(data),
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Word and regex rules of the content filter (staff only)
+  async getModerationRules(
+    sessionId: string,
+  ): Promise<{ rules: ModerationRule[] }> {
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/admin/moderation/rules`,
+      {
+        headers: {
+          Authorization: `Bearer ${sessionId}`,
+        },
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  async createModerationRule(
+    data: ModerationRuleInput,
+    sessionId: string,
+  ): Promise<{ success: boolean; rule: ModerationRule }> {
+    const body = validateRequest(moderationRuleSchema, data);
+
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/admin/moderation/rules`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${sessionId}`,
+        },
+        body: JSON.stringify(body),
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  async deleteModerationRule(
+    ruleId: number,
+    sessionId: string,
+  ): Promise<{ success: boolean }> {
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/admin/moderation/rules/${ruleId}`,
+      {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${sessionId}`,
+        },
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Devices the user is signed in on
+  async getSessions(sessionId: string): Promise<{ sessions: ActiveSession[] }> {
+    const response = await apiFetch(`${config.apiBaseUrl}/api/auth/sessions`, {
+      headers: {
+        Authorization: `Bearer ${sessionId}`,
+      },
+      credentials: "include",
+    });
+
+    return handleResponse(response);
+  },
+
+  async revokeSession(
+    id: string,
+    sessionId: string,
+  ): Promise<{ success: boolean; current: boolean }> {
+    const response = await apiFetch(
+      `${config.apiBaseUrl}/api/auth/sessions/${id}`,
+      {
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${sessionId}`,
+        },
+        credentials: "include",
+      },
+    );
+
+    return handleResponse(response);
+  },
+
+  // Plain fetch: an expired session shouldn't be renewed just to end it
+  async logout(sessionId: string): Promise<{ success: boolean }> {
+    const response = await fetch(`${config.apiBaseUrl}/api/auth/logout`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${sessionId}`,
+      },
+      credentials: "include",
+    });
+
+    return handleResponse(response);
+  },
 };
 
 export { ApiError };
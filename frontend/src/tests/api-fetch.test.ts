@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import type { WebApp } from "@twa-dev/types";
+import { apiFetch, onSessionRenewed } from "../services/apiFetch";
+import { AuthStorage } from "../utils/auth-storage";
+import { config } from "../config";
+
+const user = { id: 1, first_name: "Test", language_code: "en" };
+
+const jsonResponse = (
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {},
+) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+
+const renewedAuth = {
+  authenticated: true,
+  sessionId: "new-session",
+  expiresAt: Date.now() + 3600000,
+  user,
+  role: "user",
+  permissions: [],
+};
+
+describe("apiFetch", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.stubGlobal("fetch", fetchMock);
+    window.Telegram = { WebApp: { initData: "signed-init-data" } as WebApp };
+    AuthStorage.setSession("old-session", Date.now() + 60000);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    fetchMock.mockReset();
+    delete window.Telegram;
+    AuthStorage.clearSession();
+  });
+
+  it("should renew an expired session from initData and retry once", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ error: "expired" }, 401))
+      .mockResolvedValueOnce(jsonResponse(renewedAuth))
+      .mockResolvedValueOnce(jsonResponse({ favorites: [] }));
+    const renewed = vi.fn();
+    const unsubscribe = onSessionRenewed(renewed);
+
+    const response = await apiFetch(`${config.apiBaseUrl}/api/favorites`, {
+      headers: { Authorization: "Bearer old-session" },
+    });
+    unsubscribe();
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({
+      initData: "signed-init-data",
+      sessionId: "old-session",
+      renew: true,
+    });
+    expect(
+      new Headers(fetchMock.mock.calls[2][1].headers).get("Authorization"),
+    ).toBe("Bearer new-session");
+    expect(AuthStorage.getSessionId()).toBe("new-session");
+    expect(renewed).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId: "new-session" }),
+    );
+  });
+
+  it("should retry with a session another request already renewed", async () => {
+    AuthStorage.setSession("new-session", Date.now() + 3600000);
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ error: "expired" }, 401))
+      .mockResolvedValueOnce(jsonResponse({ favorites: [] }));
+
+    const response = await apiFetch(`${config.apiBaseUrl}/api/favorites`, {
+      headers: { Authorization: "Bearer old-session" },
+    });
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(
+      new Headers(fetchMock.mock.calls[1][1].headers).get("Authorization"),
+    ).toBe("Bearer new-session");
+  });
+
+  it("should return the 401 when the session can't be renewed", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ error: "expired" }, 401))
+      .mockResolvedValueOnce(jsonResponse({ authenticated: false }, 401));
+
+    const response = await apiFetch(`${config.apiBaseUrl}/api/favorites`, {
+      headers: { Authorization: "Bearer old-session" },
+    });
+
+    expect(response.status).toBe(401);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not renew requests sent without a session", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ error: "no session" }, 401));
+
+    const response = await apiFetch(`${config.apiBaseUrl}/api/favorites`);
+
+    expect(response.status).toBe(401);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should keep the stored expiry in step with the API", async () => {
+    const expiresAt = Date.now() + 3600000;
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({}, 200, { "X-Session-Expires-At": String(expiresAt) }),
+    );
+
+    await apiFetch(`${config.apiBaseUrl}/api/favorites`, {
+      headers: { Authorization: "Bearer old-session" },
+    });
+
+    expect(AuthStorage.getExpiresAt()).toBe(expiresAt);
+  });
+});
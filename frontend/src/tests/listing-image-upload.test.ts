@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { useListingImageUpload } from "../hooks/use-listing-image-upload";
+import {
+  ApiError,
+  listingsApi,
+  type UploadSession,
+} from "../services/listingsApi";
+
+vi.mock("../services/listingsApi", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("../services/listingsApi")>();
+  return {
+    ...actual,
+    listingsApi: {
+      createUploadSession: vi.fn(),
+      getUploadSession: vi.fn(),
+      uploadSessionFile: vi.fn(),
+      commitUploadSession: vi.fn(),
+    },
+  };
+});
+
+const api = vi.mocked(listingsApi);
+
+const items = [
+  { id: "a", file: new Blob(["first"]), name: "a.jpg" },
+  { id: "b", file: new Blob(["second"]), name: "b.jpg" },
+];
+
+const session = (uploaded: boolean[]): UploadSession => ({
+  id: "upload-1",
+  listingId: 7,
+  expiresAt: Date.now() + 3600000,
+  partSize: 5 * 1024 * 1024,
+  files: uploaded.map((done, slot) => ({
+    slot,
+    name: items[slot].name,
+    size: items[slot].file.size,
+    parts: 1,
+    receivedParts: [],
+    uploaded: done,
+  })),
+});
+
+describe("useListingImageUpload", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should resend only the files that failed", async () => {
+    api.createUploadSession.mockResolvedValue({
+      upload: session([false, false]),
+    });
+    api.uploadSessionFile
+      .mockResolvedValueOnce({ upload: session([true, false]) })
+      .mockRejectedValueOnce(new ApiError(400, "Expected exactly 6 bytes"));
+
+    const { result } = renderHook(() => useListingImageUpload("session"));
+
+    let outcome = await act(() => result.current.upload(7, items));
+    expect(outcome.failed).toBe(1);
+    expect(result.current.states.a.progress).toBe(1);
+    expect(result.current.states.b).toMatchObject({
+      status: "failed",
+      error: "Expected exactly 6 bytes",
+    });
+    expect(api.commitUploadSession).not.toHaveBeenCalled();
+
+    api.getUploadSession.mockResolvedValue({
+      upload: session([true, false]),
+    });
+    api.uploadSessionFile.mockResolvedValueOnce({
+      upload: session([true, true]),
+    });
+    api.commitUploadSession.mockResolvedValue({
+      message: "Images uploaded successfully",
+      images: [],
+      failed: [],
+    });
+
+    outcome = await act(() => result.current.retry());
+    expect(outcome.failed).toBe(0);
+    expect(api.createUploadSession).toHaveBeenCalledTimes(1);
+    expect(api.uploadSessionFile).toHaveBeenCalledTimes(3);
+    expect(api.uploadSessionFile.mock.calls[2][2]).toBe(1);
+    expect(result.current.states.a.status).toBe("uploaded");
+    expect(result.current.states.b.status).toBe("uploaded");
+  });
+
+  it("should send large files in parts", async () => {
+    const large = {
+      id: "c",
+      file: new Blob([new Uint8Array(25)]),
+      name: "c.jpg",
+    };
+    const parts = (received: number[]): UploadSession => ({
+      ...session([]),
+      partSize: 10,
+      files: [
+        {
+          slot: 0,
+          name: "c.jpg",
+          size: 25,
+          parts: 3,
+          receivedParts: received,
+          uploaded: received.length === 3,
+        },
+      ],
+    });
+    api.createUploadSession.mockResolvedValue({ upload: parts([]) });
+    api.uploadSessionFile
+      .mockResolvedValueOnce({ upload: parts([1]) })
+      .mockResolvedValueOnce({ upload: parts([1, 2]) })
+      .mockResolvedValueOnce({ upload: parts([1, 2, 3]) });
+    api.commitUploadSession.mockResolvedValue({
+      message: "Images uploaded successfully",
+      images: [],
+      failed: [],
+    });
+
+    const { result } = renderHook(() => useListingImageUpload("session"));
+    await act(() => result.current.upload(7, [large]));
+
+    const sent = api.uploadSessionFile.mock.calls.map((call) => [
+      call[3].size,
+      call[5],
+    ]);
+    expect(sent).toEqual([
+      [10, 1],
+      [10, 2],
+      [5, 3],
+    ]);
+  });
+});
@@ -1,15 +1,53 @@
-export const getImageUrl = (key: string) => {
-  const isDev = import.meta.env.DEV;
-  if (isDev) {
-    // Use relative path so it works through Vite proxy (localhost or ngrok)
-    return `/r2/${key}`;
-  }
-
-  const r2BaseUrl = import.meta.env.VITE_R2_URL;
-  if (!r2BaseUrl) {
-    console.warn("VITE_R2_URL not set - R2 images may not load in production");
-    return "";
-  }
-
-  return `${r2BaseUrl}/${key}`;
+import { config } from "../config";
+import type {
+  IMAGE_TRANSFORM_WIDTHS,
+  ImageTransformFormat,
+  ImageVariantName,
+} from "../constants";
+
+// A size the server rendered an uploaded image at
+export interface ImageVariant {
+  name: ImageVariantName;
+  key: string;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+export interface ImageUrlOptions {
+  width?: (typeof IMAGE_TRANSFORM_WIDTHS)[number]; // Resized by the worker
+  format?: ImageTransformFormat;
+  token?: string; // From the API, for images of listings that aren't public
+}
+
+/**
+ * URL of a stored image. Images are served by the worker, which checks the
+ * key and any token; in development apiBaseUrl is empty so this goes through
+ * the Vite proxy.
+ */
+export const getImageUrl = (key: string, options: ImageUrlOptions = {}) => {
+  const params = new URLSearchParams();
+  if (options.width) params.set("w", options.width.toString());
+  if (options.format) params.set("fmt", options.format);
+  if (options.token) params.set("token", options.token);
+
+  const path = key.split("/").map(encodeURIComponent).join("/");
+  const query = params.toString();
+  return `${config.apiBaseUrl}/r2/${path}${query ? `?${query}` : ""}`;
 };
+
+/**
+ * `srcset` for an image's rendered sizes in one format, or "" for images
+ * uploaded before the server rendered sizes
+ */
+export const getImageSrcSet = (
+  variants: ImageVariant[],
+  mimeType = "image/webp",
+  token?: string,
+) =>
+  variants
+    .filter((variant) => variant.mimeType === mimeType)
+    .map(
+      (variant) => `${getImageUrl(variant.key, { token })} ${variant.width}w`,
+    )
+    .join(", ");
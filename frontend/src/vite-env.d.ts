@@ -2,7 +2,6 @@
 
 interface ImportMetaEnv {
   readonly VITE_WORKER_URL: string;
-  readonly VITE_R2_URL: string;
 }
 
 interface ImportMeta {
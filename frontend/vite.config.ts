@@ -3,11 +3,18 @@ import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // shared/ has no node_modules; resolve its imports from here
+    dedupe: ["zod"],
+  },
   server: {
     port: 3000,
     host: true,
     strictPort: true, // Fail if port is busy instead of trying another
     allowedHosts: ["*.ngrok-free.app", "*.trycloudflare.com"],
+    fs: {
+      allow: [".", "../shared"],
+    },
     proxy: {
       "/api": "http://localhost:8787",
       "/health": "http://localhost:8787",
@@ -3,6 +3,9 @@ import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    dedupe: ["zod"],
+  },
   test: {
     globals: true,
     environment: "jsdom",
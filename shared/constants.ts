@@ -18,11 +18,46 @@ export const LISTING_STATUS = {
   ACTIVE: "active",
   EXPIRED: "expired",
   ARCHIVED: "archived",
+  RESERVED: "reserved",
+  SOLD: "sold",
+  UNDER_REVIEW: "under_review", // Hidden after too many reports, until staff review it
+  PENDING_REVIEW: "pending_review", // Held by the content filter until staff approve it
 } as const;
 
 export type ListingStatus =
   (typeof LISTING_STATUS)[keyof typeof LISTING_STATUS];
 
+// Statuses shown in the public feed (sold listings only stay on the profile)
+export const FEED_LISTING_STATUSES: ListingStatus[] = [
+  LISTING_STATUS.ACTIVE,
+  LISTING_STATUS.RESERVED,
+];
+
+// Statuses that keep a listing out of sight of everyone but its seller and staff
+export const HELD_LISTING_STATUSES: ListingStatus[] = [
+  LISTING_STATUS.UNDER_REVIEW,
+  LISTING_STATUS.PENDING_REVIEW,
+];
+
+// Status changes a seller can make. Archiving and review holds are staff-only,
+// expiry is handled by the scheduler, and sold is final.
+export const LISTING_STATUS_TRANSITIONS: Record<
+  ListingStatus,
+  ListingStatus[]
+> = {
+  active: [LISTING_STATUS.RESERVED, LISTING_STATUS.SOLD],
+  reserved: [LISTING_STATUS.ACTIVE, LISTING_STATUS.SOLD],
+  expired: [LISTING_STATUS.SOLD],
+  archived: [],
+  sold: [],
+  under_review: [],
+  pending_review: [],
+};
+
+// Listing text limits
+export const LISTING_TITLE_MAX_LENGTH = 100;
+export const LISTING_DESCRIPTION_MAX_LENGTH = 2000;
+
 // Price constraints (in cents)
 export const PRICE_MIN = 0;
 export const PRICE_MAX = 100_000_000; // $1,000,000 in cents
@@ -33,5 +68,187 @@ export const EXPIRY_FREE_BUMP_DAYS = 3;
 export const EXPIRY_PAID_BUMP_DAYS = 7;
 export const BUMP_COOLDOWN_HOURS = 24;
 
+// Scheduled jobs
+export const CRON_JOBS = [
+  "expire_listings",
+  "expiry_reminders",
+  "purge_archived",
+  "saved_search_digests",
+  "analytics_rollup",
+  "lift_expired_bans",
+  "purge_upload_sessions",
+  "purge_orphaned_images",
+] as const;
+export type CronJob = (typeof CRON_JOBS)[number];
+
+export const EXPIRY_REMINDER_HOURS = 12; // Remind sellers this long before expiry
+export const ARCHIVED_PURGE_DAYS = 30; // Delete archived listings after this long
+
+// Saved searches
+export const MAX_SAVED_SEARCHES_PER_USER = 10;
+export const SAVED_SEARCH_DIGEST_INTERVAL_MINUTES = 60; // At most one digest DM per user per interval
+export const SAVED_SEARCH_DIGEST_MAX_LISTINGS = 10; // Listings per digest, the rest wait for the next one
+
+// Rate limits. These are the defaults; staff can override them at runtime
+// (stored in KV, see RateLimitService). "user" limits fall back to the
+// client IP for requests without a session.
+export interface RateLimitPolicy {
+  scope: "user" | "ip";
+  limit: number; // Requests allowed per window
+  windowSeconds: number;
+}
+export const RATE_LIMIT_POLICIES = {
+  auth: { scope: "ip", limit: 30, windowSeconds: 10 * 60 },
+  create_listing: { scope: "user", limit: 20, windowSeconds: 24 * 60 * 60 },
+  upload_images: { scope: "user", limit: 60, windowSeconds: 60 * 60 },
+  create_invoice: { scope: "user", limit: 10, windowSeconds: 60 * 60 }, // Each one is a Telegram invoice and a payment row
+  send_message: { scope: "user", limit: 100, windowSeconds: 60 * 60 }, // Each one is relayed to the other participant as a bot DM
+  listing_events: { scope: "ip", limit: 300, windowSeconds: 60 * 60 }, // Open to signed-out clients, so keyed by IP
+} as const satisfies Record<string, RateLimitPolicy>;
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES;
+export const RATE_LIMIT_MIN_WINDOW_SECONDS = 60; // KV can't expire keys any sooner
+export const RATE_LIMIT_MAX_WINDOW_SECONDS = 7 * 24 * 60 * 60;
+
+// Images. Every upload is rendered server-side at each of these sizes (fit
+// inside a maxSize square, never enlarged): WebP for each, plus one JPEG for
+// clients that can't show WebP
+export const IMAGE_VARIANTS = {
+  thumb: { maxSize: 400, mimeType: "image/webp" },
+  medium: { maxSize: 960, mimeType: "image/webp" },
+  full: { maxSize: 1920, mimeType: "image/webp" },
+  fallback: { maxSize: 1280, mimeType: "image/jpeg" },
+} as const;
+export type ImageVariantName = keyof typeof IMAGE_VARIANTS;
+export const IMAGE_UPLOAD_MAX_BYTES = 10 * 1024 * 1024;
+export const MAX_LISTING_IMAGES = 10;
+export const USER_STORAGE_QUOTA_BYTES = 500 * 1024 * 1024; // Listing images and avatar together, every size counted
+export const ORPHANED_IMAGE_GRACE_HOURS = 24; // Unreferenced R2 objects younger than this may belong to an upload in progress
+
+// On-the-fly resizing of served images (?w=&fmt=), limited to these values so
+// each image has a bounded number of renditions
+export const IMAGE_TRANSFORM_WIDTHS = [160, 320, 480, 640, 960, 1280] as const;
+export const IMAGE_TRANSFORM_FORMATS = ["webp", "avif", "jpeg"] as const;
+export type ImageTransformFormat = (typeof IMAGE_TRANSFORM_FORMATS)[number];
+
+// Messaging
+export const MESSAGE_MAX_LENGTH = 1000;
+
+// Reviews
+export const REVIEW_MAX_LENGTH = 500;
+export const REVIEW_REPLY_MAX_LENGTH = 500;
+
+// Listing analytics
+export const LISTING_EVENT_TYPES = ["view", "contact_click", "share"] as const;
+export type ListingEventType = (typeof LISTING_EVENT_TYPES)[number];
+export const ANALYTICS_DEDUP_MINUTES = 30; // Repeat events from one viewer within this window count once
+export const ANALYTICS_STATS_DAYS = 14; // Days shown in the owner's stats panel
+export const ANALYTICS_BUMP_LIFT_DAYS = 3; // Days compared before and after a bump
+
+// Staff roles, highest first. TELEGRAM_ADMIN_ID is always an owner; everyone
+// else gets their role from the user_roles table
+export const STAFF_ROLES = ["owner", "admin", "moderator"] as const;
+export type StaffRole = (typeof STAFF_ROLES)[number];
+export type UserRole = StaffRole | "user";
+
+export const PERMISSIONS = [
+  "archive_listing",
+  "delete_content", // Delete other users' listings and posts
+  "view_listing_stats", // Analytics for listings the viewer doesn't own
+  "ban_user",
+  "hide_review",
+  "review_reports",
+  "manage_moderation_rules",
+  "manage_rate_limits",
+  "bypass_rate_limits",
+  "view_payments",
+  "refund_payment",
+  "view_cron_runs",
+  "view_storage",
+  "view_audit_log",
+  "manage_roles",
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+const MODERATOR_PERMISSIONS: Permission[] = [
+  "archive_listing",
+  "delete_content",
+  "view_listing_stats",
+  "ban_user",
+  "hide_review",
+  "review_reports",
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  admin: PERMISSIONS,
+  moderator: MODERATOR_PERMISSIONS,
+  user: [],
+};
+
+// Audit log (admin_actions table)
+export const ADMIN_ACTIONS = [
+  "ban_user",
+  "unban_user",
+  "archive_listing",
+  "delete_listing",
+  "delete_post",
+  "hide_review",
+  "unhide_review",
+  "refund_payment",
+  "reconcile_payments",
+  "grant_role",
+  "revoke_role",
+  "dismiss_reports",
+  "accept_appeal",
+  "reject_appeal",
+  "approve_listing",
+  "add_moderation_rule",
+  "remove_moderation_rule",
+  "update_rate_limits",
+] as const;
+export type AdminAction = (typeof ADMIN_ACTIONS)[number];
+export const AUDIT_TARGET_TYPES = [
+  "user",
+  "listing",
+  "post",
+  "review",
+  "payment",
+  "moderation_rule",
+  "rate_limit",
+] as const;
+export type AuditTargetType = (typeof AUDIT_TARGET_TYPES)[number];
+export const AUDIT_REASON_MAX_LENGTH = 500;
+
+// Reports
+export const REPORT_REASONS = [
+  "scam",
+  "prohibited_item",
+  "spam",
+  "offensive",
+] as const;
+export type ReportReason = (typeof REPORT_REASONS)[number];
+export const REPORT_TARGET_TYPES = ["listing", "user"] as const;
+export type ReportTargetType = (typeof REPORT_TARGET_TYPES)[number];
+export const REPORT_ACTIONS = ["dismiss", "archive", "ban"] as const;
+export type ReportAction = (typeof REPORT_ACTIONS)[number];
+export const REPORT_DETAILS_MAX_LENGTH = 500;
+export const REPORT_AUTO_HIDE_THRESHOLD = 3; // Distinct reporters before a listing is held for review
+
+// Bans
+export const BAN_MAX_DURATION_DAYS = 365; // Longer bans are permanent ones
+export const BAN_DURATION_OPTIONS_DAYS = [1, 3, 7, 30]; // Offered to staff alongside permanent
+export const BAN_APPEAL_MAX_LENGTH = 1000;
+export const BAN_APPEAL_STATUSES = ["pending", "accepted", "rejected"] as const;
+export type BanAppealStatus = (typeof BAN_APPEAL_STATUSES)[number];
+
+// Content moderation (moderation_rules table and built-in checks)
+export const MODERATION_ACTIONS = ["reject", "hold", "flag"] as const; // Most severe first
+export type ModerationAction = (typeof MODERATION_ACTIONS)[number];
+export const MODERATION_RULE_KINDS = ["word", "regex"] as const;
+export type ModerationRuleKind = (typeof MODERATION_RULE_KINDS)[number];
+export const MODERATION_PATTERN_MAX_LENGTH = 200;
+export const MODERATION_QUEUE_VIEWS = ["held", "flagged"] as const;
+export type ModerationQueueView = (typeof MODERATION_QUEUE_VIEWS)[number];
+
 // Payment constants
 export const BUMP_PAYMENT_AMOUNT_STARS = 1;
@@ -0,0 +1,582 @@
+import { z } from "zod";
+import {
+  ADMIN_ACTIONS,
+  AUDIT_REASON_MAX_LENGTH,
+  AUDIT_TARGET_TYPES,
+  BAN_APPEAL_STATUSES,
+  BAN_MAX_DURATION_DAYS,
+  CATEGORIES,
+  CRON_JOBS,
+  IMAGE_TRANSFORM_FORMATS,
+  IMAGE_TRANSFORM_WIDTHS,
+  IMAGE_UPLOAD_MAX_BYTES,
+  LISTING_DESCRIPTION_MAX_LENGTH,
+  LISTING_STATUS,
+  LISTING_TITLE_MAX_LENGTH,
+  MAX_LISTING_IMAGES,
+  MESSAGE_MAX_LENGTH,
+  MODERATION_ACTIONS,
+  MODERATION_PATTERN_MAX_LENGTH,
+  MODERATION_QUEUE_VIEWS,
+  MODERATION_RULE_KINDS,
+  PRICE_MAX,
+  PRICE_MIN,
+  RATE_LIMIT_MAX_WINDOW_SECONDS,
+  RATE_LIMIT_MIN_WINDOW_SECONDS,
+  RATE_LIMIT_POLICIES,
+  REPORT_ACTIONS,
+  REPORT_DETAILS_MAX_LENGTH,
+  REPORT_REASONS,
+  REPORT_TARGET_TYPES,
+  STAFF_ROLES,
+  type CategoryId,
+  type RateLimitPolicyName,
+} from "./constants";
+
+// Request schemas shared by the API and the frontend, so a form that passes
+// client-side validation can't be rejected by the server for the same input
+
+const CATEGORY_IDS = CATEGORIES.map((category) => category.id) as [
+  CategoryId,
+  ...CategoryId[],
+];
+
+// Route params and query strings arrive as strings
+const idParam = (label: string) =>
+  z.coerce
+    .number({ error: `Invalid ${label}` })
+    .int(`Invalid ${label}`)
+    .positive(`Invalid ${label}`);
+
+// Listings
+
+export const createListingSchema = z.object({
+  title: z
+    .string({ error: "Title is required" })
+    .trim()
+    .min(1, "Title is required")
+    .max(
+      LISTING_TITLE_MAX_LENGTH,
+      `Title cannot exceed ${LISTING_TITLE_MAX_LENGTH} characters`,
+    ),
+  description: z
+    .string({ error: "Description is required" })
+    .trim()
+    .min(1, "Description is required")
+    .max(
+      LISTING_DESCRIPTION_MAX_LENGTH,
+      `Description cannot exceed ${LISTING_DESCRIPTION_MAX_LENGTH} characters`,
+    ),
+  price: z
+    .number({ error: "Price is required" })
+    .int("Price must be a whole number of cents")
+    .min(PRICE_MIN, `Price must be at least $${PRICE_MIN / 100}`)
+    .max(PRICE_MAX, `Price cannot exceed $${PRICE_MAX / 100}`),
+  category: z.enum(CATEGORY_IDS, { error: "Valid category is required" }),
+});
+
+export const updateListingSchema = createListingSchema.partial();
+
+export const listingIdParamSchema = z.object({
+  listingId: idParam("listing ID"),
+});
+
+export const listingImageParamSchema = listingIdParamSchema.extend({
+  imageId: idParam("image ID"),
+});
+
+export const userIdParamSchema = z.object({
+  userId: idParam("user ID"),
+});
+
+export const listingsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+  cursor: z.string().min(1).optional(),
+  category: z.enum(CATEGORY_IDS).optional(),
+  priceMin: z.coerce.number().int().min(PRICE_MIN).optional(),
+  priceMax: z.coerce.number().int().max(PRICE_MAX).optional(),
+  search: z
+    .string()
+    .trim()
+    .transform((value) => value || undefined)
+    .optional(),
+  sortBy: z.enum(["price", "date", "bumped", "relevance"]).default("date"),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+  // Comma-separated, e.g. ?status=active,reserved
+  status: z
+    .string()
+    .transform((value) => value.split(","))
+    .pipe(z.array(z.enum(Object.values(LISTING_STATUS))))
+    .optional(),
+});
+
+export const bumpListingSchema = z.object({
+  isPaid: z.boolean().default(false),
+});
+
+// Statuses a seller can set directly (see LISTING_STATUS_TRANSITIONS)
+export const listingStatusSchema = z.object({
+  status: z.enum(
+    [LISTING_STATUS.ACTIVE, LISTING_STATUS.RESERVED, LISTING_STATUS.SOLD],
+    { error: "Invalid status" },
+  ),
+});
+
+// Events the frontend reports; views are recorded when a listing is fetched
+export const listingEventSchema = z.object({
+  type: z.enum(["contact_click", "share"], { error: "Invalid event type" }),
+});
+
+export const archiveListingSchema = z.object({
+  reason: z
+    .string({ error: "Reason is required" })
+    .trim()
+    .min(1, "Reason is required")
+    .max(500, "Reason cannot exceed 500 characters"),
+});
+
+// Payments
+
+export const postIdParamSchema = z.object({
+  postId: idParam("post ID"),
+});
+
+export const paymentIdParamSchema = z.object({
+  paymentId: z.string().min(1, "Invalid payment ID"),
+});
+
+export const makePremiumSchema = z.object({
+  star_count: z
+    .number({ error: "star_count must be between 1 and 10" })
+    .int("star_count must be between 1 and 10")
+    .min(1, "star_count must be between 1 and 10")
+    .max(10, "star_count must be between 1 and 10"),
+});
+
+export const refundPaymentSchema = z.object({
+  reason: z
+    .string({ error: "Reason is required" })
+    .trim()
+    .min(1, "Reason is required")
+    .max(
+      AUDIT_REASON_MAX_LENGTH,
+      `Reason cannot exceed ${AUDIT_REASON_MAX_LENGTH} characters`,
+    ),
+});
+
+export const paginationQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Admin
+
+export const telegramIdParamSchema = z.object({
+  telegramId: idParam("telegram ID"),
+});
+
+export const reviewIdParamSchema = z.object({
+  reviewId: idParam("review ID"),
+});
+
+const banDurationDays = z
+  .number({ error: "Invalid ban duration" })
+  .int("Invalid ban duration")
+  .min(1, "Invalid ban duration")
+  .max(BAN_MAX_DURATION_DAYS, "Invalid ban duration");
+
+// Omit durationDays for a permanent ban
+export const banUserSchema = z.object({
+  reason: z
+    .string({ error: "Reason is required" })
+    .trim()
+    .min(1, "Reason is required")
+    .max(
+      AUDIT_REASON_MAX_LENGTH,
+      `Reason cannot exceed ${AUDIT_REASON_MAX_LENGTH} characters`,
+    ),
+  durationDays: banDurationDays.optional(),
+});
+
+export const appealIdParamSchema = z.object({
+  appealId: idParam("appeal ID"),
+});
+
+export const appealsQuerySchema = z.object({
+  status: z
+    .enum(BAN_APPEAL_STATUSES, { error: "Invalid status" })
+    .default("pending"),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const resolveAppealSchema = z.object({
+  decision: z.enum(["accepted", "rejected"], { error: "Invalid decision" }),
+  response: z
+    .string()
+    .trim()
+    .max(
+      AUDIT_REASON_MAX_LENGTH,
+      `Response cannot exceed ${AUDIT_REASON_MAX_LENGTH} characters`,
+    )
+    .transform((value) => value || undefined)
+    .optional(),
+});
+
+export const cronRunsQuerySchema = z.object({
+  job: z.enum(CRON_JOBS, { error: "Invalid job" }).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const storageQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Dates from <input type="date"> or full ISO timestamps
+const auditDate = z.union([z.iso.date(), z.iso.datetime()], {
+  error: "Invalid date",
+});
+
+export const auditQuerySchema = z.object({
+  action: z.enum(ADMIN_ACTIONS, { error: "Invalid action" }).optional(),
+  actorId: idParam("actor ID").optional(),
+  targetType: z
+    .enum(AUDIT_TARGET_TYPES, { error: "Invalid target type" })
+    .optional(),
+  targetId: z.string().trim().min(1).optional(),
+  from: auditDate.optional(),
+  to: auditDate.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const grantRoleSchema = z.object({
+  role: z.enum(STAFF_ROLES, { error: "Invalid role" }),
+});
+
+// Reports
+
+export const createReportSchema = z.object({
+  targetType: z.enum(REPORT_TARGET_TYPES, { error: "Invalid report target" }),
+  targetId: z
+    .number({ error: "Invalid report target" })
+    .int("Invalid report target")
+    .positive("Invalid report target"),
+  reason: z.enum(REPORT_REASONS, { error: "Choose a reason" }),
+  details: z
+    .string()
+    .trim()
+    .max(
+      REPORT_DETAILS_MAX_LENGTH,
+      `Details cannot exceed ${REPORT_DETAILS_MAX_LENGTH} characters`,
+    )
+    .transform((value) => value || undefined)
+    .optional(),
+});
+
+export const reportQueueQuerySchema = z.object({
+  targetType: z
+    .enum(REPORT_TARGET_TYPES, { error: "Invalid target type" })
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const reportTargetParamSchema = z.object({
+  targetType: z.enum(REPORT_TARGET_TYPES, { error: "Invalid target type" }),
+  targetId: idParam("target ID"),
+});
+
+export const resolveReportsSchema = z.object({
+  action: z.enum(REPORT_ACTIONS, { error: "Invalid action" }),
+  durationDays: banDurationDays.optional(), // Only used by ban
+  note: z
+    .string()
+    .trim()
+    .max(
+      AUDIT_REASON_MAX_LENGTH,
+      `Note cannot exceed ${AUDIT_REASON_MAX_LENGTH} characters`,
+    )
+    .transform((value) => value || undefined)
+    .optional(),
+});
+
+// Content moderation
+
+export const moderationRuleSchema = z
+  .object({
+    kind: z.enum(MODERATION_RULE_KINDS, { error: "Invalid rule type" }),
+    pattern: z
+      .string({ error: "Pattern is required" })
+      .trim()
+      .min(1, "Pattern is required")
+      .max(
+        MODERATION_PATTERN_MAX_LENGTH,
+        `Pattern cannot exceed ${MODERATION_PATTERN_MAX_LENGTH} characters`,
+      ),
+    action: z.enum(MODERATION_ACTIONS, { error: "Invalid action" }),
+    note: z
+      .string()
+      .trim()
+      .max(
+        AUDIT_REASON_MAX_LENGTH,
+        `Note cannot exceed ${AUDIT_REASON_MAX_LENGTH} characters`,
+      )
+      .transform((value) => value || undefined)
+      .optional(),
+  })
+  .refine(
+    (rule) => {
+      if (rule.kind !== "regex") return true;
+      try {
+        new RegExp(rule.pattern, "iu");
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { error: "Invalid regular expression", path: ["pattern"] },
+  );
+
+export const moderationRuleIdParamSchema = z.object({
+  ruleId: idParam("rule ID"),
+});
+
+export const moderationQueueQuerySchema = z.object({
+  view: z
+    .enum(MODERATION_QUEUE_VIEWS, { error: "Invalid queue" })
+    .default("held"),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const resolveModerationSchema = z.object({
+  decision: z.enum(["approve", "reject"], { error: "Invalid decision" }),
+  reason: z
+    .string()
+    .trim()
+    .max(
+      AUDIT_REASON_MAX_LENGTH,
+      `Reason cannot exceed ${AUDIT_REASON_MAX_LENGTH} characters`,
+    )
+    .transform((value) => value || undefined)
+    .optional(),
+});
+
+// Rate limits
+
+const RATE_LIMIT_POLICY_NAMES = Object.keys(RATE_LIMIT_POLICIES) as [
+  RateLimitPolicyName,
+  ...RateLimitPolicyName[],
+];
+
+// Replaces every override at once; policies left out go back to defaults
+export const rateLimitOverridesSchema = z.partialRecord(
+  z.enum(RATE_LIMIT_POLICY_NAMES, { error: "Unknown rate limit" }),
+  z.object({
+    limit: z
+      .number({ error: "Limit is required" })
+      .int("Limit must be a whole number")
+      .positive("Limit must be at least 1"),
+    windowSeconds: z
+      .number({ error: "Window is required" })
+      .int("Window must be a whole number of seconds")
+      .min(
+        RATE_LIMIT_MIN_WINDOW_SECONDS,
+        `Window must be at least ${RATE_LIMIT_MIN_WINDOW_SECONDS} seconds`,
+      )
+      .max(
+        RATE_LIMIT_MAX_WINDOW_SECONDS,
+        `Window cannot exceed ${RATE_LIMIT_MAX_WINDOW_SECONDS} seconds`,
+      ),
+  }),
+);
+
+// Sessions
+
+// The session's publicId, never its token
+export const sessionIdParamSchema = z.object({
+  sessionId: z.uuid({ error: "Invalid session ID" }),
+});
+
+// Images
+
+// Served images can only be resized to the allow-listed widths; token is the
+// signature on URLs of images that aren't public
+export const imageQuerySchema = z.object({
+  w: z.coerce
+    .number({ error: "Invalid image width" })
+    .refine(
+      (width) => (IMAGE_TRANSFORM_WIDTHS as readonly number[]).includes(width),
+      { error: "Unsupported image width" },
+    )
+    .optional(),
+  fmt: z
+    .enum(IMAGE_TRANSFORM_FORMATS, { error: "Unsupported image format" })
+    .optional(),
+  token: z.string().max(200).optional(),
+});
+
+// Listing image order and cover
+
+// The listing's images in their new gallery order, every one exactly once
+export const reorderListingImagesSchema = z
+  .object({
+    imageIds: z
+      .array(z.number().int().positive())
+      .min(1, "List the listing's images")
+      .max(MAX_LISTING_IMAGES)
+      .refine((ids) => new Set(ids).size === ids.length, {
+        error: "Each image can only appear once",
+      }),
+    coverImageId: z.number().int().positive().optional(),
+  })
+  .refine(
+    (data) =>
+      data.coverImageId === undefined ||
+      data.imageIds.includes(data.coverImageId),
+    { error: "The cover must be one of the images", path: ["coverImageId"] },
+  );
+
+// Image upload sessions
+
+// Reserves one slot per file; each file is then sent on its own and the
+// session committed once they've all arrived
+export const createUploadSessionSchema = z.object({
+  files: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1, "File name is required").max(255),
+        size: z
+          .number()
+          .int()
+          .positive("File is empty")
+          .max(IMAGE_UPLOAD_MAX_BYTES, "Images can be up to 10MB"),
+      }),
+    )
+    .min(1, "Add at least one image")
+    .max(
+      MAX_LISTING_IMAGES,
+      `Maximum ${MAX_LISTING_IMAGES} images allowed per listing`,
+    ),
+});
+
+export const uploadSessionParamSchema = listingIdParamSchema.extend({
+  uploadId: z.uuid({ error: "Invalid upload ID" }),
+});
+
+export const uploadSlotParamSchema = uploadSessionParamSchema.extend({
+  slot: z.coerce
+    .number({ error: "Invalid slot" })
+    .int("Invalid slot")
+    .min(0, "Invalid slot")
+    .max(MAX_LISTING_IMAGES - 1, "Invalid slot"),
+});
+
+export const uploadPartParamSchema = uploadSlotParamSchema.extend({
+  partNumber: idParam("part number"),
+});
+
+// Saved searches
+
+export const savedSearchIdParamSchema = z.object({
+  savedSearchId: idParam("saved search ID"),
+});
+
+// Favorites
+
+export const addFavoriteSchema = z.object({
+  listingId: z
+    .number({ error: "Invalid listing ID" })
+    .int("Invalid listing ID")
+    .positive("Invalid listing ID"),
+});
+
+// Conversations
+
+const messageBody = z
+  .string({ error: "Message cannot be empty" })
+  .trim()
+  .min(1, "Message cannot be empty")
+  .max(
+    MESSAGE_MAX_LENGTH,
+    `Message must be ${MESSAGE_MAX_LENGTH} characters or less`,
+  );
+
+// The first message is optional; without it the thread is only opened
+export const startConversationSchema = addFavoriteSchema.extend({
+  message: messageBody.optional(),
+});
+
+export const sendMessageSchema = z.object({
+  body: messageBody,
+});
+
+export const conversationIdParamSchema = z.object({
+  conversationId: idParam("conversation ID"),
+});
+
+// Older messages are paged by the ID of the oldest one already loaded
+export const conversationQuerySchema = z.object({
+  before: idParam("before parameter").optional(),
+});
+
+// Reviews
+
+export const sellerReviewParamSchema = telegramIdParamSchema.extend({
+  reviewId: idParam("review ID"),
+});
+
+export type CreateListingInput = z.infer<typeof createListingSchema>;
+export type UpdateListingInput = z.infer<typeof updateListingSchema>;
+export type ListingIdParam = z.infer<typeof listingIdParamSchema>;
+export type ListingImageParam = z.infer<typeof listingImageParamSchema>;
+export type ReorderListingImagesInput = z.infer<
+  typeof reorderListingImagesSchema
+>;
+export type UserIdParam = z.infer<typeof userIdParamSchema>;
+export type ListingsQuery = z.infer<typeof listingsQuerySchema>;
+export type BumpListingInput = z.infer<typeof bumpListingSchema>;
+export type ListingStatusInput = z.infer<typeof listingStatusSchema>;
+export type ListingEventInput = z.infer<typeof listingEventSchema>;
+export type ArchiveListingInput = z.infer<typeof archiveListingSchema>;
+export type PostIdParam = z.infer<typeof postIdParamSchema>;
+export type PaymentIdParam = z.infer<typeof paymentIdParamSchema>;
+export type MakePremiumInput = z.infer<typeof makePremiumSchema>;
+export type RefundPaymentInput = z.infer<typeof refundPaymentSchema>;
+export type PaginationQuery = z.infer<typeof paginationQuerySchema>;
+export type TelegramIdParam = z.infer<typeof telegramIdParamSchema>;
+export type ReviewIdParam = z.infer<typeof reviewIdParamSchema>;
+export type BanUserInput = z.infer<typeof banUserSchema>;
+export type AppealIdParam = z.infer<typeof appealIdParamSchema>;
+export type AppealsQuery = z.infer<typeof appealsQuerySchema>;
+export type ResolveAppealInput = z.infer<typeof resolveAppealSchema>;
+export type CronRunsQuery = z.infer<typeof cronRunsQuerySchema>;
+export type StorageQuery = z.infer<typeof storageQuerySchema>;
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+export type GrantRoleInput = z.infer<typeof grantRoleSchema>;
+export type CreateReportInput = z.infer<typeof createReportSchema>;
+export type ReportQueueQuery = z.infer<typeof reportQueueQuerySchema>;
+export type ReportTargetParam = z.infer<typeof reportTargetParamSchema>;
+export type ResolveReportsInput = z.infer<typeof resolveReportsSchema>;
+export type ModerationRuleInput = z.infer<typeof moderationRuleSchema>;
+export type ModerationRuleIdParam = z.infer<typeof moderationRuleIdParamSchema>;
+export type ModerationQueueQuery = z.infer<typeof moderationQueueQuerySchema>;
+export type ResolveModerationInput = z.infer<typeof resolveModerationSchema>;
+export type RateLimitOverrides = z.infer<typeof rateLimitOverridesSchema>;
+export type SessionIdParam = z.infer<typeof sessionIdParamSchema>;
+export type ImageQuery = z.infer<typeof imageQuerySchema>;
+export type CreateUploadSessionInput = z.infer<
+  typeof createUploadSessionSchema
+>;
+export type UploadSessionParam = z.infer<typeof uploadSessionParamSchema>;
+export type UploadSlotParam = z.infer<typeof uploadSlotParamSchema>;
+export type UploadPartParam = z.infer<typeof uploadPartParamSchema>;
+export type SavedSearchIdParam = z.infer<typeof savedSearchIdParamSchema>;
+export type AddFavoriteInput = z.infer<typeof addFavoriteSchema>;
+export type StartConversationInput = z.infer<typeof startConversationSchema>;
+export type SendMessageInput = z.infer<typeof sendMessageSchema>;
+export type ConversationIdParam = z.infer<typeof conversationIdParamSchema>;
+export type ConversationQuery = z.infer<typeof conversationQuerySchema>;
+export type SellerReviewParam = z.infer<typeof sellerReviewParamSchema>;